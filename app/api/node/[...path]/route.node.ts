@@ -0,0 +1,11 @@
+import { dispatch } from "@/lib/api-routes/dispatch";
+
+// Only built when next.config.ts adds the "node.ts" page extension, i.e. for self-hosted builds with
+// LOCAL_STORAGE_ROOT set; the local storage driver needs the Node.js file system APIs.
+export const runtime = "nodejs";
+
+export const GET = dispatch;
+export const POST = dispatch;
+export const PUT = dispatch;
+export const PATCH = dispatch;
+export const DELETE = dispatch;
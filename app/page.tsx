@@ -9,6 +9,22 @@ import AudioPreviewPlayer from "@/components/AudioPreviewPlayer";
 import LocalMediaOpenPanel from "@/components/LocalMediaOpenPanel";
 import OfficePreviewFrame from "@/components/OfficePreviewFrame";
 import TextPreviewPanel from "@/components/TextPreviewPanel";
+import BackgroundJobRow, { isActiveBackgroundJob, type BackgroundJob } from "@/components/BackgroundJobRow";
+import BucketSettingsModal from "@/components/BucketSettingsModal";
+import KeyRotationPanel from "@/components/KeyRotationPanel";
+import ObjectMetadataEditor, { type ObjectHttpMetadata } from "@/components/ObjectMetadataEditor";
+import ObjectVersionsSection, { type ObjectVersionView } from "@/components/ObjectVersionsSection";
+import SearchSnippet from "@/components/SearchSnippet";
+import SearchFilterControl, {
+  DEFAULT_SEARCH_FILTERS,
+  SEARCH_MATCH_MODE_OPTIONS,
+  hasSearchFilterCriteria,
+  readSearchLink,
+  writeSearchLink,
+  type SearchFilters,
+  type SearchLink,
+} from "@/components/SearchFilterControl";
+import { formatDateTime, readJsonSafe, type ConfirmDialogOptions, type PanelApi } from "@/components/panel-api";
 import mainLogo from "../landing page/new logo 1.png";
 import { toChineseErrorMessage } from "@/lib/error-zh";
 import { FILE_ICON_PRELOAD_SRCS, getFileIconSrc } from "@/lib/file-icons";
@@ -28,6 +44,7 @@ import {
 } from "@/lib/media-preview";
 import { buildPhotopeaPreviewUrl, isPhotopeaSupported } from "@/lib/photopea";
 import { getPreviewHintParts } from "@/lib/preview-hints";
+import { createTextMatcher, splitQueryTokens } from "@/lib/text-match";
 import { LEGAL_DOCS, LEGAL_TAB_LABELS, LEGAL_TAB_ORDER, type LegalTabKey } from "@/lib/legal-docs";
 import { 
   Folder, Trash2, Upload, RefreshCw, 
@@ -40,7 +57,7 @@ import {
   Globe, BadgeInfo, Mail, BookOpen,
   FolderPlus, UserCircle2,
   HardDrive, ArrowUpDown, Share2, LayoutGrid, List as ListIcon,
-  Users, Crown, UserPlus, UserX, KeyRound, CheckCircle2, Settings2, FileSpreadsheet, AlertTriangle, EllipsisVertical, Lock, Star, ArchiveRestore, ClipboardList, CalendarDays,
+  Users, Crown, UserPlus, UserX, KeyRound, CheckCircle2, Settings2, FileSpreadsheet, AlertTriangle, EllipsisVertical, Lock, Star, Archive, ArchiveRestore, ClipboardList, CalendarDays,
   Check, ListFilter, Maximize2, Minimize2,
   MessageSquare, SendHorizontal, Bell, Megaphone, Paperclip, Pin, PinOff, UserRoundSearch, FileIcon, UsersRound, Quote, Forward, Flag,
 } from "lucide-react";
@@ -53,13 +70,6 @@ const OTP_RESEND_COOLDOWN_MS = 60_000;
 type ToastKind = "success" | "error" | "info";
 type ToastPayload = { kind: ToastKind; message: string; detail?: string };
 type ToastState = ToastPayload | string | null;
-type ConfirmDialogOptions = {
-  title: string;
-  description?: React.ReactNode;
-  confirmLabel?: string;
-  cancelLabel?: string;
-  danger?: boolean;
-};
 type AuditLogView = {
   id: string;
   bucketId: string;
@@ -137,6 +147,9 @@ const PaginationBar = ({
   onPageChange,
   onPageSizeChange,
   alwaysVisible = false,
+  hasMore = false,
+  loadingMore = false,
+  onRetryLoadMore,
 }: {
   page: number;
   pageSize: number;
@@ -144,6 +157,10 @@ const PaginationBar = ({
   onPageChange: (page: number) => void;
   onPageSizeChange: (pageSize: number) => void;
   alwaysVisible?: boolean;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  // Set while the last batch failed to load; the next batch is then only fetched on request.
+  onRetryLoadMore?: () => void;
 }) => {
   const totalPages = Math.max(1, Math.ceil(total / pageSize));
   const [openMenu, setOpenMenu] = useState<"size" | "page" | null>(null);
@@ -156,10 +173,27 @@ const PaginationBar = ({
     document.addEventListener("pointerdown", close);
     return () => document.removeEventListener("pointerdown", close);
   }, [openMenu]);
-  if (!alwaysVisible && total <= PAGE_SIZE_OPTIONS[0]) return null;
+  if (!alwaysVisible && !hasMore && total <= PAGE_SIZE_OPTIONS[0]) return null;
   return (
     <div ref={rootRef} className="flex shrink-0 flex-wrap items-center justify-between gap-1.5 border-t border-gray-100 bg-white px-3 py-1 text-xs text-gray-500 dark:border-gray-800 dark:bg-gray-900 dark:text-gray-400 md:px-4">
-      <span className="tabular-nums">共 {total} 项</span>
+      <span className="inline-flex items-center gap-1.5 tabular-nums">
+        共 {total}{hasMore ? "+" : ""} 项
+        {loadingMore ? (
+          <span className="inline-flex items-center gap-1 text-gray-400 dark:text-gray-500">
+            <RefreshCw className="h-3 w-3 animate-spin" />
+            正在加载更多
+          </span>
+        ) : onRetryLoadMore ? (
+          <button
+            type="button"
+            onClick={onRetryLoadMore}
+            className="inline-flex items-center gap-1 rounded-md px-1.5 font-medium text-blue-600 hover:bg-blue-50 dark:text-blue-300 dark:hover:bg-blue-950/40"
+          >
+            <RefreshCw className="h-3 w-3" />
+            加载失败，重试
+          </button>
+        ) : null}
+      </span>
       <div className="flex items-center gap-0.5">
         <div className="relative">
           <button
@@ -728,16 +762,45 @@ type Bucket = {
   transferMode?: "presigned" | "proxy" | "presigned_needs_bucket_name";
   bucketName?: string;
   accountId?: string;
+  driver?: StorageDriver;
+  endpoint?: string;
+  region?: string;
+  jurisdiction?: R2Jurisdiction;
+  maxRetries?: number;
+  defaultStorageClass?: StorageClass;
+  versioningEnabled?: boolean;
+  versionRetention?: number;
+  proxyCacheControl?: string;
+  edgeCacheSeconds?: number;
+  contentIndexEnabled?: boolean;
   isDefault?: boolean;
   publicBaseUrl?: string;
   customBaseUrl?: string;
 };
+type StorageDriver = "r2" | "s3" | "local";
+type R2Jurisdiction = "default" | "eu" | "fedramp";
+type StorageClass = "STANDARD" | "STANDARD_IA";
+const STORAGE_CLASS_LABELS: Record<StorageClass, string> = { STANDARD: "标准", STANDARD_IA: "低频访问" };
+const DEFAULT_VERSION_RETENTION = 10;
+const MAX_VERSION_RETENTION = 100;
+const DEFAULT_PROXY_CACHE_CONTROL = "private, no-cache";
+const MAX_EDGE_CACHE_SECONDS = 30 * 24 * 3600;
+type R2LocationHint = "wnam" | "enam" | "weur" | "eeur" | "apac" | "oc";
+const R2_LOCATION_HINT_OPTIONS: { value: R2LocationHint; label: string }[] = [
+  { value: "wnam", label: "北美西部 (wnam)" },
+  { value: "enam", label: "北美东部 (enam)" },
+  { value: "weur", label: "西欧 (weur)" },
+  { value: "eeur", label: "东欧 (eeur)" },
+  { value: "apac", label: "亚太 (apac)" },
+  { value: "oc", label: "大洋洲 (oc)" },
+];
 type FileItem = {
   name: string;
   key: string;
   type: "folder" | "file";
   size?: number;
   lastModified?: string;
+  storageClass?: StorageClass;
   locked?: boolean;
   unlocked?: boolean;
   isFavorite?: boolean;
@@ -748,6 +811,14 @@ type FileItem = {
   deletedByEmail?: string;
   deletedAt?: string;
   storageKey?: string;
+  // Relevance of a text-search hit, higher first.
+  score?: number;
+  // Bucket of a result from a search across all buckets.
+  bucketId?: string;
+  bucketLabel?: string;
+  // Text around a content-search hit and the line of the file's text it is on.
+  snippet?: string;
+  line?: number;
 };
 type MoveTreeNodeState = {
   folders: FileItem[];
@@ -781,7 +852,17 @@ type MessageChannelContextMenuState = {
   y: number;
 };
 type ObjectPropertiesTab = "general" | "file" | "activity";
-type FileSortKey = "name" | "size" | "type" | "time";
+type ObjectMetadataView = {
+  key: string;
+  size: number | null;
+  etag: string | null;
+  lastModified: string | null;
+  storageClass: StorageClass | null;
+  httpMetadata: ObjectHttpMetadata;
+  customMetadata: Record<string, string>;
+};
+type BucketCorsCheck = { ok: boolean; origin: string; gaps: string[]; hint?: string };
+type FileSortKey = "name" | "size" | "type" | "time" | "relevance";
 type FileSortDirection = "asc" | "desc";
 type FileViewMode = "list" | "grid";
 type FolderLockViewLite = {
@@ -828,9 +909,20 @@ type S3BucketNameCheckMap = Record<string, S3BucketNameCheck>;
 type TransferModeOverride = "auto" | "presigned" | "proxy";
 type TransferModeOverrideMap = Record<string, TransferModeOverride>;
 type BucketFormState = {
+  driver: StorageDriver;
   bucketLabel: string;
   bucketName: string;
   accountId: string;
+  endpoint: string;
+  region: string;
+  jurisdiction: R2Jurisdiction;
+  maxRetries: string;
+  defaultStorageClass: "" | StorageClass;
+  versioningEnabled: boolean;
+  versionRetention: string;
+  proxyCacheControl: string;
+  edgeCacheSeconds: string;
+  contentIndexEnabled: boolean;
   accessKeyId: string;
   secretAccessKey: string;
   publicBaseUrl: string;
@@ -839,6 +931,10 @@ type BucketFormState = {
 type BucketFormErrors = {
   bucketName?: string;
   accountId?: string;
+  endpoint?: string;
+  maxRetries?: string;
+  versionRetention?: string;
+  edgeCacheSeconds?: string;
   accessKeyId?: string;
   secretAccessKey?: string;
 };
@@ -854,11 +950,18 @@ type PreviewState =
       error?: string;
       size?: number;
       lastModified?: string;
+      // Opened from a content-search hit: the line to scroll to, the terms to mark, and whether the text is
+      // the one extracted for the content index (Word, Excel, PDF) rather than the file itself.
+      hit?: { line: number; terms: string[]; extracted: boolean };
     };
 type PreviewKind = NonNullable<PreviewState>["kind"];
 
-type UploadStatus = "queued" | "uploading" | "paused" | "done" | "error" | "canceled";
-const isActiveUploadStatus = (status: UploadStatus) => status === "queued" || status === "uploading" || status === "paused";
+// "conflict" waits for the user to keep both / replace / skip after the server rejected a conditional write (412).
+type UploadStatus = "queued" | "uploading" | "paused" | "conflict" | "done" | "error" | "canceled";
+const isActiveUploadStatus = (status: UploadStatus) =>
+  status === "queued" || status === "uploading" || status === "paused" || status === "conflict";
+type UploadWriteCondition = { ifNoneMatch: "*" } | { ifMatch: string };
+type UploadConflictChoice = "keepBoth" | "replace" | "skip";
 type MultipartUploadState = {
   uploadId: string;
   partSize: number;
@@ -871,6 +974,10 @@ type UploadTask = {
   key: string;
   resumeKey?: string;
   multipart?: MultipartUploadState;
+  // Unset means the bucket's default storage class.
+  storageClass?: StorageClass;
+  // Unset overwrites unconditionally (only after the user chose "replace" without a known ETag).
+  onlyIf?: UploadWriteCondition;
   startedAt?: number;
   loaded: number;
   speedBps: number;
@@ -881,8 +988,11 @@ type FileListCacheEntry = {
   items: FileItem[];
   updatedAt: number;
   lockContext?: { currentPrefixLocked: boolean; prefix?: string; hint?: string | null };
+  cursor?: string | null;
 };
 type FileListCacheMap = Record<string, FileListCacheEntry>;
+type MoveConflictPolicy = "overwrite" | "skip" | "rename";
+type MoveConflictItem = { sourceKey: string; targetKey: string };
 type ShareRecord = {
   id: string;
   ownerUserId?: string;
@@ -970,6 +1080,7 @@ type PermissionKey =
   | "bucket.read"
   | "bucket.add"
   | "bucket.edit"
+  | "bucket.provision"
   | "object.list"
   | "object.read"
   | "object.upload"
@@ -1124,13 +1235,6 @@ const formatDateYmd = (value?: string) => {
   return `${year}/${month}/${day}`;
 };
 
-const formatDateTime = (value?: string | null) => {
-  if (!value) return "-";
-  const date = new Date(value);
-  if (Number.isNaN(date.getTime())) return "-";
-  return date.toLocaleString();
-};
-
 const formatStandardDateTime = (value?: string | null) => {
   if (!value) return "-";
   const date = new Date(value);
@@ -1256,6 +1360,7 @@ const PERMISSION_OVERVIEW_OPTIONS: { key: PermissionKey; label: string }[] = [
   { key: "object.search", label: "搜索文件" },
   { key: "bucket.add", label: "添加存储桶" },
   { key: "bucket.edit", label: "编辑存储桶" },
+  { key: "bucket.provision", label: "创建/删除远端存储桶" },
   { key: "object.upload", label: "上传文件" },
   { key: "object.mkdir", label: "新建文件夹" },
   { key: "object.rename", label: "重命名" },
@@ -1422,6 +1527,20 @@ const MAX_UPLOAD_TASKS = 50;
 const getResumeKey = (bucket: string, key: string, file: File) =>
   `${bucket}|${key}|${file.size}|${file.lastModified}`;
 
+const readErrorStatus = (error: unknown) => Number((error as { status?: unknown })?.status ?? NaN);
+
+// "a.txt" -> "a (1).txt" -> "a (2).txt"; matches the server's rename-on-conflict naming.
+const nextKeepBothKey = (key: string) => {
+  const slash = key.lastIndexOf("/");
+  const dir = key.slice(0, slash + 1);
+  const name = key.slice(slash + 1);
+  const dot = name.lastIndexOf(".");
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : "";
+  const numbered = stem.match(/^(.*) \((\d+)\)$/);
+  return numbered ? `${dir}${numbered[1]} (${Number(numbered[2]) + 1})${ext}` : `${dir}${stem} (1)${ext}`;
+};
+
 const toPrefixFromPath = (currentPath: string[]) => (currentPath.length > 0 ? `${currentPath.join("/")}/` : "");
 
 const MOVE_TREE_ROOT_KEY = "/";
@@ -1507,7 +1626,11 @@ const FILE_SORT_GROUPS: FileSortOption[][] = [
   ],
 ];
 
+// Only offered while a text search is active.
+const RELEVANCE_SORT_OPTION: FileSortOption = { key: "relevance", direction: "desc", label: "相关度" };
+
 const getFileSortLabel = (key: FileSortKey, direction: FileSortDirection) => {
+  if (key === "relevance") return RELEVANCE_SORT_OPTION.label;
   if (key === "time") return direction === "desc" ? "时间（最新）" : "时间（最早）";
   if (key === "size") return direction === "asc" ? "大小（小-大）" : "大小（大-小）";
   if (key === "type") return direction === "asc" ? "类型（A-Z）" : "类型（Z-A）";
@@ -1546,6 +1669,7 @@ const SortControl = ({
   onChange,
   compact = false,
   small = false,
+  relevance = false,
 }: {
   disabled: boolean;
   sortKey: FileSortKey;
@@ -1553,6 +1677,7 @@ const SortControl = ({
   onChange: (key: FileSortKey, direction: FileSortDirection) => void;
   compact?: boolean;
   small?: boolean;
+  relevance?: boolean;
 }) => {
   const [open, setOpen] = useState(false);
   const rootRef = useRef<HTMLDivElement>(null);
@@ -1586,7 +1711,7 @@ const SortControl = ({
   const menu = (
     <div className="w-48 overflow-hidden rounded-xl border border-gray-200 bg-white shadow-xl dark:border-slate-700/80 dark:bg-slate-900/95 dark:shadow-black/40 dark:ring-1 dark:ring-white/5">
       <div className="px-3 py-2 text-xs font-normal text-gray-500 dark:text-slate-400">排序方式</div>
-      {FILE_SORT_GROUPS.map((group, groupIndex) => (
+      {(relevance ? [[RELEVANCE_SORT_OPTION], ...FILE_SORT_GROUPS] : FILE_SORT_GROUPS).map((group, groupIndex) => (
         <div
           key={`sort-group-${groupIndex}`}
           className={groupIndex === 0 ? "" : "border-t border-gray-100 dark:border-slate-700/70"}
@@ -1947,6 +2072,9 @@ export default function R2Admin() {
   const [path, setPath] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [fileListLoading, setFileListLoading] = useState(false);
+  const [fileListCursor, setFileListCursor] = useState<string | null>(null);
+  const [fileListLoadingMore, setFileListLoadingMore] = useState(false);
+  const [fileListFailedCursor, setFileListFailedCursor] = useState<string | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<"checking" | "connected" | "unbound" | "error">("checking");
   const [connectionDetail, setConnectionDetail] = useState<string | null>(null);
   const [fileListError, setFileListError] = useState<string | null>(null);
@@ -1968,7 +2096,12 @@ export default function R2Admin() {
   const [uploadPanelOpen, setUploadPanelOpen] = useState(false);
   const [uploadPanelPosition, setUploadPanelPosition] = useState<{ left: number; top: number; width: number } | null>(null);
   const [uploadPanelTab, setUploadPanelTab] = useState<"active" | "completed">("active");
+  const [uploadStorageClass, setUploadStorageClass] = useState<"" | StorageClass>("");
   const [uploadTasks, setUploadTasks] = useState<UploadTask[]>([]);
+  const [uploadConflictApplyAll, setUploadConflictApplyAll] = useState(false);
+  const [backgroundJobs, setBackgroundJobs] = useState<BackgroundJob[]>([]);
+  const backgroundJobsRef = useRef<BackgroundJob[]>([]);
+  const backgroundJobRunnerRef = useRef(false);
   const [uploadQueuePaused, setUploadQueuePaused] = useState(false);
   const [dragUploadActive, setDragUploadActive] = useState(false);
   const dragUploadDepthRef = useRef(0);
@@ -1978,8 +2111,32 @@ export default function R2Admin() {
   const [searchResults, setSearchResults] = useState<FileItem[]>([]);
   const [searchCursor, setSearchCursor] = useState<string | null>(null);
   const [searchLoading, setSearchLoading] = useState(false);
+  const [searchLoadingMore, setSearchLoadingMore] = useState(false);
+  // Query string of the search on screen, so a late "load more" cannot append to a newer search.
+  const searchParamsRef = useRef("");
+  // Whether the last search was answered from the object index, and when that index was last reconciled.
+  // A search across all buckets reports how many buckets it covered and which ones failed instead.
+  const [searchIndexInfo, setSearchIndexInfo] = useState<{
+    indexed?: boolean;
+    indexedAt?: string;
+    buckets?: number;
+    failedBuckets?: string[];
+  } | null>(null);
+  const [searchReindexing, setSearchReindexing] = useState(false);
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(DEFAULT_SEARCH_FILTERS);
+  const [searchFilterOpen, setSearchFilterOpen] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  // Search link opened from the address bar, applied once its bucket is selected.
+  const pendingSearchLinkRef = useRef<SearchLink | null>(null);
+  const globalSearchActive = Boolean(searchTerm.trim()) || hasSearchFilterCriteria(searchFilters);
+  const searchMatchPlaceholder = SEARCH_MATCH_MODE_OPTIONS.find((option) => option.value === searchFilters.match)?.placeholder ?? "";
   const [fileSortKey, setFileSortKey] = useState<FileSortKey>("name");
   const [fileSortDirection, setFileSortDirection] = useState<FileSortDirection>("asc");
+  // Plain-text searches are ranked by relevance; the sort used before the search returns once it is cleared.
+  const hasSearchText = Boolean(searchTerm.trim()) && searchFilters.match === "substring";
+  const hasContentSearch = Boolean(searchTerm.trim()) && searchFilters.match === "content";
+  const searchTokens = useMemo(() => splitQueryTokens(searchTerm), [searchTerm]);
+  const sortBeforeSearchRef = useRef<{ key: FileSortKey; direction: FileSortDirection } | null>(null);
   const [fileViewMode, setFileViewMode] = useState<FileViewMode>("list");
   const [filePage, setFilePage] = useState(1);
   const [filePageSize, setFilePageSize] = useState(20);
@@ -2027,10 +2184,13 @@ export default function R2Admin() {
   const [moveMode, setMoveMode] = useState<"move" | "copy">("move");
   const [moveTarget, setMoveTarget] = useState("");
   const [moveSources, setMoveSources] = useState<string[]>([]);
+  const [moveTargetBucket, setMoveTargetBucket] = useState<string | null>(null);
+  const moveTreeBucketRef = useRef<string | null>(null);
   const [moveBrowserPath, setMoveBrowserPath] = useState<string[]>([]);
   const [moveTreeNodes, setMoveTreeNodes] = useState<Record<string, MoveTreeNodeState>>({});
   const [moveTreeExpanded, setMoveTreeExpanded] = useState<Set<string>>(() => new Set([MOVE_TREE_ROOT_KEY]));
   const [moveSubmitting, setMoveSubmitting] = useState(false);
+  const [moveConflicts, setMoveConflicts] = useState<MoveConflictItem[] | null>(null);
 
   const [mkdirOpen, setMkdirOpen] = useState(false);
   const [mkdirName, setMkdirName] = useState("");
@@ -2180,8 +2340,12 @@ export default function R2Admin() {
   const [platformConsoleOpen, setPlatformConsoleOpen] = useState(false);
   const [platformSummary, setPlatformSummary] = useState<PlatformSummary | null>(null);
   const [platformLoading, setPlatformLoading] = useState(false);
+  const [platformRefreshKey, setPlatformRefreshKey] = useState(0);
 
   const [deleteOpen, setDeleteOpen] = useState(false);
+  const [storageClassOpen, setStorageClassOpen] = useState(false);
+  const [storageClassChoice, setStorageClassChoice] = useState<StorageClass>("STANDARD_IA");
+  const [storageClassSubmitting, setStorageClassSubmitting] = useState(false);
   const [logoutOpen, setLogoutOpen] = useState(false);
   const [confirmDialog, setConfirmDialog] = useState<ConfirmDialogOptions | null>(null);
   const [bucketHintOpen, setBucketHintOpen] = useState(false);
@@ -2198,6 +2362,9 @@ export default function R2Admin() {
   const [deleteAccountOpen, setDeleteAccountOpen] = useState(false);
   const [bucketDeleteOpen, setBucketDeleteOpen] = useState(false);
   const [bucketDeleteTargetId, setBucketDeleteTargetId] = useState<string | null>(null);
+  const [bucketDeleteRemote, setBucketDeleteRemote] = useState(false);
+  const [bucketDeleteEmpty, setBucketDeleteEmpty] = useState(false);
+  const [bucketDeleteConfirmText, setBucketDeleteConfirmText] = useState("");
   const [auditLogOpen, setAuditLogOpen] = useState(false);
   const [auditLogs, setAuditLogs] = useState<AuditLogView[]>([]);
   const [auditLogSelectedIds, setAuditLogSelectedIds] = useState<Set<string>>(new Set());
@@ -2217,6 +2384,11 @@ export default function R2Admin() {
   const [auditActorDetailLog, setAuditActorDetailLog] = useState<AuditLogView | null>(null);
   const [objectActivityLogs, setObjectActivityLogs] = useState<AuditLogView[]>([]);
   const [objectActivityLoading, setObjectActivityLoading] = useState(false);
+  const [objectMetadata, setObjectMetadata] = useState<ObjectMetadataView | null>(null);
+  const [objectMetadataLoading, setObjectMetadataLoading] = useState(false);
+  const [objectMetadataEditing, setObjectMetadataEditing] = useState(false);
+  const [objectVersionsRefreshKey, setObjectVersionsRefreshKey] = useState(0);
+  const [bucketSettingsId, setBucketSettingsId] = useState<string | null>(null);
 
   const uploadTasksRef = useRef<UploadTask[]>([]);
   const uploadProcessingRef = useRef(false);
@@ -2231,6 +2403,7 @@ export default function R2Admin() {
     dateTo: "",
   });
   const fileListRequestSeqRef = useRef(0);
+  const fileListLoadingMoreRef = useRef(false);
   const lastFileSpaceFetchRef = useRef<FileSpace>("files");
   const confirmDialogResolveRef = useRef<((confirmed: boolean) => void) | null>(null);
   const meInfoLoadingRef = useRef(false);
@@ -2248,7 +2421,8 @@ export default function R2Admin() {
   const messageChannelContextMenuRef = useRef<HTMLDivElement>(null);
   const messageNearBottomRef = useRef(true);
   const messageRenderedPeerRef = useRef("");
-  const messageLocateTargetRef = useRef<{ bucketId: string; path: string[]; target: FileItem } | null>(null);
+  // Item to select once the files view has switched to its bucket and folder (message attachments, search results).
+  const pendingLocateTargetRef = useRef<{ bucketId: string; path: string[]; target: FileItem } | null>(null);
   const messagesLoadingRef = useRef(false);
   const recycleDateRangeRef = useRef<HTMLDivElement>(null);
   const [accountCenterRightHeight, setAccountCenterRightHeight] = useState<number | null>(null);
@@ -2400,15 +2574,28 @@ export default function R2Admin() {
   const [showBucketSecretAccessKey, setShowBucketSecretAccessKey] = useState(false);
 
   const [bucketForm, setBucketForm] = useState<BucketFormState>({
+    driver: "r2",
     bucketLabel: "",
     bucketName: "",
     accountId: "",
+    endpoint: "",
+    region: "",
+    jurisdiction: "default",
+    maxRetries: "",
+    defaultStorageClass: "",
+    versioningEnabled: false,
+    versionRetention: "",
+    proxyCacheControl: "",
+    edgeCacheSeconds: "",
+    contentIndexEnabled: false,
     accessKeyId: "",
     secretAccessKey: "",
     publicBaseUrl: "",
     customBaseUrl: "",
   });
   const [bucketFormErrors, setBucketFormErrors] = useState<BucketFormErrors>({});
+  const [bucketCreateRemote, setBucketCreateRemote] = useState(false);
+  const [bucketLocationHint, setBucketLocationHint] = useState<"" | R2LocationHint>("");
 
   const supabaseUrl = String(process.env.NEXT_PUBLIC_SUPABASE_URL ?? "").replace(/\/$/, "");
   const supabaseAnonKey = String(
@@ -2806,6 +2993,27 @@ export default function R2Admin() {
     };
   }, [messageDateRangeOpen]);
 
+  useEffect(() => {
+    if (!searchFilterOpen) return;
+    // The desktop and mobile search bars each render their own panel, so the check is by attribute.
+    const onDown = (e: Event) => {
+      const target = e.target as Element | null;
+      if (target?.closest?.("[data-search-filter]")) return;
+      setSearchFilterOpen(false);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setSearchFilterOpen(false);
+    };
+    document.addEventListener("mousedown", onDown);
+    document.addEventListener("touchstart", onDown, { passive: true });
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("mousedown", onDown);
+      document.removeEventListener("touchstart", onDown);
+      document.removeEventListener("keydown", onKeyDown);
+    };
+  }, [searchFilterOpen]);
+
   useEffect(() => {
     if (!recycleDateRangeOpen) return;
     const onDown = (e: Event) => {
@@ -3089,18 +3297,6 @@ export default function R2Admin() {
     };
   }, [auth]);
 
-  const readJsonSafe = async (res: Response) => {
-    try {
-      return await res.clone().json();
-    } catch {
-      const text = await res
-        .clone()
-        .text()
-        .catch(() => "");
-      return text ? { error: text } : {};
-    }
-  };
-
   const openLegalModal = (tab: LegalTabKey) => {
     setLegalActiveTab(tab);
     setLegalModalOpen(true);
@@ -3124,6 +3320,9 @@ export default function R2Admin() {
     return await fetchWithAuth(url, options, false);
   };
 
+  // Handed to the panels in components/ that call the API themselves.
+  const panelApi: PanelApi = { fetchWithAuth: (url, options) => fetchWithAuth(url, options), confirm: openConfirmDialog, toast: setToast };
+
   const permissionSet = useMemo(() => new Set<PermissionKey>(meInfo?.permissions ?? []), [meInfo?.permissions]);
   const hasPermission = (key: PermissionKey) => permissionSet.has(key);
   const canManageFolderLocks = meInfo?.profile.role === "admin" || meInfo?.profile.role === "super_admin";
@@ -3131,6 +3330,7 @@ export default function R2Admin() {
   const displayName = meInfo?.profile.displayName || auth?.email?.split("@")[0] || "未命名成员";
   const canAddBucket = hasPermission("bucket.add");
   const canEditBucket = hasPermission("bucket.edit");
+  const canProvisionBucket = hasPermission("bucket.provision");
   const canUploadObject = hasPermission("object.upload");
   const canRenameObject = hasPermission("object.rename");
   const canMoveCopyObject = hasPermission("object.move_copy");
@@ -3138,9 +3338,11 @@ export default function R2Admin() {
   const canDeleteObject = hasPermission("object.delete");
   const canManageShare = hasPermission("share.manage");
   const canViewUsage = hasPermission("usage.read");
+  const canSearchObjects = hasPermission("object.search");
   const canReadTeamMembers = hasPermission("team.member.read");
   const canViewTeamConsole = Boolean(meInfo?.features.canOpenTeamConsole);
   const canViewPlatformConsole = Boolean(meInfo?.features.canOpenPlatformConsole);
+  const canManagePlatformKeys = hasPermission("sys.team.manage");
   const canCreatePermissionRequest = hasPermission("team.permission.request.create");
   const canReviewPermissionRequest = hasPermission("team.permission.request.review");
   const canOpenPermissionOverview = meInfo?.profile.role === "member";
@@ -3852,9 +4054,20 @@ export default function R2Admin() {
 
   const resetBucketForm = () =>
     setBucketForm({
+      driver: "r2",
       bucketLabel: "",
       bucketName: "",
       accountId: "",
+      endpoint: "",
+      region: "",
+      jurisdiction: "default",
+      maxRetries: "",
+      defaultStorageClass: "",
+      versioningEnabled: false,
+      versionRetention: "",
+      proxyCacheControl: "",
+      edgeCacheSeconds: "",
+      contentIndexEnabled: false,
       accessKeyId: "",
       secretAccessKey: "",
       publicBaseUrl: "",
@@ -3864,20 +4077,49 @@ export default function R2Admin() {
   const handleSaveBucket = async () => {
     const isEditing = Boolean(editingBucketId);
     const payload = {
+      driver: bucketForm.driver,
       bucketLabel: bucketForm.bucketLabel.trim(),
       bucketName: bucketForm.bucketName.trim(),
       accountId: bucketForm.accountId.trim(),
+      endpoint: bucketForm.driver === "local" ? "" : bucketForm.endpoint.trim(),
+      region: bucketForm.driver === "s3" ? bucketForm.region.trim() : "",
+      jurisdiction: bucketForm.driver === "r2" ? bucketForm.jurisdiction : "default",
+      maxRetries: bucketForm.driver === "local" || !bucketForm.maxRetries.trim() ? null : Number(bucketForm.maxRetries.trim()),
+      defaultStorageClass: bucketForm.driver === "local" || !bucketForm.defaultStorageClass ? null : bucketForm.defaultStorageClass,
+      versioningEnabled: bucketForm.versioningEnabled,
+      versionRetention: bucketForm.versionRetention.trim() ? Number(bucketForm.versionRetention.trim()) : null,
+      proxyCacheControl: bucketForm.proxyCacheControl.trim() || null,
+      edgeCacheSeconds: bucketForm.edgeCacheSeconds.trim() ? Number(bucketForm.edgeCacheSeconds.trim()) : null,
+      contentIndexEnabled: bucketForm.contentIndexEnabled,
       accessKeyId: bucketForm.accessKeyId.trim(),
       secretAccessKey: bucketForm.secretAccessKey.trim(),
       publicBaseUrl: bucketForm.publicBaseUrl.trim(),
       customBaseUrl: bucketForm.customBaseUrl.trim(),
       isDefault: !isEditing && buckets.length === 0,
     };
+    const createRemote = !isEditing && canProvisionBucket && bucketCreateRemote && payload.driver !== "local";
     const nextErrors: BucketFormErrors = {};
     if (!payload.bucketName) nextErrors.bucketName = "此项必填";
-    if (!payload.accountId) nextErrors.accountId = "此项必填";
-    if (!isEditing && !payload.accessKeyId) nextErrors.accessKeyId = "此项必填";
-    if (!isEditing && !payload.secretAccessKey) nextErrors.secretAccessKey = "此项必填";
+    if (payload.driver === "r2" && !payload.accountId) nextErrors.accountId = "此项必填";
+    if (payload.driver === "s3" && !payload.endpoint) nextErrors.endpoint = "此项必填";
+    if (payload.maxRetries !== null && (!Number.isInteger(payload.maxRetries) || payload.maxRetries < 0 || payload.maxRetries > 10)) {
+      nextErrors.maxRetries = "请输入 0-10 的整数";
+    }
+    if (
+      payload.versionRetention !== null &&
+      (!Number.isInteger(payload.versionRetention) || payload.versionRetention < 1 || payload.versionRetention > MAX_VERSION_RETENTION)
+    ) {
+      nextErrors.versionRetention = `请输入 1-${MAX_VERSION_RETENTION} 的整数`;
+    }
+    if (
+      payload.edgeCacheSeconds !== null &&
+      (!Number.isInteger(payload.edgeCacheSeconds) || payload.edgeCacheSeconds < 0 || payload.edgeCacheSeconds > MAX_EDGE_CACHE_SECONDS)
+    ) {
+      nextErrors.edgeCacheSeconds = `请输入 0-${MAX_EDGE_CACHE_SECONDS} 的整数秒`;
+    }
+    const needsKeys = payload.driver !== "local" && (!isEditing || buckets.find((b) => b.id === editingBucketId)?.driver !== payload.driver);
+    if (needsKeys && !payload.accessKeyId) nextErrors.accessKeyId = "此项必填";
+    if (needsKeys && !payload.secretAccessKey) nextErrors.secretAccessKey = "此项必填";
     if (Object.keys(nextErrors).length > 0) {
       setBucketFormErrors(nextErrors);
       return;
@@ -3890,9 +4132,20 @@ export default function R2Admin() {
             method: "PATCH",
             body: JSON.stringify({
               id: editingBucketId,
+              driver: payload.driver,
               bucketLabel: payload.bucketLabel,
               bucketName: payload.bucketName,
               accountId: payload.accountId,
+              endpoint: payload.endpoint,
+              region: payload.region,
+              jurisdiction: payload.jurisdiction,
+              maxRetries: payload.maxRetries,
+              defaultStorageClass: payload.defaultStorageClass,
+              versioningEnabled: payload.versioningEnabled,
+              versionRetention: payload.versionRetention,
+              proxyCacheControl: payload.proxyCacheControl,
+              edgeCacheSeconds: payload.edgeCacheSeconds,
+              contentIndexEnabled: payload.contentIndexEnabled,
               accessKeyId: payload.accessKeyId || undefined,
               secretAccessKey: payload.secretAccessKey || undefined,
               publicBaseUrl: payload.publicBaseUrl,
@@ -3901,7 +4154,11 @@ export default function R2Admin() {
           })
         : await fetchWithAuth("/api/buckets", {
             method: "POST",
-            body: JSON.stringify(payload),
+            body: JSON.stringify(
+              createRemote
+                ? { ...payload, createRemote: true, locationHint: payload.driver === "r2" && payload.jurisdiction === "default" ? bucketLocationHint : "" }
+                : payload,
+            ),
           });
       const data = await readJsonSafe(res);
       if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? (isEditing ? "更新失败" : "创建失败")));
@@ -3913,13 +4170,13 @@ export default function R2Admin() {
       setShowBucketSecretAccessKey(false);
       resetBucketForm();
       await fetchBuckets();
-      let createToast = isEditing ? "存储桶已更新" : "存储桶已添加";
+      let createToast = isEditing ? "存储桶已更新" : createRemote ? "存储桶已创建并绑定" : "存储桶已添加";
       if (created?.id || selectedBucket) {
         const bucketIdToUse = created?.id ?? selectedBucket;
         if (!bucketIdToUse) return;
         invalidateFileListCache(bucketIdToUse);
         setPath([]);
-        setSearchTerm("");
+        clearGlobalSearch();
         setSelectedItem(null);
         setSelectedKeys(new Set());
         setSelectedBucket(bucketIdToUse);
@@ -3931,14 +4188,19 @@ export default function R2Admin() {
           const checkData = await readJsonSafe(checkRes);
           const ok = Boolean((checkData as { ok?: unknown }).ok);
           const hint = String((checkData as { hint?: unknown }).hint ?? "").trim();
+          const checkedEndpoint = String((checkData as { endpoint?: unknown }).endpoint ?? "").trim();
           upsertS3BucketNameCheck(bucketIdToUse, {
             bucketName: payload.bucketName,
             ok,
             hint: hint || undefined,
             checkedAt: Date.now(),
           });
+          const cors = (checkData as { cors?: BucketCorsCheck | null }).cors;
+          if (ok && cors && !cors.ok) {
+            createToast = `存储桶已保存；CORS 未就绪，直连传输将回退为中转${cors.gaps.length ? `（${cors.gaps.join("，")}）` : ""}`;
+          }
           if (!ok && hint) {
-            createToast = `存储桶已保存，但连通性校验失败：${hint}`;
+            createToast = `存储桶已保存，但连通性校验失败：${hint}${checkedEndpoint && checkedEndpoint !== "local" ? `（Endpoint：${checkedEndpoint}）` : ""}`;
           }
         } catch {
           // ignore check errors; file list loading will show details if it fails.
@@ -3957,14 +4219,23 @@ export default function R2Admin() {
     if (!bucketId) return;
     try {
       setLoading(true);
-      const res = await fetchWithAuth(`/api/buckets?id=${encodeURIComponent(bucketId)}`, { method: "DELETE" });
+      const deleteRemote = canProvisionBucket && bucketDeleteRemote;
+      const query = new URLSearchParams({ id: bucketId });
+      if (deleteRemote) query.set("deleteRemote", "1");
+      if (deleteRemote && bucketDeleteEmpty) query.set("empty", "1");
+      const res = await fetchWithAuth(`/api/buckets?${query.toString()}`, { method: "DELETE" });
       const data = await readJsonSafe(res);
       if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "删除失败"));
       setBucketDeleteOpen(false);
       setBucketDeleteTargetId(null);
+      // Emptying runs as a background job that deletes the bucket when it finishes.
+      if (trackBackgroundJob(data)) {
+        setToast("已开始清空存储桶，完成后将自动删除");
+        return;
+      }
       invalidateFileListCache(bucketId);
       await fetchBuckets();
-      setToast("存储桶已删除");
+      setToast(deleteRemote ? "存储桶已从存储服务中删除" : "存储桶已删除");
     } catch (error) {
       const message = toChineseErrorMessage(error, "删除存储桶失败，请重试。");
       setToast(message || "删除存储桶失败");
@@ -4099,6 +4370,7 @@ export default function R2Admin() {
           setFileListLoading(false);
         }
         setFiles(cached.items);
+        setFileListCursor(cached.cursor ?? null);
         setCurrentFolderLockContext(cached.lockContext ?? { currentPrefixLocked: false });
         setFileListError(null);
         setConnectionStatus("connected");
@@ -4118,7 +4390,10 @@ export default function R2Admin() {
       const data = await readJsonSafe(res);
       if (!isFreshRequest()) return;
       if (!res.ok) {
-        if (!silent) setFiles([]);
+        if (!silent) {
+          setFiles([]);
+          setFileListCursor(null);
+        }
         const lock = (data as { lock?: { prefix?: string; hint?: string } }).lock;
         if (!silent && res.status === 423 && lock?.prefix && bucketId) {
           setFolderUnlockTarget({
@@ -4152,15 +4427,21 @@ export default function R2Admin() {
         prefix: typeof lockContextRaw?.prefix === "string" ? lockContextRaw.prefix : undefined,
         hint: typeof lockContextRaw?.hint === "string" ? lockContextRaw.hint : null,
       };
+      const cursorRaw = (data as { cursor?: unknown }).cursor;
+      const cursor = typeof cursorRaw === "string" && cursorRaw ? cursorRaw : null;
       setFiles(items);
+      setFileListCursor(cursor);
       setCurrentFolderLockContext(lockContext);
-      setFileListCache((prev) => ({ ...prev, [cacheKey]: { items, updatedAt: Date.now(), lockContext } }));
+      setFileListCache((prev) => ({ ...prev, [cacheKey]: { items, updatedAt: Date.now(), lockContext, cursor } }));
       setFileListError(null);
       setConnectionStatus("connected");
       setConnectionDetail(null);
     } catch (e) {
       if (!isFreshRequest()) return;
-      if (!silent) setFiles([]);
+      if (!silent) {
+        setFiles([]);
+        setFileListCursor(null);
+      }
       const message = "读取文件列表失败，请检查桶配置或网络";
       if (!silent) {
         setCurrentFolderLockContext({ currentPrefixLocked: false });
@@ -4178,6 +4459,52 @@ export default function R2Admin() {
     }
   };
 
+  const loadMoreFiles = async () => {
+    const bucketId = selectedBucket;
+    const cursor = fileListCursor;
+    if (!bucketId || !cursor || fileListLoadingMoreRef.current) return;
+    const requestSeq = fileListRequestSeqRef.current;
+    const isFreshRequest = () => fileListRequestSeqRef.current === requestSeq;
+    const currentPath = path;
+    const cacheKey = makeFileListCacheKey(bucketId, currentPath);
+    const prefix = toPrefixFromPath(currentPath);
+    fileListLoadingMoreRef.current = true;
+    setFileListLoadingMore(true);
+    setFileListFailedCursor(null);
+    try {
+      const params = new URLSearchParams({ bucket: bucketId, prefix, cursor });
+      const res = await fetchWithAuth(`/api/files?${params.toString()}`);
+      const data = await readJsonSafe(res);
+      if (!isFreshRequest()) return;
+      if (!res.ok) throw new Error(toChineseErrorMessage((data as { error?: unknown }).error, "加载更多文件失败"));
+      const items = Array.isArray((data as { items?: unknown }).items)
+        ? (((data as { items?: FileItem[] }).items ?? []) as FileItem[])
+        : [];
+      const cursorRaw = (data as { cursor?: unknown }).cursor;
+      const nextCursor = typeof cursorRaw === "string" && cursorRaw ? cursorRaw : null;
+      const appendItems = (prev: FileItem[]) => {
+        const seen = new Set(prev.map((item) => item.key));
+        const additions = items.filter((item) => !seen.has(item.key));
+        return additions.length ? [...prev, ...additions] : prev;
+      };
+      setFiles(appendItems);
+      setFileListCursor(nextCursor);
+      setFileListCache((prev) => {
+        const entry = prev[cacheKey];
+        if (!entry) return prev;
+        return { ...prev, [cacheKey]: { ...entry, items: appendItems(entry.items), cursor: nextCursor, updatedAt: Date.now() } };
+      });
+    } catch (error) {
+      if (!isFreshRequest()) return;
+      setToast(toChineseErrorMessage(error, "加载更多文件失败，请稍后重试。"));
+      // Keep the cursor so the list still shows that more items exist; the pagination bar offers the retry.
+      setFileListFailedCursor(cursor);
+    } finally {
+      fileListLoadingMoreRef.current = false;
+      setFileListLoadingMore(false);
+    }
+  };
+
   const fetchFavorites = async (bucketId: string, options?: { silent?: boolean; requestSeq?: number }) => {
     if (!bucketId) return;
     const silent = Boolean(options?.silent);
@@ -4271,6 +4598,7 @@ export default function R2Admin() {
     const targetSpace = options?.space ?? fileSpaceRef.current;
     const requestSeq = ++fileListRequestSeqRef.current;
     const requestOptions = { ...options, requestSeq };
+    if (targetSpace !== "files") setFileListCursor(null);
     if (targetSpace === "favorites") {
       await fetchFavorites(bucketId, requestOptions);
       return;
@@ -4370,6 +4698,43 @@ export default function R2Admin() {
     }
   };
 
+  const fetchObjectMetadata = async (item: FileItem) => {
+    if (!selectedBucket || !item.key || item.type !== "file") return;
+    try {
+      setObjectMetadataLoading(true);
+      const params = new URLSearchParams({ bucket: selectedBucket, key: item.key });
+      const res = await fetchWithAuth(`/api/object/metadata?${params.toString()}`);
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "读取文件元数据失败"));
+      setObjectMetadata(data as ObjectMetadataView);
+    } catch (error) {
+      console.error(error);
+      setObjectMetadata(null);
+    } finally {
+      setObjectMetadataLoading(false);
+    }
+  };
+
+  // After a version restore the listing and the metadata shown in the panel describe the old content.
+  const refreshAfterVersionRestore = async (target: FileItem) => {
+    if (!selectedBucket) return;
+    invalidateFileListCache(selectedBucket);
+    await refreshCurrentView({ silent: true });
+    await fetchObjectMetadata(target);
+  };
+
+  const downloadObjectVersion = async (version: ObjectVersionView) => {
+    if (!selectedBucket) return;
+    const filename = version.key.split("/").pop() || "download";
+    try {
+      const url = await getSignedDownloadUrlForced(selectedBucket, version.storageKey, filename);
+      triggerDownloadUrl(url, filename);
+      setToast("已拉起下载");
+    } catch {
+      setToast("下载失败");
+    }
+  };
+
   const fetchBuckets = async () => {
     if (!authRef.current) {
       setAuthRequired(true);
@@ -4423,8 +4788,10 @@ export default function R2Admin() {
           setConnectionDetail("未配置存储桶：请先新增一个存储桶");
         } else {
           setConnectionStatus("connected");
+          const linkedBucketId = pendingSearchLinkRef.current?.bucketId;
+          if (linkedBucketId && !incoming.some((b) => b.id === linkedBucketId)) pendingSearchLinkRef.current = null;
           if (!selectedBucket || !incoming.some((b) => b.id === selectedBucket)) {
-            const preferred = incoming.find((b) => b.isDefault)?.id ?? incoming[0].id;
+            const preferred = pendingSearchLinkRef.current?.bucketId ?? incoming.find((b) => b.isDefault)?.id ?? incoming[0].id;
             setSelectedBucket(preferred);
           }
         }
@@ -5196,31 +5563,117 @@ export default function R2Admin() {
     };
   }, [accountCenterOpen, isXlUp]);
 
+  const buildSearchParams = (bucketName: string, term: string) => {
+    const params = new URLSearchParams({ bucket: bucketName, limit: "200" });
+    const filters = searchFilters;
+    const toBytes = (mb: string) => {
+      const n = Number(mb.trim());
+      return mb.trim() && Number.isFinite(n) && n >= 0 ? String(Math.round(n * 1024 * 1024)) : "";
+    };
+    // Date inputs are local days; the API compares UTC timestamps.
+    const toDayBoundary = (day: string, end: boolean) => {
+      const t = day ? Date.parse(`${day}T${end ? "23:59:59.999" : "00:00:00"}`) : NaN;
+      return Number.isFinite(t) ? new Date(t).toISOString() : "";
+    };
+    const extensions = filters.extensions
+      .split(/[\s,，]+/)
+      .map((ext) => ext.replace(/^\.+/, ""))
+      .filter(Boolean);
+    const entries: Array<[string, string]> = [
+      ["q", term],
+      ["match", filters.match === "substring" ? "" : filters.match],
+      ["types", filters.types.join(",")],
+      ["ext", extensions.join(",")],
+      ["minSize", toBytes(filters.minSizeMb)],
+      ["maxSize", toBytes(filters.maxSizeMb)],
+      ["modifiedFrom", toDayBoundary(filters.modifiedFrom, false)],
+      ["modifiedTo", toDayBoundary(filters.modifiedTo, true)],
+      ["prefix", filters.scope === "folder" && path.length ? `${path.join("/")}/` : ""],
+      // Searching every bucket ignores `bucket`; results then carry their bucket.
+      ["scope", filters.scope === "all" ? "all" : ""],
+      ["favorites", filters.favoritesOnly ? "1" : ""],
+      [
+        "sort",
+        fileSortKey === "relevance" ? "relevance" : fileSortKey === "size" ? "size" : fileSortKey === "time" ? "modified" : "name",
+      ],
+      ["order", fileSortDirection],
+    ];
+    for (const [name, value] of entries) if (value) params.set(name, value);
+    return params;
+  };
+
   const runGlobalSearch = async (bucketName: string, term: string) => {
     const q = term.trim();
-    if (!q) {
+    if (!q && !hasSearchFilterCriteria(searchFilters)) {
       setSearchResults([]);
       setSearchCursor(null);
+      setSearchIndexInfo(null);
+      setSearchError(null);
       return;
     }
     setSearchLoading(true);
     try {
-      const res = await fetchWithAuth(
-        `/api/search?bucket=${encodeURIComponent(bucketName)}&q=${encodeURIComponent(q)}&limit=200`,
-      );
+      const params = buildSearchParams(bucketName, q).toString();
+      searchParamsRef.current = params;
+      const res = await fetchWithAuth(`/api/search?${params}`);
       const data = await res.json();
       if (res.ok) {
         setSearchResults(data.items || []);
         setSearchCursor(data.cursor ?? null);
+        if (typeof data.buckets === "number") {
+          setSearchIndexInfo({
+            indexed: typeof data.indexed === "boolean" ? data.indexed : undefined,
+            buckets: data.buckets,
+            failedBuckets: Array.isArray(data.failedBuckets)
+              ? data.failedBuckets.map((entry: { bucketLabel?: unknown }) => String(entry.bucketLabel ?? ""))
+              : [],
+          });
+        } else {
+          setSearchIndexInfo(
+            typeof data.indexed === "boolean" ? { indexed: data.indexed, indexedAt: data.indexedAt || undefined } : null,
+          );
+        }
+        setSearchError(null);
       } else {
         setSearchResults([]);
         setSearchCursor(null);
+        setSearchIndexInfo(null);
+        setSearchError(toChineseErrorMessage(String(data.error ?? ""), "搜索失败，请稍后重试。"));
       }
     } finally {
       setSearchLoading(false);
     }
   };
 
+  const loadMoreSearchResults = async () => {
+    const cursor = searchCursor;
+    const params = searchParamsRef.current;
+    if (!cursor || !params) return;
+    setSearchLoadingMore(true);
+    try {
+      const res = await fetchWithAuth(`/api/search?${params}&cursor=${encodeURIComponent(cursor)}`);
+      const data = await readJsonSafe(res);
+      if (searchParamsRef.current !== params) return;
+      if (!res.ok) {
+        setSearchCursor(null);
+        setToast(toChineseErrorMessage((data as { error?: unknown }).error, "加载更多搜索结果失败"));
+        return;
+      }
+      const items = ((data as { items?: FileItem[] }).items ?? []) as FileItem[];
+      const cursorRaw = (data as { cursor?: unknown }).cursor;
+      // Results of different buckets may share a key.
+      const idOf = (item: FileItem) => `${item.bucketId ?? ""}:${item.key}`;
+      setSearchResults((prev) => {
+        const seen = new Set(prev.map(idOf));
+        const additions = items.filter((item) => !seen.has(idOf(item)));
+        return additions.length ? [...prev, ...additions] : prev;
+      });
+      setSearchCursor(typeof cursorRaw === "string" && cursorRaw ? cursorRaw : null);
+    } finally {
+      setSearchLoadingMore(false);
+    }
+  };
+
   const fetchBucketUsage = async (bucketName: string) => {
     setUsageLoading(true);
     setBucketUsageError(null);
@@ -5255,7 +5708,7 @@ export default function R2Admin() {
       const spaceChanged = lastFileSpaceFetchRef.current !== fileSpace;
       lastFileSpaceFetchRef.current = fileSpace;
       fetchCurrentFileSpace(selectedBucket, path, { force: spaceChanged, space: fileSpace }).catch(() => {});
-      const pendingLocate = messageLocateTargetRef.current;
+      const pendingLocate = pendingLocateTargetRef.current;
       const locatingHere = pendingLocate
         && pendingLocate.bucketId === selectedBucket
         && pendingLocate.path.join("/") === path.join("/")
@@ -5263,7 +5716,7 @@ export default function R2Admin() {
       if (locatingHere) {
         setSelectedItem(pendingLocate.target);
         setSelectedKeys(new Set([pendingLocate.target.key]));
-        messageLocateTargetRef.current = null;
+        pendingLocateTargetRef.current = null;
       } else {
         setSelectedItem(null);
         setSelectedKeys(new Set());
@@ -5376,6 +5829,30 @@ export default function R2Admin() {
     fetchObjectActivityLogs(objectPropertiesTarget).catch(() => {});
   }, [objectPropertiesTarget?.key, objectPropertiesTab, selectedBucket]);
 
+  useEffect(() => {
+    if (!objectPropertiesTarget || objectPropertiesTab !== "file" || fileSpace === "trash") return;
+    fetchObjectMetadata(objectPropertiesTarget).catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [objectPropertiesTarget?.key, objectPropertiesTab, selectedBucket, fileSpace]);
+
+  useEffect(() => {
+    if (hasSearchText) {
+      if (sortBeforeSearchRef.current) return;
+      sortBeforeSearchRef.current = { key: fileSortKey, direction: fileSortDirection };
+      setFileSortKey("relevance");
+      setFileSortDirection("desc");
+      return;
+    }
+    const previous = sortBeforeSearchRef.current;
+    if (!previous) return;
+    sortBeforeSearchRef.current = null;
+    // A sort picked during the search is kept.
+    if (fileSortKey !== "relevance") return;
+    setFileSortKey(previous.key);
+    setFileSortDirection(previous.direction);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasSearchText]);
+
   useEffect(() => {
     if (!selectedBucket || fileSpace !== "files") {
       setSearchResults([]);
@@ -5383,16 +5860,48 @@ export default function R2Admin() {
       return;
     }
     const term = searchTerm.trim();
-    if (!term) {
+    if (!globalSearchActive) {
       setSearchResults([]);
       setSearchCursor(null);
+      setSearchError(null);
       return;
     }
     const t = setTimeout(() => {
       runGlobalSearch(selectedBucket, term).catch(() => {});
     }, 250);
     return () => clearTimeout(t);
-  }, [searchTerm, selectedBucket, auth, fileSpace]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchTerm, searchFilters, fileSortKey, fileSortDirection, path, selectedBucket, auth, fileSpace]);
+
+  useEffect(() => {
+    pendingSearchLinkRef.current = readSearchLink(new URLSearchParams(window.location.search));
+  }, []);
+
+  useEffect(() => {
+    const link = pendingSearchLinkRef.current;
+    if (!link || selectedBucket !== link.bucketId) return;
+    pendingSearchLinkRef.current = null;
+    setFileSpace("files");
+    setPath(link.path);
+    setSearchFilters(link.filters);
+    setSearchTerm(link.q);
+  }, [selectedBucket]);
+
+  // Keeps the address bar in step with the active search so it can be copied and shared as is.
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const link =
+      selectedBucket && fileSpace === "files" && globalSearchActive
+        ? { bucketId: selectedBucket, path, q: searchTerm, filters: searchFilters }
+        : null;
+    // A pending link has not been applied yet; leave it in place until its bucket is selected.
+    if (!link && pendingSearchLinkRef.current) return;
+    writeSearchLink(url, link);
+    const next = `${url.pathname}${url.search}${url.hash}`;
+    if (next !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+      window.history.replaceState(window.history.state, document.title, next);
+    }
+  }, [fileSpace, globalSearchActive, path, searchFilters, searchTerm, selectedBucket]);
 
   useEffect(() => {
     if (selectedBucket && canViewUsage) {
@@ -5503,7 +6012,7 @@ export default function R2Admin() {
     items: FileItem[],
     filters = recycleFiltersRef.current,
   ) => {
-    const term = searchTerm.trim().toLowerCase();
+    const matcher = createTextMatcher(searchTerm);
     const typeSet = new Set(filters.types.map((value) => value.trim()).filter(Boolean));
     const actorSet = new Set(filters.actors.map((value) => value.trim()).filter(Boolean));
     const fromTs = filters.dateFrom ? Date.parse(`${filters.dateFrom}T00:00:00`) : NaN;
@@ -5512,27 +6021,24 @@ export default function R2Admin() {
 
     return items
       .filter((item) => item.trashId)
-      .filter((item) => {
+      .flatMap((item) => {
         const typeLabel = getFileTypeLabel(item).trim();
         const actorLabel = (item.deletedBy || item.deletedByEmail || "").trim();
-        if (typeSet.size > 0 && !typeSet.has(typeLabel)) return false;
-        if (actorSet.size > 0 && !actorSet.has(actorLabel)) return false;
-        if (term) {
-          const haystack = [
-            item.name,
-            item.key,
-            item.originalPath ?? "",
-            actorLabel,
-            typeLabel,
-          ].join(" ").toLowerCase();
-          if (!haystack.includes(term)) return false;
-        }
+        if (typeSet.size > 0 && !typeSet.has(typeLabel)) return [];
+        if (actorSet.size > 0 && !actorSet.has(actorLabel)) return [];
+        const score = matcher.score([item.name, item.originalPath, actorLabel, item.key, typeLabel]);
+        return score === null ? [] : [{ ...item, score }];
+      })
+      .filter((item) => {
         const deletedTs = Date.parse(item.deletedAt ?? "");
         if (Number.isFinite(fromTs) && (!Number.isFinite(deletedTs) || deletedTs < fromTs)) return false;
         if (Number.isFinite(toTs) && (!Number.isFinite(deletedTs) || deletedTs > toTs)) return false;
         return true;
       })
       .sort((a, b) => {
+        // Best text matches first; without a search term every score is 0.
+        const byScore = (b.score ?? 0) - (a.score ?? 0);
+        if (byScore !== 0) return byScore;
         const at = Date.parse(a.deletedAt ?? "");
         const bt = Date.parse(b.deletedAt ?? "");
         const aTime = Number.isFinite(at) ? at : -1;
@@ -6207,10 +6713,17 @@ export default function R2Admin() {
   };
 
   // --- 操作逻辑 ---
+  // Leaving the results keeps the match mode and scope, which read as preferences rather than a query.
+  const clearGlobalSearch = () => {
+    setSearchTerm("");
+    setSearchFilters((prev) => ({ ...DEFAULT_SEARCH_FILTERS, match: prev.match, scope: prev.scope }));
+    setSearchFilterOpen(false);
+  };
+
   const handleEnterFolder = (folderName: string) => {
     if (fileSpace !== "files") return;
     setPath([...path, folderName]);
-    setSearchTerm("");
+    clearGlobalSearch();
   };
 
   const openFavoriteFolderInFiles = (item: FileItem) => {
@@ -6218,7 +6731,7 @@ export default function R2Admin() {
     if (!nextPath.length) return;
     setFileSpace("files");
     setPath(nextPath);
-    setSearchTerm("");
+    clearGlobalSearch();
     setSearchResults([]);
     setSearchCursor(null);
     setSelectedItem(null);
@@ -6226,10 +6739,34 @@ export default function R2Admin() {
     setFileContextMenu(null);
   };
 
+  // Results of a search across all buckets that live in another bucket cannot be acted on in place; opening
+  // one switches to its bucket and shows it in its folder.
+  const isForeignSearchResult = (item: FileItem) => Boolean(item.bucketId && item.bucketId !== selectedBucket);
+
+  const locateSearchResult = (item: FileItem) => {
+    if (!item.bucketId) return;
+    const segments = item.key.replace(/\/$/, "").split("/").filter(Boolean);
+    const nextPath = item.type === "folder" ? segments : segments.slice(0, -1);
+    const target: FileItem = { ...item, bucketId: undefined, bucketLabel: undefined, score: undefined };
+    pendingLocateTargetRef.current = item.type === "folder" ? null : { bucketId: item.bucketId, path: nextPath, target };
+    setSelectedBucket(item.bucketId);
+    setFileSpace("files");
+    setPath(nextPath);
+    setFiles([]);
+    clearGlobalSearch();
+    setSearchResults([]);
+    setSearchCursor(null);
+    setSelectedItem(null);
+    setSelectedKeys(new Set());
+    setFileContextMenu(null);
+    if (item.bucketLabel) setToast(`已切换到存储桶：${item.bucketLabel}`);
+  };
+
   const attemptEnterFolder = (item: FileItem) => {
     if (item.type !== "folder") return;
     if (!selectedBucket) return;
-    if (fileSpace === "favorites") {
+    // Search results can come from anywhere in the bucket, so they are opened by their full key.
+    if (fileSpace === "favorites" || (fileSpace === "files" && globalSearchActive)) {
       openFavoriteFolderInFiles(item);
       return;
     }
@@ -6290,13 +6827,12 @@ export default function R2Admin() {
   const handleBreadcrumbClick = (index: number) => {
     if (fileSpace !== "files") return;
     setPath(path.slice(0, index + 1));
-    setSearchTerm("");
+    clearGlobalSearch();
   };
 
   const refreshCurrentView = async (options?: { silent?: boolean }) => {
     if (!selectedBucket) return;
-    const term = searchTerm.trim();
-    if (fileSpace === "files" && term) await runGlobalSearch(selectedBucket, term);
+    if (fileSpace === "files" && globalSearchActive) await runGlobalSearch(selectedBucket, searchTerm);
     else await fetchCurrentFileSpace(selectedBucket, path, { force: true, silent: options?.silent });
   };
 
@@ -6311,6 +6847,128 @@ export default function R2Admin() {
     }, 800);
   };
 
+  const upsertBackgroundJob = (job: BackgroundJob) => {
+    setBackgroundJobs((prev) => {
+      const next = prev.some((item) => item.id === job.id)
+        ? prev.map((item) => (item.id === job.id ? job : item))
+        : [job, ...prev];
+      backgroundJobsRef.current = next;
+      return next;
+    });
+  };
+
+  // Operations that exceed the server's item threshold answer with a job instead of finishing inline.
+  const trackBackgroundJob = (data: unknown) => {
+    const job = (data as { job?: BackgroundJob | null } | null)?.job;
+    if (!job?.id) return false;
+    upsertBackgroundJob(job);
+    setUploadPanelTab("active");
+    return true;
+  };
+
+  const cancelBackgroundJob = async (jobId: string) => {
+    try {
+      const res = await fetchWithAuth("/api/jobs", {
+        method: "POST",
+        body: JSON.stringify({ action: "cancel", id: jobId }),
+      });
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "取消后台任务失败"));
+      trackBackgroundJob(data);
+      setToast("已取消后台任务");
+    } catch (error) {
+      setToast(toChineseErrorMessage(error, "取消后台任务失败，请稍后重试"));
+    }
+  };
+
+  // The content index job also rescans the object index, so it covers both.
+  const startSearchReindex = async (kind: "reindex" | "content_index" = "reindex") => {
+    if (!selectedBucket || searchReindexing) return;
+    const label = kind === "reindex" ? "搜索索引" : "内容索引";
+    setSearchReindexing(true);
+    try {
+      const res = await fetchWithAuth("/api/jobs", {
+        method: "POST",
+        body: JSON.stringify({ action: "create", bucket: selectedBucket, kind }),
+      });
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? `建立${label}失败`));
+      trackBackgroundJob(data);
+      setToast(res.status === 202 ? `已开始扫描存储桶建立${label}` : `${label}正在建立中`);
+    } catch (error) {
+      setToast(toChineseErrorMessage(error, `建立${label}失败，请稍后重试`));
+    } finally {
+      setSearchReindexing(false);
+    }
+  };
+
+  const hasActiveBackgroundJobs = backgroundJobs.some(isActiveBackgroundJob);
+
+  useEffect(() => {
+    if (!hasActiveBackgroundJobs || backgroundJobRunnerRef.current) return;
+    backgroundJobRunnerRef.current = true;
+    const run = async () => {
+      try {
+        for (;;) {
+          const job = backgroundJobsRef.current.find(isActiveBackgroundJob);
+          if (!job) return;
+          const res = await fetchWithAuth("/api/jobs", {
+            method: "POST",
+            body: JSON.stringify({ action: "run", id: job.id }),
+          });
+          const data = await readJsonSafe(res);
+          const next = (data as { job?: BackgroundJob }).job;
+          if (!res.ok || !next?.id) {
+            upsertBackgroundJob({
+              ...job,
+              status: "failed",
+              error: toChineseErrorMessage((data as { error?: unknown }).error, "后台任务执行失败"),
+            });
+            continue;
+          }
+          upsertBackgroundJob(next);
+          // Another tab may hold the lease; back off instead of hammering the API.
+          if (next.status === "running" && next.processed === job.processed && next.itemIndex === job.itemIndex) {
+            await new Promise((resolve) => setTimeout(resolve, 3000));
+          }
+          if (isActiveBackgroundJob(next)) continue;
+          invalidateFileListCache(next.bucketId);
+          if (next.kind === "empty_bucket" && next.status === "completed") {
+            await fetchBuckets();
+          } else if (selectedBucketRef.current === next.bucketId) {
+            void fetchCurrentFileSpace(next.bucketId, pathRef.current, { force: true, silent: true });
+          }
+          if (next.status === "completed") setToast(`后台任务已完成：${next.summary}`);
+          else if (next.status === "failed") setToast(next.error ?? "后台任务执行失败");
+        }
+      } finally {
+        backgroundJobRunnerRef.current = false;
+      }
+    };
+    void run();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasActiveBackgroundJobs]);
+
+  useEffect(() => {
+    if (!selectedBucket) return;
+    let cancelled = false;
+    void (async () => {
+      try {
+        const res = await fetchWithAuth(`/api/jobs?bucket=${encodeURIComponent(selectedBucket)}&active=1`);
+        const data = await readJsonSafe(res);
+        if (cancelled || !res.ok) return;
+        const jobs = (data as { jobs?: BackgroundJob[] }).jobs ?? [];
+        jobs.forEach(upsertBackgroundJob);
+      } catch {
+        // Resuming unfinished jobs is best effort; the list simply stays empty.
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedBucket]);
+
   const isItemShareBlockedByFolderLock = (item: FileItem | null) => {
     if (!item) return false;
     if (item.type === "folder" && item.locked) return true;
@@ -6440,6 +7098,17 @@ export default function R2Admin() {
     setDeleteOpen(true);
   };
 
+  const openStorageClassForItem = (item: FileItem) => {
+    if (!canUploadObject) {
+      setToast("当前身份没有修改文件的权限");
+      return;
+    }
+    if (!selectedBucket) return;
+    selectFileItemForAction(item);
+    setStorageClassChoice(item.storageClass === "STANDARD_IA" ? "STANDARD" : "STANDARD_IA");
+    setStorageClassOpen(true);
+  };
+
   const restoreRecycleItem = async (item: FileItem) => {
     if (!selectedBucket || !item.trashId) return;
     const actionKey = `restore:${item.trashId}`;
@@ -6452,6 +7121,8 @@ export default function R2Admin() {
       });
       const data = await readJsonSafe(res);
       if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "恢复失败"));
+      // Large folders are indexed for search by a background reindex job.
+      trackBackgroundJob(data);
       invalidateFileListCache(selectedBucket);
       await fetchRecycleItems(selectedBucket, { silent: true });
       setSelectedItem(null);
@@ -6524,6 +7195,7 @@ export default function R2Admin() {
       });
       const data = await readJsonSafe(res);
       if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "批量恢复失败"));
+      trackBackgroundJob(data);
       invalidateFileListCache(selectedBucket);
       await fetchRecycleItems(selectedBucket, { silent: true });
       setSelectedItem(null);
@@ -6597,11 +7269,16 @@ export default function R2Admin() {
       });
       const data = await readJsonSafe(res);
       if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "清空回收站失败"));
+      const queued = trackBackgroundJob(data);
       invalidateFileListCache(selectedBucket);
       await fetchRecycleItems(selectedBucket, { silent: true });
       setSelectedItem(null);
       setSelectedKeys(new Set());
       setObjectPropertiesTarget(null);
+      if (queued) {
+        setToast("回收站内容较多，已转为后台任务清空");
+        return;
+      }
       setToast(`已清空回收站${typeof (data as { count?: unknown }).count === "number" ? `（${(data as { count: number }).count} 项）` : ""}`);
     } catch (error) {
       setToast(toChineseErrorMessage(error, "清空回收站失败，请稍后重试"));
@@ -6615,6 +7292,8 @@ export default function R2Admin() {
     setObjectPropertiesTab("general");
     setObjectActivityLogs([]);
     setObjectActivityLoading(false);
+    setObjectMetadata(null);
+    setObjectMetadataEditing(false);
     setObjectPropertiesTarget(item);
     if (canReadTeamMembers && teamMembers.length === 0 && !teamMembersLoading) {
       void fetchTeamMembers();
@@ -6839,6 +7518,7 @@ export default function R2Admin() {
       });
       const data = await readJsonSafe(res);
       if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "delete failed"));
+      const queued = trackBackgroundJob(data);
 
       setDeleteOpen(false);
       invalidateFileListCache(selectedBucket);
@@ -6846,7 +7526,7 @@ export default function R2Admin() {
       setSelectedItem(null);
       setSelectedKeys(new Set());
       setObjectPropertiesTarget(null);
-      setToast("已移入回收站");
+      setToast(queued ? "已移入回收站，大文件夹已转为后台任务" : "已移入回收站");
     } catch (error) {
       setToast(toChineseErrorMessage(error, "删除失败，请刷新后重试"));
     } finally {
@@ -6855,6 +7535,41 @@ export default function R2Admin() {
     }
   };
 
+  // Storage class changes are a server-side copy onto the same key, so nothing passes through the browser.
+  const executeStorageClassChange = async () => {
+    if (!selectedBucket) return;
+    const keys = selectedKeys.size > 0 ? Array.from(selectedKeys) : selectedItem ? [selectedItem.key] : [];
+    if (!keys.length) {
+      setStorageClassOpen(false);
+      return;
+    }
+    try {
+      setStorageClassSubmitting(true);
+      const res = await fetchWithAuth("/api/operate", {
+        method: "POST",
+        body: JSON.stringify({ bucket: selectedBucket, operation: "setStorageClass", sourceKeys: keys, storageClass: storageClassChoice }),
+      });
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "更改存储类型失败"));
+      const queued = trackBackgroundJob(data);
+
+      setStorageClassOpen(false);
+      invalidateFileListCache(selectedBucket);
+      await refreshCurrentView({ silent: true });
+      if (objectPropertiesTarget) void fetchObjectMetadata(objectPropertiesTarget);
+      const label = STORAGE_CLASS_LABELS[storageClassChoice];
+      setToast(
+        queued
+          ? `已转为后台任务，完成后对象将改为${label}存储`
+          : `已将 ${Number((data as { count?: unknown }).count ?? keys.length)} 个对象改为${label}存储`,
+      );
+    } catch (error) {
+      setToast(toChineseErrorMessage(error, "更改存储类型失败，请稍后重试"));
+    } finally {
+      setStorageClassSubmitting(false);
+    }
+  };
+
   const handleRename = () => {
     if (!canRenameObject) {
       setToast("当前身份没有重命名权限");
@@ -6963,6 +7678,12 @@ export default function R2Admin() {
       }
       cancelInlineRename();
       invalidateFileListCache(selectedBucket);
+      if (trackBackgroundJob(data)) {
+        setSelectedItem(null);
+        setSelectedKeys(new Set());
+        setToast("文件夹较大，重命名已转为后台任务");
+        return;
+      }
       if (fileSpace === "files") {
         const applyRename = (current: FileItem[]) => current.map((entry) => (
           entry.key === item.key ? { ...entry, key: targetKey, name: newName } : entry
@@ -6991,6 +7712,8 @@ export default function R2Admin() {
     }
     if (!selectedBucket || !selectedItem) return;
     setMoveMode(mode);
+    setMoveTargetBucket(selectedBucket);
+    moveTreeBucketRef.current = selectedBucket;
     const defaultPath = [...path];
     setMoveBrowserPath(defaultPath);
     setMoveTreeNodes({});
@@ -7008,6 +7731,8 @@ export default function R2Admin() {
     if (!selectedBucket) return;
     setSelectedItem(item);
     setMoveMode(mode);
+    setMoveTargetBucket(selectedBucket);
+    moveTreeBucketRef.current = selectedBucket;
     const defaultPath = [...path];
     setMoveBrowserPath(defaultPath);
     setMoveTreeNodes({});
@@ -7029,6 +7754,8 @@ export default function R2Admin() {
       return;
     }
     setMoveMode("move");
+    setMoveTargetBucket(selectedBucket);
+    moveTreeBucketRef.current = selectedBucket;
     const defaultPath = [...path];
     setMoveBrowserPath(defaultPath);
     setMoveTreeNodes({});
@@ -7040,7 +7767,10 @@ export default function R2Admin() {
 
   const closeMoveDialog = () => {
     setMoveOpen(false);
+    setMoveConflicts(null);
     setMoveSources([]);
+    setMoveTargetBucket(null);
+    moveTreeBucketRef.current = null;
     setMoveBrowserPath([]);
     setMoveTreeNodes({});
     setMoveTreeExpanded(new Set([MOVE_TREE_ROOT_KEY]));
@@ -7049,10 +7779,23 @@ export default function R2Admin() {
   const chooseMoveDirectory = (nextPath: string[]) => {
     setMoveBrowserPath(nextPath);
     setMoveTarget(formatMoveTargetLabel(nextPath));
+    setMoveConflicts(null);
+  };
+
+  const chooseMoveBucket = (bucketId: string) => {
+    if (!bucketId || bucketId === moveTargetBucket) return;
+    setMoveTargetBucket(bucketId);
+    moveTreeBucketRef.current = bucketId;
+    setMoveBrowserPath([]);
+    setMoveTreeNodes({});
+    setMoveTreeExpanded(new Set([MOVE_TREE_ROOT_KEY]));
+    setMoveTarget(formatMoveTargetLabel([]));
+    setMoveConflicts(null);
   };
 
   const loadMoveTreeNode = useCallback(async (nodePath: string[]) => {
-    if (!selectedBucket) return;
+    const treeBucket = moveTargetBucket ?? selectedBucket;
+    if (!treeBucket) return;
     const nodeKey = getMoveTreeKey(nodePath);
     const prefix = nodePath.length ? `${nodePath.join("/")}/` : "";
 
@@ -7072,9 +7815,11 @@ export default function R2Admin() {
 
     try {
       const res = await fetchWithAuth(
-        `/api/files?bucket=${encodeURIComponent(selectedBucket)}&prefix=${encodeURIComponent(prefix)}`,
+        `/api/files?bucket=${encodeURIComponent(treeBucket)}&prefix=${encodeURIComponent(prefix)}`,
       );
       const data = await readJsonSafe(res);
+      // The user may have switched the destination bucket while this listing was in flight.
+      if (moveTreeBucketRef.current && moveTreeBucketRef.current !== treeBucket) return;
       if (!res.ok) {
         throw new Error(toChineseErrorMessage((data as { error?: unknown }).error, "读取目录失败"));
       }
@@ -7109,6 +7854,7 @@ export default function R2Admin() {
         return next;
       });
     } catch (error) {
+      if (moveTreeBucketRef.current && moveTreeBucketRef.current !== treeBucket) return;
       setMoveTreeNodes((prev) => ({
         ...prev,
         [nodeKey]: {
@@ -7119,7 +7865,7 @@ export default function R2Admin() {
         },
       }));
     }
-  }, [selectedBucket, auth, fetchWithAuth]);
+  }, [selectedBucket, moveTargetBucket, auth, fetchWithAuth]);
 
   const toggleMoveTreeDirectory = (nextPath: string[]) => {
     const key = getMoveTreeKey(nextPath);
@@ -7145,7 +7891,7 @@ export default function R2Admin() {
     }
   }, [moveOpen, selectedBucket, moveTreeExpanded, moveTreeNodes, loadMoveTreeNode]);
 
-  const executeMoveOrCopy = async () => {
+  const executeMoveOrCopy = async (conflictPolicy?: MoveConflictPolicy) => {
     if (!canMoveCopyObject) {
       setToast("当前身份没有移动/复制权限");
       return;
@@ -7170,44 +7916,66 @@ export default function R2Admin() {
       const op = moveMode === "move" ? "move" : "copy";
       const manyOp = op === "move" ? "moveMany" : "copyMany";
       const useMany = sources.length > 1 || !selectedItem || sources[0] !== selectedItem.key;
+      const destBucket = moveTargetBucket ?? selectedBucket;
+      const bucketParams = destBucket !== selectedBucket ? { bucket: selectedBucket, targetBucket: destBucket } : { bucket: selectedBucket };
+      const params = useMany
+        ? { ...bucketParams, sourceKeys: sources, targetPrefix: cleaned }
+        : {
+            ...bucketParams,
+            sourceKey: selectedItem.key,
+            targetKey: (() => {
+              const suffix = selectedItem.type === "folder" ? "/" : "";
+              let targetKey = cleaned;
+              if (treatAsDirectory || cleaned === "") targetKey = cleaned + selectedItem.name + suffix;
+              else if (selectedItem.type === "folder" && !targetKey.endsWith("/")) targetKey += "/";
+              return targetKey;
+            })(),
+          };
 
-      const res =
-        useMany
-          ? await fetchWithAuth("/api/operate", {
-              method: "POST",
-              body: JSON.stringify({
-                bucket: selectedBucket,
-                sourceKeys: sources,
-                targetPrefix: cleaned,
-                operation: manyOp,
-              }),
-            })
-          : await fetchWithAuth("/api/operate", {
-              method: "POST",
-              body: JSON.stringify({
-                bucket: selectedBucket,
-                sourceKey: selectedItem.key,
-                targetKey: (() => {
-                  const suffix = selectedItem.type === "folder" ? "/" : "";
-                  let targetKey = cleaned;
-                  if (treatAsDirectory || cleaned === "") targetKey = cleaned + selectedItem.name + suffix;
-                  else if (selectedItem.type === "folder" && !targetKey.endsWith("/")) targetKey += "/";
-                  return targetKey;
-                })(),
-                operation: op,
-              }),
-            });
-      const data = await readJsonSafe(res);
-      if (!res.ok) {
+      if (!conflictPolicy) {
+        const checkRes = await fetchWithAuth("/api/operate", {
+          method: "POST",
+          body: JSON.stringify({ ...params, operation: "checkConflicts" }),
+        });
+        const checkData = await readJsonSafe(checkRes);
+        if (!checkRes.ok) {
+          throw new Error(toChineseErrorMessage((checkData as { error?: unknown }).error, moveMode === "move" ? "移动失败" : "复制失败"));
+        }
+        const conflicts = Array.isArray((checkData as { conflicts?: unknown }).conflicts)
+          ? ((checkData as { conflicts: MoveConflictItem[] }).conflicts ?? [])
+          : [];
+        if (conflicts.length) {
+          setMoveConflicts(conflicts);
+          return;
+        }
+      }
+
+      const res = await fetchWithAuth("/api/operate", {
+        method: "POST",
+        body: JSON.stringify({ ...params, operation: useMany ? manyOp : op, conflict: conflictPolicy ?? "overwrite" }),
+      });
+      const data = await readJsonSafe(res);
+      if (!res.ok) {
         throw new Error(toChineseErrorMessage((data as { error?: unknown }).error, moveMode === "move" ? "移动失败" : "复制失败"));
       }
+      const skippedCount = Array.isArray((data as { skipped?: unknown }).skipped) ? (data as { skipped: unknown[] }).skipped.length : 0;
+      const renamedCount = Array.isArray((data as { renamed?: unknown }).renamed) ? (data as { renamed: unknown[] }).renamed.length : 0;
+      const retryCount = Number(res.headers.get("x-r2-retries") ?? 0) || 0;
+      const queued = trackBackgroundJob(data);
       closeMoveDialog();
       invalidateFileListCache(selectedBucket);
+      if (destBucket !== selectedBucket) invalidateFileListCache(destBucket);
       await refreshCurrentView({ silent: true });
       setSelectedItem(null);
       setSelectedKeys(new Set());
       setObjectPropertiesTarget(null);
-      setToast(moveMode === "move" ? "已移动" : "已复制");
+      const notes = [
+        skippedCount > 0 ? `跳过 ${skippedCount} 项同名` : "",
+        renamedCount > 0 ? `${renamedCount} 项已自动重命名` : "",
+        retryCount > 0 ? `自动重试 ${retryCount} 次` : "",
+      ].filter(Boolean);
+      const verb = queued ? (moveMode === "move" ? "移动已转为后台任务" : "复制已转为后台任务") : moveMode === "move" ? "已移动" : "已复制";
+      setToast(`${verb}${notes.length ? `（${notes.join("，")}）` : ""}`);
     } catch (error) {
       setToast(toChineseErrorMessage(error, moveMode === "move" ? "移动失败" : "复制失败"));
     } finally {
@@ -7244,10 +8012,32 @@ export default function R2Admin() {
     return data.url as string;
   };
 
+  const downloadAsZip = async (keys: string[]) => {
+    if (!selectedBucket || !keys.length) return;
+    try {
+      const res = await fetchWithAuth("/api/download/zip", {
+        method: "POST",
+        body: JSON.stringify({ bucket: selectedBucket, keys }),
+      });
+      const data = await readJsonSafe(res);
+      const url = String((data as { url?: unknown }).url ?? "");
+      if (!res.ok || !url) throw new Error(toChineseErrorMessage((data as { error?: unknown }).error, "打包下载失败"));
+      const filename = String((data as { filename?: unknown }).filename ?? "") || "download.zip";
+      triggerDownloadUrl(url, filename);
+      setToast("已开始打包下载");
+    } catch (error) {
+      setToast(toChineseErrorMessage(error, "打包下载失败，请稍后重试。"));
+    }
+  };
+
   const downloadItem = async (item: FileItem) => {
     if (!selectedBucket) return;
     if (item.type === "folder") {
-      setToast("暂不支持文件夹整体下载");
+      if (fileSpace === "trash") {
+        setToast("回收站中的文件夹请先恢复后再下载");
+        return;
+      }
+      await downloadAsZip([item.key]);
       return;
     }
     try {
@@ -7304,7 +8094,7 @@ export default function R2Admin() {
     const alreadyInTargetDirectory = selectedBucket === attachment.bucketId
       && fileSpace === "files"
       && path.join("/") === parentPath.join("/");
-    messageLocateTargetRef.current = alreadyInTargetDirectory
+    pendingLocateTargetRef.current = alreadyInTargetDirectory
       ? null
       : { bucketId: attachment.bucketId, path: parentPath, target };
     setAuditLogOpen(false);
@@ -7315,7 +8105,7 @@ export default function R2Admin() {
     setFileSpace("files");
     setPath(parentPath);
     setFiles([]);
-    setSearchTerm("");
+    clearGlobalSearch();
     setSearchResults([]);
     setSearchCursor(null);
     setSelectedItem(target);
@@ -7341,12 +8131,16 @@ export default function R2Admin() {
       return;
     }
     if (!selectedBucket) return;
-    const targets = Array.from(selectedKeys)
+    const selectedItems = Array.from(selectedKeys)
       .map((k) => filteredFiles.find((item) => item.key === k))
-      .filter((item): item is FileItem => Boolean(item))
-      .filter((item) => item.type === "file");
+      .filter((item): item is FileItem => Boolean(item));
+    if (fileSpace !== "trash" && (selectedItems.length > 1 || selectedItems.some((item) => item.type === "folder"))) {
+      await downloadAsZip(selectedItems.map((item) => item.key));
+      return;
+    }
+    const targets = selectedItems.filter((item) => item.type === "file");
     if (!targets.length) {
-      setToast("暂不支持文件夹整体批量下载");
+      setToast("回收站中的文件夹请先恢复后再下载");
       return;
     }
     setToast(`开始下载 ${targets.length} 个文件`);
@@ -7461,6 +8255,12 @@ export default function R2Admin() {
 	    else if (isTextPreviewSupported(ext)) kind = "text";
 	    else if (isKkFileViewSupported(ext)) kind = "kkfile";
 
+    // Content hits open at the matching line; documents show the text the content index extracted.
+    const hit = item.line !== undefined && hasContentSearch
+      ? { line: item.line, terms: searchTokens, extracted: kind !== "text" }
+      : undefined;
+    if (hit) kind = "text";
+
     const readKey = item.storageKey || item.key;
     const previewSeed = {
       name: item.name,
@@ -7469,6 +8269,7 @@ export default function R2Admin() {
       kind,
       size: item.size,
       lastModified: item.lastModified,
+      hit,
     } as NonNullable<PreviewState>;
     setPreviewClosing(false);
     setPreviewFullscreen(false);
@@ -7482,8 +8283,18 @@ export default function R2Admin() {
         prev && prev.key === readKey && prev.bucket === previewBucketId ? { ...prev, url } : prev,
       );
       if (kind === "text") {
-        const res = await fetch(url, { headers: { Range: "bytes=0-1048575" } });
-        const text = await res.text();
+        let text: string;
+        if (hit?.extracted) {
+          const res = await fetchWithAuth(
+            `/api/search?bucket=${encodeURIComponent(previewBucketId)}&contentOf=${encodeURIComponent(readKey)}`,
+          );
+          const data = await readJsonSafe(res);
+          if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "读取文件内容失败"));
+          text = String((data as { text?: unknown }).text ?? "");
+        } else {
+          const res = await fetch(url, { headers: { Range: "bytes=0-1048575" } });
+          text = await res.text();
+        }
         setPreview((prev) => (prev && prev.key === readKey ? { ...prev, text } : prev));
       }
     } catch (error) {
@@ -7529,11 +8340,13 @@ export default function R2Admin() {
     contentType: string | undefined,
     onProgress: (loaded: number, total: number) => void,
     signal?: AbortSignal,
+    extraHeaders?: Record<string, string>,
   ) => {
     return new Promise<{ etag: string | null }>((resolve, reject) => {
       const xhr = new XMLHttpRequest();
       xhr.open("PUT", url, true);
       xhr.setRequestHeader("Content-Type", contentType || "application/octet-stream");
+      for (const [name, value] of Object.entries(extraHeaders ?? {})) xhr.setRequestHeader(name, value);
       const parseUploadError = (status: number, text: string) => {
         const raw = String(text || "");
         const xmlCode = raw.match(/<Code>([^<]+)<\/Code>/i)?.[1]?.trim() || "";
@@ -7543,6 +8356,7 @@ export default function R2Admin() {
         if (/NoSuchUpload/i.test(merged)) {
           return "分片上传会话已失效，请重试上传（系统会自动重建会话）。";
         }
+        if (status === 412) return "目标位置已存在同名文件，或该文件已被他人修改。";
         if (merged) return toChineseErrorMessage(merged, `上传失败（状态码：${status}）`);
         return `上传失败（状态码：${status}）`;
       };
@@ -7582,7 +8396,7 @@ export default function R2Admin() {
           onProgress(body.size, body.size);
           resolve({ etag: xhr.getResponseHeader("ETag") });
         } else {
-          reject(new Error(parseUploadError(xhr.status, xhr.responseText)));
+          reject(Object.assign(new Error(parseUploadError(xhr.status, xhr.responseText)), { status: xhr.status }));
         }
       };
       xhr.onerror = () => reject(new Error("网络异常，请重试"));
@@ -7592,18 +8406,19 @@ export default function R2Admin() {
   };
 
   const uploadSingleFile = async (
-    _taskId: string,
+    taskId: string,
     bucket: string,
     key: string,
     file: File,
     onLoaded: (loaded: number) => void,
     signal?: AbortSignal,
 	  ) => {
+	    const task = uploadTasksRef.current.find((t) => t.id === taskId);
 	    let signRes: Response;
 	    try {
 	      signRes = await fetchWithAuth("/api/files", {
 	        method: "POST",
-	        body: JSON.stringify({ bucket, key, contentType: file.type }),
+	        body: JSON.stringify({ bucket, key, contentType: file.type, storageClass: task?.storageClass, ...task?.onlyIf }),
 	      });
 	    } catch (err: unknown) {
 	      const msg = err instanceof Error ? err.message : String(err);
@@ -7613,10 +8428,17 @@ export default function R2Admin() {
 	    if (!signRes.ok || !signData.url) throw new Error(toChineseErrorMessage(signData.error, `上传签名失败（状态码：${signRes.status}）`));
       const primaryUrl = String(signData.url ?? "");
       const fallbackUrl = String(signData.proxyUrl ?? "").trim();
+      // Direct URLs may sign extra headers (e.g. the storage class); the proxy applies them server-side.
+      const primaryHeaders = (signData.headers ?? undefined) as Record<string, string> | undefined;
       try {
-        await xhrPut(primaryUrl, file, file.type, (loaded) => onLoaded(loaded), signal);
+        await xhrPut(primaryUrl, file, file.type, (loaded) => onLoaded(loaded), signal, primaryHeaders);
+        // Direct uploads bypass the server, so report them for the search index; a miss is repaired by the next reindex.
+        if (signData.isDirect) {
+          await fetchWithAuth("/api/files", { method: "PATCH", body: JSON.stringify({ bucket, key }) }).catch(() => null);
+        }
       } catch (firstError) {
-        if (fallbackUrl && fallbackUrl !== primaryUrl) {
+        // A failed precondition is an answer, not a transport problem; the proxy would reject it too.
+        if (fallbackUrl && fallbackUrl !== primaryUrl && readErrorStatus(firstError) !== 412) {
           await xhrPut(fallbackUrl, file, file.type, (loaded) => onLoaded(loaded), signal);
           return;
         }
@@ -7703,7 +8525,7 @@ export default function R2Admin() {
 	      try {
 	        createRes = await fetchWithAuth("/api/multipart", {
 	          method: "POST",
-	          body: JSON.stringify({ action: "create", bucket, key, contentType: file.type }),
+	          body: JSON.stringify({ action: "create", bucket, key, contentType: file.type, storageClass: existingTask?.storageClass }),
 	        });
 	      } catch (err: unknown) {
 	        const msg = err instanceof Error ? err.message : String(err);
@@ -7862,7 +8684,7 @@ export default function R2Admin() {
       try {
         completeRes = await fetchWithAuth("/api/multipart", {
           method: "POST",
-          body: JSON.stringify({ action: "complete", bucket, key, uploadId, parts }),
+          body: JSON.stringify({ action: "complete", bucket, key, uploadId, parts, ...existingTask?.onlyIf }),
         });
 	      } catch (err: unknown) {
 	        const msg = err instanceof Error ? err.message : String(err);
@@ -7871,6 +8693,8 @@ export default function R2Admin() {
       const completeData = await readJsonSafe(completeRes);
       if (!completeRes.ok) {
           const completeMessage = toChineseErrorMessage(completeData.error, `完成分片上传失败（状态码：${completeRes.status}）`);
+          // The session survives a failed precondition, so resolving the conflict can complete it without re-uploading.
+          if (completeRes.status === 412) throw Object.assign(new Error(completeMessage), { status: 412 });
           const shouldResetAndRetry =
             !resetRetried &&
             (String(completeData?.error ?? completeMessage).includes("All non-trailing parts must have the same length") ||
@@ -7971,6 +8795,70 @@ export default function R2Admin() {
     setToast("已取消");
   };
 
+  // "replace" is conditioned on the ETag seen now, so another upload landing in between prompts again.
+  const resolveUploadConflicts = async (ids: string[], choice: UploadConflictChoice) => {
+    const idSet = new Set(ids);
+    const targets = uploadTasksRef.current.filter((t) => idSet.has(t.id) && t.status === "conflict");
+    if (!targets.length) return;
+    const isTarget = (t: UploadTask) => idSet.has(t.id) && t.status === "conflict";
+
+    if (choice === "skip") {
+      setUploadTasks((prev) =>
+        prev.map((t) => (isTarget(t) ? { ...t, status: "canceled", speedBps: 0, error: "目标已存在，已跳过" } : t)),
+      );
+      for (const t of targets) void abortMultipartForTask(t.id);
+      return;
+    }
+
+    if (choice === "keepBoth") {
+      // The multipart session is bound to the old key, so the renamed upload starts over.
+      await Promise.all(targets.map((t) => abortMultipartForTask(t.id)));
+      setUploadTasks((prev) =>
+        prev.map((t) => {
+          if (!isTarget(t)) return t;
+          const key = nextKeepBothKey(t.key);
+          return {
+            ...t,
+            key,
+            resumeKey: getResumeKey(t.bucket, key, t.file),
+            multipart: undefined,
+            onlyIf: { ifNoneMatch: "*" },
+            loaded: 0,
+            speedBps: 0,
+            startedAt: undefined,
+            status: "queued",
+            error: undefined,
+          };
+        }),
+      );
+    } else {
+      const etags = new Map<string, string>();
+      await Promise.all(
+        targets.map(async (t) => {
+          try {
+            const res = await fetchWithAuth(
+              `/api/object/metadata?bucket=${encodeURIComponent(t.bucket)}&key=${encodeURIComponent(t.key)}`,
+            );
+            const data = await readJsonSafe(res);
+            const etag = String(data?.etag ?? "").trim();
+            if (res.ok && etag) etags.set(t.id, etag);
+          } catch {
+            // Without an ETag the replacement is unconditional.
+          }
+        }),
+      );
+      setUploadTasks((prev) =>
+        prev.map((t) => {
+          if (!isTarget(t)) return t;
+          const etag = etags.get(t.id);
+          return { ...t, onlyIf: etag ? { ifMatch: etag } : undefined, speedBps: 0, startedAt: undefined, status: "queued", error: undefined };
+        }),
+      );
+    }
+    setUploadQueuePaused(false);
+    setTimeout(() => processUploadQueue(), 0);
+  };
+
   const processUploadQueue = async () => {
     if (uploadProcessingRef.current) return;
     if (uploadQueuePausedRef.current) return;
@@ -8050,6 +8938,8 @@ export default function R2Admin() {
           const current = uploadTasksRef.current.find((t) => t.id === next.id);
           if (current?.status === "paused" || current?.status === "canceled") {
             // keep status
+          } else if (readErrorStatus(err) === 412) {
+            updateUploadTask(next.id, (t) => ({ ...t, status: "conflict", error: message, speedBps: 0 }));
           } else {
             updateUploadTask(next.id, (t) => ({ ...t, status: "error", error: message, speedBps: 0 }));
           }
@@ -8102,6 +8992,9 @@ export default function R2Admin() {
         file,
         key,
         resumeKey: getResumeKey(selectedBucket, key, file),
+        ...(uploadStorageClass ? { storageClass: uploadStorageClass } : {}),
+        // Create-only: an existing object at the key turns into a conflict prompt instead of being overwritten.
+        onlyIf: { ifNoneMatch: "*" },
         loaded: 0,
         speedBps: 0,
         status: "queued",
@@ -8266,7 +9159,7 @@ export default function R2Admin() {
   }, [files, recycleFilterSourceItems]);
 
   const recycleVisibleFiles = useMemo(() => {
-    const term = searchTerm.trim().toLowerCase();
+    const matcher = createTextMatcher(searchTerm);
     const typeSet = new Set(recycleTypeFilters.map((value) => value.trim()).filter(Boolean));
     const actorSet = new Set(recycleActorFilters.map((value) => value.trim()).filter(Boolean));
     const fromTs = recycleDateFrom ? Date.parse(`${recycleDateFrom}T00:00:00`) : NaN;
@@ -8275,17 +9168,11 @@ export default function R2Admin() {
 
     return files
       .filter((item) => item.trashId)
+      .flatMap((item) => {
+        const score = matcher.score([item.name, item.originalPath, item.deletedBy, item.key, getFileTypeLabel(item)]);
+        return score === null ? [] : [{ ...item, score }];
+      })
       .filter((item) => {
-        if (term) {
-          const haystack = [
-            item.name,
-            item.key,
-            item.originalPath ?? "",
-            item.deletedBy ?? "",
-            getFileTypeLabel(item),
-          ].join(" ").toLowerCase();
-          if (!haystack.includes(term)) return false;
-        }
         if (typeSet.size > 0 && !typeSet.has(getFileTypeLabel(item).trim())) return false;
         const actorKey = (item.deletedBy || item.deletedByEmail || "").trim();
         if (actorSet.size > 0 && !actorSet.has(actorKey)) return false;
@@ -8295,6 +9182,9 @@ export default function R2Admin() {
         return true;
       })
       .sort((a, b) => {
+        // Best text matches first; without a search term every score is 0.
+        const byScore = (b.score ?? 0) - (a.score ?? 0);
+        if (byScore !== 0) return byScore;
         const at = Date.parse(a.deletedAt ?? "");
         const bt = Date.parse(b.deletedAt ?? "");
         const aTime = Number.isFinite(at) ? at : -1;
@@ -8307,18 +9197,14 @@ export default function R2Admin() {
   const filteredFiles = useMemo(() => {
     if (fileSpace === "trash") return recycleVisibleFiles;
     const term = searchTerm.trim();
+    const textMatcher = createTextMatcher(term);
     const base =
-      term && fileSpace === "files"
+      fileSpace === "files" && globalSearchActive
         ? searchResults
         : term
-          ? files.filter((item) => {
-              const haystack = [
-                item.name,
-                item.key,
-                item.originalPath ?? "",
-                item.deletedBy ?? "",
-              ].join(" ").toLowerCase();
-              return haystack.includes(term.toLowerCase());
+          ? files.flatMap((item) => {
+              const score = textMatcher.score([item.name, item.key, item.originalPath, item.deletedBy]);
+              return score === null ? [] : [{ ...item, score }];
             })
           : files;
     const list = [...base];
@@ -8336,6 +9222,12 @@ export default function R2Admin() {
       const rankDiff = typeRank(a) - typeRank(b);
       if (rankDiff !== 0) return rankDiff;
 
+      if (fileSortKey === "relevance") {
+        const byScore = (b.score ?? 0) - (a.score ?? 0);
+        if (byScore !== 0) return byScore;
+        return textCmp(a.name, b.name);
+      }
+
       if (fileSortKey === "size") {
         if (a.type === "file" && b.type === "file") {
           const bySize = (a.size ?? 0) - (b.size ?? 0);
@@ -8369,6 +9261,7 @@ export default function R2Admin() {
     fileSortKey,
     fileSpace,
     files,
+    globalSearchActive,
     recycleVisibleFiles,
     searchResults,
     searchTerm,
@@ -8379,13 +9272,18 @@ export default function R2Admin() {
     () => filteredFiles.slice((filePage - 1) * filePageSize, filePage * filePageSize),
     [filePage, filePageSize, filteredFiles],
   );
+  // Results from other buckets of an all-bucket search are left out of bulk selection.
+  const selectablePageFiles = useMemo(
+    () => paginatedFiles.filter((item) => !item.bucketId || item.bucketId === selectedBucket),
+    [paginatedFiles, selectedBucket],
+  );
   const auditLogPageCount = Math.max(1, Math.ceil(auditLogs.length / auditLogPageSize));
   const paginatedAuditLogs = useMemo(
     () => auditLogs.slice((auditLogPage - 1) * auditLogPageSize, auditLogPage * auditLogPageSize),
     [auditLogPage, auditLogPageSize, auditLogs],
   );
 
-  useEffect(() => setFilePage(1), [fileSpace, path, searchTerm, fileSortKey, fileSortDirection, selectedBucket, recycleTypeFilters, recycleActorFilters, recycleDateFrom, recycleDateTo]);
+  useEffect(() => setFilePage(1), [fileSpace, path, searchTerm, searchFilters, fileSortKey, fileSortDirection, selectedBucket, recycleTypeFilters, recycleActorFilters, recycleDateFrom, recycleDateTo]);
   useEffect(() => {
     recycleFiltersRef.current = {
       types: recycleTypeFilters,
@@ -8407,6 +9305,21 @@ export default function R2Admin() {
   useEffect(() => {
     if (filePage > filePageCount) setFilePage(filePageCount);
   }, [filePage, filePageCount]);
+  const fileListHasMore = fileSpace === "files" && !globalSearchActive && Boolean(fileListCursor);
+  const fileListLoadMoreFailed = fileListHasMore && fileListFailedCursor === fileListCursor;
+  const searchHasMore = fileSpace === "files" && globalSearchActive && Boolean(searchCursor);
+  useEffect(() => {
+    // Searches return a page of results at a time; fetch more once the user reaches the last page.
+    if (!searchHasMore || searchLoading || searchLoadingMore || filePage < filePageCount) return;
+    void loadMoreSearchResults();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchHasMore, searchCursor, searchLoading, searchLoadingMore, filePage, filePageCount]);
+  useEffect(() => {
+    // Large folders are listed 1000 keys at a time; fetch the next batch once the user reaches the last page.
+    if (!fileListHasMore || fileListLoadMoreFailed || fileListLoading || fileListLoadingMore || filePage < filePageCount) return;
+    void loadMoreFiles();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fileListHasMore, fileListLoadMoreFailed, fileListCursor, fileListLoading, fileListLoadingMore, filePage, filePageCount]);
   useEffect(() => setAuditLogPage(1), [auditLogQueryKeyword, auditLogActionFilters, auditLogActorFilters, auditLogDateFrom, auditLogDateTo, selectedBucket]);
   useEffect(() => {
     if (auditLogPage > auditLogPageCount) setAuditLogPage(auditLogPageCount);
@@ -8442,6 +9355,11 @@ export default function R2Admin() {
   const activeUploadTasks = useMemo(() => uploadTasks.filter((task) => isActiveUploadStatus(task.status)), [uploadTasks]);
   const completedUploadTasks = useMemo(() => uploadTasks.filter((task) => !isActiveUploadStatus(task.status)), [uploadTasks]);
   const visibleUploadTasks = uploadPanelTab === "active" ? activeUploadTasks : completedUploadTasks;
+  const conflictedUploadTasks = useMemo(() => uploadTasks.filter((task) => task.status === "conflict"), [uploadTasks]);
+  const uploadConflictTask = conflictedUploadTasks[0] ?? null;
+  const activeBackgroundJobs = useMemo(() => backgroundJobs.filter(isActiveBackgroundJob), [backgroundJobs]);
+  const finishedBackgroundJobs = useMemo(() => backgroundJobs.filter((job) => !isActiveBackgroundJob(job)), [backgroundJobs]);
+  const visibleBackgroundJobs = uploadPanelTab === "active" ? activeBackgroundJobs : finishedBackgroundJobs;
 
   const getIcon = (type: string, name: string, size: "xl" | "lg" | "sm" = "lg") => {
     const iconSizeClass =
@@ -9203,6 +10121,7 @@ export default function R2Admin() {
         : objectPropertiesExt
           ? `.${objectPropertiesExt}`
           : "无扩展名";
+      const objectPropertiesStorageClass = objectMetadata?.storageClass ?? objectPropertiesTarget?.storageClass;
       const objectPropertiesTeamName = meInfo?.team.name || "当前团队";
       const objectPropertiesManagers = teamMembers.filter(
         (member) =>
@@ -9431,7 +10350,7 @@ export default function R2Admin() {
         if (next === "trash") setFileViewMode("list");
         setPath([]);
         setFiles([]);
-        setSearchTerm("");
+        clearGlobalSearch();
         setSearchResults([]);
         setSearchCursor(null);
         setSelectedItem(null);
@@ -9469,7 +10388,7 @@ export default function R2Admin() {
 			  const selectBucket = (bucketId: string) => {
 		    setSelectedBucket(bucketId);
 	    setPath([]);
-	    setSearchTerm("");
+	    clearGlobalSearch();
     setSelectedItem(null);
 	    setSelectedKeys(new Set());
 	    setBucketMenuOpen(false);
@@ -9487,6 +10406,8 @@ export default function R2Admin() {
           setShowBucketAccessKeyId(false);
           setShowBucketSecretAccessKey(false);
 		        resetBucketForm();
+		        setBucketCreateRemote(false);
+		        setBucketLocationHint("");
 		        setAddBucketOpen(true);
 		      };
 
@@ -9505,9 +10426,20 @@ export default function R2Admin() {
         setShowBucketAccessKeyId(false);
         setShowBucketSecretAccessKey(false);
 	        setBucketForm({
+          driver: target.driver ?? "r2",
           bucketLabel: target.Name ?? "",
           bucketName: target.bucketName ?? "",
           accountId: target.accountId ?? "",
+          endpoint: target.endpoint ?? "",
+          region: target.region ?? "",
+          jurisdiction: target.jurisdiction ?? "default",
+          maxRetries: target.maxRetries === undefined ? "" : String(target.maxRetries),
+          defaultStorageClass: target.defaultStorageClass ?? "",
+          versioningEnabled: target.versioningEnabled ?? false,
+          versionRetention: target.versionRetention === undefined ? "" : String(target.versionRetention),
+          proxyCacheControl: target.proxyCacheControl ?? "",
+          edgeCacheSeconds: target.edgeCacheSeconds === undefined ? "" : String(target.edgeCacheSeconds),
+          contentIndexEnabled: target.contentIndexEnabled ?? false,
           accessKeyId: "",
           secretAccessKey: "",
           publicBaseUrl: target.publicBaseUrl ?? "",
@@ -9527,6 +10459,9 @@ export default function R2Admin() {
           return;
         }
         setBucketDeleteTargetId(target.id);
+        setBucketDeleteRemote(false);
+        setBucketDeleteEmpty(false);
+        setBucketDeleteConfirmText("");
         setBucketDeleteOpen(true);
       };
 
@@ -9996,6 +10931,19 @@ export default function R2Admin() {
     </div>
   );
 
+  const renderSearchFilterControl = (variant: "desktop" | "mobile") => (
+    <SearchFilterControl
+      variant={variant}
+      filters={searchFilters}
+      onFiltersChange={setSearchFilters}
+      open={searchFilterOpen}
+      onOpenChange={setSearchFilterOpen}
+      disabled={!selectedBucket}
+      canCopyLink={globalSearchActive}
+      onCopyLink={() => void copyToClipboard(window.location.href)}
+    />
+  );
+
   const renderInlineRenameEditor = (item: FileItem, mode: "list" | "grid") => {
     const saving = inlineRenameSavingKey === item.key;
     const extensionStart = item.type === "file" ? inlineRenameValue.lastIndexOf(".") : -1;
@@ -10120,10 +11068,10 @@ export default function R2Admin() {
           <MenuButton
             icon={<Check className="h-4 w-4" />}
             label="全选当前页"
-            disabled={paginatedFiles.length === 0}
+            disabled={selectablePageFiles.length === 0}
             onClick={() => {
-              setSelectedKeys(new Set(paginatedFiles.map((item) => item.key)));
-              setSelectedItem(paginatedFiles[0] ?? null);
+              setSelectedKeys(new Set(selectablePageFiles.map((item) => item.key)));
+              setSelectedItem(selectablePageFiles[0] ?? null);
             }}
           />
           <MenuButton
@@ -10204,7 +11152,7 @@ export default function R2Admin() {
               icon={<Download className="h-4 w-4" />}
               label="下载"
               disabled={!canReadObject}
-              title={isFolder ? "暂不支持文件夹整体下载" : "下载"}
+              title={isFolder ? "打包下载" : "下载"}
               onClick={() => void downloadItem(item)}
             />
             {fileSpace === "files" ? (
@@ -10227,6 +11175,14 @@ export default function R2Admin() {
                   disabled={!canMoveCopyObject}
                   onClick={() => openMoveFor(item, "copy")}
                 />
+                {findBucketById(selectedBucket)?.driver !== "local" ? (
+                  <MenuButton
+                    icon={<Archive className="h-4 w-4" />}
+                    label="更改存储类型"
+                    disabled={!canUploadObject}
+                    onClick={() => openStorageClassForItem(item)}
+                  />
+                ) : null}
               </>
             ) : null}
             <MenuButton
@@ -10494,6 +11450,16 @@ export default function R2Admin() {
     ["folder_lock_enable", "启用加密"],
     ["folder_lock_update", "更新加密"],
     ["folder_lock_disable", "取消加密"],
+    ["metadata_update", "修改元数据"],
+    ["cors_update", "修改 CORS"],
+    ["lifecycle_update", "修改生命周期"],
+    ["storage_class_update", "更改存储类型"],
+    ["multipart_abort", "清理分片上传"],
+    ["bucket_create", "创建存储桶"],
+    ["bucket_delete", "删除存储桶"],
+    ["version_restore", "恢复历史版本"],
+    ["version_delete", "删除历史版本"],
+    ["token_revoke", "撤销访问链接"],
   ] as const;
 
   const AuditLogPanel = () => {
@@ -11054,8 +12020,15 @@ export default function R2Admin() {
     const currentUserId = meInfo?.profile.userId || "";
     const allPeers = messageMembers.filter((member) => member.userId !== currentUserId);
     const normalizedMemberSearch = messageMemberSearch.trim().toLowerCase();
+    const memberMatcher = createTextMatcher(normalizedMemberSearch);
     const peers = normalizedMemberSearch
-      ? allPeers.filter((member) => `${member.displayName} ${member.email}`.toLowerCase().includes(normalizedMemberSearch))
+      ? allPeers
+          .flatMap((member) => {
+            const score = memberMatcher.score([member.displayName, member.email]);
+            return score === null ? [] : [{ member, score }];
+          })
+          .sort((a, b) => b.score - a.score)
+          .map(({ member }) => member)
       : allPeers;
     const resolveRequestReviewer = (request: PermissionRequestRecord) => {
       const reviewerMember = request.reviewedBy
@@ -12222,9 +13195,9 @@ export default function R2Admin() {
               {!isTrashSpace ? (
                 <button
                   onClick={openMkdir}
-                  disabled={!selectedBucket || !isFilesSpace || !!searchTerm.trim()}
+                  disabled={!selectedBucket || !isFilesSpace || globalSearchActive}
                   className={toolbarButtonClass}
-                  title={searchTerm.trim() ? "搜索中无法新建文件夹" : "新建文件夹"}
+                  title={globalSearchActive ? "搜索中无法新建文件夹" : "新建文件夹"}
                   aria-label="新建"
                 >
                   <FolderPlus className={toolbarIconClass} />
@@ -12235,7 +13208,7 @@ export default function R2Admin() {
                 onClick={handleBatchDownload}
                 disabled={selectedKeys.size === 0}
                 className={isTrashSpace ? recycleToolbarButtonClass : toolbarButtonClass}
-                title="批量下载（所选文件）"
+                title="下载（多选或文件夹将打包为 ZIP）"
                 aria-label="下载"
               >
                 <Download className={toolbarIconClass} />
@@ -12324,7 +13297,7 @@ export default function R2Admin() {
 	                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 dark:text-gray-500" />
 	                <input
 	                  type="text"
-	                  placeholder="桶内全局搜索..."
+	                  placeholder={searchMatchPlaceholder || "桶内全局搜索..."}
 	                  value={searchTerm}
 	                  onChange={(e) => setSearchTerm(e.target.value)}
 	                  className="h-[38px] w-full pl-9 pr-9 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all dark:border-slate-700/80 dark:bg-slate-900/75 dark:text-slate-100 dark:placeholder:text-slate-400 dark:shadow-[inset_0_1px_0_rgba(255,255,255,0.04)]"
@@ -12335,6 +13308,7 @@ export default function R2Admin() {
                   </div>
                 ) : null}
               </div>
+              {isFilesSpace ? renderSearchFilterControl("desktop") : null}
               <div className="relative shrink-0">
                 <button
                   onClick={toggleUploadPanelFromButton}
@@ -12370,7 +13344,7 @@ export default function R2Admin() {
                     <button
                       onClick={() => {
                         setPath([]);
-                        setSearchTerm("");
+                        clearGlobalSearch();
                       }}
                       className="flex shrink-0 items-center gap-1 rounded-md px-1.5 py-1 text-gray-500 transition-colors hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
                     >
@@ -12468,12 +13442,12 @@ export default function R2Admin() {
               </button>
             </div>
 
-            <div className="flex items-center gap-2">
+            <div className="relative flex items-center gap-2">
               <div className="relative flex-1">
                 <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 dark:text-gray-500" />
                 <input
                   type="text"
-                  placeholder="桶内搜索..."
+                  placeholder={(isFilesSpace && searchMatchPlaceholder) || "桶内搜索..."}
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="w-full pl-9 pr-9 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 transition-all dark:border-slate-700/80 dark:bg-slate-900/75 dark:text-slate-100 dark:placeholder:text-slate-400 dark:shadow-[inset_0_1px_0_rgba(255,255,255,0.04)]"
@@ -12484,6 +13458,7 @@ export default function R2Admin() {
                   </div>
                 ) : null}
               </div>
+              {isFilesSpace ? renderSearchFilterControl("mobile") : null}
 	              <div className="relative">
 	                <button
 	                  onClick={toggleUploadPanelFromButton}
@@ -12564,9 +13539,9 @@ export default function R2Admin() {
               </button>
               <button
                 onClick={openMkdir}
-                disabled={!selectedBucket || !isFilesSpace || !!searchTerm.trim()}
+                disabled={!selectedBucket || !isFilesSpace || globalSearchActive}
                 className={mobileToolbarButtonClass}
-                title={searchTerm.trim() ? "搜索中无法新建文件夹" : "新建文件夹"}
+                title={globalSearchActive ? "搜索中无法新建文件夹" : "新建文件夹"}
                 aria-label="新建"
               >
                 <FolderPlus className="w-5 h-5" />
@@ -12576,7 +13551,7 @@ export default function R2Admin() {
                 onClick={handleBatchDownload}
                 disabled={selectedKeys.size === 0}
                 className={mobileToolbarButtonClass}
-                title="批量下载（所选文件）"
+                title="下载（多选或文件夹将打包为 ZIP）"
                 aria-label="下载"
               >
                 <Download className="w-5 h-5" />
@@ -12649,7 +13624,7 @@ export default function R2Admin() {
                         <button
                           onClick={() => {
                             setPath([]);
-                            setSearchTerm("");
+                            clearGlobalSearch();
                           }}
                           className="flex shrink-0 items-center gap-0.5 rounded-md px-1.5 py-0.5 text-gray-500 transition-colors hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
                         >
@@ -12700,6 +13675,43 @@ export default function R2Admin() {
 
         <input type="file" multiple ref={fileInputRef} className="hidden" onChange={handleUpload} />
         <input type="file" multiple ref={folderInputRef} className="hidden" onChange={handleFolderUpload} />
+        {isFilesSpace && globalSearchActive && searchIndexInfo && canSearchObjects ? (
+          <div className="flex items-center justify-between gap-3 border-b border-gray-100 px-3 py-1.5 text-xs text-gray-500 md:px-6 dark:border-gray-800 dark:text-gray-400">
+            <span className="min-w-0 truncate">
+              {searchIndexInfo.buckets !== undefined
+                ? [
+                    `已搜索 ${searchIndexInfo.buckets} 个存储桶`,
+                    searchIndexInfo.indexed === false ? "部分存储桶尚未建立搜索索引，结果可能不完整" : "",
+                    searchIndexInfo.failedBuckets?.length ? `${searchIndexInfo.failedBuckets.join("、")} 搜索失败` : "",
+                  ].filter(Boolean).join("；")
+                : hasContentSearch
+                  ? "基于内容索引，只包含已建立索引的文本、Word、Excel 与 PDF 文件"
+                  : searchIndexInfo.indexed
+                    ? `基于搜索索引${searchIndexInfo.indexedAt ? `（${formatDateTime(searchIndexInfo.indexedAt)} 校准）` : ""}`
+                    : "尚未建立搜索索引，结果来自逐页扫描，大存储桶可能不完整"}
+            </span>
+            {hasSearchText && fileSortKey !== "relevance" ? (
+              <button
+                type="button"
+                onClick={() => applyFileSort("relevance", "desc")}
+                className="ml-auto inline-flex shrink-0 items-center gap-1 rounded-md px-2 py-0.5 text-blue-600 transition-colors hover:bg-blue-50 dark:text-blue-300 dark:hover:bg-blue-950/30"
+              >
+                按相关度排序
+              </button>
+            ) : null}
+            {searchIndexInfo.buckets === undefined ? (
+              <button
+                type="button"
+                onClick={() => void startSearchReindex(hasContentSearch ? "content_index" : "reindex")}
+                disabled={searchReindexing}
+                className="inline-flex shrink-0 items-center gap-1 rounded-md px-2 py-0.5 text-blue-600 transition-colors hover:bg-blue-50 disabled:cursor-not-allowed disabled:opacity-50 dark:text-blue-300 dark:hover:bg-blue-950/30"
+              >
+                <RefreshCw className={`h-3.5 w-3.5 ${searchReindexing ? "animate-spin" : ""}`} />
+                {hasContentSearch ? "更新内容索引" : searchIndexInfo.indexed ? "重新扫描" : "建立索引"}
+              </button>
+            ) : null}
+          </div>
+        ) : null}
         {/* 文件列表 */}
         <div
 	          className={`r2-scrollbar relative flex-1 overflow-y-auto p-2 md:px-6 md:pb-0 md:pt-2 bg-gray-50/30 dark:bg-gray-900 ${loading || fileListLoading ? "pointer-events-none" : ""}`}
@@ -12815,15 +13827,17 @@ export default function R2Admin() {
                 <Folder className="w-10 h-10 text-gray-300 dark:text-gray-600" />
               </div>
               <p className="text-sm font-normal">
-                {searchTerm.trim()
-                  ? "未找到匹配内容"
-                  : isFavoritesSpace
-                    ? "收藏夹为空"
-                    : isTrashSpace
-                      ? hasRecycleFilters
-                        ? "未找到匹配的回收文件"
-                        : "回收站为空"
-                      : "文件夹为空"}
+                {isFilesSpace && globalSearchActive
+                  ? (searchError ?? "未找到匹配内容")
+                  : searchTerm.trim()
+                    ? "未找到匹配内容"
+                    : isFavoritesSpace
+                      ? "收藏夹为空"
+                      : isTrashSpace
+                        ? hasRecycleFilters
+                          ? "未找到匹配的回收文件"
+                          : "回收站为空"
+                        : "文件夹为空"}
               </p>
             </div>
           ) : (
@@ -12840,13 +13854,13 @@ export default function R2Admin() {
                       <input
                         type="checkbox"
                         aria-label="Select all"
-                        checked={paginatedFiles.length > 0 && paginatedFiles.every((f) => selectedKeys.has(f.key))}
+                        checked={selectablePageFiles.length > 0 && selectablePageFiles.every((f) => selectedKeys.has(f.key))}
                         onChange={(e) => {
                           const next = new Set(selectedKeys);
                           if (e.target.checked) {
-                            for (const f of paginatedFiles) next.add(f.key);
+                            for (const f of selectablePageFiles) next.add(f.key);
                           } else {
-                            for (const f of paginatedFiles) next.delete(f.key);
+                            for (const f of selectablePageFiles) next.delete(f.key);
                           }
                           setSelectedKeys(next);
                         }}
@@ -12887,6 +13901,7 @@ export default function R2Admin() {
                               onChange={applyFileSort}
                               compact
                               small
+                              relevance={hasSearchText}
                             />
                           </div>
                         </>
@@ -12982,13 +13997,18 @@ export default function R2Admin() {
                   {fileViewMode === "list" ? (
                     <div className="r2-scrollbar min-h-0 flex-1 overflow-y-auto">
                       {paginatedFiles.map((file) => {
-                        const checked = selectedKeys.has(file.key);
-                        const active = checked || selectedItem?.key === file.key;
+                        const foreign = isForeignSearchResult(file);
+                        const checked = !foreign && selectedKeys.has(file.key);
+                        const active = checked || (!foreign && selectedItem?.key === file.key);
                         return (
                           <div
-                            key={file.key}
+                            key={`${file.bucketId ?? ""}:${file.key}`}
                             onClick={(e) => {
                               e.stopPropagation();
+                              if (foreign) {
+                                if (isMobile) locateSearchResult(file);
+                                return;
+                              }
                               if (isMobile) {
                                 if (file.type === "folder") attemptEnterFolder(file);
                                 else previewItem(file);
@@ -13003,10 +14023,17 @@ export default function R2Admin() {
 	                            onDoubleClick={(e) => {
 	                              e.stopPropagation();
 	                              if (isMobile) return;
-	                              if (file.type === "folder") attemptEnterFolder(file);
+	                              if (foreign) locateSearchResult(file);
+	                              else if (file.type === "folder") attemptEnterFolder(file);
 	                              else previewItem(file);
 	                            }}
-	                            onContextMenu={(e) => openFileContextMenu(e, file)}
+	                            onContextMenu={(e) => {
+	                              if (foreign) {
+	                                e.preventDefault();
+	                                return;
+	                              }
+	                              openFileContextMenu(e, file);
+	                            }}
 	                            className={`group flex items-center px-4 py-3 md:py-3.5 text-sm border-b border-gray-100 hover:bg-gray-50 cursor-pointer md:grid ${fileListGridClass} md:items-center md:gap-x-0 dark:border-gray-800 dark:hover:bg-gray-800 ${
 	                              active ? "bg-blue-50/70 dark:bg-blue-950/25" : "bg-white dark:bg-gray-900"
 	                            }`}
@@ -13022,6 +14049,7 @@ export default function R2Admin() {
                                   setSelectedKeys(next);
                                 }}
                                 onClick={(e) => e.stopPropagation()}
+                                disabled={foreign}
                                 className="w-4 h-4"
                               />
                             </div>
@@ -13050,8 +14078,22 @@ export default function R2Admin() {
                                     >
                                       {file.name}
                                     </div>
+                                    {file.storageClass === "STANDARD_IA" ? (
+                                      <span
+                                        className="shrink-0 rounded border border-amber-200 bg-amber-50 px-1.5 py-[1px] text-[10px] font-medium text-amber-700 dark:border-amber-900/60 dark:bg-amber-950/40 dark:text-amber-300"
+                                        title="低频访问存储"
+                                      >
+                                        低频
+                                      </span>
+                                    ) : null}
+                                    {file.bucketLabel ? (
+                                      <span className="max-w-[10rem] shrink-0 truncate rounded border border-indigo-200 bg-indigo-50 px-1.5 py-[1px] text-[10px] font-medium text-indigo-700 dark:border-indigo-900/60 dark:bg-indigo-950/40 dark:text-indigo-300" title={`存储桶：${file.bucketLabel}`}>
+                                        {file.bucketLabel}
+                                      </span>
+                                    ) : null}
                                   </div>
                                 )}
+                                {file.snippet ? <SearchSnippet text={file.snippet} terms={searchTokens} className="mt-1 line-clamp-2" /> : null}
                                 <div className="mt-1 flex items-center gap-1.5 text-[11px] leading-none text-gray-400 md:hidden dark:text-gray-500">
                                   <span className="shrink-0 text-[10px] px-1.5 py-[1px] rounded border border-gray-200 bg-white text-gray-500 font-medium dark:border-gray-800 dark:bg-gray-900 dark:text-gray-300">
                                     {getFileTag(file)}
@@ -13096,6 +14138,10 @@ export default function R2Admin() {
                                 type="button"
                                 onClick={(e) => {
                                   e.stopPropagation();
+                                  if (foreign) {
+                                    locateSearchResult(file);
+                                    return;
+                                  }
                                   setSelectedItem(file);
                                   setMobileDetailOpen(true);
                                 }}
@@ -13114,13 +14160,18 @@ export default function R2Admin() {
                     <div className="min-h-0 flex-1 overflow-y-auto p-3 sm:p-4">
                       <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5">
                         {paginatedFiles.map((file) => {
-                          const checked = selectedKeys.has(file.key);
-                          const active = checked || selectedItem?.key === file.key;
+                          const foreign = isForeignSearchResult(file);
+                          const checked = !foreign && selectedKeys.has(file.key);
+                          const active = checked || (!foreign && selectedItem?.key === file.key);
                           return (
                             <div
-                              key={file.key}
+                              key={`${file.bucketId ?? ""}:${file.key}`}
                               onClick={(e) => {
                                 e.stopPropagation();
+                                if (foreign) {
+                                  if (isMobile) locateSearchResult(file);
+                                  return;
+                                }
                                 if (isMobile) {
                                   if (file.type === "folder") attemptEnterFolder(file);
                                   else previewItem(file);
@@ -13135,10 +14186,17 @@ export default function R2Admin() {
 	                              onDoubleClick={(e) => {
 	                                e.stopPropagation();
 	                                if (isMobile) return;
-	                                if (file.type === "folder") attemptEnterFolder(file);
+	                                if (foreign) locateSearchResult(file);
+	                                else if (file.type === "folder") attemptEnterFolder(file);
 	                                else previewItem(file);
 	                              }}
-	                              onContextMenu={(e) => openFileContextMenu(e, file)}
+	                              onContextMenu={(e) => {
+	                                if (foreign) {
+	                                  e.preventDefault();
+	                                  return;
+	                                }
+	                                openFileContextMenu(e, file);
+	                              }}
 	                              className={`group relative cursor-pointer rounded-xl border p-3 transition-colors ${
                                 active
                                   ? "border-blue-300 bg-blue-50/70 dark:border-blue-900 dark:bg-blue-950/25"
@@ -13156,6 +14214,7 @@ export default function R2Admin() {
                                     setSelectedKeys(next);
                                   }}
                                   onClick={(e) => e.stopPropagation()}
+                                  disabled={foreign}
                                   className="h-4 w-4"
                                 />
                               </div>
@@ -13164,6 +14223,10 @@ export default function R2Admin() {
                                   type="button"
                                   onClick={(e) => {
                                     e.stopPropagation();
+                                    if (foreign) {
+                                      locateSearchResult(file);
+                                      return;
+                                    }
                                     setSelectedItem(file);
                                     setMobileDetailOpen(true);
                                   }}
@@ -13201,6 +14264,14 @@ export default function R2Admin() {
                                     <span className="block truncate">{file.name}</span>
                                   )}
                                 </div>
+                                {file.snippet ? <SearchSnippet text={file.snippet} terms={searchTokens} className="mt-1.5 line-clamp-2 text-left" /> : null}
+                                {file.bucketLabel ? (
+                                  <div className="mt-1.5 flex justify-center">
+                                    <span className="max-w-[10rem] shrink-0 truncate rounded border border-indigo-200 bg-indigo-50 px-1.5 py-[1px] text-[10px] font-medium text-indigo-700 dark:border-indigo-900/60 dark:bg-indigo-950/40 dark:text-indigo-300" title={`存储桶：${file.bucketLabel}`}>
+                                      {file.bucketLabel}
+                                    </span>
+                                  </div>
+                                ) : null}
                                 <div className="mt-2 flex items-center justify-center gap-1.5 text-[11px] leading-none text-gray-400 dark:text-gray-500">
                                   <span className="truncate text-[11px] leading-none text-gray-400 dark:text-gray-500">
                                     {formatSize(file.size)}
@@ -13223,6 +14294,9 @@ export default function R2Admin() {
                     total={filteredFiles.length}
                     onPageChange={setFilePage}
                     onPageSizeChange={(size) => { setFilePageSize(size); setFilePage(1); }}
+                    hasMore={fileListHasMore || searchHasMore}
+                    loadingMore={fileListLoadingMore || searchLoadingMore}
+                    onRetryLoadMore={fileListLoadMoreFailed ? () => void loadMoreFiles() : undefined}
                   />
                 </div>
             </React.Fragment>
@@ -14015,9 +15089,85 @@ export default function R2Admin() {
                 <div className="divide-y divide-gray-100 dark:divide-gray-800">
                   <PropertyRow label="文件格式" value={objectPropertiesFormat} />
                   <PropertyRow label="文件大小" value={formatSize(objectPropertiesTarget.size)} />
+                  {findBucketById(selectedBucket)?.driver !== "local" ? (
+                    <PropertyRow
+                      label="存储类型"
+                      value={
+                        objectPropertiesStorageClass ? STORAGE_CLASS_LABELS[objectPropertiesStorageClass] : <PropertyUnavailable>暂无记录</PropertyUnavailable>
+                      }
+                    />
+                  ) : null}
                   <PropertyRow label="推荐软件" value={objectPropertiesOpenWith} />
                   <PropertyRow label="站内预览" value={objectPropertiesPreviewLabel} />
                   <PropertyRow label="扩展名称" value={objectPropertiesExtensionLabel} />
+                  {fileSpace !== "trash" ? (
+                    <div className="py-3">
+                      <div className="mb-2 flex items-center justify-between gap-3">
+                        <div className="text-sm font-medium text-gray-900 dark:text-gray-100">元数据</div>
+                        {canUploadObject && objectMetadata && !objectMetadataEditing ? (
+                          <button
+                            type="button"
+                            onClick={() => setObjectMetadataEditing(true)}
+                            className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 dark:text-blue-300 dark:hover:bg-blue-950/40"
+                          >
+                            <Edit2 className="h-3.5 w-3.5" />
+                            编辑
+                          </button>
+                        ) : null}
+                      </div>
+                      {objectMetadataLoading && !objectMetadata ? (
+                        <div className="py-2 text-sm text-gray-500 dark:text-gray-400">正在读取元数据...</div>
+                      ) : !objectMetadata ? (
+                        <div className="py-2 text-sm text-gray-400 dark:text-gray-500">暂无法读取元数据</div>
+                      ) : objectMetadataEditing ? (
+                        <ObjectMetadataEditor
+                          api={panelApi}
+                          bucket={selectedBucket ?? ""}
+                          objectKey={objectPropertiesTarget.key}
+                          metadata={objectMetadata}
+                          onCancel={() => setObjectMetadataEditing(false)}
+                          onSaved={(data) => {
+                            setObjectMetadata(data as ObjectMetadataView);
+                            setObjectMetadataEditing(false);
+                            setObjectVersionsRefreshKey((key) => key + 1);
+                          }}
+                        />
+                      ) : (
+                        <div className="divide-y divide-gray-100 dark:divide-gray-800">
+                          <PropertyRow label="Content-Type" value={objectMetadata.httpMetadata.contentType || <PropertyUnavailable>未设置</PropertyUnavailable>} mono />
+                          <PropertyRow label="Cache-Control" value={objectMetadata.httpMetadata.cacheControl || <PropertyUnavailable>未设置</PropertyUnavailable>} mono />
+                          <PropertyRow
+                            label="Disposition"
+                            value={objectMetadata.httpMetadata.contentDisposition || <PropertyUnavailable>未设置</PropertyUnavailable>}
+                            mono
+                          />
+                          <PropertyRow label="Encoding" value={objectMetadata.httpMetadata.contentEncoding || <PropertyUnavailable>未设置</PropertyUnavailable>} mono />
+                          {Object.entries(objectMetadata.customMetadata).map(([key, value]) => (
+                            <PropertyRow key={key} label={key} value={value || <PropertyUnavailable>空</PropertyUnavailable>} mono />
+                          ))}
+                          <PropertyRow label="ETag" value={objectMetadata.etag || <PropertyUnavailable>暂无记录</PropertyUnavailable>} mono />
+                          <PropertyRow
+                            label="修改时间"
+                            value={objectMetadata.lastModified ? formatDateTime(objectMetadata.lastModified) : <PropertyUnavailable>暂无记录</PropertyUnavailable>}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  ) : null}
+                  {fileSpace !== "trash" && objectPropertiesTarget.type === "file" && selectedBucket ? (
+                    <ObjectVersionsSection
+                      api={panelApi}
+                      bucket={selectedBucket}
+                      objectKey={objectPropertiesTarget.key}
+                      objectName={objectPropertiesTarget.name}
+                      versioningEnabled={Boolean(findBucketById(selectedBucket)?.versioningEnabled)}
+                      canRestore={canUploadObject}
+                      canDelete={canDeleteObject}
+                      refreshKey={objectVersionsRefreshKey}
+                      onRestored={() => refreshAfterVersionRestore(objectPropertiesTarget)}
+                      onDownload={(version) => void downloadObjectVersion(version)}
+                    />
+                  ) : null}
                 </div>
               ) : null}
 
@@ -14687,7 +15837,7 @@ export default function R2Admin() {
       <Modal
         open={moveOpen}
         title={`${moveDialogActionLabel}到`}
-        description="选择一个目标文件夹"
+        description={buckets.length > 1 ? "选择目标存储桶和文件夹" : "选择一个目标文件夹"}
         panelClassName="max-w-[94vw] sm:max-w-[640px] h-[calc(100dvh-1.5rem)] sm:h-[560px] rounded-lg"
         contentClassName="flex min-h-0 flex-col overflow-hidden px-0 py-0"
         showHeaderClose
@@ -14696,7 +15846,10 @@ export default function R2Admin() {
           <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
             <div className="min-w-0 text-xs text-gray-500 dark:text-gray-400">
               <span className="text-gray-400 dark:text-gray-500">目标：</span>
-              <span className="font-medium text-gray-700 dark:text-gray-200">{formatMoveTargetLabel(moveBrowserPath)}</span>
+              <span className="font-medium text-gray-700 dark:text-gray-200">
+                {moveTargetBucket && moveTargetBucket !== selectedBucket ? `${getBucketLabel(moveTargetBucket)} ` : ""}
+                {formatMoveTargetLabel(moveBrowserPath)}
+              </span>
             </div>
             <div className="flex justify-end gap-2">
               <button
@@ -14708,7 +15861,7 @@ export default function R2Admin() {
               </button>
               <button
                 type="button"
-                onClick={executeMoveOrCopy}
+                onClick={() => void executeMoveOrCopy()}
                 disabled={moveSubmitting}
                 className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
               >
@@ -14720,6 +15873,24 @@ export default function R2Admin() {
         }
       >
         <div className="flex min-h-0 flex-1 flex-col bg-white dark:bg-gray-900">
+          {buckets.length > 1 ? (
+            <div className="flex items-center gap-2 border-b border-gray-100 px-4 py-2.5 dark:border-gray-800">
+              <span className="shrink-0 text-xs font-medium text-gray-500 dark:text-gray-400">目标存储桶</span>
+              <select
+                value={moveTargetBucket ?? selectedBucket ?? ""}
+                onChange={(e) => chooseMoveBucket(e.target.value)}
+                disabled={moveSubmitting}
+                className="min-w-0 flex-1 rounded-lg border border-gray-200 px-3 py-1.5 text-sm outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 disabled:opacity-60 dark:border-gray-800 dark:bg-gray-950 dark:text-gray-100"
+              >
+                {buckets.map((bucket) => (
+                  <option key={bucket.id} value={bucket.id}>
+                    {getBucketLabel(bucket.id)}
+                    {bucket.id === selectedBucket ? "（当前）" : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ) : null}
           <MoveDirectoryTree
             selectedPath={moveBrowserPath}
             expandedKeys={moveTreeExpanded}
@@ -14731,6 +15902,57 @@ export default function R2Admin() {
         </div>
       </Modal>
 
+      <Modal
+        open={moveOpen && Boolean(moveConflicts?.length)}
+        title="目标位置存在同名项"
+        description={`${moveConflicts?.length ?? 0} 项与目标文件夹中的内容重名，请选择处理方式`}
+        panelClassName="max-w-[94vw] sm:max-w-[480px]"
+        zIndex={320}
+        showHeaderClose
+        onClose={() => setMoveConflicts(null)}
+        footer={
+          <div className="flex flex-wrap justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => void executeMoveOrCopy("skip")}
+              disabled={moveSubmitting}
+              className="rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-700 transition hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-800 dark:text-gray-200 dark:hover:bg-gray-800"
+            >
+              跳过同名项
+            </button>
+            <button
+              type="button"
+              onClick={() => void executeMoveOrCopy("overwrite")}
+              disabled={moveSubmitting}
+              className="rounded-lg border border-red-200 px-4 py-2 text-sm font-medium text-red-600 transition hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-red-900/60 dark:text-red-300 dark:hover:bg-red-950/30"
+            >
+              覆盖
+            </button>
+            <button
+              type="button"
+              onClick={() => void executeMoveOrCopy("rename")}
+              disabled={moveSubmitting}
+              className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {moveSubmitting ? <RefreshCw className="h-4 w-4 animate-spin" /> : null}
+              保留两者
+            </button>
+          </div>
+        }
+      >
+        <div className="space-y-1.5 text-sm text-gray-600 dark:text-gray-300">
+          {(moveConflicts ?? []).slice(0, 6).map((item) => (
+            <div key={item.sourceKey} className="truncate rounded-md bg-gray-50 px-3 py-1.5 font-mono text-xs dark:bg-gray-800/70" title={item.targetKey}>
+              {item.targetKey}
+            </div>
+          ))}
+          {(moveConflicts?.length ?? 0) > 6 ? (
+            <div className="text-xs text-gray-400 dark:text-gray-500">以及另外 {(moveConflicts?.length ?? 0) - 6} 项</div>
+          ) : null}
+          <div className="pt-1 text-xs text-gray-500 dark:text-gray-400">“保留两者”会以“名称 (1)”的形式重命名新项目，“覆盖”会替换目标位置的同名文件。</div>
+        </div>
+      </Modal>
+
       <Modal
         open={accountCenterOpen}
         title="账号中心"
@@ -14962,10 +16184,25 @@ export default function R2Admin() {
                               </div>
                               {canEditBucket ? (
                                 <>
-                                  <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">R2 桶名：{bucket.bucketName || "-"}</div>
-                                  <div className="mt-0.5 break-all text-xs text-gray-500 dark:text-gray-400" title={bucket.accountId || "-"}>
-                                    Account ID：{bucket.accountId || "-"}
+                                  <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                    {bucket.driver === "s3" ? "S3 桶名" : bucket.driver === "local" ? "本地目录" : "R2 桶名"}：{bucket.bucketName || "-"}
                                   </div>
+                                  {bucket.driver === "s3" ? (
+                                    <div className="mt-0.5 break-all text-xs text-gray-500 dark:text-gray-400" title={bucket.endpoint || "-"}>
+                                      Endpoint：{bucket.endpoint || "-"}
+                                    </div>
+                                  ) : bucket.driver === "local" ? null : (
+                                    <>
+                                      <div className="mt-0.5 break-all text-xs text-gray-500 dark:text-gray-400" title={bucket.accountId || "-"}>
+                                        Account ID：{bucket.accountId || "-"}
+                                      </div>
+                                      {bucket.endpoint || (bucket.jurisdiction && bucket.jurisdiction !== "default") ? (
+                                        <div className="mt-0.5 break-all text-xs text-gray-500 dark:text-gray-400" title={bucket.endpoint || undefined}>
+                                          {bucket.endpoint ? `Endpoint：${bucket.endpoint}` : `管辖区：${bucket.jurisdiction === "eu" ? "欧盟 EU" : "FedRAMP"}`}
+                                        </div>
+                                      ) : null}
+                                    </>
+                                  )}
                                 </>
                               ) : null}
                             </div>
@@ -14991,6 +16228,15 @@ export default function R2Admin() {
                                   >
                                     编辑
                                   </button>
+                                  {bucket.driver !== "local" ? (
+                                    <button
+                                      type="button"
+                                      onClick={() => setBucketSettingsId(bucket.id)}
+                                      className="rounded-md border border-gray-200 px-2 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-200 dark:hover:bg-gray-800"
+                                    >
+                                      设置
+                                    </button>
+                                  ) : null}
                                   <button
                                     type="button"
                                     onClick={() => openDeleteBucketConfirm(bucket.id)}
@@ -15904,7 +17150,10 @@ export default function R2Admin() {
             </div>
             <button
               type="button"
-              onClick={() => void fetchPlatformSummary()}
+              onClick={() => {
+                void fetchPlatformSummary();
+                setPlatformRefreshKey((key) => key + 1);
+              }}
               className="inline-flex items-center gap-1 rounded-lg border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-200 dark:hover:bg-gray-800"
             >
               <RefreshCw className={`w-3.5 h-3.5 ${platformLoading ? "animate-spin" : ""}`} />
@@ -15931,6 +17180,8 @@ export default function R2Admin() {
             </div>
           </div>
 
+          {canManagePlatformKeys ? <KeyRotationPanel api={panelApi} refreshKey={platformRefreshKey} /> : null}
+
           <div className="rounded-xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-gray-900">
             <div className="px-3 py-2 border-b border-gray-200 text-xs font-medium text-gray-500 dark:border-gray-800 dark:text-gray-400">
               团队列表
@@ -16195,6 +17446,62 @@ export default function R2Admin() {
             。
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">存储类型</label>
+              <select
+                value={bucketForm.driver}
+                onChange={(e) => {
+                  setBucketForm((prev) => ({ ...prev, driver: e.target.value as StorageDriver }));
+                  setBucketFormErrors({});
+                }}
+                className="w-full px-4 py-2.5 rounded-xl border border-gray-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none dark:bg-gray-950 dark:border-gray-800 dark:text-gray-100 dark:placeholder:text-gray-500"
+              >
+                <option value="r2">Cloudflare R2</option>
+                <option value="s3">S3 兼容存储（MinIO 等）</option>
+                <option value="local">服务器本地目录</option>
+              </select>
+              {bucketForm.driver === "local" ? (
+                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  文件保存在服务器 LOCAL_STORAGE_ROOT 下与桶名同名的目录中，仅适用于 Node.js 自托管部署，传输均经服务器中转。
+                </div>
+              ) : null}
+            </div>
+            {isNewBucket && canProvisionBucket && bucketForm.driver !== "local" ? (
+              <div className="md:col-span-2 space-y-2">
+                <div className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    id="bucket_create_remote"
+                    checked={bucketCreateRemote}
+                    onChange={(e) => setBucketCreateRemote(e.target.checked)}
+                    className="w-4 h-4 mt-0.5 shrink-0 text-blue-600 border-gray-300 rounded focus:ring-blue-500 dark:border-gray-700"
+                  />
+                  <label htmlFor="bucket_create_remote" className="block text-sm leading-5 text-gray-700 dark:text-gray-200">
+                    同时在存储服务中创建此桶
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      不勾选则绑定已有的桶；勾选后会先创建桶，再自动完成绑定。密钥需具备创建桶的权限。
+                    </span>
+                  </label>
+                </div>
+                {bucketCreateRemote && bucketForm.driver === "r2" && bucketForm.jurisdiction === "default" ? (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">位置提示（选填）</label>
+                    <select
+                      value={bucketLocationHint}
+                      onChange={(e) => setBucketLocationHint(e.target.value as "" | R2LocationHint)}
+                      className="w-full px-4 py-2.5 rounded-xl border border-gray-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none dark:bg-gray-950 dark:border-gray-800 dark:text-gray-100 dark:placeholder:text-gray-500"
+                    >
+                      <option value="">自动（就近放置）</option>
+                      {R2_LOCATION_HINT_OPTIONS.map((opt) => (
+                        <option key={opt.value} value={opt.value}>
+                          {opt.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
             <div className="md:col-span-2">
               <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">显示名称</label>
               <input
@@ -16206,7 +17513,7 @@ export default function R2Admin() {
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">
-                R2 桶名称{" "}
+                {bucketForm.driver === "r2" ? "R2 桶名称" : "桶名称"}{" "}
                 <span className="text-red-500">*</span>
               </label>
               <input
@@ -16225,6 +17532,42 @@ export default function R2Admin() {
                 <div className="mt-1 text-xs text-red-600 dark:text-red-300">{bucketFormErrors.bucketName}</div>
               ) : null}
             </div>
+            {bucketForm.driver === "s3" ? (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">
+                    S3 Endpoint{" "}
+                    <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    value={bucketForm.endpoint}
+                    onChange={(e) => {
+                      setBucketForm((prev) => ({ ...prev, endpoint: e.target.value }));
+                      setBucketFormErrors((prev) => ({ ...prev, endpoint: undefined }));
+                    }}
+                    className={`w-full px-4 py-2.5 rounded-xl border focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none dark:bg-gray-950 dark:text-gray-100 dark:placeholder:text-gray-500 ${
+                      bucketFormErrors.endpoint
+                        ? "border-red-500 dark:border-red-500"
+                        : "border-gray-200 dark:border-gray-800"
+                    }`}
+                    placeholder="例如：http://minio.local:9000"
+                  />
+                  {bucketFormErrors.endpoint ? (
+                    <div className="mt-1 text-xs text-red-600 dark:text-red-300">{bucketFormErrors.endpoint}</div>
+                  ) : null}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">区域（选填）</label>
+                  <input
+                    value={bucketForm.region}
+                    onChange={(e) => setBucketForm((prev) => ({ ...prev, region: e.target.value }))}
+                    className="w-full px-4 py-2.5 rounded-xl border border-gray-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none dark:bg-gray-950 dark:border-gray-800 dark:text-gray-100 dark:placeholder:text-gray-500"
+                    placeholder="默认 us-east-1"
+                  />
+                </div>
+              </>
+            ) : null}
+            {bucketForm.driver === "r2" ? (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">
                 Cloudflare 账户 ID{" "}
@@ -16246,6 +17589,35 @@ export default function R2Admin() {
                 <div className="mt-1 text-xs text-red-600 dark:text-red-300">{bucketFormErrors.accountId}</div>
               ) : null}
             </div>
+            ) : null}
+            {bucketForm.driver === "r2" ? (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">管辖区</label>
+                  <select
+                    value={bucketForm.jurisdiction}
+                    onChange={(e) => setBucketForm((prev) => ({ ...prev, jurisdiction: e.target.value as R2Jurisdiction }))}
+                    className="w-full px-4 py-2.5 rounded-xl border border-gray-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none dark:bg-gray-950 dark:border-gray-800 dark:text-gray-100 dark:placeholder:text-gray-500"
+                  >
+                    <option value="default">默认</option>
+                    <option value="eu">欧盟 EU</option>
+                    <option value="fedramp">FedRAMP</option>
+                  </select>
+                  <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">需与创建桶时选择的管辖区一致，否则会提示桶不存在。</div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">自定义 Endpoint（选填）</label>
+                  <input
+                    value={bucketForm.endpoint}
+                    onChange={(e) => setBucketForm((prev) => ({ ...prev, endpoint: e.target.value }))}
+                    className="w-full px-4 py-2.5 rounded-xl border border-gray-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none dark:bg-gray-950 dark:border-gray-800 dark:text-gray-100 dark:placeholder:text-gray-500"
+                    placeholder="留空则按账户 ID 与管辖区自动生成"
+                  />
+                </div>
+              </>
+            ) : null}
+            {bucketForm.driver !== "local" ? (
+            <>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">
                 访问密钥 ID{" "}
@@ -16312,6 +17684,137 @@ export default function R2Admin() {
                 <div className="mt-1 text-xs text-red-600 dark:text-red-300">{bucketFormErrors.secretAccessKey}</div>
               ) : null}
             </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">失败重试次数（选填）</label>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={bucketForm.maxRetries}
+                onChange={(e) => {
+                  setBucketForm((prev) => ({ ...prev, maxRetries: e.target.value }));
+                  setBucketFormErrors((prev) => ({ ...prev, maxRetries: undefined }));
+                }}
+                className={`w-full px-4 py-2.5 rounded-xl border focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none dark:bg-gray-950 dark:text-gray-100 dark:placeholder:text-gray-500 ${
+                  bucketFormErrors.maxRetries
+                    ? "border-red-500 dark:border-red-500"
+                    : "border-gray-200 dark:border-gray-800"
+                }`}
+                placeholder="默认 3 次，0 表示不重试"
+              />
+              {bucketFormErrors.maxRetries ? (
+                <div className="mt-1 text-xs text-red-600 dark:text-red-300">{bucketFormErrors.maxRetries}</div>
+              ) : (
+                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">遇到 429 / 5xx 或网络中断时按指数退避自动重试，并遵循 Retry-After。</div>
+              )}
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">默认存储类型</label>
+              <select
+                value={bucketForm.defaultStorageClass}
+                onChange={(e) => setBucketForm((prev) => ({ ...prev, defaultStorageClass: e.target.value as "" | StorageClass }))}
+                className="w-full px-4 py-2.5 rounded-xl border border-gray-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none dark:bg-gray-950 dark:border-gray-800 dark:text-gray-100 dark:placeholder:text-gray-500"
+              >
+                <option value="">跟随存储桶设置</option>
+                <option value="STANDARD">{STORAGE_CLASS_LABELS.STANDARD}</option>
+                <option value="STANDARD_IA">{STORAGE_CLASS_LABELS.STANDARD_IA}</option>
+              </select>
+              <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">上传时未单独选择存储类型的文件使用此设置。低频访问存储更便宜，但读取会产生检索费用且有 30 天最短存储期。</div>
+            </div>
+            </>
+            ) : null}
+            <div className="md:col-span-2 space-y-2">
+              <div className="flex items-start gap-2">
+                <input
+                  type="checkbox"
+                  id="bucket_versioning_enabled"
+                  checked={bucketForm.versioningEnabled}
+                  onChange={(e) => setBucketForm((prev) => ({ ...prev, versioningEnabled: e.target.checked }))}
+                  className="w-4 h-4 mt-0.5 shrink-0 text-blue-600 border-gray-300 rounded focus:ring-blue-500 dark:border-gray-700"
+                />
+                <label htmlFor="bucket_versioning_enabled" className="block text-sm leading-5 text-gray-700 dark:text-gray-200">
+                  保留历史版本
+                  <span className="block text-xs text-gray-500 dark:text-gray-400">
+                    覆盖上传或修改元数据前，先把旧文件复制到隐藏目录，可在文件属性中恢复。历史版本会占用额外存储空间。
+                  </span>
+                </label>
+              </div>
+              {bucketForm.versioningEnabled ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">每个文件保留版本数</label>
+                  <input
+                    value={bucketForm.versionRetention}
+                    onChange={(e) => {
+                      setBucketForm((prev) => ({ ...prev, versionRetention: e.target.value }));
+                      setBucketFormErrors((prev) => ({ ...prev, versionRetention: undefined }));
+                    }}
+                    inputMode="numeric"
+                    className={`w-full px-4 py-2.5 rounded-xl border focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none dark:bg-gray-950 dark:text-gray-100 dark:placeholder:text-gray-500 ${
+                      bucketFormErrors.versionRetention
+                        ? "border-red-500 dark:border-red-500"
+                        : "border-gray-200 dark:border-gray-800"
+                    }`}
+                    placeholder={`默认 ${DEFAULT_VERSION_RETENTION} 个`}
+                  />
+                  {bucketFormErrors.versionRetention ? (
+                    <div className="mt-1 text-xs text-red-600 dark:text-red-300">{bucketFormErrors.versionRetention}</div>
+                  ) : (
+                    <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">超出数量时自动删除最旧的版本。</div>
+                  )}
+                </div>
+              ) : null}
+            </div>
+            <div className="md:col-span-2 flex items-start gap-2">
+              <input
+                type="checkbox"
+                id="bucket_content_index_enabled"
+                checked={bucketForm.contentIndexEnabled}
+                onChange={(e) => setBucketForm((prev) => ({ ...prev, contentIndexEnabled: e.target.checked }))}
+                className="w-4 h-4 mt-0.5 shrink-0 text-blue-600 border-gray-300 rounded focus:ring-blue-500 dark:border-gray-700"
+              />
+              <label htmlFor="bucket_content_index_enabled" className="block text-sm leading-5 text-gray-700 dark:text-gray-200">
+                建立文件内容索引
+                <span className="block text-xs text-gray-500 dark:text-gray-400">
+                  上传后提取文本、代码、Word、Excel 与 PDF 文件中的文字（文本 1 MB、文档 10 MB 以内），供「文件内容」搜索使用；已有文件可在内容搜索时「更新内容索引」。提取的文字保存在 Supabase，关闭后一并清除。
+                </span>
+              </label>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">代理下载缓存策略（选填）</label>
+              <input
+                value={bucketForm.proxyCacheControl}
+                onChange={(e) => setBucketForm((prev) => ({ ...prev, proxyCacheControl: e.target.value }))}
+                className="w-full px-4 py-2.5 rounded-xl border border-gray-200 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none font-mono dark:bg-gray-950 dark:border-gray-800 dark:text-gray-100 dark:placeholder:text-gray-500"
+                placeholder={DEFAULT_PROXY_CACHE_CONTROL}
+              />
+              <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                经服务器中转的下载与预览使用的 Cache-Control。默认每次向服务器校验 ETag / Last-Modified，未变化时返回 304 而不重新下载。
+              </div>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">分享边缘缓存（秒，选填）</label>
+              <input
+                value={bucketForm.edgeCacheSeconds}
+                onChange={(e) => {
+                  setBucketForm((prev) => ({ ...prev, edgeCacheSeconds: e.target.value }));
+                  setBucketFormErrors((prev) => ({ ...prev, edgeCacheSeconds: undefined }));
+                }}
+                inputMode="numeric"
+                className={`w-full px-4 py-2.5 rounded-xl border focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500 outline-none dark:bg-gray-950 dark:text-gray-100 dark:placeholder:text-gray-500 ${
+                  bucketFormErrors.edgeCacheSeconds
+                    ? "border-red-500 dark:border-red-500"
+                    : "border-gray-200 dark:border-gray-800"
+                }`}
+                placeholder="留空或 0 表示不缓存"
+              />
+              {bucketFormErrors.edgeCacheSeconds ? (
+                <div className="mt-1 text-xs text-red-600 dark:text-red-300">{bucketFormErrors.edgeCacheSeconds}</div>
+              ) : (
+                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  仅在 Cloudflare 部署中生效：公开分享经代理下载的 4 MiB 以内文件会在边缘节点缓存指定时长，覆盖或删除原文件后不会再返回旧内容。
+                </div>
+              )}
+            </div>
             <div className="md:col-span-2">
               <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">公共开发 URL</label>
               <input
@@ -16332,6 +17835,73 @@ export default function R2Admin() {
         </div>
       </Modal>
 
+      <BucketSettingsModal
+        api={panelApi}
+        bucketId={bucketSettingsId}
+        bucketName={findBucketById(bucketSettingsId ?? "")?.Name || undefined}
+        onClose={() => setBucketSettingsId(null)}
+      />
+
+      <Modal
+        open={Boolean(uploadConflictTask)}
+        title="上传冲突"
+        onClose={() => {
+          if (uploadConflictTask) void resolveUploadConflicts([uploadConflictTask.id], "skip");
+        }}
+        footer={
+          <div className="flex flex-wrap justify-end gap-2">
+            {([
+              ["skip", "跳过"],
+              ["keepBoth", "保留两者"],
+              ["replace", "替换"],
+            ] as const).map(([choice, label]) => (
+              <button
+                key={choice}
+                onClick={() => {
+                  if (!uploadConflictTask) return;
+                  const ids = uploadConflictApplyAll ? conflictedUploadTasks.map((t) => t.id) : [uploadConflictTask.id];
+                  void resolveUploadConflicts(ids, choice);
+                }}
+                className={
+                  choice === "replace"
+                    ? "px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 text-sm font-medium"
+                    : choice === "keepBoth"
+                      ? "px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 text-sm font-medium"
+                      : "px-4 py-2 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50 text-sm font-medium dark:border-gray-800 dark:text-gray-200 dark:hover:bg-gray-800"
+                }
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        }
+      >
+        <div className="space-y-3 text-sm text-gray-700 leading-relaxed dark:text-gray-200">
+          <div>
+            目标位置已存在
+            <span className="font-semibold break-all"> {uploadConflictTask?.key ?? "-"} </span>
+            ，或在上传期间被他人修改。
+          </div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            保留两者会以「{uploadConflictTask ? nextKeepBothKey(uploadConflictTask.key).split("/").pop() : ""}」另存；替换会覆盖当前的版本，若它在此期间再次变化会重新提示。
+          </div>
+          {conflictedUploadTasks.length > 1 ? (
+            <div className="flex items-start gap-2">
+              <input
+                type="checkbox"
+                id="upload_conflict_apply_all"
+                checked={uploadConflictApplyAll}
+                onChange={(e) => setUploadConflictApplyAll(e.target.checked)}
+                className="w-4 h-4 mt-0.5 shrink-0 text-blue-600 border-gray-300 rounded focus:ring-blue-500 dark:border-gray-700"
+              />
+              <label htmlFor="upload_conflict_apply_all" className="block text-sm leading-5 text-gray-600 dark:text-gray-300">
+                对全部 {conflictedUploadTasks.length} 个冲突执行相同操作
+              </label>
+            </div>
+          ) : null}
+        </div>
+      </Modal>
+
       <Modal
         open={bucketDeleteOpen}
         title="确认删除存储桶？"
@@ -16356,8 +17926,8 @@ export default function R2Admin() {
                 if (!bucketDeleteTargetId) return;
                 void handleDeleteBucket(bucketDeleteTargetId);
               }}
-              disabled={!bucketDeleteTargetId}
-              className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 text-sm font-medium"
+              disabled={!bucketDeleteTargetId || loading || (bucketDeleteRemote && bucketDeleteConfirmText.trim() !== bucketDeleteTargetMeta?.bucketName)}
+              className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
             >
               删除存储桶
             </button>
@@ -16367,8 +17937,60 @@ export default function R2Admin() {
         <div className="text-sm text-gray-700 leading-relaxed dark:text-gray-200">
           将删除以下存储桶配置：
           <span className="font-semibold"> {bucketDeleteTargetMeta?.Name || bucketDeleteTargetMeta?.bucketName || bucketDeleteTargetId || "-"}</span>
-          。该操作不会删除 R2 中的真实文件，只会移除本账号下的桶绑定配置。
+          。
+          {bucketDeleteRemote
+            ? "存储服务中的桶也会被删除，此操作不可恢复。"
+            : "该操作不会删除 R2 中的真实文件，只会移除本账号下的桶绑定配置。"}
         </div>
+        {canProvisionBucket && bucketDeleteTargetMeta && bucketDeleteTargetMeta.driver !== "local" ? (
+          <div className="mt-4 space-y-3">
+            <div className="flex items-start gap-2">
+              <input
+                type="checkbox"
+                id="bucket_delete_remote"
+                checked={bucketDeleteRemote}
+                onChange={(e) => {
+                  setBucketDeleteRemote(e.target.checked);
+                  if (!e.target.checked) setBucketDeleteEmpty(false);
+                }}
+                className="w-4 h-4 mt-0.5 shrink-0 text-red-600 border-gray-300 rounded focus:ring-red-500 dark:border-gray-700"
+              />
+              <label htmlFor="bucket_delete_remote" className="block text-sm leading-5 text-gray-700 dark:text-gray-200">
+                同时删除存储服务中的桶
+              </label>
+            </div>
+            {bucketDeleteRemote ? (
+              <>
+                <div className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    id="bucket_delete_empty"
+                    checked={bucketDeleteEmpty}
+                    onChange={(e) => setBucketDeleteEmpty(e.target.checked)}
+                    className="w-4 h-4 mt-0.5 shrink-0 text-red-600 border-gray-300 rounded focus:ring-red-500 dark:border-gray-700"
+                  />
+                  <label htmlFor="bucket_delete_empty" className="block text-sm leading-5 text-gray-700 dark:text-gray-200">
+                    先清空桶内全部对象
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      存储服务只允许删除空桶；不勾选时若桶内仍有对象，删除会失败。
+                    </span>
+                  </label>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2 dark:text-gray-200">
+                    请输入桶名称 <span className="font-mono">{bucketDeleteTargetMeta.bucketName}</span> 以确认
+                  </label>
+                  <input
+                    value={bucketDeleteConfirmText}
+                    onChange={(e) => setBucketDeleteConfirmText(e.target.value)}
+                    className="w-full px-4 py-2.5 rounded-xl border border-gray-200 focus:ring-2 focus:ring-red-500/20 focus:border-red-500 outline-none dark:bg-gray-950 dark:border-gray-800 dark:text-gray-100 dark:placeholder:text-gray-500"
+                    placeholder={bucketDeleteTargetMeta.bucketName}
+                  />
+                </div>
+              </>
+            ) : null}
+          </div>
+        ) : null}
       </Modal>
 
       <Modal
@@ -16547,6 +18169,68 @@ export default function R2Admin() {
         </div>
       </Modal>
 
+      <Modal
+        open={storageClassOpen}
+        title="更改存储类型"
+        description={
+          selectedKeys.size > 0
+            ? `将更改 ${selectedKeys.size} 项的存储类型`
+            : selectedItem
+              ? `将更改存储类型：${selectedItem.key}`
+              : undefined
+        }
+        contentClassName="r2-modal-confirm-content"
+        onClose={() => setStorageClassOpen(false)}
+        footer={
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setStorageClassOpen(false)}
+              className="px-4 py-2 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50 text-sm font-medium dark:border-gray-800 dark:text-gray-200 dark:hover:bg-gray-800"
+            >
+              取消
+            </button>
+            <button
+              onClick={() => void executeStorageClassChange()}
+              disabled={storageClassSubmitting}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 text-sm font-medium disabled:cursor-not-allowed disabled:opacity-70"
+            >
+              {storageClassSubmitting ? <RefreshCw className="h-4 w-4 animate-spin" /> : null}
+              {storageClassSubmitting ? "更改中" : "确认更改"}
+            </button>
+          </div>
+        }
+      >
+        <div className="space-y-2">
+          {(["STANDARD", "STANDARD_IA"] as const).map((value) => (
+            <label
+              key={value}
+              className={`flex cursor-pointer items-start gap-3 rounded-lg border px-3 py-2.5 text-sm ${
+                storageClassChoice === value
+                  ? "border-blue-500 bg-blue-50/60 dark:border-blue-400 dark:bg-blue-950/30"
+                  : "border-gray-200 hover:bg-gray-50 dark:border-gray-800 dark:hover:bg-gray-800/60"
+              }`}
+            >
+              <input
+                type="radio"
+                name="storage-class"
+                className="mt-0.5"
+                checked={storageClassChoice === value}
+                onChange={() => setStorageClassChoice(value)}
+              />
+              <span className="min-w-0">
+                <span className="block font-medium text-gray-900 dark:text-gray-100">{STORAGE_CLASS_LABELS[value]}</span>
+                <span className="mt-0.5 block text-xs text-gray-500 dark:text-gray-400">
+                  {value === "STANDARD" ? "适合经常读取的文件，读取不额外计费。" : "存储更便宜，读取按量收取检索费用，最短计费 30 天。"}
+                </span>
+              </span>
+            </label>
+          ))}
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            通过服务端原地复制完成，元数据保持不变；文件夹会更改其下全部对象，数量较多时转为后台任务。
+          </div>
+        </div>
+      </Modal>
+
       {selectedBucket && isFilesSpace && uploadPanelOpen ? (
             <div
               className="fixed z-[260] overflow-hidden rounded-lg border border-gray-200 bg-white shadow-2xl dark:border-gray-800 dark:bg-gray-900"
@@ -16561,6 +18245,18 @@ export default function R2Admin() {
                 <div className="flex items-center justify-between gap-3 px-4 py-3">
                   <div className="min-w-0 text-sm font-semibold text-gray-900 dark:text-gray-100">上传中心</div>
                   <div className="flex shrink-0 items-center gap-1.5">
+                    {findBucketById(selectedBucket)?.driver !== "local" ? (
+                      <select
+                        value={uploadStorageClass}
+                        onChange={(e) => setUploadStorageClass(e.target.value as "" | StorageClass)}
+                        className="h-[30px] rounded-md border border-gray-200 bg-white px-2 text-xs text-gray-700 outline-none focus:border-blue-500 dark:border-gray-800 dark:bg-gray-900 dark:text-gray-200"
+                        title="新加入上传任务的存储类型"
+                      >
+                        <option value="">默认存储类型</option>
+                        <option value="STANDARD">{STORAGE_CLASS_LABELS.STANDARD}</option>
+                        <option value="STANDARD_IA">{STORAGE_CLASS_LABELS.STANDARD_IA}</option>
+                      </select>
+                    ) : null}
                     <button
                       onClick={() => fileInputRef.current?.click()}
                       className="inline-flex items-center gap-1.5 rounded-md bg-blue-600 px-2.5 py-1.5 text-xs font-medium text-white hover:bg-blue-700"
@@ -16596,7 +18292,7 @@ export default function R2Admin() {
                           : "border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
                       }`}
                     >
-                      上传中 {activeUploadTasks.length ? `(${activeUploadTasks.length})` : ""}
+                      上传中 {activeUploadTasks.length + activeBackgroundJobs.length ? `(${activeUploadTasks.length + activeBackgroundJobs.length})` : ""}
                     </button>
                     <button
                       type="button"
@@ -16607,14 +18303,19 @@ export default function R2Admin() {
                           : "border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
                       }`}
                     >
-                      上传完毕 {completedUploadTasks.length ? `(${completedUploadTasks.length})` : ""}
+                      上传完毕 {completedUploadTasks.length + finishedBackgroundJobs.length ? `(${completedUploadTasks.length + finishedBackgroundJobs.length})` : ""}
                     </button>
                   </div>
-                  {uploadPanelTab === "completed" && completedUploadTasks.length > 0 ? (
+                  {uploadPanelTab === "completed" && completedUploadTasks.length + finishedBackgroundJobs.length > 0 ? (
                     <button
                       type="button"
                       onClick={() => {
                         setUploadTasks((prev) => prev.filter((t) => isActiveUploadStatus(t.status)));
+                        setBackgroundJobs((prev) => {
+                          const next = prev.filter(isActiveBackgroundJob);
+                          backgroundJobsRef.current = next;
+                          return next;
+                        });
                         setUploadPanelTab("active");
                       }}
                       className="mb-2 shrink-0 text-xs font-medium text-gray-400 hover:text-red-600 dark:text-gray-500 dark:hover:text-red-300"
@@ -16625,7 +18326,10 @@ export default function R2Admin() {
                 </div>
               </div>
 	              <div className="max-h-[min(60dvh,420px)] overflow-auto divide-y divide-gray-100 dark:divide-gray-800">
-	                {visibleUploadTasks.length === 0 ? (
+	                {visibleBackgroundJobs.map((job) => (
+	                  <BackgroundJobRow key={job.id} job={job} onCancel={() => void cancelBackgroundJob(job.id)} />
+	                ))}
+	                {visibleUploadTasks.length === 0 && visibleBackgroundJobs.length > 0 ? null : visibleUploadTasks.length === 0 ? (
 	                  <div className="px-4 py-8 text-center">
 	                    <Upload className="mx-auto h-8 w-8 text-gray-300 dark:text-gray-600" />
 	                    <div className="mt-3 text-sm font-medium text-gray-700 dark:text-gray-200">
@@ -16674,7 +18378,9 @@ export default function R2Admin() {
                                     ? "排队中"
                                     : t.status === "paused"
                                       ? "已暂停"
-                                      : t.status === "canceled"
+                                      : t.status === "conflict"
+                                        ? "存在冲突"
+                                        : t.status === "canceled"
                                         ? "已取消"
                                         : t.status === "error"
                                           ? "失败"
@@ -16739,7 +18445,9 @@ export default function R2Admin() {
 	                          className={`h-2 ${
 	                            t.status === "error"
 	                              ? "bg-red-500"
-	                              : t.status === "done"
+	                              : t.status === "conflict"
+	                                ? "bg-amber-500"
+	                                : t.status === "done"
 	                                ? "bg-green-500"
 	                                : t.status === "paused" || t.status === "canceled"
 	                                  ? "bg-gray-400"
@@ -16749,6 +18457,9 @@ export default function R2Admin() {
 		                        />
 		                      </div>
                       {t.status === "error" ? <div className="mt-2 text-[11px] text-red-600 dark:text-red-300">{t.error ?? "上传失败"}</div> : null}
+                      {t.status === "conflict" ? (
+                        <div className="mt-2 text-[11px] text-amber-600 dark:text-amber-300">{t.error ?? "目标位置已存在同名文件"}</div>
+                      ) : null}
                     </div>
                   );
                 })}
@@ -17005,7 +18716,13 @@ export default function R2Admin() {
 	                  />
 	                </div>
 	              ) : preview.kind === "text" ? (
-	                <TextPreviewPanel name={preview.name} text={preview.url ? preview.text : undefined} />
+	                <TextPreviewPanel
+	                  name={preview.name}
+	                  text={preview.url ? preview.text : undefined}
+	                  highlightTerms={preview.hit?.terms}
+	                  scrollToLine={preview.hit?.line}
+	                  note={preview.hit?.extracted ? "提取的文字" : undefined}
+	                />
 	              ) : (
 	                <div className="h-full bg-white border border-gray-200 rounded-md p-6 sm:p-10 flex flex-col items-center justify-center text-center dark:bg-gray-900 dark:border-gray-800">
 	                  <div className="flex items-center justify-center">
@@ -717,6 +717,18 @@ function SharePageClient() {
     });
   };
 
+  const onDownloadAll = () => {
+    if (!meta || !accessToken) return;
+    const qs = new URLSearchParams({ code: meta.shareCode, token: accessToken, zip: "1" });
+    if (folderPath) qs.set("dir", folderPath);
+    const a = document.createElement("a");
+    a.href = `/api/share/public/download?${qs.toString()}`;
+    a.rel = "noreferrer";
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+  };
+
   const unavailableByError = useMemo(() => {
     if (!error) return false;
     return /分享不存在|已失效|已过期|已停止|链接无效/.test(error);
@@ -958,6 +970,16 @@ function SharePageClient() {
                             );
                           })}
                         </div>
+                        <button
+                          type="button"
+                          onClick={onDownloadAll}
+                          className={`${SECONDARY_BUTTON_BASE} h-9 shrink-0 self-center px-3.5 text-[13px] font-medium`}
+                          title={folderPath ? "将当前文件夹打包为 ZIP 下载" : "将整个分享打包为 ZIP 下载"}
+                        >
+                          <Download className="h-4 w-4" />
+                          <span className="hidden sm:inline">下载全部</span>
+                          <span className="sm:hidden">全部</span>
+                        </button>
                         <button
                           type="button"
                           onClick={onBatchDownloadSelected}
@@ -0,0 +1,100 @@
+"use client";
+
+import { CircleX } from "lucide-react";
+import { getFileIconSrc } from "@/lib/file-icons";
+
+export type BackgroundJobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export type BackgroundJob = {
+  id: string;
+  bucketId: string;
+  kind: "move" | "copy" | "delete" | "recycle" | "clear_recycle" | "storage_class" | "reindex" | "content_index" | "empty_bucket";
+  status: BackgroundJobStatus;
+  summary: string;
+  processed: number;
+  total?: number;
+  itemIndex: number;
+  itemCount: number;
+  currentKey?: string;
+  retries?: number;
+  error?: string;
+  createdAt: string;
+};
+
+type BackgroundJobRowProps = {
+  job: BackgroundJob;
+  onCancel: () => void;
+};
+
+export const isActiveBackgroundJob = (job: BackgroundJob) => job.status === "queued" || job.status === "running";
+
+const STATUS_LABELS: Record<BackgroundJobStatus, string> = {
+  queued: "排队中",
+  running: "处理中",
+  completed: "完成",
+  failed: "失败",
+  cancelled: "已取消",
+};
+
+// One server-side folder job in the transfer panel, listed alongside the uploads.
+export default function BackgroundJobRow({ job, onCancel }: BackgroundJobRowProps) {
+  const pctRaw = job.total
+    ? Math.min(100, (job.processed / job.total) * 100)
+    : job.itemCount
+      ? Math.min(100, (job.itemIndex / job.itemCount) * 100)
+      : 0;
+  return (
+    <div className="px-4 py-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 flex items-center gap-3">
+          <img
+            src={getFileIconSrc("folder", job.summary)}
+            alt=""
+            aria-hidden="true"
+            className="h-8 w-8 shrink-0 object-contain"
+            draggable={false}
+          />
+          <div className="min-w-0">
+            <div className="text-sm font-medium text-gray-900 truncate dark:text-gray-100" title={job.summary}>
+              {job.summary || "后台任务"}
+            </div>
+            <div className="mt-0.5 text-[11px] text-gray-500 truncate dark:text-gray-400" title={job.currentKey}>
+              已处理 {job.processed} 个对象 · 第 {Math.min(job.itemIndex + 1, job.itemCount)}/{job.itemCount} 项
+              {job.retries ? ` · 自动重试 ${job.retries} 次` : ""}
+            </div>
+          </div>
+        </div>
+        <div className="shrink-0 flex items-center gap-2">
+          <div className="text-right">
+            <div className="text-xs font-semibold text-gray-800 dark:text-gray-100">后台任务</div>
+            <div className="text-[11px] text-gray-500 dark:text-gray-400">{STATUS_LABELS[job.status]}</div>
+          </div>
+          {isActiveBackgroundJob(job) ? (
+            <button
+              onClick={onCancel}
+              className="p-2 rounded-lg hover:bg-gray-100 text-gray-600 dark:text-gray-200 dark:hover:bg-gray-800"
+              title="取消"
+            >
+              <CircleX className="w-4 h-4" />
+            </button>
+          ) : null}
+        </div>
+      </div>
+      <div className="mt-2 h-2 bg-gray-100 rounded-full overflow-hidden dark:bg-gray-800">
+        <div
+          className={`h-2 ${
+            job.status === "failed"
+              ? "bg-red-500"
+              : job.status === "completed"
+                ? "bg-green-500"
+                : job.status === "cancelled"
+                  ? "bg-gray-400"
+                  : "bg-blue-600"
+          }`}
+          style={{ width: `${(job.status === "completed" ? 100 : pctRaw).toFixed(2)}%` }}
+        />
+      </div>
+      {job.status === "failed" ? <div className="mt-2 text-[11px] text-red-600 dark:text-red-300">{job.error ?? "后台任务执行失败"}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,924 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Plus, RefreshCw, X } from "lucide-react";
+import Modal from "@/components/Modal";
+import { toChineseErrorMessage } from "@/lib/error-zh";
+import { formatDateTime, readJsonSafe, type PanelApi } from "@/components/panel-api";
+
+type BucketCorsRuleView = {
+  id?: string;
+  allowedOrigins: string[];
+  allowedMethods: string[];
+  allowedHeaders: string[];
+  exposeHeaders: string[];
+  maxAgeSeconds?: number;
+};
+type BucketCorsRuleDraft = {
+  draftId: string;
+  id: string;
+  allowedOrigins: string;
+  allowedMethods: string[];
+  allowedHeaders: string;
+  exposeHeaders: string;
+  maxAgeSeconds: string;
+};
+const CORS_METHOD_OPTIONS = ["GET", "PUT", "POST", "DELETE", "HEAD"] as const;
+type BucketLifecycleRuleView = {
+  id: string;
+  enabled: boolean;
+  prefix: string;
+  expirationDays?: number;
+  transitionDays?: number;
+  abortMultipartDays?: number;
+};
+type BucketLifecycleRuleDraft = {
+  draftId: string;
+  id: string;
+  enabled: boolean;
+  prefix: string;
+  expirationDays: string;
+  transitionDays: string;
+  abortMultipartDays: string;
+};
+const LIFECYCLE_RULE_PRESETS: Array<{ label: string; rule: BucketLifecycleRuleView }> = [
+  { label: "temp/ 7 天后删除", rule: { id: "", enabled: true, prefix: "temp/", expirationDays: 7, abortMultipartDays: 1 } },
+  { label: "logs/ 30 天后删除", rule: { id: "", enabled: true, prefix: "logs/", expirationDays: 30 } },
+  { label: "清理 7 天未完成的分片上传", rule: { id: "", enabled: true, prefix: "", abortMultipartDays: 7 } },
+];
+type BucketSettingsTab = "cors" | "lifecycle" | "uploads" | "tokens";
+type MultipartUploadView = {
+  key: string;
+  uploadId: string;
+  initiated?: string;
+  parts: number;
+  bytes: number;
+};
+type MultipartUploadCursor = { keyMarker: string; uploadIdMarker: string | null };
+
+type RevokedRouteTokenView = {
+  tokenId: string;
+  bucketId: string;
+  op: "put" | "mp" | "object" | "zip";
+  itemKey: string;
+  reason: string;
+  revokedBy: string;
+  expiresAt: string;
+  createdAt: string;
+};
+
+const ROUTE_TOKEN_OP_LABELS: Record<RevokedRouteTokenView["op"], string> = {
+  put: "上传",
+  mp: "分片上传",
+  object: "下载",
+  zip: "打包下载",
+};
+
+type BucketSettingsModalProps = {
+  api: PanelApi;
+  // The bucket being configured; null keeps the modal closed.
+  bucketId: string | null;
+  bucketName?: string;
+  onClose: () => void;
+};
+
+const formatSize = (bytes?: number) => {
+  if (bytes === undefined) return "-";
+  if (!Number.isFinite(bytes) || bytes < 0) return "-";
+  if (bytes === 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB", "TB"];
+  const i = Math.min(sizes.length - 1, Math.max(0, Math.floor(Math.log(bytes) / Math.log(k))));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
+
+// Per-bucket CORS, lifecycle, unfinished multipart uploads and revoked access links.
+export default function BucketSettingsModal({ api, bucketId, bucketName, onClose }: BucketSettingsModalProps) {
+  const { fetchWithAuth, toast } = api;
+  const [bucketSettingsTab, setBucketSettingsTab] = useState<BucketSettingsTab>("cors");
+  const [corsDraft, setCorsDraft] = useState<BucketCorsRuleDraft[]>([]);
+  const [corsOrigin, setCorsOrigin] = useState("");
+  const [corsGaps, setCorsGaps] = useState<string[]>([]);
+  const [corsLoading, setCorsLoading] = useState(false);
+  const [corsSaving, setCorsSaving] = useState(false);
+  const [lifecycleDraft, setLifecycleDraft] = useState<BucketLifecycleRuleDraft[]>([]);
+  const [lifecycleLoading, setLifecycleLoading] = useState(false);
+  const [lifecycleSaving, setLifecycleSaving] = useState(false);
+  const [multipartUploads, setMultipartUploads] = useState<MultipartUploadView[]>([]);
+  const [multipartUploadsCursor, setMultipartUploadsCursor] = useState<MultipartUploadCursor | null>(null);
+  const [multipartUploadsLoading, setMultipartUploadsLoading] = useState(false);
+  const [multipartSelectedIds, setMultipartSelectedIds] = useState<Set<string>>(() => new Set());
+  const [multipartAborting, setMultipartAborting] = useState(false);
+  const [multipartSweepDays, setMultipartSweepDays] = useState("7");
+  const [revokedTokens, setRevokedTokens] = useState<RevokedRouteTokenView[]>([]);
+  const [revokedTokensLoading, setRevokedTokensLoading] = useState(false);
+  const [tokenRevokeLink, setTokenRevokeLink] = useState("");
+  const [tokenRevokeReason, setTokenRevokeReason] = useState("");
+  const [tokenRevoking, setTokenRevoking] = useState(false);
+
+  const splitCorsList = (value: string) =>
+    value
+      .split(/[\n,]/)
+      .map((v) => v.trim())
+      .filter(Boolean);
+
+  const toCorsRuleDraft = (rule: BucketCorsRuleView, index: number): BucketCorsRuleDraft => ({
+    draftId: `cors-${Date.now()}-${index}`,
+    id: rule.id ?? "",
+    allowedOrigins: rule.allowedOrigins.join("\n"),
+    allowedMethods: rule.allowedMethods,
+    allowedHeaders: rule.allowedHeaders.join(", "),
+    exposeHeaders: rule.exposeHeaders.join(", "),
+    maxAgeSeconds: rule.maxAgeSeconds === undefined ? "" : String(rule.maxAgeSeconds),
+  });
+
+  const applyBucketCorsResponse = (data: unknown) => {
+    const payload = data as { rules?: BucketCorsRuleView[]; origin?: string; gaps?: string[] };
+    setCorsDraft((payload.rules ?? []).map(toCorsRuleDraft));
+    setCorsOrigin(String(payload.origin ?? ""));
+    setCorsGaps(Array.isArray(payload.gaps) ? payload.gaps : []);
+  };
+
+  const loadBucketCors = async (bucketId: string) => {
+    setCorsDraft([]);
+    setCorsGaps([]);
+    try {
+      setCorsLoading(true);
+      const res = await fetchWithAuth(`/api/bucket-cors?bucketId=${encodeURIComponent(bucketId)}`);
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "读取 CORS 配置失败"));
+      applyBucketCorsResponse(data);
+    } catch (error) {
+      toast(toChineseErrorMessage(error, "读取 CORS 配置失败，请稍后重试"));
+    } finally {
+      setCorsLoading(false);
+    }
+  };
+
+  const saveBucketCors = async (rules: BucketCorsRuleDraft[]) => {
+    if (!bucketId) return;
+    try {
+      setCorsSaving(true);
+      const res = await fetchWithAuth("/api/bucket-cors", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          bucketId,
+          rules: rules.map((rule) => ({
+            id: rule.id.trim() || undefined,
+            allowedOrigins: splitCorsList(rule.allowedOrigins),
+            allowedMethods: rule.allowedMethods,
+            allowedHeaders: splitCorsList(rule.allowedHeaders),
+            exposeHeaders: splitCorsList(rule.exposeHeaders),
+            maxAgeSeconds: rule.maxAgeSeconds.trim() || undefined,
+          })),
+        }),
+      });
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "保存 CORS 配置失败"));
+      applyBucketCorsResponse(data);
+      toast("CORS 规则已保存");
+    } catch (error) {
+      toast(toChineseErrorMessage(error, "保存 CORS 配置失败，请稍后重试"));
+    } finally {
+      setCorsSaving(false);
+    }
+  };
+
+  const allowPanelOriginInCors = () => {
+    const origin = corsOrigin || window.location.origin;
+    const next = [
+      ...corsDraft,
+      toCorsRuleDraft(
+        { allowedOrigins: [origin], allowedMethods: ["GET", "PUT", "HEAD"], allowedHeaders: ["*"], exposeHeaders: ["ETag"], maxAgeSeconds: 3600 },
+        corsDraft.length,
+      ),
+    ];
+    setCorsDraft(next);
+    void saveBucketCors(next);
+  };
+
+  const toLifecycleRuleDraft = (rule: BucketLifecycleRuleView, index: number): BucketLifecycleRuleDraft => ({
+    draftId: `lifecycle-${Date.now()}-${index}`,
+    id: rule.id,
+    enabled: rule.enabled,
+    prefix: rule.prefix,
+    expirationDays: rule.expirationDays ? String(rule.expirationDays) : "",
+    transitionDays: rule.transitionDays ? String(rule.transitionDays) : "",
+    abortMultipartDays: rule.abortMultipartDays ? String(rule.abortMultipartDays) : "",
+  });
+
+  const loadBucketLifecycle = async (bucketId: string) => {
+    setLifecycleDraft([]);
+    try {
+      setLifecycleLoading(true);
+      const res = await fetchWithAuth(`/api/bucket-lifecycle?bucketId=${encodeURIComponent(bucketId)}`);
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "读取生命周期规则失败"));
+      setLifecycleDraft(((data as { rules?: BucketLifecycleRuleView[] }).rules ?? []).map(toLifecycleRuleDraft));
+    } catch (error) {
+      toast(toChineseErrorMessage(error, "读取生命周期规则失败，请稍后重试"));
+    } finally {
+      setLifecycleLoading(false);
+    }
+  };
+
+  const saveBucketLifecycle = async () => {
+    if (!bucketId) return;
+    try {
+      setLifecycleSaving(true);
+      const res = await fetchWithAuth("/api/bucket-lifecycle", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          bucketId,
+          rules: lifecycleDraft.map((rule) => ({
+            id: rule.id.trim() || undefined,
+            enabled: rule.enabled,
+            prefix: rule.prefix.trim(),
+            expirationDays: rule.expirationDays.trim() || undefined,
+            transitionDays: rule.transitionDays.trim() || undefined,
+            abortMultipartDays: rule.abortMultipartDays.trim() || undefined,
+          })),
+        }),
+      });
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "保存生命周期规则失败"));
+      setLifecycleDraft(((data as { rules?: BucketLifecycleRuleView[] }).rules ?? []).map(toLifecycleRuleDraft));
+      toast("生命周期规则已保存");
+    } catch (error) {
+      toast(toChineseErrorMessage(error, "保存生命周期规则失败，请稍后重试"));
+    } finally {
+      setLifecycleSaving(false);
+    }
+  };
+
+  // Each listed session costs a ListParts call on the server, so this tab loads on demand and pages by 100.
+  const loadMultipartUploads = async (bucketId: string, cursor?: MultipartUploadCursor) => {
+    if (!cursor) {
+      setMultipartUploads([]);
+      setMultipartSelectedIds(new Set());
+    }
+    try {
+      setMultipartUploadsLoading(true);
+      const params = new URLSearchParams({ bucketId });
+      if (cursor) {
+        params.set("keyMarker", cursor.keyMarker);
+        if (cursor.uploadIdMarker) params.set("uploadIdMarker", cursor.uploadIdMarker);
+      }
+      const res = await fetchWithAuth(`/api/multipart/uploads?${params.toString()}`);
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "读取未完成的分片上传失败"));
+      const page = data as { uploads?: MultipartUploadView[]; nextKeyMarker?: string | null; nextUploadIdMarker?: string | null };
+      setMultipartUploads((prev) => [...(cursor ? prev : []), ...(page.uploads ?? [])]);
+      setMultipartUploadsCursor(page.nextKeyMarker ? { keyMarker: page.nextKeyMarker, uploadIdMarker: page.nextUploadIdMarker ?? null } : null);
+    } catch (error) {
+      toast(toChineseErrorMessage(error, "读取未完成的分片上传失败，请稍后重试"));
+    } finally {
+      setMultipartUploadsLoading(false);
+    }
+  };
+
+  const abortMultipartUploads = async (payload: { uploads: MultipartUploadView[] } | { olderThanDays: number }) => {
+    if (!bucketId) return;
+    try {
+      setMultipartAborting(true);
+      const res = await fetchWithAuth("/api/multipart/uploads", {
+        method: "POST",
+        body: JSON.stringify({
+          bucketId,
+          ...("uploads" in payload
+            ? { uploads: payload.uploads.map((u) => ({ key: u.key, uploadId: u.uploadId })) }
+            : { olderThanDays: payload.olderThanDays }),
+        }),
+      });
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "取消分片上传失败"));
+      const result = data as { aborted?: number; failed?: unknown[]; truncated?: boolean };
+      const notes: string[] = [];
+      if (result.failed?.length) notes.push(`${result.failed.length} 个失败`);
+      if (result.truncated) notes.push("还有更多，可再次清理");
+      toast(`已取消 ${Number(result.aborted ?? 0)} 个未完成的分片上传${notes.length ? `（${notes.join("，")}）` : ""}`);
+      await loadMultipartUploads(bucketId);
+    } catch (error) {
+      toast(toChineseErrorMessage(error, "取消分片上传失败，请稍后重试"));
+    } finally {
+      setMultipartAborting(false);
+    }
+  };
+
+  const sweepMultipartUploads = () => {
+    const days = Number(multipartSweepDays.trim());
+    if (!Number.isInteger(days) || days < 1) {
+      toast("请输入大于 0 的整数天数");
+      return;
+    }
+    void abortMultipartUploads({ olderThanDays: days });
+  };
+
+  const loadRevokedTokens = async (bucketId: string) => {
+    try {
+      setRevokedTokensLoading(true);
+      const res = await fetchWithAuth(`/api/route-tokens?bucketId=${encodeURIComponent(bucketId)}`);
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "读取已撤销链接失败"));
+      setRevokedTokens((data as { entries?: RevokedRouteTokenView[] }).entries ?? []);
+    } catch (error) {
+      toast(toChineseErrorMessage(error, "读取已撤销链接失败，请稍后重试"));
+    } finally {
+      setRevokedTokensLoading(false);
+    }
+  };
+
+  const revokeRouteTokenLink = async () => {
+    if (!bucketId) return;
+    const link = tokenRevokeLink.trim();
+    if (!link) {
+      toast("请粘贴要撤销的链接");
+      return;
+    }
+    try {
+      setTokenRevoking(true);
+      const res = await fetchWithAuth("/api/route-tokens", {
+        method: "POST",
+        body: JSON.stringify({ link, reason: tokenRevokeReason.trim() }),
+      });
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "撤销链接失败"));
+      const entry = (data as { entry?: RevokedRouteTokenView }).entry;
+      setTokenRevokeLink("");
+      setTokenRevokeReason("");
+      toast(entry && entry.bucketId !== bucketId ? "链接已撤销（该链接属于其他存储桶）" : "链接已撤销，立即失效");
+      await loadRevokedTokens(bucketId);
+    } catch (error) {
+      toast(toChineseErrorMessage(error, "撤销链接失败，请稍后重试"));
+    } finally {
+      setTokenRevoking(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!bucketId) return;
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    setBucketSettingsTab("cors");
+    setMultipartUploads([]);
+    setMultipartUploadsCursor(null);
+    setMultipartSelectedIds(new Set());
+    setRevokedTokens([]);
+    setTokenRevokeLink("");
+    setTokenRevokeReason("");
+    void loadBucketCors(bucketId);
+    void loadBucketLifecycle(bucketId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [bucketId]);
+
+  return (
+    <Modal
+      open={Boolean(bucketId)}
+      title="存储桶设置"
+      description={bucketName}
+      zIndex={340}
+      panelClassName="max-w-[96vw] sm:max-w-[760px]"
+      onClose={() => {
+        if (corsSaving || lifecycleSaving || multipartAborting || tokenRevoking) return;
+        onClose();
+      }}
+      footer={
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          {bucketSettingsTab === "cors" ? (
+            <button
+              type="button"
+              onClick={allowPanelOriginInCors}
+              disabled={corsLoading || corsSaving}
+              className="px-3 py-2 rounded-lg border border-blue-200 text-blue-600 hover:bg-blue-50 text-sm font-medium disabled:opacity-50 dark:border-blue-900 dark:text-blue-300 dark:hover:bg-blue-950/40"
+            >
+              一键允许当前面板来源
+            </button>
+          ) : bucketSettingsTab === "uploads" ? (
+            <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+              <span>清理</span>
+              <input
+                type="number"
+                min={1}
+                value={multipartSweepDays}
+                onChange={(e) => setMultipartSweepDays(e.target.value)}
+                className="h-9 w-20 rounded-lg border border-gray-200 bg-white px-2 text-sm outline-none focus:border-blue-500 dark:border-gray-800 dark:bg-gray-950 dark:text-gray-100"
+              />
+              <span>天前发起的上传</span>
+              <button
+                type="button"
+                onClick={sweepMultipartUploads}
+                disabled={multipartAborting}
+                className="px-3 py-2 rounded-lg border border-red-200 text-red-600 hover:bg-red-50 text-sm font-medium disabled:opacity-50 dark:border-red-900 dark:text-red-300 dark:hover:bg-red-950/40"
+              >
+                清理
+              </button>
+            </div>
+          ) : (
+            <div />
+          )}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={corsSaving || lifecycleSaving || multipartAborting || tokenRevoking}
+              className="px-4 py-2 rounded-lg border border-gray-200 text-gray-700 hover:bg-gray-50 text-sm font-medium disabled:opacity-50 dark:border-gray-800 dark:text-gray-200 dark:hover:bg-gray-800"
+            >
+              关闭
+            </button>
+            {bucketSettingsTab === "cors" ? (
+              <button
+                type="button"
+                onClick={() => void saveBucketCors(corsDraft)}
+                disabled={corsLoading || corsSaving}
+                className="px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 text-sm font-medium disabled:opacity-50"
+              >
+                {corsSaving ? "保存中..." : "保存 CORS"}
+              </button>
+            ) : bucketSettingsTab === "uploads" ? (
+              <button
+                type="button"
+                onClick={() =>
+                  void abortMultipartUploads({ uploads: multipartUploads.filter((u) => multipartSelectedIds.has(u.uploadId)) })
+                }
+                disabled={multipartAborting || multipartSelectedIds.size === 0}
+                className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 text-sm font-medium disabled:opacity-50"
+              >
+                {multipartAborting ? "取消中..." : `取消所选${multipartSelectedIds.size ? `（${multipartSelectedIds.size}）` : ""}`}
+              </button>
+            ) : bucketSettingsTab === "tokens" ? (
+              <button
+                type="button"
+                onClick={() => void revokeRouteTokenLink()}
+                disabled={tokenRevoking || !tokenRevokeLink.trim()}
+                className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 text-sm font-medium disabled:opacity-50"
+              >
+                {tokenRevoking ? "撤销中..." : "撤销链接"}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => void saveBucketLifecycle()}
+                disabled={lifecycleLoading || lifecycleSaving}
+                className="px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 text-sm font-medium disabled:opacity-50"
+              >
+                {lifecycleSaving ? "保存中..." : "保存生命周期"}
+              </button>
+            )}
+          </div>
+        </div>
+      }
+    >
+      <div className="mb-4 border-b border-gray-100 dark:border-gray-800">
+        <div className="flex gap-5">
+          {([
+            ["cors", "CORS"],
+            ["lifecycle", "生命周期"],
+            ["uploads", "未完成上传"],
+            ["tokens", "访问链接"],
+          ] as const).map(([key, label]) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => {
+                setBucketSettingsTab(key);
+                if (key === "uploads" && bucketId && !multipartUploads.length && !multipartUploadsLoading) {
+                  void loadMultipartUploads(bucketId);
+                }
+                if (key === "tokens" && bucketId && !revokedTokensLoading) {
+                  void loadRevokedTokens(bucketId);
+                }
+              }}
+              className={[
+                "relative py-2 text-sm font-medium transition-colors after:absolute after:inset-x-0 after:bottom-0 after:h-0.5 after:rounded-full after:transition-colors",
+                bucketSettingsTab === key
+                  ? "text-blue-700 after:bg-blue-600 dark:text-blue-200 dark:after:bg-blue-300"
+                  : "text-gray-500 after:bg-transparent hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-100",
+              ].join(" ")}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {bucketSettingsTab === "uploads" ? (
+        <div className="space-y-3">
+          <div className="flex items-start justify-between gap-3 rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-xs text-gray-600 dark:border-gray-800 dark:bg-gray-950/40 dark:text-gray-300">
+            <span>中断或放弃的分片上传会一直占用（并计费）已上传的分片，直到被取消。取消后已上传的分片会被删除，对应的上传任务需重新开始。</span>
+            <button
+              type="button"
+              onClick={() => bucketId && void loadMultipartUploads(bucketId)}
+              disabled={multipartUploadsLoading}
+              className="shrink-0 inline-flex items-center gap-1 text-blue-600 hover:text-blue-700 disabled:opacity-50 dark:text-blue-300"
+            >
+              <RefreshCw className={`h-3.5 w-3.5 ${multipartUploadsLoading ? "animate-spin" : ""}`} />
+              刷新
+            </button>
+          </div>
+          {multipartUploadsLoading && !multipartUploads.length ? (
+            <div className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">正在读取未完成的分片上传...</div>
+          ) : multipartUploads.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-gray-200 px-3 py-4 text-center text-sm text-gray-500 dark:border-gray-700 dark:text-gray-400">
+              没有未完成的分片上传
+            </div>
+          ) : (
+            <div className="overflow-hidden rounded-xl border border-gray-200 dark:border-gray-800">
+              <label className="flex items-center gap-3 border-b border-gray-100 bg-gray-50 px-3 py-2 text-xs font-medium text-gray-500 dark:border-gray-800 dark:bg-gray-950/40 dark:text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={multipartSelectedIds.size > 0 && multipartSelectedIds.size === multipartUploads.length}
+                  onChange={(e) =>
+                    setMultipartSelectedIds(e.target.checked ? new Set(multipartUploads.map((u) => u.uploadId)) : new Set())
+                  }
+                />
+                <span className="min-w-0 flex-1">对象路径</span>
+                <span className="w-36 shrink-0">发起时间</span>
+                <span className="w-28 shrink-0 text-right">已上传</span>
+              </label>
+              <div className="max-h-[50vh] divide-y divide-gray-100 overflow-y-auto dark:divide-gray-800">
+                {multipartUploads.map((upload) => (
+                  <label key={upload.uploadId} className="flex items-center gap-3 px-3 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-800/60">
+                    <input
+                      type="checkbox"
+                      checked={multipartSelectedIds.has(upload.uploadId)}
+                      onChange={(e) => {
+                        const checked = e.target.checked;
+                        setMultipartSelectedIds((prev) => {
+                          const next = new Set(prev);
+                          if (checked) next.add(upload.uploadId);
+                          else next.delete(upload.uploadId);
+                          return next;
+                        });
+                      }}
+                    />
+                    <span className="min-w-0 flex-1 truncate font-mono text-xs text-gray-900 dark:text-gray-100" title={upload.key}>
+                      {upload.key}
+                    </span>
+                    <span className="w-36 shrink-0 text-xs text-gray-500 dark:text-gray-400">{formatDateTime(upload.initiated)}</span>
+                    <span className="w-28 shrink-0 text-right text-xs text-gray-500 dark:text-gray-400">
+                      {formatSize(upload.bytes)} · {upload.parts} 片
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          {multipartUploadsCursor ? (
+            <button
+              type="button"
+              onClick={() => bucketId && void loadMultipartUploads(bucketId, multipartUploadsCursor)}
+              disabled={multipartUploadsLoading}
+              className="w-full rounded-lg border border-gray-200 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-800 dark:text-gray-200 dark:hover:bg-gray-800"
+            >
+              {multipartUploadsLoading ? "加载中..." : "加载更多"}
+            </button>
+          ) : null}
+        </div>
+      ) : bucketSettingsTab === "tokens" ? (
+        <div className="space-y-3">
+          <div className="rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-xs text-gray-600 dark:border-gray-800 dark:bg-gray-950/40 dark:text-gray-300">
+            面板生成的代理下载、打包下载和上传链接在有效期内可被任何持有者使用。发现链接外泄时，把完整链接粘贴到这里即可立即作废；停止分享或解绑存储桶也会让已发出的链接同时失效。
+          </div>
+          <label className="block">
+            <span className="mb-1 block text-xs text-gray-500 dark:text-gray-400">链接</span>
+            <textarea
+              value={tokenRevokeLink}
+              onChange={(e) => setTokenRevokeLink(e.target.value)}
+              disabled={tokenRevoking}
+              rows={3}
+              placeholder="粘贴完整的 /api/object?token=… 或 /api/download/zip?token=… 链接"
+              className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 font-mono text-xs outline-none focus:border-blue-500 disabled:opacity-50 dark:border-gray-800 dark:bg-gray-950 dark:text-gray-100"
+            />
+          </label>
+          <label className="block">
+            <span className="mb-1 block text-xs text-gray-500 dark:text-gray-400">原因（可选）</span>
+            <input
+              value={tokenRevokeReason}
+              onChange={(e) => setTokenRevokeReason(e.target.value)}
+              disabled={tokenRevoking}
+              maxLength={200}
+              placeholder="例如：链接被转发到外部群聊"
+              className="h-9 w-full rounded-lg border border-gray-200 bg-white px-3 text-sm outline-none focus:border-blue-500 disabled:opacity-50 dark:border-gray-800 dark:bg-gray-950 dark:text-gray-100"
+            />
+          </label>
+          <div className="flex items-center justify-between gap-3 pt-1 text-xs font-medium text-gray-500 dark:text-gray-400">
+            <span>已撤销且尚未过期的链接</span>
+            <button
+              type="button"
+              onClick={() => bucketId && void loadRevokedTokens(bucketId)}
+              disabled={revokedTokensLoading}
+              className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700 disabled:opacity-50 dark:text-blue-300"
+            >
+              <RefreshCw className={`h-3.5 w-3.5 ${revokedTokensLoading ? "animate-spin" : ""}`} />
+              刷新
+            </button>
+          </div>
+          {revokedTokensLoading && !revokedTokens.length ? (
+            <div className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">正在读取已撤销的链接...</div>
+          ) : revokedTokens.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-gray-200 px-3 py-4 text-center text-sm text-gray-500 dark:border-gray-700 dark:text-gray-400">
+              暂无已撤销的链接
+            </div>
+          ) : (
+            <div className="max-h-[40vh] divide-y divide-gray-100 overflow-y-auto rounded-xl border border-gray-200 dark:divide-gray-800 dark:border-gray-800">
+              {revokedTokens.map((entry) => (
+                <div key={entry.tokenId} className="px-3 py-2 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="shrink-0 rounded bg-gray-100 px-1.5 py-0.5 text-[11px] text-gray-600 dark:bg-gray-800 dark:text-gray-300">
+                      {ROUTE_TOKEN_OP_LABELS[entry.op] ?? entry.op}
+                    </span>
+                    <span className="min-w-0 flex-1 truncate font-mono text-xs text-gray-900 dark:text-gray-100" title={entry.itemKey}>
+                      {entry.itemKey || "（整个存储桶）"}
+                    </span>
+                  </div>
+                  <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    {entry.revokedBy || "未知成员"} 于 {formatDateTime(entry.createdAt)} 撤销 · 原定 {formatDateTime(entry.expiresAt)} 过期
+                    {entry.reason ? ` · ${entry.reason}` : ""}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : bucketSettingsTab === "lifecycle" ? (
+        lifecycleLoading ? (
+          <div className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">正在读取生命周期规则...</div>
+        ) : (
+          <div className="space-y-3">
+            <div className="rounded-lg border border-gray-200 bg-gray-50 px-3 py-2 text-xs text-gray-600 dark:border-gray-800 dark:bg-gray-950/40 dark:text-gray-300">
+              按前缀自动删除过期对象、转入低频存储或清理未完成的分片上传；前缀留空表示整个桶。规则由存储服务每日执行。
+            </div>
+            {lifecycleDraft.length === 0 ? (
+              <div className="rounded-lg border border-dashed border-gray-200 px-3 py-4 text-center text-sm text-gray-500 dark:border-gray-700 dark:text-gray-400">
+                该桶尚未配置生命周期规则
+              </div>
+            ) : null}
+            {lifecycleDraft.map((rule, index) => (
+              <div key={rule.draftId} className="rounded-xl border border-gray-200 p-3 dark:border-gray-800">
+                <div className="mb-2 flex items-center justify-between gap-2">
+                  <label className="inline-flex items-center gap-2 text-sm font-medium text-gray-900 dark:text-gray-100">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(event) => {
+                        const checked = event.target.checked;
+                        setLifecycleDraft((prev) => prev.map((item) => (item.draftId === rule.draftId ? { ...item, enabled: checked } : item)));
+                      }}
+                      disabled={lifecycleSaving}
+                    />
+                    规则 {index + 1}
+                    {rule.enabled ? null : <span className="text-xs font-normal text-gray-400 dark:text-gray-500">（已停用）</span>}
+                  </label>
+                  <button
+                    type="button"
+                    aria-label="移除此规则"
+                    onClick={() => setLifecycleDraft((prev) => prev.filter((item) => item.draftId !== rule.draftId))}
+                    disabled={lifecycleSaving}
+                    className="inline-flex h-8 w-8 items-center justify-center rounded-lg text-gray-400 hover:bg-gray-100 hover:text-red-600 disabled:opacity-50 dark:hover:bg-gray-800"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                  <label className="block">
+                    <span className="mb-1 block text-xs text-gray-500 dark:text-gray-400">前缀</span>
+                    <input
+                      value={rule.prefix}
+                      onChange={(event) => {
+                        const value = event.target.value;
+                        setLifecycleDraft((prev) => prev.map((item) => (item.draftId === rule.draftId ? { ...item, prefix: value } : item)));
+                      }}
+                      disabled={lifecycleSaving}
+                      placeholder="例如：temp/（留空为整个桶）"
+                      className="h-9 w-full rounded-lg border border-gray-200 bg-white px-3 text-sm text-gray-700 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700/80 dark:bg-slate-900/75 dark:text-slate-100 font-mono"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="mb-1 block text-xs text-gray-500 dark:text-gray-400">规则名称（选填）</span>
+                    <input
+                      value={rule.id}
+                      onChange={(event) => {
+                        const value = event.target.value;
+                        setLifecycleDraft((prev) => prev.map((item) => (item.draftId === rule.draftId ? { ...item, id: value } : item)));
+                      }}
+                      disabled={lifecycleSaving}
+                      placeholder="留空自动生成"
+                      className="h-9 w-full rounded-lg border border-gray-200 bg-white px-3 text-sm text-gray-700 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700/80 dark:bg-slate-900/75 dark:text-slate-100 font-mono"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="mb-1 block text-xs text-gray-500 dark:text-gray-400">多少天后删除</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={rule.expirationDays}
+                      onChange={(event) => {
+                        const value = event.target.value;
+                        setLifecycleDraft((prev) => prev.map((item) => (item.draftId === rule.draftId ? { ...item, expirationDays: value } : item)));
+                      }}
+                      disabled={lifecycleSaving}
+                      placeholder="不删除"
+                      className="h-9 w-full rounded-lg border border-gray-200 bg-white px-3 text-sm text-gray-700 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700/80 dark:bg-slate-900/75 dark:text-slate-100 font-mono"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="mb-1 block text-xs text-gray-500 dark:text-gray-400">多少天后转为低频存储</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={rule.transitionDays}
+                      onChange={(event) => {
+                        const value = event.target.value;
+                        setLifecycleDraft((prev) => prev.map((item) => (item.draftId === rule.draftId ? { ...item, transitionDays: value } : item)));
+                      }}
+                      disabled={lifecycleSaving}
+                      placeholder="不转换"
+                      className="h-9 w-full rounded-lg border border-gray-200 bg-white px-3 text-sm text-gray-700 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700/80 dark:bg-slate-900/75 dark:text-slate-100 font-mono"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="mb-1 block text-xs text-gray-500 dark:text-gray-400">未完成分片保留天数</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={rule.abortMultipartDays}
+                      onChange={(event) => {
+                        const value = event.target.value;
+                        setLifecycleDraft((prev) => prev.map((item) => (item.draftId === rule.draftId ? { ...item, abortMultipartDays: value } : item)));
+                      }}
+                      disabled={lifecycleSaving}
+                      placeholder="不清理"
+                      className="h-9 w-full rounded-lg border border-gray-200 bg-white px-3 text-sm text-gray-700 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700/80 dark:bg-slate-900/75 dark:text-slate-100 font-mono"
+                    />
+                  </label>
+                </div>
+              </div>
+            ))}
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                onClick={() =>
+                  setLifecycleDraft((prev) => [...prev, toLifecycleRuleDraft({ id: "", enabled: true, prefix: "" }, prev.length)])
+                }
+                disabled={lifecycleSaving}
+                className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 disabled:opacity-50 dark:text-blue-300 dark:hover:bg-blue-950/40"
+              >
+                <Plus className="h-3.5 w-3.5" />
+                添加规则
+              </button>
+              {LIFECYCLE_RULE_PRESETS.map((preset) => (
+                <button
+                  key={preset.label}
+                  type="button"
+                  onClick={() => setLifecycleDraft((prev) => [...prev, toLifecycleRuleDraft(preset.rule, prev.length)])}
+                  disabled={lifecycleSaving || lifecycleDraft.some((rule) => rule.prefix.trim() === preset.rule.prefix)}
+                  className="rounded-lg border border-gray-200 px-2 py-1 text-xs text-gray-600 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-800"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )
+      ) : corsLoading ? (
+        <div className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">正在读取 CORS 配置...</div>
+      ) : (
+        <div className="space-y-3">
+          <div
+            className={`rounded-lg border px-3 py-2 text-xs ${
+              corsGaps.length
+                ? "border-amber-200 bg-amber-50 text-amber-700 dark:border-amber-900 dark:bg-amber-950/30 dark:text-amber-200"
+                : "border-green-200 bg-green-50 text-green-700 dark:border-green-900 dark:bg-green-950/30 dark:text-green-200"
+            }`}
+          >
+            {corsGaps.length
+              ? `当前面板（${corsOrigin}）无法直连：${corsGaps.join("，")}。未就绪时传输会回退为服务器中转。`
+              : `当前面板（${corsOrigin}）的直连上传与下载已被允许。`}
+          </div>
+          {corsDraft.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-gray-200 px-3 py-4 text-center text-sm text-gray-500 dark:border-gray-700 dark:text-gray-400">
+              该桶尚未配置 CORS 规则
+            </div>
+          ) : null}
+          {corsDraft.map((rule, index) => (
+            <div key={rule.draftId} className="rounded-xl border border-gray-200 p-3 dark:border-gray-800">
+              <div className="mb-2 flex items-center justify-between gap-2">
+                <div className="text-sm font-medium text-gray-900 dark:text-gray-100">规则 {index + 1}</div>
+                <button
+                  type="button"
+                  aria-label="移除此规则"
+                  onClick={() => setCorsDraft((prev) => prev.filter((item) => item.draftId !== rule.draftId))}
+                  disabled={corsSaving}
+                  className="inline-flex h-8 w-8 items-center justify-center rounded-lg text-gray-400 hover:bg-gray-100 hover:text-red-600 disabled:opacity-50 dark:hover:bg-gray-800"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+              <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                <label className="block md:col-span-2">
+                  <span className="mb-1 block text-xs text-gray-500 dark:text-gray-400">允许的来源（每行一个，可用 *）</span>
+                  <textarea
+                    value={rule.allowedOrigins}
+                    onChange={(event) => {
+                      const value = event.target.value;
+                      setCorsDraft((prev) => prev.map((item) => (item.draftId === rule.draftId ? { ...item, allowedOrigins: value } : item)));
+                    }}
+                    rows={2}
+                    disabled={corsSaving}
+                    placeholder="https://example.com"
+                    className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700/80 dark:bg-slate-900/75 dark:text-slate-100 font-mono"
+                  />
+                </label>
+                <div className="md:col-span-2">
+                  <span className="mb-1 block text-xs text-gray-500 dark:text-gray-400">允许的方法</span>
+                  <div className="flex flex-wrap gap-3">
+                    {CORS_METHOD_OPTIONS.map((method) => (
+                      <label key={method} className="inline-flex items-center gap-1.5 text-sm text-gray-700 dark:text-gray-200">
+                        <input
+                          type="checkbox"
+                          checked={rule.allowedMethods.includes(method)}
+                          onChange={(event) => {
+                            const checked = event.target.checked;
+                            setCorsDraft((prev) =>
+                              prev.map((item) =>
+                                item.draftId === rule.draftId
+                                  ? {
+                                      ...item,
+                                      allowedMethods: checked
+                                        ? [...item.allowedMethods.filter((m) => m !== method), method]
+                                        : item.allowedMethods.filter((m) => m !== method),
+                                    }
+                                  : item,
+                              ),
+                            );
+                          }}
+                          disabled={corsSaving}
+                        />
+                        <span className="font-mono">{method}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <label className="block">
+                  <span className="mb-1 block text-xs text-gray-500 dark:text-gray-400">允许的请求头（逗号分隔）</span>
+                  <input
+                    value={rule.allowedHeaders}
+                    onChange={(event) => {
+                      const value = event.target.value;
+                      setCorsDraft((prev) => prev.map((item) => (item.draftId === rule.draftId ? { ...item, allowedHeaders: value } : item)));
+                    }}
+                    disabled={corsSaving}
+                    placeholder="*"
+                    className="h-9 w-full rounded-lg border border-gray-200 bg-white px-3 text-sm text-gray-700 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700/80 dark:bg-slate-900/75 dark:text-slate-100 font-mono"
+                  />
+                </label>
+                <label className="block">
+                  <span className="mb-1 block text-xs text-gray-500 dark:text-gray-400">暴露的响应头（逗号分隔）</span>
+                  <input
+                    value={rule.exposeHeaders}
+                    onChange={(event) => {
+                      const value = event.target.value;
+                      setCorsDraft((prev) => prev.map((item) => (item.draftId === rule.draftId ? { ...item, exposeHeaders: value } : item)));
+                    }}
+                    disabled={corsSaving}
+                    placeholder="ETag"
+                    className="h-9 w-full rounded-lg border border-gray-200 bg-white px-3 text-sm text-gray-700 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700/80 dark:bg-slate-900/75 dark:text-slate-100 font-mono"
+                  />
+                </label>
+                <label className="block">
+                  <span className="mb-1 block text-xs text-gray-500 dark:text-gray-400">预检缓存（秒）</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={rule.maxAgeSeconds}
+                    onChange={(event) => {
+                      const value = event.target.value;
+                      setCorsDraft((prev) => prev.map((item) => (item.draftId === rule.draftId ? { ...item, maxAgeSeconds: value } : item)));
+                    }}
+                    disabled={corsSaving}
+                    placeholder="3600"
+                    className="h-9 w-full rounded-lg border border-gray-200 bg-white px-3 text-sm text-gray-700 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700/80 dark:bg-slate-900/75 dark:text-slate-100 font-mono"
+                  />
+                </label>
+              </div>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() =>
+              setCorsDraft((prev) => [
+                ...prev,
+                toCorsRuleDraft({ allowedOrigins: [], allowedMethods: ["GET"], allowedHeaders: [], exposeHeaders: [] }, prev.length),
+              ])
+            }
+            disabled={corsSaving}
+            className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 disabled:opacity-50 dark:text-blue-300 dark:hover:bg-blue-950/40"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            添加规则
+          </button>
+        </div>
+      )}
+    </Modal>
+  );
+}
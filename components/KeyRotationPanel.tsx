@@ -0,0 +1,233 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { toChineseErrorMessage } from "@/lib/error-zh";
+import { formatDateTime, readJsonSafe, type PanelApi } from "@/components/panel-api";
+
+type KeyringStatus = {
+  primaryKeyId: string;
+  keyIds: string[];
+  buckets: number;
+  pending: number;
+};
+
+type KeyRotation = {
+  id: string;
+  targetKeyId: string;
+  status: "queued" | "running" | "completed" | "failed" | "cancelled";
+  processed: number;
+  migrated: number;
+  failed: number;
+  total: number;
+  failures: Array<{ bucketId: string; teamId: string; bucketName: string; error: string }>;
+  error?: string;
+  createdByName: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+};
+
+type KeyRotationPanelProps = {
+  api: PanelApi;
+  // Bumped by the platform console's refresh button.
+  refreshKey: number;
+};
+
+const STATUS_LABELS: Record<KeyRotation["status"], string> = {
+  queued: "排队中",
+  running: "迁移中",
+  completed: "已完成",
+  failed: "已失败",
+  cancelled: "已取消",
+};
+
+const isActiveKeyRotation = (rotation: KeyRotation | null) => rotation?.status === "queued" || rotation?.status === "running";
+
+// Credential keyring status and the re-encryption job, in the platform console.
+export default function KeyRotationPanel({ api, refreshKey }: KeyRotationPanelProps) {
+  const { fetchWithAuth, confirm, toast } = api;
+  const [keyringStatus, setKeyringStatus] = useState<KeyringStatus | null>(null);
+  const [keyRotation, setKeyRotation] = useState<KeyRotation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [running, setRunning] = useState(false);
+  const runnerRef = useRef(false);
+  const mountedRef = useRef(true);
+
+  const fetchStatus = async () => {
+    try {
+      setLoading(true);
+      const res = await fetchWithAuth("/api/platform/key-rotation");
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "读取密钥状态失败"));
+      const status = data as { keyring?: KeyringStatus; rotation?: KeyRotation | null };
+      setKeyringStatus(status.keyring ?? null);
+      setKeyRotation(status.rotation ?? null);
+    } catch (error) {
+      toast(toChineseErrorMessage(error, "读取密钥状态失败，请稍后重试。"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Drives the rotation one step per request until it finishes; a second tab holding the lease just makes this back off.
+  // Closing the console stops driving; 继续迁移 picks the rotation up again.
+  const driveKeyRotation = async (rotationId: string) => {
+    if (runnerRef.current) return;
+    runnerRef.current = true;
+    setRunning(true);
+    try {
+      let previous: KeyRotation | null = null;
+      while (mountedRef.current) {
+        const res = await fetchWithAuth("/api/platform/key-rotation", {
+          method: "POST",
+          body: JSON.stringify({ action: "run", id: rotationId }),
+        });
+        const data = await readJsonSafe(res);
+        const next = (data as { rotation?: KeyRotation }).rotation;
+        if (!res.ok || !next?.id) throw new Error(String((data as { error?: unknown }).error ?? "密钥迁移失败"));
+        setKeyRotation(next);
+        if (!isActiveKeyRotation(next)) {
+          if (next.status === "completed") {
+            toast(next.failed ? `密钥迁移完成，${next.failed} 个存储桶失败` : `已将 ${next.migrated} 个存储桶的凭据迁移到密钥「${next.targetKeyId}」`);
+          } else if (next.status === "failed") {
+            toast(next.error ?? "密钥迁移失败");
+          }
+          break;
+        }
+        if (previous && next.processed === previous.processed) await new Promise((resolve) => setTimeout(resolve, 3000));
+        previous = next;
+      }
+    } catch (error) {
+      toast(toChineseErrorMessage(error, "密钥迁移失败，请稍后重试"));
+    } finally {
+      runnerRef.current = false;
+      setRunning(false);
+      if (mountedRef.current) void fetchStatus();
+    }
+  };
+
+  const startKeyRotation = async () => {
+    if (!keyringStatus) return;
+    const confirmed = await confirm({
+      title: "迁移到最新密钥",
+      description: `将使用主密钥「${keyringStatus.primaryKeyId}」重新加密所有存储桶的访问凭据（当前 ${keyringStatus.pending} 个待迁移）。迁移期间存储桶可正常使用；完成前请勿从密钥环中移除旧密钥。`,
+      confirmLabel: "开始迁移",
+    });
+    if (!confirmed) return;
+    try {
+      const res = await fetchWithAuth("/api/platform/key-rotation", {
+        method: "POST",
+        body: JSON.stringify({ action: "create" }),
+      });
+      const data = await readJsonSafe(res);
+      const rotation = (data as { rotation?: KeyRotation }).rotation;
+      if (!res.ok || !rotation?.id) throw new Error(String((data as { error?: unknown }).error ?? "创建密钥迁移任务失败"));
+      setKeyRotation(rotation);
+      void driveKeyRotation(rotation.id);
+    } catch (error) {
+      toast(toChineseErrorMessage(error, "创建密钥迁移任务失败，请稍后重试"));
+    }
+  };
+
+  const cancelKeyRotation = async (rotationId: string) => {
+    try {
+      const res = await fetchWithAuth("/api/platform/key-rotation", {
+        method: "POST",
+        body: JSON.stringify({ action: "cancel", id: rotationId }),
+      });
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "取消密钥迁移失败"));
+      setKeyRotation((data as { rotation?: KeyRotation }).rotation ?? null);
+      toast("已取消密钥迁移");
+    } catch (error) {
+      toast(toChineseErrorMessage(error, "取消密钥迁移失败，请稍后重试"));
+    }
+  };
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    void fetchStatus();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refreshKey]);
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-white px-3 py-3 dark:border-gray-800 dark:bg-gray-900">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="min-w-0">
+          <div className="text-sm font-semibold text-gray-800 dark:text-gray-100">凭据加密密钥</div>
+          <div className="mt-0.5 text-[11px] text-gray-500 dark:text-gray-400">
+            {keyringStatus
+              ? `主密钥 ${keyringStatus.primaryKeyId} · 密钥环 ${keyringStatus.keyIds.join("、")} · ${keyringStatus.pending} / ${keyringStatus.buckets} 个存储桶待迁移`
+              : loading
+                ? "密钥状态加载中..."
+                : "-"}
+          </div>
+        </div>
+        {isActiveKeyRotation(keyRotation) ? (
+          <div className="flex gap-2">
+            {running ? null : (
+              <button
+                type="button"
+                onClick={() => keyRotation && void driveKeyRotation(keyRotation.id)}
+                className="rounded-lg border border-gray-200 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-200 dark:hover:bg-gray-800"
+              >
+                继续迁移
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => keyRotation && void cancelKeyRotation(keyRotation.id)}
+              className="rounded-lg border border-red-200 px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50 dark:border-red-900 dark:text-red-300 dark:hover:bg-red-950/40"
+            >
+              取消
+            </button>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => void startKeyRotation()}
+            disabled={!keyringStatus || keyringStatus.pending === 0}
+            className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            迁移到最新密钥
+          </button>
+        )}
+      </div>
+      {keyRotation ? (
+        <div className="mt-3 space-y-1.5">
+          <div className="h-1.5 overflow-hidden rounded-full bg-gray-100 dark:bg-gray-800">
+            <div
+              className={`h-full rounded-full ${keyRotation.status === "failed" ? "bg-red-500" : "bg-blue-600"}`}
+              style={{
+                width: `${keyRotation.total ? Math.min(100, Math.round((keyRotation.processed / keyRotation.total) * 100)) : keyRotation.status === "completed" ? 100 : 0}%`,
+              }}
+            />
+          </div>
+          <div className="text-[11px] text-gray-500 dark:text-gray-400">
+            {STATUS_LABELS[keyRotation.status]} · 目标密钥 {keyRotation.targetKeyId} · 已检查{" "}
+            {Math.min(keyRotation.processed, keyRotation.total || keyRotation.processed)} / {keyRotation.total} · 已迁移 {keyRotation.migrated}
+            {keyRotation.failed ? ` · 失败 ${keyRotation.failed}` : ""} · {keyRotation.createdByName || "管理员"} 发起于{" "}
+            {formatDateTime(keyRotation.createdAt)}
+          </div>
+          {keyRotation.error ? <div className="text-[11px] text-red-600 dark:text-red-300">{keyRotation.error}</div> : null}
+          {keyRotation.failures.length ? (
+            <div className="max-h-32 overflow-auto rounded-lg border border-red-100 bg-red-50/60 px-2 py-1.5 text-[11px] text-red-700 dark:border-red-900/60 dark:bg-red-950/20 dark:text-red-300">
+              {keyRotation.failures.map((failure) => (
+                <div key={failure.bucketId} className="truncate" title={failure.error}>
+                  {failure.bucketName}（{failure.bucketId}）：{failure.error}
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
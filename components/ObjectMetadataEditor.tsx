@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { toChineseErrorMessage } from "@/lib/error-zh";
+import { readJsonSafe, type PanelApi } from "@/components/panel-api";
+
+export type ObjectHttpMetadata = {
+  contentType?: string;
+  cacheControl?: string;
+  contentDisposition?: string;
+  contentEncoding?: string;
+};
+
+type ObjectMetadataDraft = Required<ObjectHttpMetadata> & {
+  custom: { id: string; key: string; value: string }[];
+};
+
+type ObjectMetadataEditorProps = {
+  api: PanelApi;
+  bucket: string;
+  objectKey: string;
+  // What the form starts from; saving replaces all of it.
+  metadata: { httpMetadata: ObjectHttpMetadata; customMetadata: Record<string, string> };
+  onCancel: () => void;
+  // Receives the metadata the server read back after the write.
+  onSaved: (data: unknown) => void;
+};
+
+const toDraft = (meta: ObjectMetadataEditorProps["metadata"]): ObjectMetadataDraft => ({
+  contentType: meta.httpMetadata.contentType ?? "",
+  cacheControl: meta.httpMetadata.cacheControl ?? "",
+  contentDisposition: meta.httpMetadata.contentDisposition ?? "",
+  contentEncoding: meta.httpMetadata.contentEncoding ?? "",
+  custom: Object.entries(meta.customMetadata).map(([key, value], index) => ({ id: `meta-${index}`, key, value })),
+});
+
+// Form for an object's HTTP headers and custom metadata, in the object properties panel.
+export default function ObjectMetadataEditor({ api, bucket, objectKey, metadata, onCancel, onSaved }: ObjectMetadataEditorProps) {
+  const { fetchWithAuth, toast } = api;
+  const [draft, setDraft] = useState(() => toDraft(metadata));
+  const [saving, setSaving] = useState(false);
+
+  const save = async () => {
+    const keys = draft.custom.map((row) => row.key.trim().toLowerCase()).filter(Boolean);
+    if (new Set(keys).size !== keys.length) {
+      toast("自定义元数据名称不能重复");
+      return;
+    }
+    try {
+      setSaving(true);
+      const res = await fetchWithAuth("/api/object/metadata", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          bucket,
+          key: objectKey,
+          httpMetadata: {
+            contentType: draft.contentType,
+            cacheControl: draft.cacheControl,
+            contentDisposition: draft.contentDisposition,
+            contentEncoding: draft.contentEncoding,
+          },
+          customMetadata: Object.fromEntries(
+            draft.custom.filter((row) => row.key.trim()).map((row) => [row.key.trim().toLowerCase(), row.value]),
+          ),
+        }),
+      });
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "更新文件元数据失败"));
+      onSaved(data);
+      toast("元数据已更新");
+    } catch (error) {
+      toast(toChineseErrorMessage(error, "更新文件元数据失败，请稍后重试"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {([
+        ["contentType", "Content-Type", "application/octet-stream"],
+        ["cacheControl", "Cache-Control", "public, max-age=3600"],
+        ["contentDisposition", "Content-Disposition", "attachment; filename=\"example.pdf\""],
+        ["contentEncoding", "Content-Encoding", "gzip"],
+      ] as const).map(([field, label, placeholder]) => (
+        <label key={field} className="block">
+          <span className="mb-1 block text-xs text-gray-500 dark:text-gray-400">{label}</span>
+          <input
+            value={draft[field]}
+            onChange={(event) => {
+              const value = event.target.value;
+              setDraft((prev) => ({ ...prev, [field]: value }));
+            }}
+            placeholder={placeholder}
+            disabled={saving}
+            className="h-9 w-full rounded-lg border border-gray-200 bg-white px-3 text-sm text-gray-700 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700/80 dark:bg-slate-900/75 dark:text-slate-100 font-mono"
+          />
+        </label>
+      ))}
+      <div>
+        <div className="mb-1 text-xs text-gray-500 dark:text-gray-400">自定义元数据（x-amz-meta-*）</div>
+        <div className="space-y-2">
+          {draft.custom.map((row) => (
+            <div key={row.id} className="flex items-center gap-2">
+              <input
+                value={row.key}
+                onChange={(event) => {
+                  const value = event.target.value;
+                  setDraft((prev) => ({ ...prev, custom: prev.custom.map((item) => (item.id === row.id ? { ...item, key: value } : item)) }));
+                }}
+                placeholder="名称"
+                disabled={saving}
+                className="h-9 w-full rounded-lg border border-gray-200 bg-white px-3 text-sm text-gray-700 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700/80 dark:bg-slate-900/75 dark:text-slate-100 font-mono"
+              />
+              <input
+                value={row.value}
+                onChange={(event) => {
+                  const value = event.target.value;
+                  setDraft((prev) => ({ ...prev, custom: prev.custom.map((item) => (item.id === row.id ? { ...item, value } : item)) }));
+                }}
+                placeholder="值"
+                disabled={saving}
+                className="h-9 w-full rounded-lg border border-gray-200 bg-white px-3 text-sm text-gray-700 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700/80 dark:bg-slate-900/75 dark:text-slate-100 font-mono"
+              />
+              <button
+                type="button"
+                aria-label="移除此项"
+                onClick={() => setDraft((prev) => ({ ...prev, custom: prev.custom.filter((item) => item.id !== row.id) }))}
+                disabled={saving}
+                className="inline-flex h-9 w-9 shrink-0 items-center justify-center rounded-lg text-gray-400 hover:bg-gray-100 hover:text-red-600 disabled:opacity-50 dark:hover:bg-gray-800"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() =>
+              setDraft((prev) => ({ ...prev, custom: [...prev.custom, { id: `meta-${Date.now()}`, key: "", value: "" }] }))
+            }
+            disabled={saving}
+            className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 disabled:opacity-50 dark:text-blue-300 dark:hover:bg-blue-950/40"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            添加自定义项
+          </button>
+        </div>
+      </div>
+      <div className="flex justify-end gap-2 pt-1">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="rounded-lg border border-gray-200 px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-800 dark:text-gray-200 dark:hover:bg-gray-800"
+        >
+          取消
+        </button>
+        <button
+          type="button"
+          onClick={() => void save()}
+          disabled={saving}
+          className="rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? "保存中..." : "保存"}
+        </button>
+      </div>
+    </div>
+  );
+}
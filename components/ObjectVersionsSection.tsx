@@ -0,0 +1,201 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Download, Trash2 } from "lucide-react";
+import { toChineseErrorMessage } from "@/lib/error-zh";
+import { formatDateTime, readJsonSafe, type PanelApi } from "@/components/panel-api";
+
+export type ObjectVersionView = {
+  id: string;
+  key: string;
+  storageKey: string;
+  size: number;
+  etag?: string;
+  lastModified?: string;
+  reason: "upload" | "multipart" | "metadata" | "restore";
+  createdBy: string;
+  createdAt: string;
+};
+
+type ObjectVersionsSectionProps = {
+  api: PanelApi;
+  bucket: string;
+  objectKey: string;
+  objectName: string;
+  versioningEnabled: boolean;
+  canRestore: boolean;
+  canDelete: boolean;
+  // Bumped by the page when it writes a new version itself (e.g. a metadata edit).
+  refreshKey: number;
+  onRestored: () => Promise<void>;
+  onDownload: (version: ObjectVersionView) => void;
+};
+
+const REASON_LABELS: Record<ObjectVersionView["reason"], string> = {
+  upload: "覆盖上传",
+  multipart: "分片覆盖上传",
+  metadata: "修改元数据",
+  restore: "恢复版本",
+};
+
+const formatSize = (bytes?: number) => {
+  if (bytes === undefined) return "-";
+  if (!Number.isFinite(bytes) || bytes < 0) return "-";
+  if (bytes === 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB", "TB"];
+  const i = Math.min(sizes.length - 1, Math.max(0, Math.floor(Math.log(bytes) / Math.log(k))));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
+
+// Version history of one object, in the object properties panel. Hidden while the bucket keeps no versions
+// and none are left over from when it did.
+export default function ObjectVersionsSection({
+  api,
+  bucket,
+  objectKey,
+  objectName,
+  versioningEnabled,
+  canRestore,
+  canDelete,
+  refreshKey,
+  onRestored,
+  onDownload,
+}: ObjectVersionsSectionProps) {
+  const { fetchWithAuth, confirm, toast } = api;
+  const [versions, setVersions] = useState<ObjectVersionView[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchVersions = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ bucket, key: objectKey });
+      const res = await fetchWithAuth(`/api/object/versions?${params.toString()}`);
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "读取历史版本失败"));
+      setVersions(Array.isArray((data as { versions?: unknown }).versions) ? (data as { versions: ObjectVersionView[] }).versions : []);
+    } catch (error) {
+      console.error(error);
+      setVersions([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restoreVersion = async (version: ObjectVersionView) => {
+    if (busyId) return;
+    const confirmed = await confirm({
+      title: "恢复历史版本",
+      description: `确认将「${objectName}」恢复到 ${formatDateTime(version.createdAt)} 的版本吗？当前内容会先保存为一个新的历史版本。`,
+      confirmLabel: "恢复",
+    });
+    if (!confirmed) return;
+    try {
+      setBusyId(version.id);
+      const res = await fetchWithAuth("/api/object/versions", {
+        method: "POST",
+        body: JSON.stringify({ bucket, versionId: version.id }),
+      });
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "恢复历史版本失败"));
+      await Promise.all([onRestored(), fetchVersions()]);
+      toast("已恢复到所选版本");
+    } catch (error) {
+      toast(toChineseErrorMessage(error, "恢复历史版本失败，请稍后重试"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteVersion = async (version: ObjectVersionView) => {
+    if (busyId) return;
+    const confirmed = await confirm({
+      title: "删除历史版本",
+      description: `确认删除 ${formatDateTime(version.createdAt)} 的历史版本吗？删除后无法恢复。`,
+      confirmLabel: "删除",
+      danger: true,
+    });
+    if (!confirmed) return;
+    try {
+      setBusyId(version.id);
+      const params = new URLSearchParams({ bucket, id: version.id });
+      const res = await fetchWithAuth(`/api/object/versions?${params.toString()}`, { method: "DELETE" });
+      const data = await readJsonSafe(res);
+      if (!res.ok) throw new Error(String((data as { error?: unknown }).error ?? "删除历史版本失败"));
+      setVersions((prev) => prev.filter((item) => item.id !== version.id));
+      toast("历史版本已删除");
+    } catch (error) {
+      toast(toChineseErrorMessage(error, "删除历史版本失败，请稍后重试"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/set-state-in-effect
+    setVersions([]);
+    void fetchVersions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [bucket, objectKey, refreshKey]);
+
+  if (!versioningEnabled && versions.length === 0) return null;
+
+  return (
+    <div className="py-3">
+      <div className="mb-2 text-sm font-medium text-gray-900 dark:text-gray-100">历史版本</div>
+      {loading && versions.length === 0 ? (
+        <div className="py-2 text-sm text-gray-500 dark:text-gray-400">正在读取历史版本...</div>
+      ) : versions.length === 0 ? (
+        <div className="py-2 text-sm text-gray-400 dark:text-gray-500">暂无历史版本，覆盖此文件后会自动保留旧版本</div>
+      ) : (
+        <div className="overflow-hidden rounded-xl border border-gray-100 dark:border-gray-800">
+          <div className="divide-y divide-gray-100 dark:divide-gray-800">
+            {versions.map((version) => (
+              <div key={version.id} className="flex items-center justify-between gap-3 px-3 py-2.5 text-sm">
+                <div className="min-w-0">
+                  <div className="text-gray-900 dark:text-gray-100">{formatDateTime(version.createdAt)}</div>
+                  <div className="mt-0.5 truncate text-xs text-gray-500 dark:text-gray-400">
+                    {REASON_LABELS[version.reason] ?? version.reason} · {formatSize(version.size)}
+                    {version.createdBy ? ` · ${version.createdBy}` : ""}
+                  </div>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  {canRestore ? (
+                    <button
+                      type="button"
+                      onClick={() => void restoreVersion(version)}
+                      disabled={Boolean(busyId)}
+                      className="rounded-lg px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 disabled:opacity-50 dark:text-blue-300 dark:hover:bg-blue-950/40"
+                    >
+                      {busyId === version.id ? "处理中..." : "恢复"}
+                    </button>
+                  ) : null}
+                  <button
+                    type="button"
+                    aria-label="下载此版本"
+                    onClick={() => onDownload(version)}
+                    className="inline-flex h-7 w-7 items-center justify-center rounded-lg text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800"
+                  >
+                    <Download className="h-3.5 w-3.5" />
+                  </button>
+                  {canDelete ? (
+                    <button
+                      type="button"
+                      aria-label="删除此版本"
+                      onClick={() => void deleteVersion(version)}
+                      disabled={Boolean(busyId)}
+                      className="inline-flex h-7 w-7 items-center justify-center rounded-lg text-gray-400 hover:bg-gray-100 hover:text-red-600 disabled:opacity-50 dark:hover:bg-gray-800"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
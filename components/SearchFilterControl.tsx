@@ -0,0 +1,341 @@
+"use client";
+
+import type React from "react";
+import { Check, Link2, ListFilter } from "lucide-react";
+import { FILE_TYPE_GROUP_LABELS, isFileTypeGroup, type FileTypeGroup } from "@/lib/preview-hints";
+
+export type SearchMatchMode = "substring" | "glob" | "regex" | "content";
+export type SearchScope = "bucket" | "folder" | "all";
+// Filters of the bucket-wide search as entered in the panel: sizes in MB, dates as yyyy-mm-dd in local time.
+export type SearchFilters = {
+  match: SearchMatchMode;
+  types: FileTypeGroup[];
+  extensions: string;
+  minSizeMb: string;
+  maxSizeMb: string;
+  modifiedFrom: string;
+  modifiedTo: string;
+  scope: SearchScope;
+  favoritesOnly: boolean;
+};
+export type SearchLink = { bucketId: string; path: string[]; q: string; filters: SearchFilters };
+
+export const DEFAULT_SEARCH_FILTERS: SearchFilters = {
+  match: "substring",
+  types: [],
+  extensions: "",
+  minSizeMb: "",
+  maxSizeMb: "",
+  modifiedFrom: "",
+  modifiedTo: "",
+  scope: "bucket",
+  favoritesOnly: false,
+};
+
+export const SEARCH_MATCH_MODE_OPTIONS: Array<{ value: SearchMatchMode; label: string; placeholder: string }> = [
+  { value: "substring", label: "包含", placeholder: "" },
+  { value: "glob", label: "通配符", placeholder: "如 *.pdf 或 docs/**/*.md" },
+  { value: "regex", label: "正则", placeholder: "如 ^reports/20\\d{2}/" },
+  { value: "content", label: "文件内容", placeholder: "搜索文本和文档里的文字" },
+];
+
+const SEARCH_SCOPE_OPTIONS: Array<{ value: SearchScope; label: string }> = [
+  { value: "bucket", label: "当前存储桶" },
+  { value: "folder", label: "当前文件夹" },
+  { value: "all", label: "所有存储桶" },
+];
+
+const SEARCH_TYPE_GROUP_OPTIONS = (Object.keys(FILE_TYPE_GROUP_LABELS) as FileTypeGroup[]).map((value) => ({
+  value,
+  label: FILE_TYPE_GROUP_LABELS[value],
+}));
+
+// Filters that narrow the results by themselves, so the search runs even with an empty query.
+export const hasSearchFilterCriteria = (filters: SearchFilters) =>
+  filters.types.length > 0 ||
+  filters.favoritesOnly ||
+  Boolean(filters.extensions.trim() || filters.minSizeMb.trim() || filters.maxSizeMb.trim() || filters.modifiedFrom || filters.modifiedTo);
+
+const countSearchFilters = (filters: SearchFilters) =>
+  [
+    filters.match !== "substring",
+    filters.types.length > 0,
+    Boolean(filters.extensions.trim()),
+    Boolean(filters.minSizeMb.trim() || filters.maxSizeMb.trim()),
+    Boolean(filters.modifiedFrom || filters.modifiedTo),
+    filters.scope !== "bucket",
+    filters.favoritesOnly,
+  ].filter(Boolean).length;
+
+// URL parameters of a shareable search link; they are removed again once the search is cleared.
+const SEARCH_LINK_PARAMS = ["bucket", "path", "q", "match", "types", "ext", "minMb", "maxMb", "from", "to", "scope", "fav"];
+
+export const readSearchLink = (params: URLSearchParams): SearchLink | null => {
+  const bucketId = String(params.get("bucket") ?? "").trim();
+  if (!bucketId) return null;
+  const match = params.get("match");
+  const scope = params.get("scope");
+  const readDate = (name: string) => {
+    const value = String(params.get(name) ?? "").trim();
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : "";
+  };
+  return {
+    bucketId,
+    path: String(params.get("path") ?? "").split("/").filter(Boolean),
+    q: String(params.get("q") ?? ""),
+    filters: {
+      match: match === "glob" || match === "regex" || match === "content" ? match : "substring",
+      types: String(params.get("types") ?? "").split(",").filter(isFileTypeGroup),
+      extensions: String(params.get("ext") ?? ""),
+      minSizeMb: String(params.get("minMb") ?? ""),
+      maxSizeMb: String(params.get("maxMb") ?? ""),
+      modifiedFrom: readDate("from"),
+      modifiedTo: readDate("to"),
+      scope: scope === "folder" || scope === "all" ? scope : "bucket",
+      favoritesOnly: params.get("fav") === "1",
+    },
+  };
+};
+
+export const writeSearchLink = (url: URL, link: SearchLink | null) => {
+  SEARCH_LINK_PARAMS.forEach((name) => url.searchParams.delete(name));
+  if (!link) return;
+  const { filters } = link;
+  const entries: Array<[string, string]> = [
+    ["bucket", link.bucketId],
+    ["path", link.path.join("/")],
+    ["q", link.q.trim()],
+    ["match", filters.match === "substring" ? "" : filters.match],
+    ["types", filters.types.join(",")],
+    ["ext", filters.extensions.trim()],
+    ["minMb", filters.minSizeMb.trim()],
+    ["maxMb", filters.maxSizeMb.trim()],
+    ["from", filters.modifiedFrom],
+    ["to", filters.modifiedTo],
+    ["scope", filters.scope === "bucket" ? "" : filters.scope],
+    ["fav", filters.favoritesOnly ? "1" : ""],
+  ];
+  for (const [name, value] of entries) if (value) url.searchParams.set(name, value);
+};
+
+type SearchFilterControlProps = {
+  variant: "desktop" | "mobile";
+  filters: SearchFilters;
+  onFiltersChange: React.Dispatch<React.SetStateAction<SearchFilters>>;
+  open: boolean;
+  onOpenChange: React.Dispatch<React.SetStateAction<boolean>>;
+  disabled: boolean;
+  // Copying the shareable link needs a query or a filter to share.
+  canCopyLink: boolean;
+  onCopyLink: () => void;
+};
+
+// Filter button and panel of the search box. Desktop anchors the panel to the button; on mobile it spans the
+// (relative) search row instead. The page closes it on outside clicks through the data-search-filter attribute.
+export default function SearchFilterControl({
+  variant,
+  filters,
+  onFiltersChange,
+  open,
+  onOpenChange,
+  disabled,
+  canCopyLink,
+  onCopyLink,
+}: SearchFilterControlProps) {
+  const activeCount = countSearchFilters(filters);
+  const updateFilters = (patch: Partial<SearchFilters>) => onFiltersChange((prev) => ({ ...prev, ...patch }));
+  const inputClass =
+    "h-9 w-full min-w-0 rounded-lg border border-gray-200 bg-white px-3 text-sm text-gray-700 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 dark:border-slate-700/80 dark:bg-slate-900/75 dark:text-slate-100";
+  const chipClass = (active: boolean) =>
+    `rounded-lg border px-2.5 py-1.5 text-xs transition ${
+      active
+        ? "border-blue-200 bg-blue-50 text-blue-700 dark:border-blue-900 dark:bg-blue-950/35 dark:text-blue-200"
+        : "border-gray-200 text-gray-600 hover:bg-gray-50 dark:border-slate-700/80 dark:text-gray-300 dark:hover:bg-gray-800"
+    }`;
+  const labelClass = "grid gap-1 text-xs text-gray-500 dark:text-gray-400";
+
+  return (
+    <div data-search-filter className={variant === "desktop" ? "relative shrink-0" : "shrink-0"}>
+      <button
+        type="button"
+        onClick={() => onOpenChange((v) => !v)}
+        disabled={disabled}
+        aria-expanded={open}
+        title="搜索筛选"
+        aria-label="搜索筛选"
+        className={`relative inline-flex items-center justify-center rounded-lg border transition disabled:cursor-not-allowed disabled:opacity-50 ${
+          variant === "desktop" ? "h-[38px] w-[38px]" : "h-[38px] w-10"
+        } ${
+          activeCount
+            ? "border-blue-200 bg-blue-50 text-blue-700 dark:border-blue-900 dark:bg-blue-950/35 dark:text-blue-200"
+            : "border-gray-200 bg-white text-gray-600 hover:bg-gray-50 dark:border-slate-700/80 dark:bg-slate-900/75 dark:text-slate-200 dark:hover:bg-gray-800"
+        }`}
+      >
+        <ListFilter className="h-4 w-4" />
+        {activeCount ? (
+          <span className="absolute -right-1.5 -top-1.5 min-w-4 rounded-full bg-blue-600 px-1 text-center text-[10px] leading-4 text-white">
+            {activeCount}
+          </span>
+        ) : null}
+      </button>
+      {open ? (
+        <div
+          className={`absolute top-[calc(100%+0.5rem)] z-40 rounded-xl border border-gray-200 bg-white p-3 shadow-xl shadow-gray-900/10 dark:border-slate-700/80 dark:bg-slate-900/95 dark:shadow-black/35 dark:ring-1 dark:ring-white/5 ${
+            variant === "desktop" ? "right-0 w-[22rem]" : "left-0 right-0"
+          }`}
+        >
+          <div className="grid gap-3">
+            <div className={labelClass}>
+              匹配方式
+              <div className="grid grid-cols-4 gap-1.5">
+                {SEARCH_MATCH_MODE_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => updateFilters({ match: option.value })}
+                    className={chipClass(filters.match === option.value)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className={labelClass}>
+              搜索范围
+              <div className="grid grid-cols-3 gap-1.5">
+                {SEARCH_SCOPE_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => updateFilters({ scope: option.value })}
+                    className={chipClass(filters.scope === option.value)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className={labelClass}>
+              文件类型
+              <div className="flex flex-wrap gap-1.5">
+                {SEARCH_TYPE_GROUP_OPTIONS.map((option) => {
+                  const active = filters.types.includes(option.value);
+                  return (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() =>
+                        updateFilters({
+                          types: active
+                            ? filters.types.filter((value) => value !== option.value)
+                            : [...filters.types, option.value],
+                        })
+                      }
+                      className={`inline-flex items-center gap-1 ${chipClass(active)}`}
+                    >
+                      {active ? <Check className="h-3 w-3" /> : null}
+                      {option.label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+            <label className={labelClass}>
+              扩展名
+              <input
+                type="text"
+                value={filters.extensions}
+                onChange={(e) => updateFilters({ extensions: e.target.value })}
+                placeholder="如 pdf, psd（多个用逗号分隔）"
+                className={inputClass}
+              />
+            </label>
+            <div className={labelClass}>
+              文件大小（MB）
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  inputMode="decimal"
+                  value={filters.minSizeMb}
+                  onChange={(e) => updateFilters({ minSizeMb: e.target.value })}
+                  placeholder="最小"
+                  className={inputClass}
+                />
+                <span className="shrink-0">至</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  inputMode="decimal"
+                  value={filters.maxSizeMb}
+                  onChange={(e) => updateFilters({ maxSizeMb: e.target.value })}
+                  placeholder="最大"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className={labelClass}>
+              修改时间
+              <div className="flex items-center gap-2">
+                <input
+                  type="date"
+                  value={filters.modifiedFrom}
+                  onChange={(e) => updateFilters({ modifiedFrom: e.target.value })}
+                  className={inputClass}
+                />
+                <span className="shrink-0">至</span>
+                <input
+                  type="date"
+                  value={filters.modifiedTo}
+                  onChange={(e) => updateFilters({ modifiedTo: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm text-gray-700 dark:text-gray-200">
+              <label className="inline-flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={filters.favoritesOnly}
+                  onChange={(e) => updateFilters({ favoritesOnly: e.target.checked })}
+                  className="w-4 h-4 shrink-0 text-blue-600 border-gray-300 rounded focus:ring-blue-500 dark:border-gray-700"
+                />
+                仅收藏
+              </label>
+            </div>
+          </div>
+          <div className="mt-3 flex justify-between gap-2">
+            <button
+              type="button"
+              onClick={() => onFiltersChange(DEFAULT_SEARCH_FILTERS)}
+              className="rounded-lg border border-gray-200 px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50 dark:border-gray-800 dark:text-gray-300 dark:hover:bg-gray-800"
+            >
+              重置
+            </button>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={onCopyLink}
+                disabled={!canCopyLink}
+                title={canCopyLink ? "复制可分享的搜索链接" : "输入搜索内容或设置筛选后可复制链接"}
+                className="inline-flex items-center gap-1 rounded-lg border border-gray-200 px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-gray-800 dark:text-gray-300 dark:hover:bg-gray-800"
+              >
+                <Link2 className="h-3.5 w-3.5" />
+                复制链接
+              </button>
+              <button
+                type="button"
+                onClick={() => onOpenChange(false)}
+                className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs text-white hover:bg-blue-700"
+              >
+                完成
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
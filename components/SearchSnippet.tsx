@@ -0,0 +1,27 @@
+"use client";
+
+import React from "react";
+import { splitByTokens } from "@/lib/text-match";
+
+type SearchSnippetProps = {
+  text: string;
+  terms: string[];
+  className?: string;
+};
+
+// Text around a content-search hit with the query terms marked.
+export default function SearchSnippet({ text, terms, className }: SearchSnippetProps) {
+  return (
+    <div className={`text-xs leading-5 text-gray-500 dark:text-gray-400 ${className ?? ""}`} title={text}>
+      {splitByTokens(text, terms).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="rounded-sm bg-amber-200/80 px-0.5 text-gray-900 dark:bg-amber-500/30 dark:text-amber-100">
+            {part.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part.text}</React.Fragment>
+        ),
+      )}
+    </div>
+  );
+}
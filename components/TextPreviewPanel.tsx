@@ -1,11 +1,17 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { Check, Copy } from "lucide-react";
+import { splitByTokens } from "@/lib/text-match";
 
 type TextPreviewPanelProps = {
   name: string;
   text?: string;
+  // Content-search hit: terms to mark and the 1-based line to bring into view.
+  highlightTerms?: string[];
+  scrollToLine?: number;
+  // Shown next to the file type, e.g. when the text was extracted from a document.
+  note?: string;
 };
 
 type HighlightToken = {
@@ -160,8 +166,11 @@ const highlightLine = (line: string, ext: string): HighlightToken[] => {
   return tokens;
 };
 
-export default function TextPreviewPanel({ name, text }: TextPreviewPanelProps) {
+const MARK_CLASS = "rounded-sm bg-amber-200/80 text-inherit dark:bg-amber-500/30";
+
+export default function TextPreviewPanel({ name, text, highlightTerms, scrollToLine, note }: TextPreviewPanelProps) {
   const [copyState, setCopyState] = useState<"idle" | "copied" | "failed">("idle");
+  const scrollRef = useRef<HTMLDivElement | null>(null);
   const ext = getFileExt(name);
   const isLoading = text == null;
   const normalizedText = String(text ?? "").replace(/\r\n/g, "\n");
@@ -170,6 +179,12 @@ export default function TextPreviewPanel({ name, text }: TextPreviewPanelProps)
   const lineNumberDigits = Math.max(3, String(lineCount).length);
   const lineNumberWidth = `calc(${lineNumberDigits}ch + 1.25rem)`;
 
+  useEffect(() => {
+    if (isLoading || !scrollToLine) return;
+    const line = scrollRef.current?.querySelector(`[data-line="${scrollToLine}"]`);
+    line?.scrollIntoView({ block: "center" });
+  }, [isLoading, scrollToLine]);
+
   useEffect(() => {
     if (copyState === "idle") return;
     const timer = window.setTimeout(() => setCopyState("idle"), 1800);
@@ -210,6 +225,7 @@ export default function TextPreviewPanel({ name, text }: TextPreviewPanelProps)
             {copyState === "copied" ? <Check className="h-3.5 w-3.5 text-emerald-600 dark:text-emerald-300" /> : <Copy className="h-3.5 w-3.5" />}
             <span>{copyState === "copied" ? "已复制" : copyState === "failed" ? "复制失败" : "复制全部"}</span>
           </button>
+          {note ? <span className="rounded bg-amber-50 px-1.5 py-0.5 text-amber-700 dark:bg-amber-950/40 dark:text-amber-300">{note}</span> : null}
           {ext ? (
             <span className="rounded border border-slate-200 bg-white px-1.5 py-0.5 font-mono uppercase dark:border-slate-700 dark:bg-slate-950">
               {ext}
@@ -218,7 +234,7 @@ export default function TextPreviewPanel({ name, text }: TextPreviewPanelProps)
           <span>{isLoading ? "加载中" : `${lineCount} 行`}</span>
         </div>
       </div>
-      <div className="min-h-0 flex-1 overflow-auto bg-[#fbfcfe] dark:bg-[#0b1020]">
+      <div ref={scrollRef} className="min-h-0 flex-1 overflow-auto bg-[#fbfcfe] dark:bg-[#0b1020]">
         {isLoading ? (
           <div className="flex h-full items-center justify-center text-sm text-slate-500 dark:text-slate-400">
             正在加载预览...
@@ -227,7 +243,11 @@ export default function TextPreviewPanel({ name, text }: TextPreviewPanelProps)
           <pre className="min-w-max p-0 text-[13px] leading-6 text-slate-800 dark:text-slate-100">
             <code className="block py-3">
               {lines.map((line, idx) => (
-                <span key={idx} className="flex min-h-6">
+                <span
+                  key={idx}
+                  data-line={idx + 1}
+                  className={`flex min-h-6 ${idx + 1 === scrollToLine ? "bg-amber-50 dark:bg-amber-950/30" : ""}`}
+                >
                   <span
                     className="sticky left-0 shrink-0 select-none border-r border-slate-200 bg-slate-50 px-2 text-right font-mono tabular-nums text-slate-400 dark:border-slate-800 dark:bg-slate-900 dark:text-slate-500"
                     style={{ width: lineNumberWidth }}
@@ -238,7 +258,17 @@ export default function TextPreviewPanel({ name, text }: TextPreviewPanelProps)
                   <span className="px-4 font-mono whitespace-pre">
                     {highlightLine(line, ext).map((token, tokenIdx) => (
                       <span key={tokenIdx} className={token.className}>
-                        {token.text}
+                        {highlightTerms?.length
+                          ? splitByTokens(token.text, highlightTerms).map((part, partIdx) =>
+                              part.match ? (
+                                <mark key={partIdx} className={MARK_CLASS}>
+                                  {part.text}
+                                </mark>
+                              ) : (
+                                part.text
+                              ),
+                            )
+                          : token.text}
                       </span>
                     ))}
                   </span>
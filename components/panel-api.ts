@@ -0,0 +1,37 @@
+// What the panels split out of app/page.tsx borrow from the page: its authenticated fetch (which refreshes
+// the session), its confirm dialog and its toast.
+
+import type React from "react";
+
+export type ConfirmDialogOptions = {
+  title: string;
+  description?: React.ReactNode;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  danger?: boolean;
+};
+
+export type PanelApi = {
+  fetchWithAuth: (url: string, options?: RequestInit) => Promise<Response>;
+  confirm: (options: ConfirmDialogOptions) => Promise<boolean>;
+  toast: (message: string) => void;
+};
+
+export const readJsonSafe = async (res: Response) => {
+  try {
+    return await res.clone().json();
+  } catch {
+    const text = await res
+      .clone()
+      .text()
+      .catch(() => "");
+    return text ? { error: text } : {};
+  }
+};
+
+export const formatDateTime = (value?: string | null) => {
+  if (!value) return "-";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "-";
+  return date.toLocaleString();
+};
@@ -15,6 +15,7 @@ export const ALL_PERMISSION_KEYS = [
   "bucket.read",
   "bucket.add",
   "bucket.edit",
+  "bucket.provision",
   "object.list",
   "object.read",
   "object.upload",
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAppAccessContextFromRequest, requireAnyPermission } from "@/lib/access-control";
-import { createR2Bucket } from "@/lib/r2-s3";
-import { resolveBucketCredentials } from "@/lib/user-buckets";
+import { createR2Bucket, describeStorageEndpoint, findCorsGapsForOrigin, getBucketCors, type R2ClientCredentials } from "@/lib/r2-s3";
+import { resolveBucketCredentials, toR2Jurisdiction } from "@/lib/user-buckets";
 import { toChineseErrorMessage } from "@/lib/error-zh";
 
 export const runtime = "edge";
@@ -13,8 +13,8 @@ const hintFromR2Error = (error: unknown) => {
   const code = String((error as { code?: unknown; Code?: unknown; name?: unknown })?.Code ?? (error as { code?: unknown }).code ?? (error as { name?: unknown }).name ?? "").trim();
   const message = String((error as { message?: unknown })?.message ?? "").toLowerCase();
 
-  if (code === "NoSuchBucket" || message.includes("nosuchbucket")) return "桶不存在";
-  if (code === "AccessDenied" || status === 403 || message.includes("accessdenied")) return "无权限";
+  if (code === "NoSuchBucket" || message.includes("nosuchbucket")) return "桶不存在（请确认管辖区 / Endpoint 是否与桶所在区域一致）";
+  if (code === "AccessDenied" || status === 403 || message.includes("accessdenied")) return "无权限（若桶位于 EU / FedRAMP 管辖区，请确认管辖区设置）";
   if (code === "InvalidAccessKeyId" || code === "SignatureDoesNotMatch") return "密钥异常";
   if (code) return `S3 错误：${code}`;
   if (status === 404) return "桶不存在或对象不存在";
@@ -29,6 +29,18 @@ const toStatus = (error: unknown) => {
 
 const toMessage = (error: unknown) => toChineseErrorMessage(error, "桶连通性校验失败，请稍后重试。");
 
+// Presigned (direct) transfers are made by the browser and only succeed when the bucket's CORS rules
+// admit this panel's origin. Keys without bucket-level permissions cannot read the rules at all.
+const checkCorsForOrigin = async (creds: R2ClientCredentials, origin: string) => {
+  if (creds.driver === "local") return null;
+  try {
+    const gaps = findCorsGapsForOrigin(await getBucketCors(creds), origin);
+    return { ok: gaps.length === 0, origin, gaps };
+  } catch (error) {
+    return { ok: false, origin, gaps: [] as string[], hint: toChineseErrorMessage(error, "无法读取 CORS 配置") };
+  }
+};
+
 export async function GET(req: NextRequest) {
   try {
     const ctx = await getAppAccessContextFromRequest(req);
@@ -37,6 +49,8 @@ export async function GET(req: NextRequest) {
     const { searchParams } = new URL(req.url);
     const bucketId = String(searchParams.get("bucketId") ?? "").trim();
     const bucketNameOverride = String(searchParams.get("bucketName") ?? "").trim();
+    const jurisdictionOverride = searchParams.get("jurisdiction");
+    const endpointOverride = searchParams.get("endpoint");
     if (!bucketId) return NextResponse.json({ ok: false, hint: "缺少 bucketId" }, { status: 400 });
 
     const { creds } = await resolveBucketCredentials(ctx, bucketId);
@@ -45,18 +59,22 @@ export async function GET(req: NextRequest) {
     if (!bucketName) return NextResponse.json({ ok: false, hint: "缺少桶名" }, { status: 400 });
     if (!isValidBucketName(bucketName)) return NextResponse.json({ ok: false, hint: "桶名格式不正确" }, { status: 400 });
 
-    const bucket = createR2Bucket({
-      accountId: creds.accountId,
-      accessKeyId: creds.accessKeyId,
-      secretAccessKey: creds.secretAccessKey,
+    // Lets the form verify a jurisdiction / endpoint change before it is saved.
+    const checkCreds = {
+      ...creds,
       bucketName,
-    });
+      ...(jurisdictionOverride !== null ? { jurisdiction: toR2Jurisdiction(jurisdictionOverride) } : {}),
+      ...(endpointOverride !== null ? { endpoint: endpointOverride.trim() || undefined } : {}),
+    };
+    const bucket = createR2Bucket(checkCreds);
+    const endpoint = describeStorageEndpoint(checkCreds);
 
     const checkKey = `.r2admin_bucket_check_${Date.now()}_${Math.random().toString(16).slice(2)}`;
     await bucket.head(checkKey);
+    const cors = await checkCorsForOrigin(checkCreds, new URL(req.url).origin);
 
     return NextResponse.json(
-      { ok: true, bucketName, hint: "桶名校验通过", httpStatus: 200 },
+      { ok: true, bucketName, endpoint, cors, hint: "桶名校验通过", httpStatus: 200 },
       { headers: { "cache-control": "no-store" } },
     );
   } catch (error: unknown) {
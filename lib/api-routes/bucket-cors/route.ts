@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAppAccessContextFromRequest, requirePermission } from "@/lib/access-control";
+import { writeAuditLog } from "@/lib/audit-logs";
+import { toChineseErrorMessage } from "@/lib/error-zh";
+import { CORS_METHODS, findCorsGapsForOrigin, getBucketCors, putBucketCors, type BucketCorsRule } from "@/lib/r2-s3";
+import { resolveBucketCredentials } from "@/lib/user-buckets";
+
+export const runtime = "edge";
+
+const toStatus = (error: unknown) => {
+  const status = Number((error as { status?: unknown })?.status ?? NaN);
+  return Number.isFinite(status) && status >= 100 ? status : 500;
+};
+
+const toMessage = (error: unknown, fallback: string) => toChineseErrorMessage(error, fallback);
+
+const json = (status: number, obj: unknown) => NextResponse.json(obj, { status, headers: { "cache-control": "no-store" } });
+
+// S3 allows at most 100 CORS rules per bucket.
+const MAX_CORS_RULES = 100;
+const MAX_CORS_AGE_SECONDS = 86400;
+
+type CorsBody = {
+  bucketId?: unknown;
+  rules?: unknown;
+};
+
+const badRequest = (message: string) => Object.assign(new Error(message), { status: 400 });
+
+const readStringList = (value: unknown) =>
+  Array.from(
+    new Set(
+      (Array.isArray(value) ? value : [])
+        .map((v) => String(v ?? "").trim())
+        .filter(Boolean),
+    ),
+  );
+
+const readRules = (value: unknown): BucketCorsRule[] => {
+  if (!Array.isArray(value)) throw badRequest("CORS 规则格式不正确");
+  if (value.length > MAX_CORS_RULES) throw badRequest(`CORS 规则最多 ${MAX_CORS_RULES} 条`);
+  return value.map((raw, index) => {
+    const input = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+    const label = `第 ${index + 1} 条规则`;
+    const allowedOrigins = readStringList(input.allowedOrigins);
+    if (!allowedOrigins.length) throw badRequest(`${label}缺少允许的来源`);
+    for (const origin of allowedOrigins) {
+      if ((origin.match(/\*/g) ?? []).length > 1) throw badRequest(`${label}的来源「${origin}」最多只能包含一个 *`);
+    }
+    const allowedMethods = readStringList(input.allowedMethods).map((m) => m.toUpperCase());
+    if (!allowedMethods.length) throw badRequest(`${label}缺少允许的方法`);
+    const invalidMethod = allowedMethods.find((m) => !(CORS_METHODS as readonly string[]).includes(m));
+    if (invalidMethod) throw badRequest(`${label}包含不支持的方法 ${invalidMethod}`);
+    const maxAgeRaw = input.maxAgeSeconds;
+    let maxAgeSeconds: number | undefined;
+    if (maxAgeRaw !== undefined && maxAgeRaw !== null && String(maxAgeRaw).trim() !== "") {
+      maxAgeSeconds = Number(maxAgeRaw);
+      if (!Number.isInteger(maxAgeSeconds) || maxAgeSeconds < 0 || maxAgeSeconds > MAX_CORS_AGE_SECONDS) {
+        throw badRequest(`${label}的缓存时间需为 0-${MAX_CORS_AGE_SECONDS} 秒`);
+      }
+    }
+    const id = String(input.id ?? "").trim();
+    return {
+      ...(id ? { id } : {}),
+      allowedOrigins,
+      allowedMethods,
+      allowedHeaders: readStringList(input.allowedHeaders),
+      exposeHeaders: readStringList(input.exposeHeaders),
+      ...(maxAgeSeconds !== undefined ? { maxAgeSeconds } : {}),
+    };
+  });
+};
+
+export async function GET(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    requirePermission(ctx, "bucket.read", "你没有查看存储桶的权限");
+    const { searchParams } = new URL(req.url);
+    const bucketId = String(searchParams.get("bucketId") ?? "").trim();
+    if (!bucketId) return json(400, { error: "缺少 bucketId" });
+
+    const { creds } = await resolveBucketCredentials(ctx, bucketId);
+    const rules = await getBucketCors(creds);
+    // Direct transfers run in the browser, so the origin that matters is the one serving this panel.
+    const origin = new URL(req.url).origin;
+    return json(200, { rules, origin, gaps: findCorsGapsForOrigin(rules, origin) });
+  } catch (error: unknown) {
+    return json(toStatus(error), { error: toMessage(error, "读取 CORS 配置失败") });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    requirePermission(ctx, "bucket.edit", "你没有编辑存储桶的权限");
+    const body = (await req.json().catch(() => ({}))) as CorsBody;
+    const bucketId = String(body.bucketId ?? "").trim();
+    if (!bucketId) return json(400, { error: "缺少 bucketId" });
+    const rules = readRules(body.rules);
+
+    const { creds, detail } = await resolveBucketCredentials(ctx, bucketId);
+    const before = await getBucketCors(creds).catch(() => null);
+    await putBucketCors(creds, rules);
+
+    await writeAuditLog(ctx, {
+      bucketId,
+      action: "cors_update",
+      itemType: "bucket",
+      itemName: detail.bucketLabel || detail.bucketName,
+      summary: rules.length
+        ? `${ctx.displayName} 更新了存储桶「${detail.bucketLabel || detail.bucketName}」的 CORS 规则（${rules.length} 条）`
+        : `${ctx.displayName} 清空了存储桶「${detail.bucketLabel || detail.bucketName}」的 CORS 规则`,
+      metadata: { before, after: rules },
+    });
+
+    const origin = new URL(req.url).origin;
+    return json(200, { success: true, rules, origin, gaps: findCorsGapsForOrigin(rules, origin) });
+  } catch (error: unknown) {
+    return json(toStatus(error), { error: toMessage(error, "保存 CORS 配置失败") });
+  }
+}
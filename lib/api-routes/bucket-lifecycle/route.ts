@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAppAccessContextFromRequest, requirePermission } from "@/lib/access-control";
+import { writeAuditLog } from "@/lib/audit-logs";
+import { toChineseErrorMessage } from "@/lib/error-zh";
+import { getBucketLifecycle, putBucketLifecycle, type BucketLifecycleRule } from "@/lib/r2-s3";
+import { resolveBucketCredentials } from "@/lib/user-buckets";
+
+export const runtime = "edge";
+
+const toStatus = (error: unknown) => {
+  const status = Number((error as { status?: unknown })?.status ?? NaN);
+  return Number.isFinite(status) && status >= 100 ? status : 500;
+};
+
+const toMessage = (error: unknown, fallback: string) => toChineseErrorMessage(error, fallback);
+
+const json = (status: number, obj: unknown) => NextResponse.json(obj, { status, headers: { "cache-control": "no-store" } });
+
+// S3 allows at most 1000 lifecycle rules per bucket; rule IDs are capped at 255 characters.
+const MAX_LIFECYCLE_RULES = 1000;
+const MAX_RULE_ID_LENGTH = 255;
+const MAX_LIFECYCLE_DAYS = 36500;
+
+type LifecycleBody = {
+  bucketId?: unknown;
+  rules?: unknown;
+};
+
+const badRequest = (message: string) => Object.assign(new Error(message), { status: 400 });
+
+const readDays = (value: unknown, label: string) => {
+  if (value === undefined || value === null || String(value).trim() === "") return undefined;
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_LIFECYCLE_DAYS) throw badRequest(`${label}需为 1-${MAX_LIFECYCLE_DAYS} 的整数天数`);
+  return days;
+};
+
+const readRules = (value: unknown): BucketLifecycleRule[] => {
+  if (!Array.isArray(value)) throw badRequest("生命周期规则格式不正确");
+  if (value.length > MAX_LIFECYCLE_RULES) throw badRequest(`生命周期规则最多 ${MAX_LIFECYCLE_RULES} 条`);
+  const ids = new Set<string>();
+  return value.map((raw, index) => {
+    const input = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+    const label = `第 ${index + 1} 条规则`;
+    const prefix = String(input.prefix ?? "").trim().replace(/^\/+/, "");
+    const id = String(input.id ?? "").trim() || `r2admin-${prefix.replace(/[^a-zA-Z0-9_-]+/g, "-") || "all"}-${index + 1}`;
+    if (id.length > MAX_RULE_ID_LENGTH) throw badRequest(`${label}的名称过长`);
+    if (ids.has(id)) throw badRequest(`规则名称「${id}」重复`);
+    ids.add(id);
+
+    const expirationDays = readDays(input.expirationDays, `${label}的过期天数`);
+    const transitionDays = readDays(input.transitionDays, `${label}的转低频天数`);
+    const abortMultipartDays = readDays(input.abortMultipartDays, `${label}的未完成分片清理天数`);
+    if (!expirationDays && !transitionDays && !abortMultipartDays) throw badRequest(`${label}至少需要设置一个动作`);
+    if (expirationDays && transitionDays && transitionDays >= expirationDays) {
+      throw badRequest(`${label}的转低频天数需小于过期天数`);
+    }
+
+    return {
+      id,
+      enabled: input.enabled !== false,
+      prefix,
+      ...(expirationDays ? { expirationDays } : {}),
+      ...(transitionDays ? { transitionDays } : {}),
+      ...(abortMultipartDays ? { abortMultipartDays } : {}),
+    };
+  });
+};
+
+export async function GET(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    requirePermission(ctx, "bucket.read", "你没有查看存储桶的权限");
+    const { searchParams } = new URL(req.url);
+    const bucketId = String(searchParams.get("bucketId") ?? "").trim();
+    if (!bucketId) return json(400, { error: "缺少 bucketId" });
+
+    const { creds } = await resolveBucketCredentials(ctx, bucketId);
+    return json(200, { rules: await getBucketLifecycle(creds) });
+  } catch (error: unknown) {
+    return json(toStatus(error), { error: toMessage(error, "读取生命周期规则失败") });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    requirePermission(ctx, "bucket.edit", "你没有编辑存储桶的权限");
+    const body = (await req.json().catch(() => ({}))) as LifecycleBody;
+    const bucketId = String(body.bucketId ?? "").trim();
+    if (!bucketId) return json(400, { error: "缺少 bucketId" });
+    const rules = readRules(body.rules);
+
+    const { creds, detail } = await resolveBucketCredentials(ctx, bucketId);
+    const before = await getBucketLifecycle(creds).catch(() => null);
+    await putBucketLifecycle(creds, rules);
+
+    const bucketLabel = detail.bucketLabel || detail.bucketName;
+    await writeAuditLog(ctx, {
+      bucketId,
+      action: "lifecycle_update",
+      itemType: "bucket",
+      itemName: bucketLabel,
+      summary: rules.length
+        ? `${ctx.displayName} 更新了存储桶「${bucketLabel}」的生命周期规则（${rules.length} 条）`
+        : `${ctx.displayName} 清空了存储桶「${bucketLabel}」的生命周期规则`,
+      metadata: { before, after: rules },
+    });
+
+    return json(200, { success: true, rules });
+  } catch (error: unknown) {
+    return json(toStatus(error), { error: toMessage(error, "保存生命周期规则失败") });
+  }
+}
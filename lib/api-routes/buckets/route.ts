@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAppAccessContextFromRequest, requirePermission } from "@/lib/access-control";
+import { writeAuditLog } from "@/lib/audit-logs";
+import { assertBucketProvisioningSupported, createRemoteBucket, deleteRemoteBucket, toR2LocationHint } from "@/lib/r2-s3";
 import {
   createUserBucket,
   deleteUserBucket,
   listUserBucketViews,
+  resolveBucketCredentials,
+  resolveInputCredentials,
   setDefaultBucket,
   updateUserBucket,
   type UpsertBucketInput,
 } from "@/lib/user-buckets";
 import { toChineseErrorMessage } from "@/lib/error-zh";
+import { clearContentIndex } from "@/lib/content-index";
+import { createJob, listJobs } from "@/lib/jobs";
 
 export const runtime = "edge";
 
@@ -19,6 +25,19 @@ const toStatus = (error: unknown) => {
 
 const toMessage = (error: unknown) => toChineseErrorMessage(error, "存储桶操作失败，请稍后重试。");
 
+type CreateBucketBody = UpsertBucketInput & {
+  // Create the bucket in the storage service before binding it, instead of binding an existing one.
+  createRemote?: boolean;
+  locationHint?: string;
+};
+
+const badRequest = (message: string) => Object.assign(new Error(message), { status: 400 });
+
+const isNoSuchBucket = (error: unknown) => {
+  const e = error as { code?: unknown; status?: unknown };
+  return e?.code === "NoSuchBucket" || Number(e?.status) === 404;
+};
+
 export async function GET(req: NextRequest) {
   try {
     const ctx = await getAppAccessContextFromRequest(req);
@@ -34,8 +53,35 @@ export async function POST(req: NextRequest) {
   try {
     const ctx = await getAppAccessContextFromRequest(req);
     requirePermission(ctx, "bucket.add", "你没有添加存储桶的权限");
-    const body = (await req.json()) as UpsertBucketInput;
-    const bucket = await createUserBucket(ctx, body);
+    const { createRemote, locationHint: rawLocationHint, ...body } = (await req.json()) as CreateBucketBody;
+    if (!createRemote) {
+      const bucket = await createUserBucket(ctx, body);
+      return NextResponse.json({ bucket });
+    }
+
+    requirePermission(ctx, "bucket.provision", "你没有创建远端存储桶的权限");
+    const locationHint = toR2LocationHint(rawLocationHint);
+    if (String(rawLocationHint ?? "").trim() && !locationHint) throw badRequest("位置提示不正确");
+    const creds = resolveInputCredentials(body);
+    await createRemoteBucket(creds, { locationHint });
+
+    let bucket: Awaited<ReturnType<typeof createUserBucket>>;
+    try {
+      bucket = await createUserBucket(ctx, body);
+    } catch (error) {
+      const message = toChineseErrorMessage(error, "绑定存储桶失败");
+      throw Object.assign(new Error(`存储桶「${creds.bucketName}」已创建，但绑定失败：${message}`), { status: 500 });
+    }
+
+    await writeAuditLog(ctx, {
+      bucketId: bucket.id,
+      action: "bucket_create",
+      itemType: "bucket",
+      itemName: bucket.bucketLabel,
+      summary: `${ctx.displayName} 创建了存储桶「${creds.bucketName}」`,
+      metadata: { bucketName: creds.bucketName, driver: creds.driver, jurisdiction: creds.jurisdiction, locationHint: locationHint ?? null },
+    });
+
     return NextResponse.json({ bucket });
   } catch (error: unknown) {
     return NextResponse.json({ error: toMessage(error) }, { status: toStatus(error) });
@@ -60,6 +106,8 @@ export async function PATCH(req: NextRequest) {
     delete patch.id;
     delete patch.setDefaultOnly;
     const bucket = await updateUserBucket(ctx, bucketId, patch);
+    // Turning the content index off also drops the text it kept.
+    if (patch.contentIndexEnabled === false) await clearContentIndex({ teamId: ctx.team.id, bucketId }).catch(() => null);
     return NextResponse.json({ bucket });
   } catch (error: unknown) {
     return NextResponse.json({ error: toMessage(error) }, { status: toStatus(error) });
@@ -73,6 +121,43 @@ export async function DELETE(req: NextRequest) {
     const { searchParams } = new URL(req.url);
     const bucketId = String(searchParams.get("id") ?? "").trim();
     if (!bucketId) return NextResponse.json({ error: "缺少存储桶 ID" }, { status: 400 });
+    if (searchParams.get("deleteRemote") !== "1") {
+      await deleteUserBucket(ctx, bucketId);
+      return NextResponse.json({ success: true });
+    }
+
+    requirePermission(ctx, "bucket.provision", "你没有删除远端存储桶的权限");
+    const { creds, detail } = await resolveBucketCredentials(ctx, bucketId);
+    if (searchParams.get("empty") === "1") {
+      // Emptying can take many requests, so a job deletes the objects and unfinished uploads, then the
+      // bucket itself and its binding once it completes.
+      assertBucketProvisioningSupported(creds);
+      const active = (await listJobs(ctx, { bucketId, activeOnly: true })).find((job) => job.kind === "empty_bucket");
+      if (active) return NextResponse.json({ job: active }, { status: 202 });
+      const job = await createJob(ctx, {
+        bucketId,
+        kind: "empty_bucket",
+        items: [{ sourceKey: "" }],
+        summary: `清空并删除存储桶「${detail.bucketName}」`,
+      });
+      return NextResponse.json({ job }, { status: 202 });
+    }
+    try {
+      await deleteRemoteBucket(creds);
+    } catch (error) {
+      // Already gone in the storage service; still drop the binding.
+      if (!isNoSuchBucket(error)) throw error;
+    }
+
+    // Logged before unbinding: the log row references the bucket row it is written against.
+    await writeAuditLog(ctx, {
+      bucketId,
+      action: "bucket_delete",
+      itemType: "bucket",
+      itemName: detail.bucketLabel || detail.bucketName,
+      summary: `${ctx.displayName} 删除了存储桶「${detail.bucketName}」`,
+      metadata: { bucketName: detail.bucketName, driver: detail.driver, jurisdiction: detail.jurisdiction },
+    });
     await deleteUserBucket(ctx, bucketId);
     return NextResponse.json({ success: true });
   } catch (error: unknown) {
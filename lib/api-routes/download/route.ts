@@ -75,7 +75,9 @@ export async function GET(req: NextRequest) {
     const token = await issueRouteToken(
       {
         op: "object",
-        creds,
+        teamId: ctx.team.id,
+        bucketId,
+        issuedBy: ctx.user.id,
         key,
         download,
       },
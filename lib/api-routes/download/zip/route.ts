@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAppAccessContextFromRequest, requirePermission } from "@/lib/access-control";
+import { redeemRouteToken, type ZipRouteToken } from "@/lib/route-token";
+import { resolveBucketCredentials } from "@/lib/user-buckets";
+import { toChineseErrorMessage } from "@/lib/error-zh";
+import { listFolderLocksByBucket, pathWithinFolderPrefix } from "@/lib/folder-locks";
+import { createFolderLockedError, readFolderUnlockGrants } from "@/lib/folder-lock-access";
+import { writeAuditLog } from "@/lib/audit-logs";
+import {
+  MAX_ZIP_ROOTS,
+  buildZipFileName,
+  collectExcludedLockPrefixes,
+  createZipDownloadResponse,
+  findLockedZipRoot,
+  getCommonFolderPrefix,
+  issueZipDownloadUrl,
+  normalizeZipRoots,
+} from "@/lib/zip-download";
+
+export const runtime = "edge";
+
+const toStatus = (error: unknown) => {
+  const status = Number((error as { status?: unknown })?.status ?? NaN);
+  return Number.isFinite(status) && status >= 100 ? status : 500;
+};
+
+const toMessage = (error: unknown) => toChineseErrorMessage(error, "打包下载失败，请稍后重试。");
+
+const json = (status: number, obj: unknown) => NextResponse.json(obj, { status });
+
+type ZipBody = {
+  bucket?: unknown;
+  prefix?: unknown;
+  keys?: unknown;
+  filename?: unknown;
+};
+
+export async function POST(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    requirePermission(ctx, "object.read", "你没有下载文件的权限");
+
+    const body = (await req.json().catch(() => ({}))) as ZipBody;
+    const bucketId = String(body.bucket ?? "").trim();
+    const prefix = String(body.prefix ?? "").trim();
+    const rawKeys = Array.isArray(body.keys) ? body.keys : prefix ? [prefix.endsWith("/") ? prefix : `${prefix}/`] : [];
+
+    if (!bucketId) return json(400, { error: "缺少存储桶参数" });
+    const roots = normalizeZipRoots(rawKeys);
+    if (!roots.length) return json(400, { error: "请选择要下载的文件或文件夹" });
+    if (roots.length > MAX_ZIP_ROOTS) return json(400, { error: `一次最多打包 ${MAX_ZIP_ROOTS} 项，请分批下载` });
+
+    const [, lockRows, unlockGrants] = await Promise.all([
+      resolveBucketCredentials(ctx, bucketId),
+      listFolderLocksByBucket(ctx, bucketId),
+      readFolderUnlockGrants(req),
+    ]);
+    const isUnlockedPath = (path: string) =>
+      unlockGrants.some((g) => g.bucketId === bucketId && pathWithinFolderPrefix(path, g.prefix));
+
+    const locked = findLockedZipRoot(lockRows, roots, isUnlockedPath);
+    if (locked) {
+      throw createFolderLockedError(
+        {
+          bucketId,
+          prefix: locked.lock.prefix,
+          hint: locked.lock.hint ?? undefined,
+        },
+        "该文件夹已加密，请先输入密码解锁后再操作",
+      );
+    }
+
+    const basePrefix = getCommonFolderPrefix(roots);
+    const requestedName = String(body.filename ?? "").trim();
+    const filename = buildZipFileName(requestedName ? [requestedName] : roots, basePrefix);
+    const excludePrefixes = collectExcludedLockPrefixes(lockRows, roots, isUnlockedPath);
+    const url = await issueZipDownloadUrl(new URL(req.url).origin, { teamId: ctx.team.id, bucketId, issuedBy: ctx.user.id }, {
+      basePrefix,
+      roots,
+      excludePrefixes,
+      filename,
+    });
+
+    const single = roots.length === 1 ? roots[0] : null;
+    await writeAuditLog(ctx, {
+      bucketId,
+      action: "download",
+      itemType: single && !single.endsWith("/") ? "file" : "folder",
+      itemKey: single ?? basePrefix,
+      itemName: filename,
+      summary: `${ctx.displayName} 打包下载「${filename}」`,
+      metadata: {
+        format: "zip",
+        count: roots.length,
+        keys: roots.slice(0, 20),
+        ...(excludePrefixes.length ? { skippedLockedPrefixes: excludePrefixes } : {}),
+      },
+    });
+
+    return json(200, { url, filename });
+  } catch (error: unknown) {
+    const lock = (error as { folderLock?: unknown })?.folderLock;
+    return json(toStatus(error), { error: toMessage(error), ...(lock && typeof lock === "object" ? { lock } : {}) });
+  }
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const token = new URL(req.url).searchParams.get("token");
+    if (!token) return json(400, { error: "缺少下载令牌" });
+    const { payload, creds } = await redeemRouteToken<ZipRouteToken>(token, "zip");
+    return createZipDownloadResponse(payload, creds);
+  } catch (error: unknown) {
+    return json(toStatus(error), { error: toMessage(error) });
+  }
+}
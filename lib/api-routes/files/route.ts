@@ -3,9 +3,17 @@ import {
   getAppAccessContextFromRequest,
   requirePermission,
 } from "@/lib/access-control";
-import { createR2Bucket, getPresignedObjectUrl } from "@/lib/r2-s3";
-import { issueRouteToken, readRouteToken, type PutRouteToken } from "@/lib/route-token";
-import { resolveBucketCredentials } from "@/lib/user-buckets";
+import {
+  createR2Bucket,
+  getPresignedObjectUrl,
+  toStorageClass,
+  toWriteCondition,
+  toWriteConditionHeaders,
+  type StorageClass,
+  type WriteCondition,
+} from "@/lib/r2-s3";
+import { issueRouteToken, redeemRouteToken, type PutRouteToken, type RouteTokenCredentials } from "@/lib/route-token";
+import { resolveBucketCredentials, type UserBucketDetail } from "@/lib/user-buckets";
 import { toChineseErrorMessage } from "@/lib/error-zh";
 import {
   assertFolderUnlockedForPath,
@@ -20,6 +28,15 @@ import {
   moveItemsToRecycle,
 } from "@/lib/file-marks";
 import { writeAuditLog } from "@/lib/audit-logs";
+import { writeWithObjectVersion, type ObjectVersionActor } from "@/lib/object-versions";
+import {
+  indexObjectFromHead,
+  readIndexedFolderStats,
+  readReadyObjectIndexState,
+  type ObjectIndexScope,
+} from "@/lib/object-index";
+import { indexObjectContent } from "@/lib/content-index";
+import { waitUntil } from "@/lib/cf";
 
 export const runtime = "edge";
 const FOLDER_STATS_SCAN_OBJECT_LIMIT = 100_000;
@@ -95,6 +112,24 @@ const collectFolderStatsForLevel = async (
   return stats;
 };
 
+// Prefers the object index once it has finished a full scan; the capped recursive listing is the fallback.
+const readFolderStatsForLevel = async (
+  teamId: string,
+  bucketId: string,
+  bucket: ReturnType<typeof createR2Bucket>,
+  prefix: string,
+) => {
+  const scope = { teamId, bucketId };
+  if (await readReadyObjectIndexState(scope)) {
+    try {
+      return await readIndexedFolderStats(scope, prefix);
+    } catch {
+      // Fall through to scanning.
+    }
+  }
+  return await collectFolderStatsForLevel(bucket, prefix);
+};
+
 export async function GET(req: NextRequest) {
   try {
     const ctx = await getAppAccessContextFromRequest(req);
@@ -103,6 +138,7 @@ export async function GET(req: NextRequest) {
     const { searchParams } = new URL(req.url);
     const bucketId = searchParams.get("bucket");
     const prefix = searchParams.get("prefix") || "";
+    const cursor = searchParams.get("cursor") || undefined;
     const includeFolderStats =
       searchParams.get("folderStats") === "1" || searchParams.get("includeFolderStats") === "1";
 
@@ -131,10 +167,12 @@ export async function GET(req: NextRequest) {
 
     const bucket = createR2Bucket(creds);
     const directLockedPrefixes = getDirectChildLockedPrefixSet(lockRows, prefix);
-    const listed = await bucket.list({ prefix, delimiter: "/" });
+    const listed = await bucket.list({ prefix, delimiter: "/", cursor, limit: 1000 });
     // Recursive folder stats are expensive on large prefixes. Keep list loading fast by default
     // and only enable deep scanning when explicitly requested.
-    const folderStats = includeFolderStats ? await collectFolderStatsForLevel(bucket, prefix) : new Map<string, { size: number; lastModified?: string }>();
+    const folderStats = includeFolderStats
+      ? await readFolderStatsForLevel(ctx.team.id, bucketId, bucket, prefix)
+      : new Map<string, { size: number; lastModified?: string }>();
     const folderPlaceholderMeta = new Map<string, { size?: number; lastModified?: string }>();
     for (const o of listed.objects ?? []) {
       const k = typeof o?.key === "string" ? (o.key as string) : "";
@@ -178,6 +216,7 @@ export async function GET(req: NextRequest) {
         key: o.key,
         size: o.size,
         lastModified: o.uploaded,
+        storageClass: o.storageClass,
         type: "file" as const,
         isFavorite: favoriteKeys.has(String(o.key)),
       }));
@@ -211,6 +250,7 @@ export async function GET(req: NextRequest) {
 
     return NextResponse.json({
       items: [...folders, ...files],
+      cursor: listed.truncated ? listed.cursor ?? null : null,
       lockContext: currentLock
         ? {
             currentPrefixLocked: true,
@@ -242,7 +282,7 @@ export async function DELETE(req: NextRequest) {
     if (!bucketId || !key) return json(400, { error: "请求参数不完整" });
     await assertFolderUnlockedForPath(req, ctx, bucketId, key);
 
-    const moved = await moveItemsToRecycle(ctx, bucketId, [{ key }]);
+    const { items: moved, job } = await moveItemsToRecycle(ctx, bucketId, [{ key }]);
     for (const item of moved) {
       await writeAuditLog(ctx, {
         bucketId,
@@ -251,8 +291,10 @@ export async function DELETE(req: NextRequest) {
         itemKey: item.key,
         itemName: item.name,
         summary: `${ctx.displayName} 将「${item.name}」移入回收站`,
+        ...(job ? { metadata: { jobId: job.id } } : {}),
       });
     }
+    if (job) return json(202, { success: true, job });
     return NextResponse.json({ success: true });
   } catch (error: unknown) {
     const lock = (error as { folderLock?: unknown })?.folderLock;
@@ -265,28 +307,48 @@ export async function POST(req: NextRequest) {
     const ctx = await getAppAccessContextFromRequest(req);
     requirePermission(ctx, "object.upload", "你没有上传文件的权限");
 
-    const { bucket, key } = (await req.json()) as { bucket?: string; key?: string };
+    const body = (await req.json()) as { bucket?: string; key?: string; storageClass?: string; ifNoneMatch?: string; ifMatch?: string };
+    const { bucket, key } = body;
     if (!bucket || !key) return json(400, { error: "请求参数不完整" });
     await assertFolderUnlockedForPath(req, ctx, bucket, key);
 
-    const { creds } = await resolveBucketCredentials(ctx, bucket);
+    const { creds, detail } = await resolveBucketCredentials(ctx, bucket);
+    const storageClass = creds.driver === "local" ? undefined : toStorageClass(body.storageClass) ?? detail.defaultStorageClass;
+    const onlyIf = toWriteCondition(body);
+    // The class and precondition headers are part of the signature, so the browser has to send exactly these headers.
+    const directHeaders: Record<string, string> = {
+      ...(storageClass ? { "x-amz-storage-class": storageClass } : {}),
+      ...toWriteConditionHeaders(onlyIf),
+    };
+    // A direct upload replaces the object without passing through the server, leaving nothing to archive
+    // the previous version from, so versioned buckets upload through the proxy, which archives right before
+    // it writes. Create-only uploads cannot overwrite anything.
+    const archive = detail.versioningEnabled && !(onlyIf && "ifNoneMatch" in onlyIf);
     let directUrl = "";
-    try {
-      directUrl = await getPresignedObjectUrl({
-        creds,
-        key,
-        method: "PUT",
-        expiresInSeconds: 15 * 60,
-      });
-    } catch {
-      // Keep proxy fallback URL below.
+    if (!archive) {
+      try {
+        directUrl = await getPresignedObjectUrl({
+          creds,
+          key,
+          method: "PUT",
+          expiresInSeconds: 15 * 60,
+          signedHeaders: directHeaders,
+        });
+      } catch {
+        // Keep proxy fallback URL below.
+      }
     }
 
     const token = await issueRouteToken(
       {
         op: "put",
-        creds,
+        teamId: ctx.team.id,
+        bucketId: bucket,
+        issuedBy: ctx.user.id,
         key,
+        ...(storageClass ? { storageClass } : {}),
+        ...(onlyIf ? { onlyIf } : {}),
+        ...(archive ? { archivedByName: ctx.displayName } : {}),
       },
       15 * 60,
     );
@@ -299,8 +361,14 @@ export async function POST(req: NextRequest) {
       itemKey: key,
       itemName: key.split("/").pop() || key,
       summary: `${ctx.displayName} 上传「${key}」`,
+      ...(storageClass ? { metadata: { storageClass } } : {}),
+    });
+    return NextResponse.json({
+      url: directUrl || proxyUrl,
+      proxyUrl,
+      isDirect: Boolean(directUrl),
+      ...(directUrl && Object.keys(directHeaders).length ? { headers: directHeaders } : {}),
     });
-    return NextResponse.json({ url: directUrl || proxyUrl, proxyUrl, isDirect: Boolean(directUrl) });
   } catch (error: unknown) {
     const lock = (error as { folderLock?: unknown })?.folderLock;
     return json(toStatus(error), { error: toMessage(error), ...(lock && typeof lock === "object" ? { lock } : {}) });
@@ -312,13 +380,23 @@ export async function PUT(req: NextRequest) {
     const { searchParams } = new URL(req.url);
     const token = searchParams.get("token");
 
-    let creds: PutRouteToken["creds"];
+    let creds: RouteTokenCredentials;
+    let scope: ObjectIndexScope;
     let key: string;
+    let storageClass: StorageClass | undefined;
+    let onlyIf: WriteCondition | undefined;
+    let archive: { actor: ObjectVersionActor; detail: UserBucketDetail } | null = null;
 
     if (token) {
-      const payload = await readRouteToken<PutRouteToken>(token, "put");
-      creds = payload.creds;
+      const { payload, creds: resolvedCreds, detail } = await redeemRouteToken<PutRouteToken>(token, "put");
+      creds = resolvedCreds;
+      scope = { teamId: payload.teamId, bucketId: payload.bucketId };
       key = payload.key;
+      storageClass = toStorageClass(payload.storageClass);
+      onlyIf = payload.onlyIf;
+      if (payload.archivedByName !== undefined && payload.issuedBy) {
+        archive = { actor: { team: { id: payload.teamId }, user: { id: payload.issuedBy }, displayName: payload.archivedByName }, detail };
+      }
     } else {
       const bucketId = searchParams.get("bucket");
       const keyFromQuery = searchParams.get("key");
@@ -328,14 +406,26 @@ export async function PUT(req: NextRequest) {
       requirePermission(ctx, "object.upload", "你没有上传文件的权限");
       await assertFolderUnlockedForPath(req, ctx, bucketId, keyFromQuery);
       creds = resolved.creds;
+      scope = { teamId: ctx.team.id, bucketId };
       key = keyFromQuery;
+      storageClass = toStorageClass(searchParams.get("storageClass")) ?? resolved.detail.defaultStorageClass;
+      onlyIf = toWriteCondition({ ifNoneMatch: req.headers.get("if-none-match"), ifMatch: req.headers.get("if-match") });
+      archive = { actor: ctx, detail: resolved.detail };
     }
 
     const bucket = createR2Bucket(creds);
     const contentType = req.headers.get("content-type") || undefined;
-    const result = await bucket.put(key, req.body, {
-      httpMetadata: contentType ? { contentType } : undefined,
-    });
+    const write = () =>
+      bucket.put(key, req.body, {
+        httpMetadata: contentType ? { contentType } : undefined,
+        storageClass,
+        onlyIf,
+      });
+    const result = archive
+      ? await writeWithObjectVersion(archive.actor, { detail: archive.detail, creds, key, reason: "upload", onlyIf }, write)
+      : await write();
+    await indexObjectFromHead(scope, bucket, key);
+    waitUntil(indexObjectContent(scope, bucket, key));
 
     const headers = new Headers();
     if (result?.etag) headers.set("ETag", result.etag);
@@ -348,3 +438,25 @@ export async function PUT(req: NextRequest) {
     });
   }
 }
+
+// Direct (presigned) uploads go straight to the bucket, so the browser reports back once they finish
+// and the object (and content) index picks up the new object.
+export async function PATCH(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    requirePermission(ctx, "object.upload", "你没有上传文件的权限");
+
+    const body = (await req.json().catch(() => ({}))) as { bucket?: string; key?: string };
+    const { bucket: bucketId, key } = body;
+    if (!bucketId || !key) return json(400, { error: "请求参数不完整" });
+
+    const { creds } = await resolveBucketCredentials(ctx, bucketId);
+    const scope = { teamId: ctx.team.id, bucketId };
+    const bucket = createR2Bucket(creds);
+    await indexObjectFromHead(scope, bucket, key);
+    waitUntil(indexObjectContent(scope, bucket, key));
+    return json(200, { success: true });
+  } catch (error: unknown) {
+    return json(toStatus(error), { error: toMessage(error) });
+  }
+}
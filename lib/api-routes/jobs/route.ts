@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAppAccessContextFromRequest, requirePermission } from "@/lib/access-control";
+import { toChineseErrorMessage } from "@/lib/error-zh";
+import { resolveBucketCredentials } from "@/lib/user-buckets";
+import { cancelJob, ensureBucketScanJob, getJob, listJobs, runJobStep } from "@/lib/jobs";
+
+export const runtime = "edge";
+
+const toStatus = (error: unknown) => {
+  const status = Number((error as { status?: unknown })?.status ?? NaN);
+  return Number.isFinite(status) && status >= 100 ? status : 500;
+};
+
+const toMessage = (error: unknown) => toChineseErrorMessage(error, "后台任务操作失败，请稍后重试。");
+
+const json = (status: number, obj: unknown) => NextResponse.json(obj, { status });
+
+type JobBody = {
+  action?: unknown;
+  id?: unknown;
+  bucket?: unknown;
+  kind?: unknown;
+};
+
+export async function GET(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    const { searchParams } = new URL(req.url);
+    const id = String(searchParams.get("id") ?? "").trim();
+    if (id) return json(200, { job: await getJob(ctx, id) });
+
+    const bucketId = String(searchParams.get("bucket") ?? "").trim();
+    const activeOnly = searchParams.get("active") === "1";
+    const jobs = await listJobs(ctx, { bucketId: bucketId || undefined, activeOnly });
+    return json(200, { jobs });
+  } catch (error: unknown) {
+    return json(toStatus(error), { error: toMessage(error) });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    const body = (await req.json().catch(() => ({}))) as JobBody;
+    const action = String(body.action ?? "").trim();
+    const id = String(body.id ?? "").trim();
+
+    if (action === "run") {
+      if (!id) return json(400, { error: "缺少任务参数" });
+      return json(200, { job: await runJobStep(ctx, id) });
+    }
+
+    if (action === "cancel") {
+      if (!id) return json(400, { error: "缺少任务参数" });
+      return json(200, { job: await cancelJob(ctx, id) });
+    }
+
+    if (action === "create") {
+      const bucketId = String(body.bucket ?? "").trim();
+      const kind = String(body.kind ?? "").trim();
+
+      // Move, copy and delete jobs are started by the operate route, which checks and audits them.
+      if (kind !== "reindex" && kind !== "content_index") return json(400, { error: "无效的任务类型" });
+      if (!bucketId) return json(400, { error: "请求参数不完整" });
+      requirePermission(ctx, "object.search", "你没有搜索文件的权限");
+      const { detail } = await resolveBucketCredentials(ctx, bucketId);
+      if (kind === "content_index" && !detail.contentIndexEnabled) return json(400, { error: "该存储桶未开启内容索引" });
+      const { job, created } = await ensureBucketScanJob(ctx, bucketId, kind);
+      return json(created ? 202 : 200, { job });
+    }
+
+    return json(400, { error: "无效的操作类型" });
+  } catch (error: unknown) {
+    const lock = (error as { folderLock?: unknown })?.folderLock;
+    return json(toStatus(error), { error: toMessage(error), ...(lock && typeof lock === "object" ? { lock } : {}) });
+  }
+}
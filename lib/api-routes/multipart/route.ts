@@ -1,11 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAppAccessContextFromRequest, requirePermission } from "@/lib/access-control";
-import { createR2Bucket, getPresignedObjectUrl } from "@/lib/r2-s3";
-import { issueRouteToken, readRouteToken, type MultipartRouteToken } from "@/lib/route-token";
+import {
+  R2_RETRIES_HEADER,
+  createR2Bucket,
+  createRetryStats,
+  getPresignedObjectUrl,
+  toStorageClass,
+  toWriteCondition,
+} from "@/lib/r2-s3";
+import { issueRouteToken, redeemRouteToken, type MultipartRouteToken, type RouteTokenCredentials } from "@/lib/route-token";
 import { resolveBucketCredentials } from "@/lib/user-buckets";
 import { toChineseErrorMessage } from "@/lib/error-zh";
 import { assertFolderUnlockedForPath } from "@/lib/folder-locks";
 import { writeAuditLog } from "@/lib/audit-logs";
+import { writeWithObjectVersion } from "@/lib/object-versions";
+import { indexObjectFromHead } from "@/lib/object-index";
+import { indexObjectContent } from "@/lib/content-index";
+import { waitUntil } from "@/lib/cf";
 
 export const runtime = "edge";
 
@@ -36,7 +47,7 @@ export async function POST(req: NextRequest) {
 
     if (!bucketId || !key) return NextResponse.json({ error: "请求参数不完整" }, { status: 400 });
 
-    const { creds, ctx } = await resolveBucket(req, bucketId, key);
+    const { creds, detail, ctx } = await resolveBucket(req, bucketId, key);
     const bucket = createR2Bucket(creds);
 
     if (action === "create") {
@@ -44,6 +55,7 @@ export async function POST(req: NextRequest) {
       if (!bucket.createMultipartUpload) return NextResponse.json({ error: "当前环境不支持分片上传" }, { status: 400 });
       const upload = await bucket.createMultipartUpload(key, {
         httpMetadata: contentType ? { contentType } : undefined,
+        storageClass: toStorageClass(body.storageClass) ?? detail.defaultStorageClass,
       });
       return NextResponse.json({ uploadId: upload.uploadId });
     }
@@ -56,7 +68,9 @@ export async function POST(req: NextRequest) {
       const token = await issueRouteToken(
         {
           op: "mp",
-          creds,
+          teamId: ctx.team.id,
+          bucketId,
+          issuedBy: ctx.user.id,
           key,
           uploadId,
           partNumber,
@@ -87,7 +101,11 @@ export async function POST(req: NextRequest) {
 
       if (!bucket.resumeMultipartUpload) return NextResponse.json({ error: "当前环境不支持分片上传" }, { status: 400 });
       const upload = bucket.resumeMultipartUpload(key, uploadId);
-      await upload.complete(parts);
+      const onlyIf = toWriteCondition(body);
+      // A failed precondition leaves the session and its parts intact, so the client can retry with a new decision.
+      await writeWithObjectVersion(ctx, { detail, creds, key, reason: "multipart", onlyIf }, () => upload.complete(parts, { onlyIf }));
+      await indexObjectFromHead({ teamId: ctx.team.id, bucketId }, bucket, key);
+      waitUntil(indexObjectContent({ teamId: ctx.team.id, bucketId }, bucket, key));
       await writeAuditLog(ctx, {
         bucketId,
         action: "upload",
@@ -122,9 +140,10 @@ export async function PUT(req: NextRequest) {
     const { searchParams } = new URL(req.url);
     const token = searchParams.get("token");
 
-    let payload: MultipartRouteToken;
+    let creds: RouteTokenCredentials;
+    let payload: Pick<MultipartRouteToken, "key" | "uploadId" | "partNumber">;
     if (token) {
-      payload = await readRouteToken<MultipartRouteToken>(token, "mp");
+      ({ payload, creds } = await redeemRouteToken<MultipartRouteToken>(token, "mp"));
     } else {
       const bucketId = searchParams.get("bucket");
       const key = searchParams.get("key");
@@ -138,16 +157,12 @@ export async function PUT(req: NextRequest) {
         });
       }
       const resolved = await resolveBucket(req, bucketId, key);
-      payload = {
-        op: "mp",
-        creds: resolved.creds,
-        key,
-        uploadId,
-        partNumber,
-      };
+      creds = resolved.creds;
+      payload = { key, uploadId, partNumber };
     }
 
-    const bucket = createR2Bucket(payload.creds);
+    const retryStats = createRetryStats();
+    const bucket = createR2Bucket({ ...creds, retryStats });
     if (!bucket.resumeMultipartUpload) {
       return new Response(JSON.stringify({ error: "当前环境不支持分片上传" }), {
         status: 400,
@@ -161,6 +176,7 @@ export async function PUT(req: NextRequest) {
 
     const headers = new Headers();
     if (res?.etag) headers.set("ETag", res.etag);
+    if (retryStats.retries > 0) headers.set(R2_RETRIES_HEADER, String(retryStats.retries));
     return new Response(null, { status: 200, headers });
   } catch (error: unknown) {
     const lock = (error as { folderLock?: unknown })?.folderLock;
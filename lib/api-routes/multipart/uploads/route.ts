@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAppAccessContextFromRequest, requirePermission } from "@/lib/access-control";
+import { writeAuditLog } from "@/lib/audit-logs";
+import { toChineseErrorMessage } from "@/lib/error-zh";
+import {
+  createR2Bucket,
+  listMultipartParts,
+  listMultipartUploads,
+  type MultipartUploadInfo,
+  type R2ClientCredentials,
+} from "@/lib/r2-s3";
+import { resolveBucketCredentials } from "@/lib/user-buckets";
+import { mapConcurrent } from "@/lib/object-ops";
+
+export const runtime = "edge";
+
+const toStatus = (error: unknown) => {
+  const status = Number((error as { status?: unknown })?.status ?? NaN);
+  return Number.isFinite(status) && status >= 100 ? status : 500;
+};
+
+const toMessage = (error: unknown, fallback: string) => toChineseErrorMessage(error, fallback);
+
+const json = (status: number, obj: unknown) => NextResponse.json(obj, { status, headers: { "cache-control": "no-store" } });
+
+// Every listed session costs one ListParts call, so pages are kept small.
+const UPLOADS_PAGE_SIZE = 100;
+// Caps for one request; the client repeats the sweep while `truncated` is true.
+const MAX_ABORTS_PER_REQUEST = 500;
+const MAX_SWEEP_DAYS = 3650;
+
+type AbortBody = {
+  bucketId?: unknown;
+  uploads?: unknown;
+  olderThanDays?: unknown;
+};
+
+const badRequest = (message: string) => Object.assign(new Error(message), { status: 400 });
+
+const readUploads = (value: unknown): MultipartUploadInfo[] => {
+  if (!Array.isArray(value)) throw badRequest("请选择要取消的分片上传");
+  if (value.length > MAX_ABORTS_PER_REQUEST) throw badRequest(`单次最多取消 ${MAX_ABORTS_PER_REQUEST} 个分片上传`);
+  return value
+    .map((raw) => {
+      const input = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+      return { key: String(input.key ?? ""), uploadId: String(input.uploadId ?? "").trim() };
+    })
+    .filter((u) => u.key && u.uploadId);
+};
+
+const readSweepDays = (value: unknown) => {
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_SWEEP_DAYS) throw badRequest(`天数需为 1-${MAX_SWEEP_DAYS} 的整数`);
+  return days;
+};
+
+// Collects sessions started before the cutoff, stopping once one request's worth has been found.
+const findStaleUploads = async (creds: R2ClientCredentials, cutoffMs: number) => {
+  const stale: MultipartUploadInfo[] = [];
+  let keyMarker: string | undefined;
+  let uploadIdMarker: string | undefined;
+  for (;;) {
+    const page = await listMultipartUploads(creds, { keyMarker, uploadIdMarker });
+    for (const upload of page.uploads) {
+      const initiated = Date.parse(upload.initiated ?? "");
+      if (Number.isFinite(initiated) && initiated < cutoffMs) stale.push(upload);
+      if (stale.length >= MAX_ABORTS_PER_REQUEST) return { stale, truncated: true };
+    }
+    if (!page.truncated || !page.nextKeyMarker) return { stale, truncated: false };
+    keyMarker = page.nextKeyMarker;
+    uploadIdMarker = page.nextUploadIdMarker;
+  }
+};
+
+export async function GET(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    requirePermission(ctx, "bucket.read", "你没有查看存储桶的权限");
+    const { searchParams } = new URL(req.url);
+    const bucketId = String(searchParams.get("bucketId") ?? "").trim();
+    if (!bucketId) return json(400, { error: "缺少 bucketId" });
+
+    const { creds } = await resolveBucketCredentials(ctx, bucketId);
+    const page = await listMultipartUploads(creds, {
+      prefix: searchParams.get("prefix") || undefined,
+      keyMarker: searchParams.get("keyMarker") || undefined,
+      uploadIdMarker: searchParams.get("uploadIdMarker") || undefined,
+      limit: UPLOADS_PAGE_SIZE,
+    });
+
+    const uploads: Array<MultipartUploadInfo & { parts: number; bytes: number }> = [];
+    await mapConcurrent(page.uploads, 4, async (upload) => {
+      // A session completed or aborted since the listing disappears from ListParts; drop it.
+      const parts = await listMultipartParts(creds, upload.key, upload.uploadId).catch((error: unknown) => {
+        if (toStatus(error) === 404) return null;
+        throw error;
+      });
+      if (!parts) return;
+      uploads.push({ ...upload, parts: parts.length, bytes: parts.reduce((sum, p) => sum + p.size, 0) });
+    });
+    uploads.sort((a, b) => String(a.initiated ?? "").localeCompare(String(b.initiated ?? "")));
+
+    return json(200, {
+      uploads,
+      truncated: page.truncated,
+      nextKeyMarker: page.nextKeyMarker ?? null,
+      nextUploadIdMarker: page.nextUploadIdMarker ?? null,
+    });
+  } catch (error: unknown) {
+    return json(toStatus(error), { error: toMessage(error, "读取未完成的分片上传失败") });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    requirePermission(ctx, "bucket.edit", "你没有编辑存储桶的权限");
+    const body = (await req.json().catch(() => ({}))) as AbortBody;
+    const bucketId = String(body.bucketId ?? "").trim();
+    if (!bucketId) return json(400, { error: "缺少 bucketId" });
+    const sweep = body.olderThanDays !== undefined && body.olderThanDays !== null;
+    const olderThanDays = sweep ? readSweepDays(body.olderThanDays) : undefined;
+    const requested = sweep ? [] : readUploads(body.uploads);
+    if (!sweep && !requested.length) return json(400, { error: "请选择要取消的分片上传" });
+
+    const { creds, detail } = await resolveBucketCredentials(ctx, bucketId);
+    const { stale, truncated } =
+      olderThanDays !== undefined
+        ? await findStaleUploads(creds, Date.now() - olderThanDays * 24 * 3600 * 1000)
+        : { stale: requested, truncated: false };
+
+    const bucket = createR2Bucket(creds);
+    let aborted = 0;
+    const failed: MultipartUploadInfo[] = [];
+    await mapConcurrent(stale, 4, async (upload) => {
+      try {
+        await bucket.resumeMultipartUpload!(upload.key, upload.uploadId).abort();
+        aborted += 1;
+      } catch {
+        failed.push(upload);
+      }
+    });
+
+    if (aborted > 0) {
+      const bucketLabel = detail.bucketLabel || detail.bucketName;
+      await writeAuditLog(ctx, {
+        bucketId,
+        action: "multipart_abort",
+        itemType: "bucket",
+        itemName: bucketLabel,
+        summary:
+          olderThanDays !== undefined
+            ? `${ctx.displayName} 清理了存储桶「${bucketLabel}」中 ${olderThanDays} 天前的 ${aborted} 个未完成分片上传`
+            : `${ctx.displayName} 取消了存储桶「${bucketLabel}」中的 ${aborted} 个未完成分片上传`,
+        metadata: {
+          aborted,
+          ...(olderThanDays !== undefined ? { olderThanDays } : { uploads: stale }),
+          ...(failed.length ? { failed } : {}),
+        },
+      });
+    }
+
+    return json(200, { success: true, aborted, failed, truncated });
+  } catch (error: unknown) {
+    return json(toStatus(error), { error: toMessage(error, "取消分片上传失败") });
+  }
+}
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAppAccessContextFromRequest, requirePermission } from "@/lib/access-control";
+import { writeAuditLog } from "@/lib/audit-logs";
+import { toChineseErrorMessage } from "@/lib/error-zh";
+import { assertFolderUnlockedForPath } from "@/lib/folder-locks";
+import { upsertIndexedObjects } from "@/lib/object-index";
+import { archiveObjectVersion } from "@/lib/object-versions";
+import { createR2Bucket, replaceObjectMetadata, type R2HttpMetadataLike } from "@/lib/r2-s3";
+import { resolveBucketCredentials } from "@/lib/user-buckets";
+
+export const runtime = "edge";
+
+const toStatus = (error: unknown) => {
+  const status = Number((error as { status?: unknown })?.status ?? NaN);
+  return Number.isFinite(status) && status >= 100 ? status : 500;
+};
+
+const toMessage = (error: unknown, fallback: string) => toChineseErrorMessage(error, fallback);
+
+const json = (status: number, obj: unknown) => NextResponse.json(obj, { status });
+
+// S3 caps user-defined metadata at 2 KB (keys and values combined).
+const MAX_CUSTOM_METADATA_BYTES = 2048;
+const METADATA_KEY_PATTERN = /^[a-z0-9][a-z0-9_.-]*$/;
+const HEADER_VALUE_PATTERN = /^[\x20-\x7E]*$/;
+
+const HTTP_METADATA_FIELDS: Array<[keyof R2HttpMetadataLike, string]> = [
+  ["contentType", "Content-Type"],
+  ["cacheControl", "Cache-Control"],
+  ["contentDisposition", "Content-Disposition"],
+  ["contentEncoding", "Content-Encoding"],
+];
+
+type MetadataBody = {
+  bucket?: unknown;
+  key?: unknown;
+  httpMetadata?: unknown;
+  customMetadata?: unknown;
+};
+
+const badRequest = (message: string) => Object.assign(new Error(message), { status: 400 });
+
+const readHttpMetadata = (value: unknown) => {
+  const input = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const out: R2HttpMetadataLike = {};
+  for (const [field, label] of HTTP_METADATA_FIELDS) {
+    const raw = String(input[field] ?? "").trim();
+    if (!raw) continue;
+    if (!HEADER_VALUE_PATTERN.test(raw)) throw badRequest(`${label} 只能包含 ASCII 可见字符`);
+    out[field] = raw;
+  }
+  return out;
+};
+
+const readCustomMetadata = (value: unknown) => {
+  const input = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const out: Record<string, string> = {};
+  let bytes = 0;
+  for (const [rawKey, rawValue] of Object.entries(input)) {
+    const key = rawKey.trim().toLowerCase();
+    if (!key) continue;
+    if (!METADATA_KEY_PATTERN.test(key)) throw badRequest(`自定义元数据名「${rawKey}」只能包含小写字母、数字、点、下划线和短横线`);
+    const text = String(rawValue ?? "").trim();
+    if (!HEADER_VALUE_PATTERN.test(text)) throw badRequest(`自定义元数据「${key}」的值只能包含 ASCII 可见字符`);
+    out[key] = text;
+    bytes += key.length + text.length;
+  }
+  if (bytes > MAX_CUSTOM_METADATA_BYTES) throw badRequest("自定义元数据总长度不能超过 2KB");
+  return out;
+};
+
+const describeChanges = (before: Record<string, string | undefined>, after: Record<string, string | undefined>) => {
+  const changed: string[] = [];
+  for (const name of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if ((before[name] ?? "") !== (after[name] ?? "")) changed.push(name);
+  }
+  return changed;
+};
+
+export async function GET(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    requirePermission(ctx, "object.read", "你没有读取对象的权限");
+    const { searchParams } = new URL(req.url);
+    const bucketId = String(searchParams.get("bucket") ?? "").trim();
+    const key = String(searchParams.get("key") ?? "").trim();
+    if (!bucketId || !key || key.endsWith("/")) return json(400, { error: "请求参数不完整" });
+
+    await assertFolderUnlockedForPath(req, ctx, bucketId, key);
+    const { creds } = await resolveBucketCredentials(ctx, bucketId);
+    const head = await createR2Bucket(creds).head(key);
+    if (!head) return json(404, { error: "文件不存在" });
+    return json(200, {
+      key,
+      size: head.size ?? null,
+      etag: head.etag ?? null,
+      lastModified: head.lastModified ?? null,
+      storageClass: head.storageClass ?? null,
+      httpMetadata: head.httpMetadata ?? {},
+      customMetadata: head.customMetadata ?? {},
+    });
+  } catch (error: unknown) {
+    const lock = (error as { folderLock?: unknown })?.folderLock;
+    return json(toStatus(error), {
+      error: toMessage(error, "读取文件元数据失败"),
+      ...(lock && typeof lock === "object" ? { lock } : {}),
+    });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    requirePermission(ctx, "object.upload", "你没有修改文件的权限");
+    const body = (await req.json().catch(() => ({}))) as MetadataBody;
+    const bucketId = String(body.bucket ?? "").trim();
+    const key = String(body.key ?? "").trim();
+    if (!bucketId || !key || key.endsWith("/")) return json(400, { error: "请求参数不完整" });
+
+    const httpMetadata = readHttpMetadata(body.httpMetadata);
+    const customMetadata = readCustomMetadata(body.customMetadata);
+
+    await assertFolderUnlockedForPath(req, ctx, bucketId, key);
+    const { creds, detail } = await resolveBucketCredentials(ctx, bucketId);
+    const bucket = createR2Bucket(creds);
+    const before = await bucket.head(key);
+    if (!before) return json(404, { error: "文件不存在" });
+
+    await archiveObjectVersion(ctx, { detail, creds, key, reason: "metadata" });
+    await replaceObjectMetadata(creds, key, { httpMetadata, customMetadata });
+    const after = await bucket.head(key);
+    if (after) {
+      await upsertIndexedObjects({ teamId: ctx.team.id, bucketId }, [
+        { key, size: after.size, etag: after.etag, uploaded: after.lastModified, contentType: after.httpMetadata?.contentType ?? null },
+      ]);
+    }
+
+    const prefixed = (meta: Record<string, string> | undefined) =>
+      Object.fromEntries(Object.entries(meta ?? {}).map(([k, v]) => [`x-amz-meta-${k}`, v]));
+    const changed = describeChanges(
+      { ...before.httpMetadata, ...prefixed(before.customMetadata) },
+      { ...httpMetadata, ...prefixed(customMetadata) },
+    );
+    const name = key.split("/").pop() || key;
+    await writeAuditLog(ctx, {
+      bucketId,
+      action: "metadata_update",
+      itemType: "file",
+      itemKey: key,
+      itemName: name,
+      summary: `${ctx.displayName} 修改了「${name}」的元数据`,
+      metadata: {
+        changed,
+        before: { httpMetadata: before.httpMetadata ?? {}, customMetadata: before.customMetadata ?? {} },
+        after: { httpMetadata, customMetadata },
+      },
+    });
+
+    return json(200, {
+      success: true,
+      key,
+      size: after?.size ?? before.size ?? null,
+      etag: after?.etag ?? null,
+      lastModified: after?.lastModified ?? null,
+      httpMetadata: after?.httpMetadata ?? httpMetadata,
+      customMetadata: after?.customMetadata ?? customMetadata,
+    });
+  } catch (error: unknown) {
+    const lock = (error as { folderLock?: unknown })?.folderLock;
+    return json(toStatus(error), {
+      error: toMessage(error, "更新文件元数据失败"),
+      ...(lock && typeof lock === "object" ? { lock } : {}),
+    });
+  }
+}
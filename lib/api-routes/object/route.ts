@@ -1,10 +1,11 @@
 import { NextRequest } from "next/server";
 import { getAppAccessContextFromRequest, requirePermission } from "@/lib/access-control";
 import { createR2Bucket, type R2BucketLike } from "@/lib/r2-s3";
-import { readRouteToken, type ObjectRouteToken } from "@/lib/route-token";
-import { resolveBucketCredentials } from "@/lib/user-buckets";
+import { redeemRouteToken, type ObjectRouteToken, type RouteTokenCredentials } from "@/lib/route-token";
+import { DEFAULT_PROXY_CACHE_CONTROL, resolveBucketCredentials } from "@/lib/user-buckets";
 import { toChineseErrorMessage } from "@/lib/error-zh";
 import { assertFolderUnlockedForPath } from "@/lib/folder-locks";
+import { matchEdgeCache, putEdgeCache } from "@/lib/edge-cache";
 
 export const runtime = "edge";
 
@@ -37,8 +38,8 @@ const json = (status: number, obj: unknown) =>
 const setCorsHeaders = (headers: Headers) => {
   headers.set("Access-Control-Allow-Origin", "*");
   headers.set("Access-Control-Allow-Methods", "GET, HEAD, OPTIONS");
-  headers.set("Access-Control-Allow-Headers", "Range, Content-Type");
-  headers.set("Access-Control-Expose-Headers", "Accept-Ranges, Content-Length, Content-Range, Content-Type, ETag");
+  headers.set("Access-Control-Allow-Headers", "Range, Content-Type, If-None-Match, If-Modified-Since");
+  headers.set("Access-Control-Expose-Headers", "Accept-Ranges, Content-Length, Content-Range, Content-Type, ETag, Last-Modified");
 };
 
 export async function OPTIONS() {
@@ -113,40 +114,131 @@ const resolveFromAuth = async (req: NextRequest, bucketId: string) => {
   return { ctx, resolved };
 };
 
+// Storage backends return bare ETags; HTTP validators must be quoted.
+const toHttpEtag = (etag?: string | null) => {
+  const value = String(etag ?? "").trim();
+  if (!value) return undefined;
+  return value.startsWith('"') || value.startsWith("W/") ? value : `"${value}"`;
+};
+
+const toHttpDate = (value?: string | null) => {
+  const n = Date.parse(String(value ?? ""));
+  return Number.isFinite(n) ? new Date(n).toUTCString() : undefined;
+};
+
+const hasConditionalHeaders = (req: NextRequest) => Boolean(req.headers.get("if-none-match") || req.headers.get("if-modified-since"));
+
+// RFC 9110 §13.2.2: If-None-Match wins when present; If-Modified-Since is only consulted without it.
+const isNotModified = (req: NextRequest, etag?: string, lastModified?: string) => {
+  const ifNoneMatch = req.headers.get("if-none-match");
+  if (ifNoneMatch) {
+    if (!etag) return false;
+    const current = etag.replace(/^W\//, "");
+    return ifNoneMatch.split(",").some((tag) => {
+      const t = tag.trim();
+      return t === "*" || t.replace(/^W\//, "") === current;
+    });
+  }
+  const ifModifiedSince = Date.parse(req.headers.get("if-modified-since") ?? "");
+  const modified = Date.parse(lastModified ?? "");
+  if (!Number.isFinite(ifModifiedSince) || !Number.isFinite(modified)) return false;
+  return Math.floor(modified / 1000) <= Math.floor(ifModifiedSince / 1000);
+};
+
+const setValidators = (headers: Headers, etag?: string, lastModified?: string) => {
+  if (etag) headers.set("ETag", etag);
+  if (lastModified) headers.set("Last-Modified", lastModified);
+};
+
+const notModified = (headers: Headers) => {
+  const out = new Headers();
+  for (const name of ["Cache-Control", "ETag", "Last-Modified", "Content-Disposition"]) {
+    const value = headers.get(name);
+    if (value) out.set(name, value);
+  }
+  setCorsHeaders(out);
+  return new Response(null, { status: 304, headers: out });
+};
+
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
     const token = searchParams.get("token") ?? "";
     const filename = searchParams.get("filename");
 
-    let creds: ObjectRouteToken["creds"];
+    let creds: RouteTokenCredentials;
+    let bucketId: string;
+    let teamId: string;
     let key: string;
     let download: boolean;
+    let cacheControl: string;
+    let edgeCacheSeconds = 0;
 
     if (token) {
-      const payload = await readRouteToken<ObjectRouteToken>(token, "object");
-      creds = payload.creds;
+      const redeemed = await redeemRouteToken<ObjectRouteToken>(token, "object");
+      const { payload, detail } = redeemed;
+      creds = redeemed.creds;
+      teamId = payload.teamId;
+      bucketId = payload.bucketId;
       key = payload.key;
       download = Boolean(payload.download);
+      cacheControl = detail.proxyCacheControl || DEFAULT_PROXY_CACHE_CONTROL;
+      // Only public share links are cached at the edge; everything else is private to the requester.
+      edgeCacheSeconds = payload.shareId ? detail.edgeCacheSeconds ?? 0 : 0;
     } else {
-      const bucketId = searchParams.get("bucket");
+      const bucketFromQuery = searchParams.get("bucket");
       const keyFromQuery = searchParams.get("key");
       download = searchParams.get("download") === "1";
-      if (!bucketId || !keyFromQuery) return json(400, { error: "请求参数不完整" });
-      const { ctx, resolved } = await resolveFromAuth(req, bucketId);
-      await assertFolderUnlockedForPath(req, ctx, bucketId, keyFromQuery);
+      if (!bucketFromQuery || !keyFromQuery) return json(400, { error: "请求参数不完整" });
+      const { ctx, resolved } = await resolveFromAuth(req, bucketFromQuery);
+      await assertFolderUnlockedForPath(req, ctx, bucketFromQuery, keyFromQuery);
+      teamId = ctx.team.id;
+      bucketId = bucketFromQuery;
       creds = resolved.creds;
       key = keyFromQuery;
+      cacheControl = resolved.detail.proxyCacheControl || DEFAULT_PROXY_CACHE_CONTROL;
     }
 
     const suggestedName = safeFilename(filename || key.split("/").pop() || "download");
     const bucket = createR2Bucket(creds);
+    const rangeHeader = req.headers.get("range");
+
+    const headers = new Headers();
+    headers.set("Cache-Control", cacheControl);
+    headers.set("Accept-Ranges", "bytes");
+    setCorsHeaders(headers);
 
+    if (download) {
+      headers.set("Content-Disposition", buildContentDisposition("attachment", suggestedName));
+    }
+
+    // Only reached after the token above has been verified, so a cached copy is never served to a caller that
+    // could not have fetched the object itself.
+    const useEdgeCache = edgeCacheSeconds > 0 && !rangeHeader;
     let head: Awaited<ReturnType<typeof bucket.head>> = null;
-    const rangeHeader = req.headers.get("range");
-    if (rangeHeader) {
+    let cacheIdentity = { teamId, bucketId, key, version: "", download, filename };
+    if (useEdgeCache) {
+      head = await bucket.head(key);
+      if (!head) return new Response("Not found", { status: 404 });
+      cacheIdentity = { ...cacheIdentity, version: `${head.etag ?? ""}@${head.lastModified ?? ""}` };
+      const cached = await matchEdgeCache(cacheIdentity);
+      if (cached) {
+        const hitHeaders = new Headers(cached.headers);
+        hitHeaders.set("Cache-Control", cacheControl);
+        setCorsHeaders(hitHeaders);
+        if (isNotModified(req, hitHeaders.get("ETag") ?? undefined, hitHeaders.get("Last-Modified") ?? undefined)) {
+          await cached.body?.cancel();
+          return notModified(hitHeaders);
+        }
+        return new Response(cached.body, { status: 200, headers: hitHeaders });
+      }
+    }
+
+    // An edge-cached request has read the head already, for its cache key.
+    if (!head && (rangeHeader || hasConditionalHeaders(req))) {
       head = await bucket.head(key);
-    } else if (download) {
+      if (!head) return new Response("Not found", { status: 404 });
+    } else if (!head && download) {
       try {
         head = await bucket.head(key);
       } catch {
@@ -154,19 +246,22 @@ export async function GET(req: NextRequest) {
       }
     }
 
+    if (head && hasConditionalHeaders(req)) {
+      const etag = toHttpEtag(head.etag);
+      const lastModified = toHttpDate(head.lastModified);
+      if (isNotModified(req, etag, lastModified)) {
+        setValidators(headers, etag, lastModified);
+        if (!download && (filename || head.httpMetadata?.contentType === "application/pdf")) {
+          headers.set("Content-Disposition", buildContentDisposition("inline", suggestedName));
+        }
+        return notModified(headers);
+      }
+    }
+
     const totalSizeResolved = await resolveObjectSize(bucket, key, head?.size);
     const totalSize: number | null = typeof totalSizeResolved === "number" ? totalSizeResolved : null;
     const range = parseRange(rangeHeader, totalSize);
 
-    const headers = new Headers();
-    headers.set("Cache-Control", "no-store");
-    headers.set("Accept-Ranges", "bytes");
-    setCorsHeaders(headers);
-
-    if (download) {
-      headers.set("Content-Disposition", buildContentDisposition("attachment", suggestedName));
-    }
-
     if (range) {
       const length = range.end - range.start + 1;
       const obj = await bucket.get(key, { range: { offset: range.start, length } });
@@ -181,9 +276,7 @@ export async function GET(req: NextRequest) {
 
       if (totalSize != null) headers.set("Content-Range", `bytes ${range.start}-${range.end}/${totalSize}`);
       headers.set("Content-Length", String(length));
-
-      const etag = obj.httpEtag ?? obj.etag;
-      if (etag) headers.set("ETag", etag);
+      setValidators(headers, toHttpEtag(obj.httpEtag ?? obj.etag ?? head?.etag), toHttpDate(obj.lastModified ?? head?.lastModified));
 
       return new Response(obj.body, { status: 206, headers });
     }
@@ -201,11 +294,10 @@ export async function GET(req: NextRequest) {
     const resolvedSize = await resolveObjectSize(bucket, key, obj.size, head?.size);
     const size = resolvedSize ?? inferBodyLength(obj.body);
     if (typeof size === "number") headers.set("Content-Length", String(size));
+    setValidators(headers, toHttpEtag(obj.httpEtag ?? obj.etag ?? head?.etag), toHttpDate(obj.lastModified ?? head?.lastModified));
 
-    const etag = obj.httpEtag ?? obj.etag ?? head?.etag;
-    if (etag) headers.set("ETag", etag);
-
-    return new Response(obj.body, { status: 200, headers });
+    const response = new Response(obj.body, { status: 200, headers });
+    return useEdgeCache ? putEdgeCache(cacheIdentity, response, edgeCacheSeconds, size) : response;
   } catch (error: unknown) {
     const status = Number((error as { status?: unknown })?.status ?? NaN);
     const code = Number.isFinite(status) && status >= 100 ? status : 500;
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAppAccessContextFromRequest, requirePermission } from "@/lib/access-control";
+import { writeAuditLog } from "@/lib/audit-logs";
+import { toChineseErrorMessage } from "@/lib/error-zh";
+import { assertFolderUnlockedForPath } from "@/lib/folder-locks";
+import { deleteObjectVersion, listObjectVersions, readObjectVersion, restoreObjectVersion } from "@/lib/object-versions";
+
+export const runtime = "edge";
+
+const toStatus = (error: unknown) => {
+  const status = Number((error as { status?: unknown })?.status ?? NaN);
+  return Number.isFinite(status) && status >= 100 ? status : 500;
+};
+
+const toMessage = (error: unknown, fallback: string) => toChineseErrorMessage(error, fallback);
+
+const json = (status: number, obj: unknown) => NextResponse.json(obj, { status, headers: { "cache-control": "no-store" } });
+
+const lockPayload = (error: unknown) => {
+  const lock = (error as { folderLock?: unknown })?.folderLock;
+  return lock && typeof lock === "object" ? { lock } : {};
+};
+
+type RestoreBody = {
+  bucket?: unknown;
+  versionId?: unknown;
+};
+
+const nameOf = (key: string) => key.split("/").pop() || key;
+
+export async function GET(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    requirePermission(ctx, "object.read", "你没有读取对象的权限");
+    const { searchParams } = new URL(req.url);
+    const bucketId = String(searchParams.get("bucket") ?? "").trim();
+    const key = String(searchParams.get("key") ?? "").trim();
+    if (!bucketId || !key || key.endsWith("/")) return json(400, { error: "请求参数不完整" });
+
+    await assertFolderUnlockedForPath(req, ctx, bucketId, key);
+    return json(200, { versions: await listObjectVersions(ctx, bucketId, key) });
+  } catch (error: unknown) {
+    return json(toStatus(error), { error: toMessage(error, "读取历史版本失败"), ...lockPayload(error) });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    requirePermission(ctx, "object.upload", "你没有修改文件的权限");
+    const body = (await req.json().catch(() => ({}))) as RestoreBody;
+    const bucketId = String(body.bucket ?? "").trim();
+    const versionId = String(body.versionId ?? "").trim();
+    if (!bucketId || !versionId) return json(400, { error: "请求参数不完整" });
+
+    const target = await readObjectVersion(ctx, bucketId, versionId);
+    await assertFolderUnlockedForPath(req, ctx, bucketId, target.key);
+    const version = await restoreObjectVersion(ctx, bucketId, versionId);
+
+    const name = nameOf(version.key);
+    await writeAuditLog(ctx, {
+      bucketId,
+      action: "version_restore",
+      itemType: "file",
+      itemKey: version.key,
+      itemName: name,
+      summary: `${ctx.displayName} 将「${name}」恢复到 ${version.createdAt} 的历史版本`,
+      metadata: { versionId, etag: version.etag ?? null, size: version.size },
+    });
+
+    return json(200, { success: true, version });
+  } catch (error: unknown) {
+    return json(toStatus(error), { error: toMessage(error, "恢复历史版本失败"), ...lockPayload(error) });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    requirePermission(ctx, "object.delete", "你没有删除文件的权限");
+    const { searchParams } = new URL(req.url);
+    const bucketId = String(searchParams.get("bucket") ?? "").trim();
+    const versionId = String(searchParams.get("id") ?? "").trim();
+    if (!bucketId || !versionId) return json(400, { error: "请求参数不完整" });
+
+    const target = await readObjectVersion(ctx, bucketId, versionId);
+    await assertFolderUnlockedForPath(req, ctx, bucketId, target.key);
+    const version = await deleteObjectVersion(ctx, bucketId, versionId);
+
+    const name = nameOf(version.key);
+    await writeAuditLog(ctx, {
+      bucketId,
+      action: "version_delete",
+      itemType: "file",
+      itemKey: version.key,
+      itemName: name,
+      summary: `${ctx.displayName} 删除了「${name}」在 ${version.createdAt} 的历史版本`,
+      metadata: { versionId, etag: version.etag ?? null, size: version.size },
+    });
+
+    return json(200, { success: true });
+  } catch (error: unknown) {
+    return json(toStatus(error), { error: toMessage(error, "删除历史版本失败"), ...lockPayload(error) });
+  }
+}
@@ -1,14 +1,37 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAppAccessContextFromRequest, requirePermission } from "@/lib/access-control";
-import { copyObjectInBucket, createR2Bucket, type R2BucketLike, type R2ClientCredentials } from "@/lib/r2-s3";
+import {
+  R2_RETRIES_HEADER,
+  changeObjectStorageClass,
+  copyObjectAcrossBuckets,
+  createR2Bucket,
+  createRetryStats,
+  toStorageClass,
+  type R2RetryStats,
+} from "@/lib/r2-s3";
 import { resolveBucketCredentials } from "@/lib/user-buckets";
 import { toChineseErrorMessage } from "@/lib/error-zh";
 import { assertFolderUnlockedForPath } from "@/lib/folder-locks";
 import { writeAuditLog } from "@/lib/audit-logs";
+import { isTargetKeyTaken, normalizeConflictPolicy, resolveConflictTarget, type ConflictPolicy } from "@/lib/file-marks";
+import { createJob, exceedsJobThreshold, type JobItem } from "@/lib/jobs";
+import { copyObject, deleteKeys, deleteObject, listAllKeysWithPrefix, mapConcurrent } from "@/lib/object-ops";
+import { copyIndexedKeys, removeIndexedKeys, upsertIndexedObjects } from "@/lib/object-index";
 
 export const runtime = "edge";
 
-type Operation = "move" | "copy" | "delete" | "mkdir" | "moveMany" | "copyMany" | "deleteMany";
+type Operation =
+  | "move"
+  | "copy"
+  | "delete"
+  | "mkdir"
+  | "moveMany"
+  | "copyMany"
+  | "deleteMany"
+  | "checkConflicts"
+  | "setStorageClass";
+
+type RenamedItem = { sourceKey: string; targetKey: string };
 
 const toStatus = (error: unknown) => {
   const status = Number((error as { status?: unknown })?.status ?? NaN);
@@ -17,77 +40,16 @@ const toStatus = (error: unknown) => {
 
 const toMessage = (error: unknown) => toChineseErrorMessage(error, "文件操作失败，请稍后重试。");
 
-const listAllKeysWithPrefix = async (bucket: R2BucketLike, prefix: string) => {
-  const keys: string[] = [];
-  let cursor: string | undefined = undefined;
-
-  for (;;) {
-    const res = await bucket.list({ prefix, cursor });
-    for (const o of res.objects ?? []) keys.push(o.key);
-    if (!res.truncated) break;
-    cursor = res.cursor;
-    if (!cursor) break;
-  }
-
-  return keys;
-};
-
-const deleteKeys = async (bucket: R2BucketLike, keys: string[]) => {
-  const chunkSize = 1000;
-  for (let i = 0; i < keys.length; i += chunkSize) {
-    const chunk = keys.slice(i, i + chunkSize);
-    try {
-      await bucket.delete(chunk);
-    } catch {
-      for (const key of chunk) {
-        try {
-          await bucket.delete(key);
-        } catch (error) {
-          const remain = await bucket.head(key);
-          if (remain) throw error;
-        }
-      }
-    }
-  }
-};
-
-const mapConcurrent = async <T>(items: T[], concurrency: number, worker: (item: T) => Promise<void>) => {
-  let nextIndex = 0;
-  const run = async () => {
-    for (;;) {
-      const index = nextIndex++;
-      if (index >= items.length) return;
-      await worker(items[index]);
-    }
-  };
-  await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, run));
-};
-
-const copyObject = async (bucket: R2BucketLike, creds: R2ClientCredentials, fromKey: string, toKey: string) => {
-  if (fromKey === toKey) throw new Error("源路径和目标路径相同，请选择其他目标路径");
-
-  try {
-    await copyObjectInBucket(creds, fromKey, toKey);
-    return;
-  } catch {
-    const copied = await bucket.head(toKey);
-    if (copied) return;
-  }
-
-  const obj = await bucket.get(fromKey);
-  if (!obj) throw new Error("源文件不存在或已被删除");
-  await bucket.put(toKey, obj.body, { httpMetadata: obj.httpMetadata, customMetadata: obj.customMetadata });
+const toDestinationPrefix = (raw: string) => {
+  let destPrefix = String(raw).trim();
+  while (destPrefix.startsWith("/")) destPrefix = destPrefix.slice(1);
+  if (destPrefix && !destPrefix.endsWith("/")) destPrefix += "/";
+  return destPrefix;
 };
 
-const deleteOne = async (bucket: R2BucketLike, key: string) => {
-  try {
-    await bucket.delete(key);
-    return;
-  } catch (error) {
-    const remain = await bucket.head(key);
-    if (!remain) return;
-    throw error;
-  }
+const toDestinationKey = (sourceKey: string, destPrefix: string) => {
+  if (!sourceKey.endsWith("/")) return `${destPrefix}${sourceKey.split("/").pop() || sourceKey}`;
+  return `${destPrefix}${sourceKey.split("/").filter(Boolean).pop() || "folder"}/`;
 };
 
 const getParentPath = (key: string) => {
@@ -99,6 +61,16 @@ const getParentPath = (key: string) => {
 
 const isRenameInSameFolder = (sourceKey: string, targetKey: string) => getParentPath(sourceKey) === getParentPath(targetKey);
 
+const isCrossBucketOperation = (op: Operation) =>
+  op === "move" || op === "copy" || op === "moveMany" || op === "copyMany" || op === "checkConflicts";
+
+// Writing into another bucket is an upload there; moving out of this bucket also deletes here.
+const assertCrossBucketPermission = (op: Operation, ctx: Awaited<ReturnType<typeof getAppAccessContextFromRequest>>) => {
+  requirePermission(ctx, "object.read", "你没有读取源存储桶文件的权限");
+  requirePermission(ctx, "object.upload", "你没有向目标存储桶写入文件的权限");
+  if (op === "move" || op === "moveMany") requirePermission(ctx, "object.delete", "你没有从源存储桶删除文件的权限");
+};
+
 const assertOperationPermission = (
   op: Operation,
   ctx: Awaited<ReturnType<typeof getAppAccessContextFromRequest>>,
@@ -121,25 +93,44 @@ const assertOperationPermission = (
     requirePermission(ctx, "object.mkdir", "你没有新建文件夹的权限");
     return;
   }
-  if (op === "copy" || op === "moveMany" || op === "copyMany") {
+  if (op === "setStorageClass") {
+    requirePermission(ctx, "object.upload", "你没有修改文件的权限");
+    return;
+  }
+  if (op === "copy" || op === "moveMany" || op === "copyMany" || op === "checkConflicts") {
     requirePermission(ctx, "object.move_copy", "你没有移动/复制文件的权限");
     return;
   }
   throw new Error("无效的操作类型");
 };
 
-export async function POST(req: NextRequest) {
+const handleOperation = async (req: NextRequest, retryStats: R2RetryStats) => {
   try {
     const ctx = await getAppAccessContextFromRequest(req);
 
-    const { bucket: bucketId, sourceKey, sourceKeys, targetKey, targetPrefix, operation } = (await req.json()) as {
+    const {
+      bucket: bucketId,
+      targetBucket,
+      sourceKey,
+      sourceKeys,
+      targetKey: requestedTargetKey,
+      targetPrefix,
+      operation,
+      conflict,
+      storageClass: requestedStorageClass,
+    } = (await req.json()) as {
       bucket?: string;
+      targetBucket?: string;
       sourceKey?: string;
       sourceKeys?: string[];
       targetKey?: string;
       targetPrefix?: string;
       operation?: Operation;
+      conflict?: ConflictPolicy;
+      storageClass?: string;
     };
+    const conflictPolicy = normalizeConflictPolicy(conflict);
+    let targetKey = requestedTargetKey;
 
     if (!bucketId) return NextResponse.json({ error: "请求参数不完整" }, { status: 400 });
 
@@ -151,15 +142,34 @@ export async function POST(req: NextRequest) {
       op !== "mkdir" &&
       op !== "moveMany" &&
       op !== "copyMany" &&
-      op !== "deleteMany"
+      op !== "deleteMany" &&
+      op !== "checkConflicts" &&
+      op !== "setStorageClass"
     ) {
       return NextResponse.json({ error: "无效的操作类型" }, { status: 400 });
     }
 
-    assertOperationPermission(op, ctx, sourceKey, targetKey);
+    const targetBucketId = String(targetBucket ?? "").trim() || bucketId;
+    const crossBucket = targetBucketId !== bucketId;
+    if (crossBucket && !isCrossBucketOperation(op)) {
+      return NextResponse.json({ error: "该操作不支持跨存储桶" }, { status: 400 });
+    }
+
+    assertOperationPermission(op, ctx, sourceKey, crossBucket ? undefined : targetKey);
+    if (crossBucket) assertCrossBucketPermission(op, ctx);
 
-    const { creds } = await resolveBucketCredentials(ctx, bucketId);
+    const creds = { ...(await resolveBucketCredentials(ctx, bucketId)).creds, retryStats };
     const bucket = createR2Bucket(creds);
+    const destCreds = crossBucket ? { ...(await resolveBucketCredentials(ctx, targetBucketId)).creds, retryStats } : creds;
+    const destBucket = crossBucket ? createR2Bucket(destCreds) : bucket;
+    const sourceScope = { teamId: ctx.team.id, bucketId };
+    const destScope = { teamId: ctx.team.id, bucketId: targetBucketId };
+
+    const copyToDest = (fromKey: string, toKey: string) =>
+      crossBucket ? copyObjectAcrossBuckets(creds, destCreds, fromKey, toKey) : copyObject(bucket, creds, fromKey, toKey);
+    const isSameLocation = (fromKey: string, toKey: string) => !crossBucket && fromKey === toKey;
+    const isNestedInSource = (fromKey: string, toKey: string) =>
+      !crossBucket && fromKey.endsWith("/") && toKey.startsWith(fromKey) && toKey !== fromKey;
 
     const assertUnlocked = async (key: string | undefined) => {
       const normalized = String(key ?? "").trim();
@@ -167,11 +177,20 @@ export async function POST(req: NextRequest) {
       await assertFolderUnlockedForPath(req, ctx, bucketId, normalized);
     };
 
+    const assertDestUnlocked = async (key: string | undefined) => {
+      const normalized = String(key ?? "").trim();
+      if (!normalized) return;
+      await assertFolderUnlockedForPath(req, ctx, targetBucketId, normalized);
+    };
+
     if (op === "mkdir") {
       if (!targetKey) return NextResponse.json({ error: "请求参数不完整" }, { status: 400 });
       const key = targetKey.endsWith("/") ? targetKey : `${targetKey}/`;
       await assertUnlocked(key);
       await bucket.put(key, new Uint8Array(0), { httpMetadata: { contentType: "application/x-directory" } });
+      await upsertIndexedObjects(sourceScope, [
+        { key, size: 0, uploaded: new Date().toISOString(), contentType: "application/x-directory" },
+      ]);
       await writeAuditLog(ctx, {
         bucketId,
         action: "mkdir",
@@ -183,53 +202,123 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ success: true });
     }
 
+    if (op === "checkConflicts") {
+      const keys = (sourceKeys ?? (sourceKey ? [sourceKey] : [])).filter((k) => typeof k === "string" && k.length > 0);
+      if (!keys.length) return NextResponse.json({ error: "请求参数不完整" }, { status: 400 });
+      const destPrefix = targetPrefix === undefined || targetPrefix === null ? null : toDestinationPrefix(targetPrefix);
+      if (destPrefix === null && !targetKey) return NextResponse.json({ error: "请求参数不完整" }, { status: 400 });
+
+      const conflicts: RenamedItem[] = [];
+      await mapConcurrent(keys, 4, async (k) => {
+        const dest = destPrefix === null ? String(targetKey) : toDestinationKey(k, destPrefix);
+        if (isSameLocation(k, dest)) return;
+        if (await isTargetKeyTaken(destBucket, dest)) conflicts.push({ sourceKey: k, targetKey: dest });
+      });
+      return NextResponse.json({ conflicts });
+    }
+
     if (op === "moveMany" || op === "copyMany") {
       const keys = (sourceKeys ?? []).filter((k) => typeof k === "string" && k.length > 0);
       if (!keys.length) return NextResponse.json({ error: "请求参数不完整" }, { status: 400 });
       if (targetPrefix === undefined || targetPrefix === null) return NextResponse.json({ error: "请求参数不完整" }, { status: 400 });
 
-      let destPrefix = String(targetPrefix).trim();
-      while (destPrefix.startsWith("/")) destPrefix = destPrefix.slice(1);
-      if (destPrefix && !destPrefix.endsWith("/")) destPrefix += "/";
+      const destPrefix = toDestinationPrefix(targetPrefix);
       for (const k of keys) await assertUnlocked(k);
-      if (destPrefix) await assertUnlocked(destPrefix);
+      if (destPrefix) await assertDestUnlocked(destPrefix);
 
       let moved = 0;
-      let skipped = 0;
+      let unchanged = 0;
+      const skipped: string[] = [];
+      const renamed: RenamedItem[] = [];
+
+      if (await exceedsJobThreshold(bucket, keys.filter((k) => k.endsWith("/")))) {
+        const items: JobItem[] = [];
+        for (const k of keys) {
+          const requestedDest = toDestinationKey(k, destPrefix);
+          if (isNestedInSource(k, requestedDest)) {
+            return NextResponse.json({ error: "不能将文件夹移动到其自身或子目录中" }, { status: 400 });
+          }
+          if (isSameLocation(k, requestedDest)) continue;
+          const dest = await resolveConflictTarget(destBucket, requestedDest, conflictPolicy);
+          if (!dest) {
+            skipped.push(k);
+            continue;
+          }
+          if (dest !== requestedDest) renamed.push({ sourceKey: k, targetKey: dest });
+          items.push({ sourceKey: k, targetKey: dest, ...(crossBucket ? { targetBucketId } : {}) });
+        }
+        if (!items.length) return NextResponse.json({ success: true, count: 0, skipped, renamed });
+
+        const job = await createJob(ctx, {
+          bucketId,
+          kind: op === "moveMany" ? "move" : "copy",
+          items,
+          conflict: conflictPolicy,
+          summary: `批量${op === "moveMany" ? "移动" : "复制"} ${items.length} 项到「${destPrefix || "根目录"}」`,
+        });
+        await writeAuditLog(ctx, {
+          bucketId,
+          action: op === "moveMany" ? "move" : "copy",
+          itemType: "system",
+          itemName: `${keys.length} 项`,
+          targetKey: destPrefix,
+          summary: `${ctx.displayName} 批量${op === "moveMany" ? "移动" : "复制"} ${keys.length} 项到「${destPrefix || "根目录"}」（后台任务）`,
+          metadata: {
+            sourceKeys: keys,
+            targetPrefix: destPrefix,
+            conflict: conflictPolicy,
+            jobId: job.id,
+            ...(crossBucket ? { targetBucketId } : {}),
+            ...(skipped.length ? { skippedKeys: skipped } : {}),
+            ...(renamed.length ? { renamed } : {}),
+          },
+        });
+        return NextResponse.json({ success: true, job, skipped, renamed }, { status: 202 });
+      }
+
       for (const k of keys) {
         const isPrefix = k.endsWith("/");
+        const requestedDest = toDestinationKey(k, destPrefix);
         if (!isPrefix) {
-          const base = k.split("/").pop() || k;
-          const dest = `${destPrefix}${base}`;
-          if (dest === k) {
-            skipped += 1;
+          if (isSameLocation(k, requestedDest)) {
+            unchanged += 1;
             continue;
           }
-          await copyObject(bucket, creds, k, dest);
-          if (op === "moveMany") await deleteOne(bucket, k);
+          const dest = await resolveConflictTarget(destBucket, requestedDest, conflictPolicy);
+          if (!dest) {
+            skipped.push(k);
+            continue;
+          }
+          if (dest !== requestedDest) renamed.push({ sourceKey: k, targetKey: dest });
+          await copyToDest(k, dest);
+          if (op === "moveMany") await deleteObject(bucket, k);
+          await copyIndexedKeys(sourceScope, destScope, [{ from: k, to: dest }], op === "moveMany");
           moved += 1;
           continue;
         }
 
-        const folderName = k.split("/").filter(Boolean).pop() || "folder";
-        const destRoot = `${destPrefix}${folderName}/`;
-        if (destRoot.startsWith(k)) {
+        if (isNestedInSource(k, requestedDest)) {
           return NextResponse.json({ error: "不能将文件夹移动到其自身或子目录中" }, { status: 400 });
         }
         const all = await listAllKeysWithPrefix(bucket, k);
-        if (destRoot === k) {
-          skipped += all.length;
+        if (isSameLocation(k, requestedDest)) {
+          unchanged += all.length;
           continue;
         }
-        await mapConcurrent(all, 4, async (src) => {
-          const dest = destRoot + src.slice(k.length);
-          await copyObject(bucket, creds, src, dest);
-        });
+        const destRoot = await resolveConflictTarget(destBucket, requestedDest, conflictPolicy);
+        if (!destRoot) {
+          skipped.push(k);
+          continue;
+        }
+        if (destRoot !== requestedDest) renamed.push({ sourceKey: k, targetKey: destRoot });
+        const pairs = all.map((src) => ({ from: src, to: destRoot + src.slice(k.length) }));
+        await mapConcurrent(pairs, 4, (pair) => copyToDest(pair.from, pair.to));
         if (op === "moveMany") await deleteKeys(bucket, all);
+        await copyIndexedKeys(sourceScope, destScope, pairs, op === "moveMany");
         moved += all.length;
       }
 
-      if (moved === 0 && skipped > 0) {
+      if (moved === 0 && unchanged > 0 && !skipped.length) {
         return NextResponse.json({ error: "源路径和目标路径相同，请选择其他目标路径" }, { status: 400 });
       }
 
@@ -240,9 +329,18 @@ export async function POST(req: NextRequest) {
         itemName: `${keys.length} 项`,
         targetKey: destPrefix,
         summary: `${ctx.displayName} 批量${op === "moveMany" ? "移动" : "复制"} ${keys.length} 项到「${destPrefix || "根目录"}」`,
-        metadata: { sourceKeys: keys, targetPrefix: destPrefix, count: moved, skipped },
+        metadata: {
+          sourceKeys: keys,
+          targetPrefix: destPrefix,
+          count: moved,
+          skipped: unchanged + skipped.length,
+          conflict: conflictPolicy,
+          ...(crossBucket ? { targetBucketId } : {}),
+          ...(skipped.length ? { skippedKeys: skipped } : {}),
+          ...(renamed.length ? { renamed } : {}),
+        },
       });
-      return NextResponse.json({ success: true, count: moved, skipped });
+      return NextResponse.json({ success: true, count: moved, skipped, renamed });
     }
 
     if (op === "deleteMany") {
@@ -250,6 +348,24 @@ export async function POST(req: NextRequest) {
       if (!keys.length) return NextResponse.json({ error: "请求参数不完整" }, { status: 400 });
       for (const k of keys) await assertUnlocked(k);
 
+      if (await exceedsJobThreshold(bucket, keys.filter((k) => k.endsWith("/")))) {
+        const job = await createJob(ctx, {
+          bucketId,
+          kind: "delete",
+          items: keys.map((k) => ({ sourceKey: k })),
+          summary: `直接删除 ${keys.length} 项`,
+        });
+        await writeAuditLog(ctx, {
+          bucketId,
+          action: "permanent_delete",
+          itemType: "system",
+          itemName: `${keys.length} 项`,
+          summary: `${ctx.displayName} 直接删除 ${keys.length} 项（后台任务）`,
+          metadata: { sourceKeys: keys, jobId: job.id },
+        });
+        return NextResponse.json({ success: true, job }, { status: 202 });
+      }
+
       const toDelete: string[] = [];
       for (const k of keys) {
         const isPrefix = k.endsWith("/");
@@ -263,6 +379,7 @@ export async function POST(req: NextRequest) {
 
       const uniq = Array.from(new Set(toDelete));
       await deleteKeys(bucket, uniq);
+      await removeIndexedKeys(sourceScope, uniq);
       await writeAuditLog(ctx, {
         bucketId,
         action: "permanent_delete",
@@ -274,6 +391,50 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ success: true, count: uniq.length });
     }
 
+    if (op === "setStorageClass") {
+      const keys = (sourceKeys ?? (sourceKey ? [sourceKey] : [])).filter((k) => typeof k === "string" && k.length > 0);
+      const storageClass = toStorageClass(requestedStorageClass);
+      if (!keys.length || !storageClass) return NextResponse.json({ error: "请求参数不完整" }, { status: 400 });
+      if (creds.driver === "local") return NextResponse.json({ error: "本地存储不支持存储类型" }, { status: 400 });
+      for (const k of keys) await assertUnlocked(k);
+      const classLabel = storageClass === "STANDARD_IA" ? "低频访问" : "标准";
+
+      if (await exceedsJobThreshold(bucket, keys.filter((k) => k.endsWith("/")))) {
+        const job = await createJob(ctx, {
+          bucketId,
+          kind: "storage_class",
+          items: keys.map((k) => ({ sourceKey: k, storageClass })),
+          summary: `将 ${keys.length} 项改为${classLabel}存储`,
+        });
+        await writeAuditLog(ctx, {
+          bucketId,
+          action: "storage_class_update",
+          itemType: "system",
+          itemName: `${keys.length} 项`,
+          summary: `${ctx.displayName} 将 ${keys.length} 项改为${classLabel}存储（后台任务）`,
+          metadata: { sourceKeys: keys, storageClass, jobId: job.id },
+        });
+        return NextResponse.json({ success: true, job }, { status: 202 });
+      }
+
+      const targets: string[] = [];
+      for (const k of keys) {
+        if (!k.endsWith("/")) targets.push(k);
+        else targets.push(...(await listAllKeysWithPrefix(bucket, k)));
+      }
+      const uniq = Array.from(new Set(targets));
+      await mapConcurrent(uniq, 4, (k) => changeObjectStorageClass(creds, k, storageClass));
+      await writeAuditLog(ctx, {
+        bucketId,
+        action: "storage_class_update",
+        itemType: "system",
+        itemName: `${keys.length} 项`,
+        summary: `${ctx.displayName} 将 ${keys.length} 项改为${classLabel}存储`,
+        metadata: { sourceKeys: keys, storageClass, count: uniq.length },
+      });
+      return NextResponse.json({ success: true, count: uniq.length });
+    }
+
     if (!sourceKey) return NextResponse.json({ error: "请求参数不完整" }, { status: 400 });
 
     const isPrefix = sourceKey.endsWith("/");
@@ -281,7 +442,8 @@ export async function POST(req: NextRequest) {
 
     if (op === "delete") {
       if (!isPrefix) {
-        await deleteOne(bucket, sourceKey);
+        await deleteObject(bucket, sourceKey);
+        await removeIndexedKeys(sourceScope, [sourceKey]);
         await writeAuditLog(ctx, {
           bucketId,
           action: "permanent_delete",
@@ -292,8 +454,27 @@ export async function POST(req: NextRequest) {
         });
         return NextResponse.json({ success: true, count: 1 });
       }
+      if (await exceedsJobThreshold(bucket, [sourceKey])) {
+        const job = await createJob(ctx, {
+          bucketId,
+          kind: "delete",
+          items: [{ sourceKey }],
+          summary: `直接删除文件夹「${sourceKey}」`,
+        });
+        await writeAuditLog(ctx, {
+          bucketId,
+          action: "permanent_delete",
+          itemType: "folder",
+          itemKey: sourceKey,
+          itemName: sourceKey.split("/").filter(Boolean).pop() || sourceKey,
+          summary: `${ctx.displayName} 直接删除文件夹「${sourceKey}」（后台任务）`,
+          metadata: { jobId: job.id },
+        });
+        return NextResponse.json({ success: true, job }, { status: 202 });
+      }
       const keys = await listAllKeysWithPrefix(bucket, sourceKey);
       await deleteKeys(bucket, keys);
+      await removeIndexedKeys(sourceScope, keys);
       await writeAuditLog(ctx, {
         bucketId,
         action: "permanent_delete",
@@ -309,54 +490,99 @@ export async function POST(req: NextRequest) {
     if (!targetKey) return NextResponse.json({ error: "请求参数不完整" }, { status: 400 });
     // A same-directory rename has already checked the effective source folder lock.
     // Avoid a duplicate Supabase lock lookup on the hottest operation path.
-    if (!isRenameInSameFolder(sourceKey, targetKey)) await assertUnlocked(targetKey);
-    if (targetKey === sourceKey) {
+    if (crossBucket) await assertDestUnlocked(targetKey);
+    else if (!isRenameInSameFolder(sourceKey, targetKey)) await assertUnlocked(targetKey);
+    if (isSameLocation(sourceKey, targetKey)) {
       return NextResponse.json({ error: "源路径和目标路径相同，请选择其他目标路径" }, { status: 400 });
     }
-    if (isPrefix && targetKey.startsWith(sourceKey)) {
+    if (isPrefix && !crossBucket && targetKey.startsWith(sourceKey)) {
       return NextResponse.json({ error: "不能将文件夹移动到其自身或子目录中" }, { status: 400 });
     }
 
+    const resolvedTargetKey = await resolveConflictTarget(destBucket, targetKey, conflictPolicy);
+    if (!resolvedTargetKey) {
+      return NextResponse.json({ success: true, count: 0, skipped: [sourceKey], renamed: [] });
+    }
+    const renamed: RenamedItem[] = resolvedTargetKey !== targetKey ? [{ sourceKey, targetKey: resolvedTargetKey }] : [];
+    targetKey = resolvedTargetKey;
+    const isRename = op === "move" && !crossBucket && isRenameInSameFolder(sourceKey, targetKey);
+    const crossBucketMeta = crossBucket ? { targetBucketId } : {};
+
     if (!isPrefix) {
-      await copyObject(bucket, creds, sourceKey, targetKey);
-      if (op === "move") await deleteOne(bucket, sourceKey);
+      await copyToDest(sourceKey, targetKey);
+      if (op === "move") await deleteObject(bucket, sourceKey);
+      await copyIndexedKeys(sourceScope, destScope, [{ from: sourceKey, to: targetKey }], op === "move");
       await writeAuditLog(ctx, {
         bucketId,
-        action: op === "move" && isRenameInSameFolder(sourceKey, targetKey) ? "rename" : op,
+        action: isRename ? "rename" : op,
         itemType: "file",
         itemKey: op === "move" ? targetKey : sourceKey,
         itemName: targetKey.split("/").pop() || sourceKey.split("/").pop() || sourceKey,
         sourceKey,
         targetKey,
-        summary: `${ctx.displayName} ${op === "move" ? (isRenameInSameFolder(sourceKey, targetKey) ? "重命名" : "移动") : "复制"}「${sourceKey}」到「${targetKey}」`,
+        summary: `${ctx.displayName} ${op === "move" ? (isRename ? "重命名" : "移动") : "复制"}「${sourceKey}」到「${targetKey}」`,
+        ...(renamed.length || crossBucket ? { metadata: { ...crossBucketMeta, ...(renamed.length ? { conflict: conflictPolicy, renamed } : {}) } } : {}),
       });
-      return NextResponse.json({ success: true, count: 1 });
+      return NextResponse.json({ success: true, count: 1, skipped: [], renamed });
+    }
+
+    const folderAction = isRename ? "rename" : op;
+    const folderVerb = op === "move" ? (isRename ? "重命名" : "移动") : "复制";
+    const folderName = targetKey.split("/").filter(Boolean).pop() || sourceKey.split("/").filter(Boolean).pop() || sourceKey;
+
+    if (await exceedsJobThreshold(bucket, [sourceKey])) {
+      const job = await createJob(ctx, {
+        bucketId,
+        kind: op === "move" ? "move" : "copy",
+        items: [{ sourceKey, targetKey, ...(crossBucket ? { targetBucketId } : {}) }],
+        conflict: conflictPolicy,
+        summary: `${folderVerb}文件夹「${sourceKey}」到「${targetKey}」`,
+      });
+      await writeAuditLog(ctx, {
+        bucketId,
+        action: folderAction,
+        itemType: "folder",
+        itemKey: op === "move" ? targetKey : sourceKey,
+        itemName: folderName,
+        sourceKey,
+        targetKey,
+        summary: `${ctx.displayName} ${folderVerb}文件夹「${sourceKey}」到「${targetKey}」（后台任务）`,
+        metadata: { jobId: job.id, ...crossBucketMeta, ...(renamed.length ? { conflict: conflictPolicy, renamed } : {}) },
+      });
+      return NextResponse.json({ success: true, job, skipped: [], renamed }, { status: 202 });
     }
 
     const keys = await listAllKeysWithPrefix(bucket, sourceKey);
     const toCopy = keys.filter((k) => k.startsWith(sourceKey));
+    const destRoot = targetKey;
 
-    await mapConcurrent(toCopy, 4, async (k) => {
-      const newKey = targetKey + k.slice(sourceKey.length);
-      await copyObject(bucket, creds, k, newKey);
-    });
+    const pairs = toCopy.map((k) => ({ from: k, to: destRoot + k.slice(sourceKey.length) }));
+    await mapConcurrent(pairs, 4, (pair) => copyToDest(pair.from, pair.to));
 
     if (op === "move") await deleteKeys(bucket, toCopy);
+    await copyIndexedKeys(sourceScope, destScope, pairs, op === "move");
     await writeAuditLog(ctx, {
       bucketId,
-      action: op === "move" && isRenameInSameFolder(sourceKey, targetKey) ? "rename" : op,
+      action: folderAction,
       itemType: "folder",
       itemKey: op === "move" ? targetKey : sourceKey,
-      itemName: targetKey.split("/").filter(Boolean).pop() || sourceKey.split("/").filter(Boolean).pop() || sourceKey,
+      itemName: folderName,
       sourceKey,
       targetKey,
-      summary: `${ctx.displayName} ${op === "move" ? (isRenameInSameFolder(sourceKey, targetKey) ? "重命名" : "移动") : "复制"}文件夹「${sourceKey}」到「${targetKey}」`,
-      metadata: { count: toCopy.length },
+      summary: `${ctx.displayName} ${folderVerb}文件夹「${sourceKey}」到「${targetKey}」`,
+      metadata: { count: toCopy.length, ...crossBucketMeta, ...(renamed.length ? { conflict: conflictPolicy, renamed } : {}) },
     });
 
-    return NextResponse.json({ success: true, count: toCopy.length });
+    return NextResponse.json({ success: true, count: toCopy.length, skipped: [], renamed });
   } catch (error: unknown) {
     const lock = (error as { folderLock?: unknown })?.folderLock;
     return NextResponse.json({ error: toMessage(error), ...(lock && typeof lock === "object" ? { lock } : {}) }, { status: toStatus(error) });
   }
+};
+
+export async function POST(req: NextRequest) {
+  const retryStats = createRetryStats();
+  const res = await handleOperation(req, retryStats);
+  if (retryStats.retries > 0) res.headers.set(R2_RETRIES_HEADER, String(retryStats.retries));
+  return res;
 }
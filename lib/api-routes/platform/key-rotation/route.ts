@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAppAccessContextFromRequest, requirePermission } from "@/lib/access-control";
+import { toChineseErrorMessage } from "@/lib/error-zh";
+import {
+  cancelKeyRotation,
+  createKeyRotation,
+  getKeyRotation,
+  getKeyringStatus,
+  getLatestKeyRotation,
+  runKeyRotationStep,
+} from "@/lib/key-rotation";
+
+export const runtime = "edge";
+
+const toStatus = (error: unknown) => {
+  const status = Number((error as { status?: unknown })?.status ?? NaN);
+  return Number.isFinite(status) && status >= 100 ? status : 500;
+};
+
+const toMessage = (error: unknown, fallback: string) => toChineseErrorMessage(error, fallback);
+
+const json = (status: number, obj: unknown) => NextResponse.json(obj, { status, headers: { "cache-control": "no-store" } });
+
+type RotationBody = {
+  action?: unknown;
+  id?: unknown;
+};
+
+export async function GET(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    requirePermission(ctx, "sys.team.manage", "你没有管理平台加密密钥的权限");
+    const id = String(new URL(req.url).searchParams.get("id") ?? "").trim();
+    if (id) return json(200, { rotation: await getKeyRotation(id) });
+
+    const [keyring, rotation] = await Promise.all([getKeyringStatus(), getLatestKeyRotation()]);
+    return json(200, { keyring, rotation });
+  } catch (error: unknown) {
+    return json(toStatus(error), { error: toMessage(error, "读取密钥状态失败") });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    requirePermission(ctx, "sys.team.manage", "你没有管理平台加密密钥的权限");
+    const body = (await req.json().catch(() => ({}))) as RotationBody;
+    const action = String(body.action ?? "").trim();
+    const id = String(body.id ?? "").trim();
+
+    if (action === "create") return json(202, { rotation: await createKeyRotation(ctx) });
+
+    if (action === "run") {
+      if (!id) return json(400, { error: "缺少任务参数" });
+      return json(200, { rotation: await runKeyRotationStep(id) });
+    }
+
+    if (action === "cancel") {
+      if (!id) return json(400, { error: "缺少任务参数" });
+      return json(200, { rotation: await cancelKeyRotation(id) });
+    }
+
+    return json(400, { error: "无效的操作类型" });
+  } catch (error: unknown) {
+    return json(toStatus(error), { error: toMessage(error, "密钥迁移操作失败") });
+  }
+}
@@ -63,7 +63,7 @@ export async function POST(req: NextRequest) {
         lastModified: item.lastModified,
       }));
     if (!targets.length) return NextResponse.json({ error: "请求参数不完整" }, { status: 400 });
-    const moved = await moveItemsToRecycle(ctx, bucketId, targets);
+    const { items: moved, job } = await moveItemsToRecycle(ctx, bucketId, targets);
     await writeAuditLogs(ctx, moved.map((item) => ({
         bucketId,
         action: "move_to_recycle",
@@ -71,8 +71,9 @@ export async function POST(req: NextRequest) {
         itemKey: item.key,
         itemName: item.name,
         summary: `${ctx.displayName} 将「${item.name}」移入回收站`,
+        ...(job ? { metadata: { jobId: job.id } } : {}),
       })));
-    return NextResponse.json({ success: true, count: moved.length, items: moved });
+    return NextResponse.json({ success: true, count: moved.length, items: moved, job }, { status: job ? 202 : 200 });
   } catch (error) {
     return NextResponse.json({ error: toChineseErrorMessage(error, "移动到回收站失败") }, { status: toStatus(error) });
   }
@@ -89,7 +90,7 @@ export async function PATCH(req: NextRequest) {
     if (!bucketId || (!id && !ids.length && action !== "clear")) return NextResponse.json({ error: "请求参数不完整" }, { status: 400 });
 
     if (action === "restore") {
-      const restoredKey = await restoreRecycleItem(ctx, bucketId, id);
+      const { key: restoredKey, job } = await restoreRecycleItem(ctx, bucketId, id);
       await writeAuditLog(ctx, {
         bucketId,
         action: "restore",
@@ -97,11 +98,11 @@ export async function PATCH(req: NextRequest) {
         itemName: restoredKey.split("/").filter(Boolean).pop() || restoredKey,
         summary: `${ctx.displayName} 取消回收「${restoredKey}」`,
       });
-      return NextResponse.json({ success: true, restoredKey });
+      return NextResponse.json({ success: true, restoredKey, ...(job ? { job } : {}) });
     }
 
     if (action === "restore_many") {
-      const restoredKeys = await restoreRecycleItems(ctx, bucketId, ids);
+      const { keys: restoredKeys, job } = await restoreRecycleItems(ctx, bucketId, ids);
       await writeAuditLog(ctx, {
         bucketId,
         action: "restore",
@@ -110,7 +111,7 @@ export async function PATCH(req: NextRequest) {
         summary: `${ctx.displayName} 批量取消回收 ${restoredKeys.length} 项`,
         metadata: { restoredKeys },
       });
-      return NextResponse.json({ success: true, count: restoredKeys.length, restoredKeys });
+      return NextResponse.json({ success: true, count: restoredKeys.length, restoredKeys, ...(job ? { job } : {}) });
     }
 
     if (action === "permanent_delete") {
@@ -140,16 +141,16 @@ export async function PATCH(req: NextRequest) {
     }
 
     if (action === "clear") {
-      const count = await clearRecycleItems(ctx, bucketId);
+      const { count, job } = await clearRecycleItems(ctx, bucketId);
       await writeAuditLog(ctx, {
         bucketId,
         action: "clear_recycle",
         itemType: "system",
         itemName: "回收站",
         summary: `${ctx.displayName} 清空回收站（${count} 项）`,
-        metadata: { count },
+        metadata: { count, ...(job ? { jobId: job.id } : {}) },
       });
-      return NextResponse.json({ success: true, count });
+      return NextResponse.json({ success: true, count, job }, { status: job ? 202 : 200 });
     }
 
     return NextResponse.json({ error: "无效的操作类型" }, { status: 400 });
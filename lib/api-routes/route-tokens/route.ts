@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAppAccessContextFromRequest, requirePermission } from "@/lib/access-control";
+import { writeAuditLog } from "@/lib/audit-logs";
+import { toChineseErrorMessage } from "@/lib/error-zh";
+import { inspectRouteToken, listRevokedRouteTokens, revokeRouteToken } from "@/lib/route-token";
+import { resolveBucketCredentials } from "@/lib/user-buckets";
+
+export const runtime = "edge";
+
+const toStatus = (error: unknown) => {
+  const status = Number((error as { status?: unknown })?.status ?? NaN);
+  return Number.isFinite(status) && status >= 100 ? status : 500;
+};
+
+const toMessage = (error: unknown, fallback: string) => toChineseErrorMessage(error, fallback);
+
+const json = (status: number, obj: unknown) => NextResponse.json(obj, { status, headers: { "cache-control": "no-store" } });
+
+type RevokeBody = {
+  link?: unknown;
+  reason?: unknown;
+};
+
+const OP_LABELS = { put: "上传", mp: "分片上传", object: "下载", zip: "打包下载" } as const;
+
+// Accepts a full proxy link (/api/object?token=…, /api/download/zip?token=…) or the bare token.
+const extractToken = (link: string) => {
+  const trimmed = link.trim();
+  if (!trimmed) return "";
+  try {
+    const url = new URL(trimmed, "http://localhost");
+    const token = url.searchParams.get("token");
+    if (token) return token;
+  } catch {
+    // Not a URL; treat as a bare token.
+  }
+  return trimmed;
+};
+
+export async function GET(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    requirePermission(ctx, "bucket.edit", "你没有管理存储桶访问链接的权限");
+    const bucketId = String(new URL(req.url).searchParams.get("bucketId") ?? "").trim();
+    if (!bucketId) return json(400, { error: "缺少 bucketId" });
+
+    await resolveBucketCredentials(ctx, bucketId);
+    return json(200, { entries: await listRevokedRouteTokens(ctx.team.id, bucketId) });
+  } catch (error: unknown) {
+    return json(toStatus(error), { error: toMessage(error, "读取已撤销链接失败") });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const ctx = await getAppAccessContextFromRequest(req);
+    const body = (await req.json().catch(() => ({}))) as RevokeBody;
+    const token = extractToken(String(body.link ?? ""));
+    if (!token) return json(400, { error: "请粘贴要撤销的链接" });
+
+    const inspected = await inspectRouteToken(token);
+    const { payload } = inspected;
+    if (payload.teamId !== ctx.team.id) return json(404, { error: "该链接不属于当前团队" });
+    // Anyone may revoke a link they issued themselves; other links need bucket management rights.
+    if (payload.issuedBy !== ctx.user.id) {
+      requirePermission(ctx, "bucket.edit", "只能撤销自己生成的链接，撤销他人的链接需要编辑存储桶的权限");
+    }
+    if (Date.parse(inspected.expiresAt) <= Date.now()) return json(400, { error: "该链接已过期，无需撤销" });
+
+    const { detail } = await resolveBucketCredentials(ctx, payload.bucketId);
+    const entry = await revokeRouteToken({ userId: ctx.user.id, displayName: ctx.displayName }, inspected, String(body.reason ?? ""));
+
+    const opLabel = OP_LABELS[payload.op];
+    await writeAuditLog(ctx, {
+      bucketId: payload.bucketId,
+      action: "token_revoke",
+      itemType: payload.op === "zip" || entry.itemKey.endsWith("/") ? "folder" : "file",
+      itemKey: entry.itemKey,
+      itemName: entry.itemKey.split("/").filter(Boolean).pop() || detail.bucketLabel || detail.bucketName,
+      summary: `${ctx.displayName} 撤销了「${entry.itemKey || detail.bucketLabel || detail.bucketName}」的${opLabel}链接`,
+      metadata: { tokenId: entry.tokenId, op: payload.op, expiresAt: entry.expiresAt, ...(entry.reason ? { reason: entry.reason } : {}) },
+    });
+
+    return json(200, { success: true, entry });
+  } catch (error: unknown) {
+    return json(toStatus(error), { error: toMessage(error, "撤销链接失败") });
+  }
+}
@@ -1,11 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getAppAccessContextFromRequest, requirePermission } from "@/lib/access-control";
+import { getAppAccessContextFromRequest, requirePermission, type AppAccessContext } from "@/lib/access-control";
 import { createR2Bucket } from "@/lib/r2-s3";
-import { resolveBucketCredentials } from "@/lib/user-buckets";
+import { mapConcurrent } from "@/lib/object-ops";
+import { listUserBucketViews, resolveBucketCredentials } from "@/lib/user-buckets";
 import { toChineseErrorMessage } from "@/lib/error-zh";
 import { findEffectiveFolderLockFromRows, listFolderLocksByBucket } from "@/lib/folder-locks";
-import { readFolderUnlockGrants } from "@/lib/folder-lock-access";
-import { isKeyInActiveRecycle, isRecycleHiddenKey, listActiveRecycleRows, listFavoriteKeySet } from "@/lib/file-marks";
+import { readFolderUnlockGrants, type FolderUnlockGrant } from "@/lib/folder-lock-access";
+import { isKeyInActiveRecycle, isRecycleHiddenKey, listActiveRecycleRows, listFavoriteKeySet, listFavorites } from "@/lib/file-marks";
+import { readReadyObjectIndexState, searchObjectIndex } from "@/lib/object-index";
+import { readIndexedContent, searchContentIndex } from "@/lib/content-index";
+import { splitQueryTokens } from "@/lib/text-match";
+import {
+  compareSearchResults,
+  createFileMatcher,
+  createFolderMatcher,
+  hasSearchCriteria,
+  isContentQuery,
+  listFoldersOfKey,
+  parseObjectSearchQuery,
+  readAllBucketsCursor,
+  scanListing,
+  writeAllBucketsCursor,
+  type ObjectSearchQuery,
+  type SearchCandidate,
+  type SearchPageBudget,
+} from "@/lib/object-search";
 
 export const runtime = "edge";
 
@@ -16,8 +35,24 @@ type SearchItem = {
   key: string;
   size?: number;
   lastModified?: string;
-  type: "file";
+  type: "file" | "folder";
   isFavorite?: boolean;
+  // Relevance of plain-text matches (higher is better); 0 for glob, regex and filter-only searches.
+  score: number;
+  // Set on results of a search across all buckets.
+  bucketId?: string;
+  bucketLabel?: string;
+  // Content searches: text around the hit and the line of the extracted text it is on.
+  snippet?: string;
+  line?: number;
+};
+
+type BucketSearchResult = {
+  items: SearchItem[];
+  cursor: string | null;
+  // Absent for favorites-only searches, which use neither the index nor a scan.
+  indexed?: boolean;
+  indexedAt?: string | null;
 };
 
 const toStatus = (error: unknown) => {
@@ -27,71 +62,247 @@ const toStatus = (error: unknown) => {
 
 const toMessage = (error: unknown) => toChineseErrorMessage(error, "搜索失败，请稍后重试。");
 
+// Index and scan cursors are both keys; the prefix tells them apart so a scan that was already paging keeps
+// going even if the index becomes ready in between.
+const INDEX_CURSOR_PREFIX = "index:";
+const SCAN_CURSOR_PREFIX = "scan:";
+const CONTENT_CURSOR_PREFIX = "content:";
+
+// A search across all buckets searches a few buckets at a time and stops starting new ones, or fetching
+// further pages, once the request has used this many listing or index pages; the rest resume from the cursor.
+// This keeps one request within the Workers subrequest limit however many buckets the team has.
+const ALL_BUCKETS_CONCURRENCY = 4;
+const ALL_BUCKETS_PAGE_BUDGET = 30;
+
+const hasPageLeft = (budget: SearchPageBudget | undefined, pages: number) => pages === 0 || !budget || budget.remaining > 0;
+const spendPage = (budget: SearchPageBudget | undefined) => {
+  if (budget) budget.remaining -= 1;
+};
+
+const nameOf = (key: string) => key.replace(/\/$/, "").split("/").pop() || key;
+
+const contentIndexDisabledError = () => Object.assign(new Error("该存储桶未开启内容索引"), { status: 400 });
+
+// Hidden, recycled and still-locked keys never show up in results.
+const createVisibilityCheck = async (ctx: AppAccessContext, unlockGrants: FolderUnlockGrant[], bucketId: string) => {
+  const [lockRows, recycleRows] = await Promise.all([listFolderLocksByBucket(ctx, bucketId), listActiveRecycleRows(ctx, bucketId)]);
+  const isUnlocked = (key: string) =>
+    unlockGrants.some((g) => g.bucketId === bucketId && key.startsWith(g.prefix));
+  return (key: string) => {
+    if (isRecycleHiddenKey(key) || isKeyInActiveRecycle(key, recycleRows)) return false;
+    const lock = findEffectiveFolderLockFromRows(lockRows, key);
+    return !lock || isUnlocked(key);
+  };
+};
+
+const searchBucket = async (
+  ctx: AppAccessContext,
+  unlockGrants: FolderUnlockGrant[],
+  bucketId: string,
+  query: ObjectSearchQuery,
+  startCursor: string | undefined,
+  limit: number,
+  budget?: SearchPageBudget,
+): Promise<BucketSearchResult> => {
+  const { detail, creds } = await resolveBucketCredentials(ctx, bucketId);
+  const bucket = createR2Bucket(creds);
+  const [isVisible, favoriteKeys] = await Promise.all([
+    createVisibilityCheck(ctx, unlockGrants, bucketId),
+    listFavoriteKeySet(ctx, bucketId),
+  ]);
+
+  const matchesFile = createFileMatcher(query);
+  const matchesFolder = createFolderMatcher(query);
+  const items: SearchItem[] = [];
+  const seenFolders = new Set<string>();
+  const addFolder = (folderKey: string) => {
+    if (!matchesFolder || seenFolders.has(folderKey)) return;
+    seenFolders.add(folderKey);
+    const score = matchesFolder(folderKey);
+    if (score === null || !isVisible(folderKey)) return;
+    if (query.favoritesOnly && !favoriteKeys.has(folderKey)) return;
+    items.push({ name: nameOf(folderKey), key: folderKey, type: "folder", isFavorite: favoriteKeys.has(folderKey), score });
+  };
+  const addCandidate = (candidate: SearchCandidate, hit?: { snippet: string; line: number }) => {
+    const key = String(candidate.key);
+    if (matchesFolder) {
+      for (const folderKey of listFoldersOfKey(key, query.prefix)) addFolder(folderKey);
+    }
+    const score = matchesFile(candidate);
+    if (score === null || !isVisible(key)) return;
+    if (query.favoritesOnly && !favoriteKeys.has(key)) return;
+    items.push({
+      name: nameOf(key),
+      key,
+      size: candidate.size,
+      lastModified: candidate.uploaded,
+      type: "file",
+      isFavorite: favoriteKeys.has(key),
+      score,
+      ...(hit ?? {}),
+    });
+  };
+
+  // Content hits come from the content index only; there is no scan fallback, since that would mean
+  // downloading every file. The other filters still apply through the file matcher.
+  if (isContentQuery(query)) {
+    if (!detail.contentIndexEnabled) throw contentIndexDisabledError();
+    const terms = splitQueryTokens(query.q);
+    let cursor: string | null = startCursor?.startsWith(CONTENT_CURSOR_PREFIX) ? startCursor.slice(CONTENT_CURSOR_PREFIX.length) : null;
+    let pages = 0;
+    while (items.length < limit && pages < 10 && hasPageLeft(budget, pages)) {
+      const page = await searchContentIndex({ teamId: ctx.team.id, bucketId }, { terms, prefix: query.prefix }, {
+        cursor,
+        limit: limit - items.length,
+      });
+      spendPage(budget);
+      for (const hit of page.items) {
+        addCandidate({ key: hit.key, size: hit.size, uploaded: hit.uploaded }, { snippet: hit.snippet, line: hit.line });
+      }
+      cursor = page.cursor;
+      if (!cursor) break;
+      pages += 1;
+    }
+    return { items, cursor: cursor ? `${CONTENT_CURSOR_PREFIX}${cursor}` : null, indexed: true };
+  }
+
+  // Favorites are few, so they are filtered directly instead of walking the bucket.
+  if (query.favoritesOnly) {
+    for (const favorite of await listFavorites(ctx, bucketId)) {
+      if (favorite.type === "folder") addFolder(favorite.key);
+      else addCandidate({ key: favorite.key, size: favorite.size, uploaded: favorite.lastModified });
+    }
+    return { items, cursor: null };
+  }
+
+  const indexState = !startCursor || startCursor.startsWith(INDEX_CURSOR_PREFIX)
+    ? await readReadyObjectIndexState({ teamId: ctx.team.id, bucketId })
+    : null;
+  if (indexState) {
+    let cursor: string | null = startCursor ? startCursor.slice(INDEX_CURSOR_PREFIX.length) : null;
+    let pages = 0;
+    while (items.length < limit && pages < 10 && hasPageLeft(budget, pages)) {
+      const page = await searchObjectIndex({ teamId: ctx.team.id, bucketId }, query, {
+        cursor,
+        limit: limit - items.length,
+        includeFolderMarkers: Boolean(matchesFolder),
+      });
+      spendPage(budget);
+      for (const o of page.items) addCandidate({ key: o.key, size: o.size, uploaded: o.uploaded });
+      cursor = page.cursor;
+      if (!cursor) break;
+      pages += 1;
+    }
+    return {
+      items,
+      cursor: cursor ? `${INDEX_CURSOR_PREFIX}${cursor}` : null,
+      indexed: true,
+      indexedAt: indexState.reconciledAt ?? indexState.readyAt,
+    };
+  }
+
+  // An index cursor whose index has since gone away cannot resume a scan; start over instead.
+  const after = await scanListing(
+    (options) => bucket.list(options),
+    {
+      prefix: query.prefix,
+      after: startCursor?.startsWith(SCAN_CURSOR_PREFIX) ? startCursor.slice(SCAN_CURSOR_PREFIX.length) : undefined,
+      maxPages: 25,
+      budget,
+    },
+    (o) => addCandidate(o),
+    () => items.length >= limit,
+  );
+  return { items, cursor: after === null ? null : `${SCAN_CURSOR_PREFIX}${after}`, indexed: false };
+};
+
 export async function GET(req: NextRequest) {
   try {
     const ctx = await getAppAccessContextFromRequest(req);
     requirePermission(ctx, "object.search", "你没有搜索文件的权限");
 
     const { searchParams } = new URL(req.url);
+    const allBuckets = searchParams.get("scope") === "all";
     const bucketId = searchParams.get("bucket");
-    const qRaw = searchParams.get("q") ?? "";
-    const startCursor = searchParams.get("cursor") ?? undefined;
+
+    // Extracted text of one file, so documents can be previewed as text at a content hit.
+    const contentKey = searchParams.get("contentOf");
+    if (contentKey) {
+      requirePermission(ctx, "object.read", "你没有读取文件的权限");
+      if (!bucketId) return json(400, { error: "缺少存储桶参数" });
+      const { detail } = await resolveBucketCredentials(ctx, bucketId);
+      if (!detail.contentIndexEnabled) throw contentIndexDisabledError();
+      const isVisible = await createVisibilityCheck(ctx, await readFolderUnlockGrants(req), bucketId);
+      const text = isVisible(contentKey) ? await readIndexedContent({ teamId: ctx.team.id, bucketId }, contentKey) : null;
+      if (text === null) return json(404, { error: "该文件还没有内容索引" });
+      return json(200, { text });
+    }
+
+    const startCursor = searchParams.get("cursor") || undefined;
     const limitRaw = searchParams.get("limit") ?? "200";
 
-    if (!bucketId) return json(400, { error: "缺少存储桶参数" });
+    if (!allBuckets && !bucketId) return json(400, { error: "缺少存储桶参数" });
 
-    const q = qRaw.trim().toLowerCase();
-    if (!q) return json(200, { items: [], cursor: null });
+    const query = parseObjectSearchQuery(searchParams);
+    if (!hasSearchCriteria(query)) return json(200, { items: [], cursor: null });
 
     const limit = Math.max(1, Math.min(500, Number.parseInt(limitRaw, 10) || 200));
-    const { creds } = await resolveBucketCredentials(ctx, bucketId);
-    const bucket = createR2Bucket(creds);
-    const [lockRows, unlockGrants, recycleRows, favoriteKeys] = await Promise.all([
-      listFolderLocksByBucket(ctx, bucketId),
-      readFolderUnlockGrants(req),
-      listActiveRecycleRows(ctx, bucketId),
-      listFavoriteKeySet(ctx, bucketId),
-    ]);
-    const isUnlocked = (key: string) =>
-      unlockGrants.some((g) => g.bucketId === bucketId && key.startsWith(g.prefix));
+    const unlockGrants = await readFolderUnlockGrants(req);
+    const compare = compareSearchResults(query.sort, query.order);
 
-    const items: SearchItem[] = [];
-    let cursor: string | undefined = startCursor;
-    let outCursor: string | null = null;
-    let pages = 0;
+    if (!allBuckets) {
+      const result = await searchBucket(ctx, unlockGrants, String(bucketId), query, startCursor, limit);
+      // Favorites-only results carry no `indexed` flag.
+      return json(200, {
+        items: result.items.sort(compare),
+        cursor: result.cursor,
+        ...(result.indexed === undefined ? {} : { indexed: result.indexed, indexedAt: result.indexedAt }),
+      });
+    }
 
-    while (items.length < limit && pages < 25) {
-      const res = await bucket.list({ cursor, limit: 1000 });
-      for (const o of res.objects ?? []) {
-        if (items.length >= limit) break;
-        const key = String(o.key);
-        if (isRecycleHiddenKey(key) || isKeyInActiveRecycle(key, recycleRows)) continue;
-        if (key.endsWith("/") && Number(o.size ?? 0) === 0) continue;
-        if (!key.toLowerCase().includes(q)) continue;
-        const lock = findEffectiveFolderLockFromRows(lockRows, key);
-        if (lock && !isUnlocked(key)) continue;
-        items.push({
-          name: key.split("/").pop() || key,
-          key,
-          size: o.size,
-          lastModified: o.uploaded,
-          type: "file",
-          isFavorite: favoriteKeys.has(key),
-        });
+    requirePermission(ctx, "bucket.read", "你没有查看存储桶的权限");
+    // Buckets without a content index have nothing to offer a content search.
+    const views = (await listUserBucketViews(ctx)).filter((view) => !isContentQuery(query) || view.contentIndexEnabled);
+    const pending = readAllBucketsCursor(startCursor);
+    const targets = pending ? views.filter((view) => pending.has(view.id)) : views;
+    // Each bucket gets a share of the page, so one busy bucket cannot crowd out the others.
+    const perBucketLimit = Math.max(1, Math.ceil(limit / Math.max(1, targets.length)));
+    const budget: SearchPageBudget = { remaining: ALL_BUCKETS_PAGE_BUDGET };
+    const results = await mapConcurrent(targets, ALL_BUCKETS_CONCURRENCY, async (view) => {
+      const startAt = pending?.get(view.id) || undefined;
+      if (budget.remaining <= 0) return { view, deferred: startAt ?? "" };
+      try {
+        return { view, result: await searchBucket(ctx, unlockGrants, view.id, query, startAt, perBucketLimit, budget) };
+      } catch (error: unknown) {
+        return { view, error: toMessage(error) };
       }
+    });
 
-      if (!res.truncated) {
-        outCursor = null;
-        break;
+    const items: SearchItem[] = [];
+    const nextCursors = new Map<string, string>();
+    const failedBuckets: Array<{ bucketId: string; bucketLabel: string; error: string }> = [];
+    let indexed: boolean | undefined;
+    for (const entry of results) {
+      if (entry.deferred !== undefined) {
+        nextCursors.set(entry.view.id, entry.deferred);
+        continue;
       }
-
-      cursor = res.cursor;
-      outCursor = cursor ?? null;
-      if (!cursor) break;
-      pages += 1;
+      if (!entry.result) {
+        failedBuckets.push({ bucketId: entry.view.id, bucketLabel: entry.view.bucketLabel, error: entry.error });
+        continue;
+      }
+      for (const item of entry.result.items) items.push({ ...item, bucketId: entry.view.id, bucketLabel: entry.view.bucketLabel });
+      if (entry.result.cursor) nextCursors.set(entry.view.id, entry.result.cursor);
+      if (entry.result.indexed !== undefined) indexed = (indexed ?? true) && entry.result.indexed;
     }
-
-    return json(200, { items, cursor: outCursor });
+    return json(200, {
+      items: items.sort(compare),
+      cursor: writeAllBucketsCursor(nextCursors),
+      buckets: targets.length,
+      failedBuckets,
+      // True only when every searched bucket answered from its index.
+      ...(indexed === undefined ? {} : { indexed }),
+    });
   } catch (error: unknown) {
     return json(toStatus(error), { error: toMessage(error) });
   }
@@ -3,14 +3,26 @@ import {
   getPublicShareRow,
   ensurePublicShareReady,
   issueDownloadRedirectUrl,
+  normalizeShareFolderPath,
   resolvePublicShareCredentials,
   resolveShareDownloadKey,
+  toShareTokenScope,
   sanitizeShareFileName,
   touchShareAccess,
   assertPublicShareNotLocked,
 } from "@/lib/shares";
 import { readShareAccessToken } from "@/lib/share-token";
 import { toChineseErrorMessage } from "@/lib/error-zh";
+import { listFolderLocksByTeamBucket } from "@/lib/folder-locks";
+import {
+  MAX_ZIP_ROOTS,
+  buildZipFileName,
+  collectExcludedLockPrefixes,
+  findLockedZipRoot,
+  getCommonFolderPrefix,
+  issueZipDownloadUrl,
+  normalizeZipRoots,
+} from "@/lib/zip-download";
 
 export const runtime = "edge";
 
@@ -25,6 +37,7 @@ export async function GET(req: NextRequest) {
     const forceDownload = String(searchParams.get("download") ?? "1").trim() !== "0";
     const forceProxy = String(searchParams.get("forceProxy") ?? "0").trim() === "1";
     const returnJsonUrl = String(searchParams.get("as") ?? "").trim().toLowerCase() === "json";
+    const asZip = String(searchParams.get("zip") ?? "0").trim() === "1";
 
     if (!code) return json(400, { error: "缺少分享码" });
     if (!accessToken) return json(401, { error: "访问凭证已失效，请重新输入提取码。" });
@@ -36,12 +49,41 @@ export async function GET(req: NextRequest) {
 
     await readShareAccessToken(accessToken, row.id, row.share_code);
 
+    if (asZip) {
+      if (meta.itemType !== "folder") return json(400, { error: "该分享不是文件夹类型" });
+      const rootPrefix = meta.itemKey.endsWith("/") ? meta.itemKey : `${meta.itemKey}/`;
+      const selectedKeys = searchParams.getAll("key").map((k) => k.trim()).filter(Boolean);
+      if (selectedKeys.some((k) => !k.startsWith(rootPrefix))) return json(400, { error: "下载路径超出分享范围" });
+      const dir = normalizeShareFolderPath(String(searchParams.get("dir") ?? ""));
+      const roots = normalizeZipRoots(selectedKeys.length ? selectedKeys : [`${rootPrefix}${dir}`]);
+      if (!roots.length) return json(400, { error: "请选择要下载的文件或文件夹" });
+      if (roots.length > MAX_ZIP_ROOTS) return json(400, { error: `一次最多打包 ${MAX_ZIP_ROOTS} 项，请分批下载` });
+
+      // Public visitors cannot unlock folders: a root inside a locked folder is refused outright and
+      // locked subfolders below the roots are left out of the archive.
+      const lockRows = await listFolderLocksByTeamBucket(row.team_id, row.bucket_id);
+      if (findLockedZipRoot(lockRows, roots, () => false)) return json(403, { error: "所选内容位于加密文件夹中，无法通过分享下载" });
+      const basePrefix = getCommonFolderPrefix(roots);
+      const zipUrl = await issueZipDownloadUrl(new URL(req.url).origin, toShareTokenScope(row), {
+        basePrefix,
+        roots,
+        excludePrefixes: collectExcludedLockPrefixes(lockRows, roots, () => false),
+        filename: buildZipFileName(roots, basePrefix, sanitizeShareFileName(meta.itemName || "download")),
+      });
+
+      void touchShareAccess(row);
+      if (returnJsonUrl) {
+        return json(200, { url: zipUrl });
+      }
+      return NextResponse.redirect(zipUrl, { status: 302 });
+    }
+
     const downloadKey = resolveShareDownloadKey(row, key);
     const filename = sanitizeShareFileName(downloadKey.split("/").pop() || meta.itemName || "download");
 
     const creds = await resolvePublicShareCredentials(row);
     const origin = new URL(req.url).origin;
-    const redirectUrl = await issueDownloadRedirectUrl(origin, creds, downloadKey, filename, forceDownload, forceProxy);
+    const redirectUrl = await issueDownloadRedirectUrl(origin, row, creds, downloadKey, filename, forceDownload, forceProxy);
 
     void touchShareAccess(row);
     if (returnJsonUrl) {
@@ -62,6 +62,7 @@ const encodeFilter = (value: string) => encodeURIComponent(value);
 const permissionLabels: Record<string, string> = {
   "bucket.add": "添加存储桶",
   "bucket.edit": "编辑存储桶",
+  "bucket.provision": "创建/删除远端存储桶",
   "object.upload": "上传文件",
   "object.mkdir": "新建文件夹",
   "object.rename": "重命名",
@@ -20,7 +20,17 @@ export type AuditLogAction =
   | "share_cleanup"
   | "folder_lock_enable"
   | "folder_lock_update"
-  | "folder_lock_disable";
+  | "folder_lock_disable"
+  | "metadata_update"
+  | "cors_update"
+  | "lifecycle_update"
+  | "storage_class_update"
+  | "multipart_abort"
+  | "bucket_create"
+  | "bucket_delete"
+  | "version_restore"
+  | "version_delete"
+  | "token_revoke";
 
 export type AuditLogItemType = "file" | "folder" | "bucket" | "share" | "system";
 
@@ -124,6 +134,16 @@ export const getAuditActionLabel = (action: string) => {
     folder_lock_enable: "启用加密",
     folder_lock_update: "更新加密",
     folder_lock_disable: "取消加密",
+    metadata_update: "修改元数据",
+    cors_update: "修改 CORS",
+    lifecycle_update: "修改生命周期",
+    storage_class_update: "更改存储类型",
+    multipart_abort: "清理分片上传",
+    bucket_create: "创建存储桶",
+    bucket_delete: "删除存储桶",
+    version_restore: "恢复历史版本",
+    version_delete: "删除历史版本",
+    token_revoke: "撤销访问链接",
   };
   return map[action] ?? action;
 };
@@ -73,6 +73,14 @@ const getEnv = (): EnvLike => {
   return p?.env ?? {};
 };
 
+// Keeps background work (such as edge cache writes) alive after the response is sent. Outside Workers the
+// promise simply runs detached.
+export const waitUntil = (promise: Promise<unknown>) => {
+  const guarded = promise.catch(() => {});
+  const ctx = getRequestContext() as { ctx?: { waitUntil?: (p: Promise<unknown>) => void } } | undefined;
+  if (typeof ctx?.ctx?.waitUntil === "function") ctx.ctx.waitUntil(guarded);
+};
+
 type ParsedBucketMap = {
   list: BoundBucket[];
   byId: Record<string, BoundBucket>;
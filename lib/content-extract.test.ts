@@ -0,0 +1,77 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { extractContentText, getContentSourceKind } from "@/lib/content-extract";
+
+const zipOf = (files: Record<string, string>) => {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) zip.file(path, content);
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+};
+
+const deflate = async (text: string) => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// A PDF reduced to what the extractor reads: a compressed content stream and a ToUnicode CMap.
+const pdfOf = async (content: string, cmap: string) => {
+  const latin1 = (text: string) => Uint8Array.from(text, (c) => c.charCodeAt(0));
+  const data = await deflate(content);
+  const parts = [
+    latin1(`%PDF-1.4\n1 0 obj\n<< /Length ${data.length} /Filter /FlateDecode >>\nstream\n`),
+    data,
+    latin1(`\nendstream\nendobj\n2 0 obj\n<< /Length ${cmap.length} >>\nstream\n${cmap}\nendstream\nendobj\n%%EOF\n`),
+  ];
+  return new Uint8Array(await new Blob(parts).arrayBuffer());
+};
+
+describe("extractContentText", () => {
+  it("decodes UTF-8 and falls back to GBK", async () => {
+    expect(await extractContentText("a.txt", new TextEncoder().encode("合同\r\n清单"))).toBe("合同\n清单");
+    expect(await extractContentText("a.txt", Uint8Array.from([0xd6, 0xd0, 0xce, 0xc4]))).toBe("中文");
+    expect(await extractContentText("a.txt", Uint8Array.from([0x61, 0x00, 0x62]))).toBe("");
+  });
+
+  it("reads the paragraphs of a docx", async () => {
+    const bytes = await zipOf({
+      "word/document.xml":
+        '<w:document><w:body><w:p><w:r><w:t>年度</w:t></w:r><w:r><w:t xml:space="preserve"> 报告 &amp; 总结</w:t></w:r></w:p>' +
+        "<w:p><w:r><w:instrText> PAGE </w:instrText><w:t>第二段</w:t><w:tab/><w:t>末尾</w:t></w:r></w:p></w:body></w:document>",
+    });
+    expect(await extractContentText("docs/report.docx", bytes)).toBe("年度 报告 & 总结\n第二段 末尾");
+  });
+
+  it("reads xlsx rows with shared, inline and numeric cells", async () => {
+    const bytes = await zipOf({
+      "xl/sharedStrings.xml": "<sst><si><t>名称</t></si><si><r><t>发</t></r><r><t>票</t></r></si></sst>",
+      "xl/worksheets/sheet2.xml": '<worksheet><sheetData><row r="1"><c r="A1"><v>2</v></c></row></sheetData></worksheet>',
+      "xl/worksheets/sheet1.xml":
+        '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+        '<row r="2"><c r="A2" t="inlineStr"><is><t>合计</t></is></c><c r="B2"><v>12.5</v></c><c r="C2"/></row></sheetData></worksheet>',
+    });
+    expect(await extractContentText("book.xlsx", bytes)).toBe("名称\t发票\n合计\t12.5\n\n2");
+  });
+
+  it("reads PDF text through the ToUnicode map", async () => {
+    const cmap = "/CIDInit /ProcSet findresource begin begincmap\n1 beginbfchar\n<0001> <4E2D>\nendbfchar\n1 beginbfrange\n<0002> <0003> <6587>\nendbfrange\nendcmap";
+    const bytes = await pdfOf("BT /F1 12 Tf 72 700 Td (Hello) Tj 0 -14 Td <000100020003> Tj ET", cmap);
+    expect(await extractContentText("scan.pdf", bytes)).toBe("Hello\n中文斈");
+  });
+
+  it("stops decompressing a zip entry past the size cap", async () => {
+    const bytes = await zipOf({ "word/document.xml": `<w:p><w:t>${"a".repeat(20 * 1024 * 1024)}</w:t></w:p>` });
+    expect(bytes.length).toBeLessThan(1024 * 1024);
+    const text = await extractContentText("bomb.docx", bytes);
+    expect(text.length).toBeGreaterThan(0);
+    expect(text.length).toBeLessThanOrEqual(16 * 1024 * 1024);
+  });
+});
+
+describe("getContentSourceKind", () => {
+  it("tells text from documents and skips everything else", () => {
+    expect(getContentSourceKind("notes.md")).toBe("text");
+    expect(getContentSourceKind("a/b.PDF")).toBe("document");
+    expect(getContentSourceKind("photo.jpg")).toBeNull();
+    expect(getContentSourceKind("folder/")).toBeNull();
+  });
+});
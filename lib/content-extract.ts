@@ -0,0 +1,421 @@
+import JSZip from "jszip";
+import { isPlainTextFileName } from "@/lib/preview-hints";
+
+// Plain text out of the files the content index (lib/content-index.ts) searches: the text/code types the
+// text preview shows, plus Word (docx), Excel (xlsx) and PDF documents. Extraction is deliberately small:
+// no layout, no legacy binary formats, and PDFs only yield text that is stored as text.
+
+export type ContentSourceKind = "text" | "document";
+
+type Extractor = (bytes: Uint8Array) => Promise<string>;
+
+// Decompressed bytes one document may expand to (zip entries, PDF streams). A small file can hold
+// gigabytes of zeros, so decompression stops here and extraction carries on with what it has.
+const MAX_UNPACKED_BYTES = 16 * 1024 * 1024;
+
+type UnpackBudget = { remaining: number };
+
+const concatBytes = (chunks: Uint8Array[]) => {
+  const out = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+// Adds a decompressed chunk, cut to what is left of the budget; false once the budget is spent.
+const takeUnpacked = (chunks: Uint8Array[], chunk: Uint8Array, budget: UnpackBudget) => {
+  chunks.push(chunk.length > budget.remaining ? chunk.subarray(0, budget.remaining) : chunk);
+  budget.remaining = Math.max(0, budget.remaining - chunk.length);
+  return budget.remaining > 0;
+};
+
+const extensionOf = (key: string) => {
+  const name = key.split("/").pop() ?? "";
+  const idx = name.lastIndexOf(".");
+  if (idx <= 0 || idx === name.length - 1) return "";
+  return name.slice(idx + 1).toLowerCase();
+};
+
+const decodeXmlEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    const lower = code.toLowerCase();
+    if (lower === "amp") return "&";
+    if (lower === "lt") return "<";
+    if (lower === "gt") return ">";
+    if (lower === "quot") return '"';
+    if (lower === "apos") return "'";
+    const n = lower.startsWith("#x") ? Number.parseInt(lower.slice(2), 16) : Number.parseInt(lower.slice(1), 10);
+    return Number.isFinite(n) && n > 0 && n <= 0x10ffff ? String.fromCodePoint(n) : entity;
+  });
+
+// Collapses the whitespace left over by markup while keeping line breaks, so hit lines stay meaningful.
+const tidyText = (text: string) =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[^\S\n]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+// UTF-8 first; files that are not valid UTF-8 are mostly GBK/GB18030 here. A NUL byte means binary data.
+const extractPlainText: Extractor = async (bytes) => {
+  if (bytes.includes(0)) return "";
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    try {
+      return new TextDecoder("gb18030").decode(bytes);
+    } catch {
+      return new TextDecoder("utf-8").decode(bytes);
+    }
+  }
+};
+
+// JSZip documents `internalStream` but leaves it out of its typings; unlike `async` it can be paused.
+type ZipEntryStream = {
+  on(event: "data", callback: (chunk: Uint8Array) => void): ZipEntryStream;
+  on(event: "end", callback: () => void): ZipEntryStream;
+  on(event: "error", callback: (error: Error) => void): ZipEntryStream;
+  pause(): ZipEntryStream;
+  resume(): ZipEntryStream;
+};
+
+// UTF-8 text of one zip entry, cut off where the budget runs out; null when the entry is missing.
+const readZipText = (zip: JSZip, path: string, budget: UnpackBudget) =>
+  new Promise<string | null>((resolve, reject) => {
+    const file = zip.file(path) as (JSZip.JSZipObject & { internalStream(type: "uint8array"): ZipEntryStream }) | null;
+    if (!file) return resolve(null);
+    const chunks: Uint8Array[] = [];
+    const done = () => resolve(new TextDecoder("utf-8").decode(concatBytes(chunks)));
+    if (budget.remaining <= 0) return done();
+    const stream = file.internalStream("uint8array");
+    stream
+      .on("data", (chunk) => {
+        if (takeUnpacked(chunks, chunk, budget)) return;
+        stream.pause();
+        done();
+      })
+      .on("error", reject)
+      .on("end", done)
+      .resume();
+  });
+
+const extractDocx: Extractor = async (bytes) => {
+  const zip = await JSZip.loadAsync(bytes);
+  const xml = await readZipText(zip, "word/document.xml", { remaining: MAX_UNPACKED_BYTES });
+  if (!xml) return "";
+  return tidyText(
+    decodeXmlEntities(
+      xml
+        // Field codes (page numbers, TOC switches) are not visible text.
+        .replace(/<w:instrText\b[^>]*>[\s\S]*?<\/w:instrText>/g, "")
+        .replace(/<w:tab\/>/g, "\t")
+        .replace(/<w:br\b[^>]*\/>|<\/w:p>/g, "\n")
+        .replace(/<[^>]+>/g, ""),
+    ),
+  );
+};
+
+const readSheetNumber = (path: string) => Number(/sheet(\d+)\.xml$/.exec(path)?.[1] ?? 0);
+
+// One line per row, cells separated by tabs; shared strings are resolved, numbers kept as stored.
+const extractXlsx: Extractor = async (bytes) => {
+  const zip = await JSZip.loadAsync(bytes);
+  const budget: UnpackBudget = { remaining: MAX_UNPACKED_BYTES };
+  const sharedXml = (await readZipText(zip, "xl/sharedStrings.xml", budget)) ?? "";
+  const shared = Array.from(sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g), (match) =>
+    decodeXmlEntities(Array.from(match[1].matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), (t) => t[1]).join("")),
+  );
+  const sheetPaths = Object.keys(zip.files)
+    .filter((path) => /^xl\/worksheets\/sheet\d+\.xml$/.test(path))
+    .sort((a, b) => readSheetNumber(a) - readSheetNumber(b));
+  const sheets: string[] = [];
+  for (const path of sheetPaths) {
+    if (budget.remaining <= 0) break;
+    const xml = (await readZipText(zip, path, budget)) ?? "";
+    const rows: string[] = [];
+    for (const row of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+      const cells: string[] = [];
+      for (const cell of row[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const attrs = cell[1];
+        const body = cell[2] ?? "";
+        const type = /\bt="([^"]+)"/.exec(attrs)?.[1];
+        const value = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+        if (type === "s") cells.push(shared[Number(value)] ?? "");
+        else if (type === "inlineStr") cells.push(decodeXmlEntities(Array.from(body.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), (t) => t[1]).join("")));
+        else if (value !== undefined) cells.push(decodeXmlEntities(value));
+      }
+      if (cells.some(Boolean)) rows.push(cells.join("\t"));
+    }
+    if (rows.length) sheets.push(rows.join("\n"));
+  }
+  return sheets.join("\n\n").trim();
+};
+
+// --- PDF ---------------------------------------------------------------------------------------------
+// Walks every stream in the file: ToUnicode CMaps are merged into one code table (fonts are not told
+// apart), and text-showing operators in content streams are decoded through it. Scanned pages and
+// fonts without a ToUnicode map yield nothing or Latin-1 guesses.
+
+type PdfCodeTable = { codes: Map<number, string>; width: number };
+
+const toBinaryString = (bytes: Uint8Array) => {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return out;
+};
+
+const inflate = async (data: Uint8Array, budget: UnpackBudget) => {
+  const reader = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream("deflate")).getReader();
+  const chunks: Uint8Array[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (!takeUnpacked(chunks, value, budget)) {
+      await reader.cancel();
+      break;
+    }
+  }
+  return concatBytes(chunks);
+};
+
+const readPdfStreams = async (bytes: Uint8Array) => {
+  const raw = toBinaryString(bytes);
+  const streams: string[] = [];
+  const budget: UnpackBudget = { remaining: MAX_UNPACKED_BYTES };
+  const marker = /(?<!end)stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while (budget.remaining > 0 && (match = marker.exec(raw))) {
+    const start = match.index + match[0].length;
+    const dictStart = raw.lastIndexOf("obj", match.index);
+    const dict = dictStart >= 0 ? raw.slice(dictStart, match.index) : "";
+    const directLength = /\/Length\s+(\d+)\b(?!\s+\d+\s+R)/.exec(dict);
+    const end = directLength ? start + Number(directLength[1]) : raw.indexOf("endstream", start);
+    if (end < start) break;
+    marker.lastIndex = end;
+    if (/\/Subtype\s*\/Image|\/DCTDecode|\/JPXDecode|\/Length[123]\b|\/Type\s*\/(ObjStm|XRef)/.test(dict)) continue;
+    const data = bytes.subarray(start, end);
+    if (!/\/FlateDecode/.test(dict)) {
+      streams.push(raw.slice(start, end));
+      continue;
+    }
+    try {
+      streams.push(toBinaryString(await inflate(data, budget)));
+    } catch {
+      // Damaged or unsupported stream; the rest of the file may still have text.
+    }
+  }
+  return streams;
+};
+
+const hexToBytes = (hex: string) => {
+  const clean = hex.replace(/[^0-9a-f]/gi, "");
+  const padded = clean.length % 2 ? `${clean}0` : clean;
+  const out: number[] = [];
+  for (let i = 0; i < padded.length; i += 2) out.push(Number.parseInt(padded.slice(i, i + 2), 16));
+  return out;
+};
+
+const utf16BeToString = (bytes: number[]) => {
+  let out = "";
+  for (let i = 0; i + 1 < bytes.length; i += 2) out += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  return out;
+};
+
+const readCodeTable = (streams: string[]): PdfCodeTable => {
+  const table: PdfCodeTable = { codes: new Map(), width: 1 };
+  const hexToCode = (hex: string) => {
+    table.width = Math.max(table.width, Math.ceil(hex.length / 2));
+    return Number.parseInt(hex || "0", 16);
+  };
+  for (const cmap of streams) {
+    if (!cmap.includes("begincmap")) continue;
+    for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+      for (const pair of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi)) {
+        table.codes.set(hexToCode(pair[1]), utf16BeToString(hexToBytes(pair[2])));
+      }
+    }
+    for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+      for (const range of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi)) {
+        const low = hexToCode(range[1]);
+        const high = Math.min(hexToCode(range[2]), low + 0xffff);
+        if (range[3].startsWith("[")) {
+          const targets = Array.from(range[3].matchAll(/<([0-9a-f]*)>/gi), (t) => utf16BeToString(hexToBytes(t[1])));
+          targets.forEach((target, offset) => table.codes.set(low + offset, target));
+          continue;
+        }
+        const first = hexToBytes(range[3].slice(1, -1));
+        for (let code = low; code <= high; code += 1) {
+          const target = first.slice();
+          target[target.length - 1] += code - low;
+          table.codes.set(code, utf16BeToString(target));
+        }
+      }
+    }
+  }
+  return table;
+};
+
+const decodePdfString = (bytes: number[], table: PdfCodeTable) => {
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return utf16BeToString(bytes.slice(2));
+  if (table.codes.size && bytes.length % table.width === 0) {
+    let out = "";
+    let hits = 0;
+    for (let i = 0; i < bytes.length; i += table.width) {
+      let code = 0;
+      for (let j = 0; j < table.width; j += 1) code = (code << 8) | bytes[i + j];
+      const mapped = table.codes.get(code);
+      if (mapped !== undefined) {
+        out += mapped;
+        hits += 1;
+      }
+    }
+    if (hits) return out;
+  }
+  return String.fromCharCode(...bytes);
+};
+
+// Strings are wrapped so a TJ array can be told apart from a single string's bytes.
+type PdfString = { bytes: number[] };
+type PdfOperand = number | string | PdfString | PdfOperand[];
+
+const LITERAL_ESCAPES: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+
+// Tokenizes one content stream and writes the text shown by Tj, TJ, ' and ", breaking lines on moves to a new line.
+const readContentStreamText = (content: string, table: PdfCodeTable) => {
+  let out = "";
+  let lastY: number | null = null;
+  const newline = () => {
+    if (out && !out.endsWith("\n")) out += "\n";
+  };
+  const show = (operand: PdfOperand | undefined) => {
+    if (Array.isArray(operand)) {
+      for (const part of operand) {
+        // Large negative kerning in a TJ array is how many PDFs write a space.
+        if (typeof part === "number" && part < -250) out += " ";
+        else if (typeof part === "object" && !Array.isArray(part)) out += decodePdfString(part.bytes, table);
+      }
+    } else if (typeof operand === "object") {
+      out += decodePdfString(operand.bytes, table);
+    }
+  };
+
+  const stack: PdfOperand[][] = [[]];
+  const push = (value: PdfOperand) => stack[stack.length - 1].push(value);
+  let i = 0;
+  while (i < content.length) {
+    const c = content[i];
+    if (c === "%") {
+      const end = content.indexOf("\n", i);
+      i = end < 0 ? content.length : end + 1;
+    } else if (c === "(") {
+      const bytes: number[] = [];
+      let depth = 1;
+      i += 1;
+      while (i < content.length && depth > 0) {
+        const ch = content[i];
+        if (ch === "\\") {
+          const next = content[i + 1] ?? "";
+          if (/[0-7]/.test(next)) {
+            const octal = /^[0-7]{1,3}/.exec(content.slice(i + 1, i + 4))?.[0] ?? "0";
+            bytes.push(Number.parseInt(octal, 8) & 0xff);
+            i += 1 + octal.length;
+            continue;
+          }
+          if (next === "\r" || next === "\n") {
+            i += next === "\r" && content[i + 2] === "\n" ? 3 : 2;
+            continue;
+          }
+          bytes.push(LITERAL_ESCAPES[next] ?? next.charCodeAt(0));
+          i += 2;
+          continue;
+        }
+        if (ch === "(") depth += 1;
+        if (ch === ")") depth -= 1;
+        if (depth > 0) bytes.push(ch.charCodeAt(0) & 0xff);
+        i += 1;
+      }
+      push({ bytes });
+    } else if (c === "<" && content[i + 1] !== "<") {
+      const end = content.indexOf(">", i);
+      push({ bytes: hexToBytes(content.slice(i + 1, end < 0 ? content.length : end)) });
+      i = end < 0 ? content.length : end + 1;
+    } else if (c === "[") {
+      stack.push([]);
+      i += 1;
+    } else if (c === "]") {
+      push(stack.length > 1 ? stack.pop()! : []);
+      i += 1;
+    } else if (/[\s<>{}]/.test(c)) {
+      i += 1;
+    } else {
+      const token = /^[^\s()<>[\]{}/%]+|^\/[^\s()<>[\]{}/%]*/.exec(content.slice(i, i + 128))?.[0] ?? c;
+      i += token.length;
+      if (token.startsWith("/")) {
+        push(token);
+        continue;
+      }
+      const n = Number(token);
+      if (Number.isFinite(n) && /^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+        push(n);
+        continue;
+      }
+      const operands = stack[0];
+      if (token === "Tj") show(operands[operands.length - 1]);
+      else if (token === "TJ") show(operands[operands.length - 1]);
+      else if (token === "'" || token === '"') {
+        newline();
+        show(operands[operands.length - 1]);
+      } else if (token === "T*") newline();
+      else if ((token === "Td" || token === "TD") && Number(operands[operands.length - 1]) !== 0) newline();
+      else if (token === "Tm") {
+        const y = Number(operands[operands.length - 1]);
+        if (lastY !== null && y !== lastY) newline();
+        lastY = y;
+      } else if (token === "ET") out += out.endsWith("\n") ? "" : " ";
+      else if (token === "ID") {
+        // Inline image data is binary; skip to its end marker.
+        const end = content.indexOf("EI", i);
+        i = end < 0 ? content.length : end + 2;
+      }
+      stack.length = 1;
+      stack[0] = [];
+    }
+  }
+  return out;
+};
+
+const extractPdf: Extractor = async (bytes) => {
+  const streams = await readPdfStreams(bytes);
+  const table = readCodeTable(streams);
+  const parts: string[] = [];
+  for (const stream of streams) {
+    if (stream.includes("begincmap") || !/\bBT\b/.test(stream)) continue;
+    parts.push(readContentStreamText(stream, table));
+  }
+  // Drops control characters left by fonts whose codes could not be mapped.
+  return tidyText(parts.join("\n").replace(/[\u0000-\u0008\u000b-\u001f\u007f-\u009f]/g, ""));
+};
+
+const DOCUMENT_EXTRACTORS: Record<string, Extractor> = {
+  docx: extractDocx,
+  xlsx: extractXlsx,
+  pdf: extractPdf,
+};
+
+// Null for keys the content index does not read at all.
+export const getContentSourceKind = (key: string): ContentSourceKind | null => {
+  if (key.endsWith("/")) return null;
+  if (isPlainTextFileName(key)) return "text";
+  return DOCUMENT_EXTRACTORS[extensionOf(key)] ? "document" : null;
+};
+
+export const extractContentText = async (key: string, bytes: Uint8Array) => {
+  const kind = getContentSourceKind(key);
+  if (kind === "text") return (await extractPlainText(bytes)).replace(/\r\n?/g, "\n");
+  const extractor = DOCUMENT_EXTRACTORS[extensionOf(key)];
+  return extractor ? await extractor(bytes) : "";
+};
@@ -0,0 +1,223 @@
+import { extractContentText, getContentSourceKind } from "@/lib/content-extract";
+import { isRecycleHiddenKey } from "@/lib/file-marks";
+import type { ObjectIndexScope } from "@/lib/object-index";
+import type { R2BucketLike, R2ObjectSummaryLike } from "@/lib/r2-s3";
+import { readSupabaseRestArray, supabaseAdminRestFetch } from "@/lib/supabase";
+import { getTeamBucketDetail } from "@/lib/user-buckets";
+
+// Full-text index of text and document contents (user_r2_content_index), for buckets with
+// contentIndexEnabled. Uploads through the panel index the new object once the response is sent; a
+// "content_index" job (lib/jobs.ts) crawls the whole bucket and only downloads objects whose etag changed.
+// Rows reference the object index, so deletes, moves and reindex pruning carry over without extra calls.
+
+// Text files past this are not indexed; it matches how much of a file the text preview loads.
+export const CONTENT_INDEX_MAX_TEXT_BYTES = 1024 * 1024;
+export const CONTENT_INDEX_MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+// Extracted text is cut off here, so one huge spreadsheet cannot bloat the table.
+const MAX_CONTENT_LENGTH = 200_000;
+const KEY_CHUNK_SIZE = 500;
+const EXTRACT_CONCURRENCY = 4;
+
+export type ContentSearchHit = {
+  key: string;
+  size: number;
+  uploaded?: string;
+  // Text around the first hit, whitespace collapsed.
+  snippet: string;
+  // 1-based line of the extracted text the hit is on.
+  line: number;
+};
+
+type ContentRow = {
+  key: string;
+  etag?: string;
+  content: string;
+};
+
+type SearchRow = {
+  key: string;
+  size: number | string | null;
+  uploaded: string | null;
+  snippet: string | null;
+  hit_line: number | null;
+};
+
+const encodeFilter = (value: string) => encodeURIComponent(value);
+
+const readNumber = (value: unknown) => {
+  const n = Number(value ?? 0);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const normalizeIso = (value?: string | null) => {
+  if (!value) return undefined;
+  const n = Date.parse(value);
+  return Number.isFinite(n) ? new Date(n).toISOString() : undefined;
+};
+
+const chunk = <T>(items: T[], size: number) => {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+};
+
+const callRpc = async (name: string, body: Record<string, unknown>, fallback: string) => {
+  const res = await supabaseAdminRestFetch(`rpc/${name}`, { method: "POST", body });
+  if (!res.ok) await readSupabaseRestArray(res, fallback);
+  return res;
+};
+
+// Empty objects have nothing to find, and size limits keep a crawl step within its time budget.
+export const isContentIndexable = (key: string, size?: number) => {
+  if (!key || isRecycleHiddenKey(key)) return false;
+  const kind = getContentSourceKind(key);
+  if (!kind) return false;
+  const bytes = readNumber(size);
+  return bytes > 0 && bytes <= (kind === "text" ? CONTENT_INDEX_MAX_TEXT_BYTES : CONTENT_INDEX_MAX_DOCUMENT_BYTES);
+};
+
+export const isContentIndexEnabled = async (scope: ObjectIndexScope) =>
+  (await getTeamBucketDetail(scope.teamId, scope.bucketId)).contentIndexEnabled;
+
+// Damaged or unreadable files are stored with empty text, so the crawler does not retry them until they change.
+const readObjectContent = async (bucket: R2BucketLike, key: string): Promise<ContentRow | null> => {
+  const obj = await bucket.get(key);
+  if (!obj?.body) return null;
+  let content = "";
+  try {
+    const bytes = new Uint8Array(await new Response(obj.body).arrayBuffer());
+    content = (await extractContentText(key, bytes)).slice(0, MAX_CONTENT_LENGTH);
+  } catch {
+    content = "";
+  }
+  return { key, etag: obj.etag, content };
+};
+
+const writeRows = async (scope: ObjectIndexScope, rows: ContentRow[]) => {
+  if (!rows.length) return;
+  const indexedAt = new Date().toISOString();
+  const res = await supabaseAdminRestFetch("user_r2_content_index?on_conflict=bucket_id,key", {
+    method: "POST",
+    body: rows.map((row) => ({
+      team_id: scope.teamId,
+      bucket_id: scope.bucketId,
+      key: row.key,
+      etag: row.etag ?? null,
+      content: row.content,
+      indexed_at: indexedAt,
+    })),
+    prefer: "resolution=merge-duplicates,return=minimal",
+  });
+  if (!res.ok) await readSupabaseRestArray(res, "更新内容索引失败");
+};
+
+const deleteKeys = async (scope: ObjectIndexScope, keys: string[]) => {
+  for (const part of chunk(keys, KEY_CHUNK_SIZE)) {
+    await callRpc("r2_content_index_delete_keys", { p_bucket_id: scope.bucketId, p_keys: part }, "更新内容索引失败");
+  }
+};
+
+const readIndexedEtags = async (scope: ObjectIndexScope, keys: string[]) => {
+  const etags = new Map<string, string | null>();
+  for (const part of chunk(keys, KEY_CHUNK_SIZE)) {
+    const res = await callRpc("r2_content_index_etags", { p_bucket_id: scope.bucketId, p_keys: part }, "读取内容索引失败");
+    const rows = await readSupabaseRestArray<{ key: string; etag: string | null }>(res, "读取内容索引失败");
+    for (const row of rows) etags.set(row.key, row.etag);
+  }
+  return etags;
+};
+
+// Indexes one object after a write through the panel; call it after the object index row is in place, and
+// hand it to waitUntil (lib/cf.ts) so downloading and extracting the file does not hold up the response.
+// Never fails the upload, like the object index upkeep.
+export const indexObjectContent = async (scope: ObjectIndexScope, bucket: R2BucketLike, key: string) => {
+  try {
+    if (!(await isContentIndexEnabled(scope))) return;
+    const head = await bucket.head(key);
+    if (!head) return;
+    if (!isContentIndexable(key, head.size)) {
+      // An indexable file may have been replaced by one that is too large.
+      await deleteKeys(scope, [key]);
+      return;
+    }
+    const row = await readObjectContent(bucket, key);
+    if (row) await writeRows(scope, [row]);
+  } catch {
+    // Ignored on purpose; the next content index job picks the object up.
+  }
+};
+
+// Crawler step for one listing page, whose object index rows must already be written. Works through the
+// page in key order until `deadline` and returns how many of `objects` it finished (at least one batch).
+export const indexObjectContents = async (
+  scope: ObjectIndexScope,
+  bucket: R2BucketLike,
+  objects: R2ObjectSummaryLike[],
+  deadline: number,
+) => {
+  const etags = await readIndexedEtags(scope, objects.map((obj) => obj.key));
+  const stale = objects.filter((obj) => etags.has(obj.key) && !isContentIndexable(obj.key, obj.size)).map((obj) => obj.key);
+  if (stale.length) await deleteKeys(scope, stale);
+
+  const pending = objects
+    .map((obj, index) => ({ obj, index }))
+    .filter(({ obj }) => isContentIndexable(obj.key, obj.size) && (!etags.has(obj.key) || etags.get(obj.key) !== (obj.etag ?? null)));
+  for (let i = 0; i < pending.length; i += EXTRACT_CONCURRENCY) {
+    if (i > 0 && Date.now() >= deadline) return pending[i].index;
+    const batch = pending.slice(i, i + EXTRACT_CONCURRENCY);
+    const rows = await Promise.all(batch.map(({ obj }) => readObjectContent(bucket, obj.key)));
+    await writeRows(scope, rows.filter((row): row is ContentRow => Boolean(row)));
+  }
+  return objects.length;
+};
+
+export const clearContentIndex = async (scope: ObjectIndexScope) => {
+  const res = await supabaseAdminRestFetch(`user_r2_content_index?bucket_id=eq.${encodeFilter(scope.bucketId)}`, {
+    method: "DELETE",
+    prefer: "return=minimal",
+  });
+  if (!res.ok) await readSupabaseRestArray(res, "清理内容索引失败");
+};
+
+// Key-ordered pages of files whose text contains every term; the cursor is the last key returned.
+export const searchContentIndex = async (
+  scope: ObjectIndexScope,
+  query: { terms: string[]; prefix: string },
+  page: { cursor?: string | null; limit: number },
+) => {
+  const res = await callRpc(
+    "r2_content_index_search",
+    {
+      p_bucket_id: scope.bucketId,
+      p_terms: query.terms,
+      p_prefix: query.prefix,
+      p_after_key: page.cursor ?? "",
+      p_limit: page.limit + 1,
+    },
+    "搜索文件内容失败",
+  );
+  const rows = await readSupabaseRestArray<SearchRow>(res, "搜索文件内容失败");
+  const items = rows.slice(0, page.limit);
+  return {
+    items: items.map(
+      (row): ContentSearchHit => ({
+        key: row.key,
+        size: readNumber(row.size),
+        uploaded: normalizeIso(row.uploaded),
+        snippet: String(row.snippet ?? "").replace(/\s+/g, " ").trim(),
+        line: Math.max(1, readNumber(row.hit_line)),
+      }),
+    ),
+    cursor: rows.length > page.limit ? items[items.length - 1]?.key ?? null : null,
+  };
+};
+
+// Stored text of one file, for previewing documents at a content hit; null when it was never indexed.
+export const readIndexedContent = async (scope: ObjectIndexScope, key: string) => {
+  const res = await supabaseAdminRestFetch(
+    `user_r2_content_index?select=content&bucket_id=eq.${encodeFilter(scope.bucketId)}&key=eq.${encodeFilter(key)}&limit=1`,
+    { method: "GET" },
+  );
+  const rows = await readSupabaseRestArray<{ content: string | null }>(res, "读取文件内容索引失败");
+  return rows[0] ? String(rows[0].content ?? "") : null;
+};
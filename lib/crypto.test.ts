@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  b64urlEncode,
+  decryptCredential,
+  encryptCredential,
+  getCredentialKeyId,
+  getCredentialKeyring,
+  issueSealedPayload,
+  readSealedPayload,
+} from "@/lib/crypto";
+
+const { env } = vi.hoisted(() => ({ env: new Map<string, string>() }));
+
+vi.mock("@/lib/env", () => ({
+  getEnvString: (...keys: string[]) => keys.map((key) => env.get(key) ?? "").find(Boolean) ?? "",
+}));
+
+// v1 ciphertexts predate key IDs: `v1.<iv>.<data>`, sealed with the single configured secret.
+const sealV1 = async (secret: string, plainText: string) => {
+  const hash = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`bucket-credential:${secret}`));
+  const key = await crypto.subtle.importKey("raw", hash, { name: "AES-GCM" }, false, ["encrypt"]);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(plainText));
+  return `v1.${b64urlEncode(iv)}.${b64urlEncode(new Uint8Array(data))}`;
+};
+
+describe("credential keyring", () => {
+  beforeEach(() => {
+    env.clear();
+  });
+
+  it("parses IDs newest first and keeps the single-key secret as the legacy key", () => {
+    env.set("CREDENTIALS_ENCRYPTION_KEYS", "k2:new-secret,\nk1:old:secret");
+    env.set("CREDENTIALS_ENCRYPTION_KEY", "legacy-secret");
+    const keyring = getCredentialKeyring();
+    expect(keyring.primary).toEqual({ id: "k2", secret: "new-secret" });
+    expect(keyring.keys.map((key) => key.id)).toEqual(["k2", "k1", "default"]);
+    expect(keyring.keys[1].secret).toBe("old:secret");
+  });
+
+  it.each([
+    ["k1", "格式无效"],
+    ["bad id:secret", "格式无效"],
+    ["k1:a,k1:b", "重复"],
+    ["", "缺少环境变量"],
+  ])("rejects the keyring %j", (raw, message) => {
+    env.set("CREDENTIALS_ENCRYPTION_KEYS", raw);
+    expect(() => getCredentialKeyring()).toThrow(message);
+  });
+
+  it("seals with the primary key and still opens data sealed with older keys", async () => {
+    env.set("CREDENTIALS_ENCRYPTION_KEYS", "k1:old-secret");
+    const old = await encryptCredential("AKID-1");
+    expect(getCredentialKeyId(old)).toBe("k1");
+
+    env.set("CREDENTIALS_ENCRYPTION_KEYS", "k2:new-secret,k1:old-secret");
+    const fresh = await encryptCredential("AKID-2");
+    expect(getCredentialKeyId(fresh)).toBe("k2");
+    await expect(decryptCredential(old)).resolves.toBe("AKID-1");
+    await expect(decryptCredential(fresh)).resolves.toBe("AKID-2");
+
+    env.set("CREDENTIALS_ENCRYPTION_KEYS", "k2:new-secret");
+    await expect(decryptCredential(old)).rejects.toThrow("没有 ID 为「k1」的密钥");
+  });
+
+  it("opens v1 ciphertexts with any key in the ring and passes plain values through", async () => {
+    const sealed = await sealV1("legacy-secret", "SECRET");
+    env.set("CREDENTIALS_ENCRYPTION_KEYS", "k2:new-secret");
+    env.set("CREDENTIALS_ENCRYPTION_KEY", "legacy-secret");
+    await expect(decryptCredential(sealed)).resolves.toBe("SECRET");
+    expect(getCredentialKeyId(sealed)).toBeNull();
+    await expect(decryptCredential("plain")).resolves.toBe("plain");
+    await expect(decryptCredential("")).resolves.toBe("");
+  });
+
+  it("fails on a key whose secret changed under the same ID", async () => {
+    env.set("CREDENTIALS_ENCRYPTION_KEYS", "k1:first");
+    const sealed = await encryptCredential("AKID");
+    env.set("CREDENTIALS_ENCRYPTION_KEYS", "k1:second");
+    await expect(decryptCredential(sealed)).rejects.toThrow("密钥解密失败");
+  });
+});
+
+describe("sealed payloads", () => {
+  beforeEach(() => {
+    env.clear();
+    env.set("ROUTE_TOKEN_SECRETS", "t1:token-secret");
+  });
+
+  it("round-trips payloads and rejects expired ones", async () => {
+    const token = await issueSealedPayload({ key: "a.txt" }, 60);
+    await expect(readSealedPayload(token)).resolves.toEqual({ key: "a.txt" });
+
+    vi.useFakeTimers({ now: Date.now() + 10 * 60 * 1000 });
+    try {
+      await expect(readSealedPayload(token)).rejects.toThrow("操作令牌已过期");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("falls back to the credential keyring when no token secret is configured", async () => {
+    env.clear();
+    env.set("CREDENTIALS_ENCRYPTION_KEYS", "k2:new-secret,k1:old-secret");
+    const token = await issueSealedPayload({ key: "a.txt" }, 60);
+    expect(token.split(".")[1]).toBe("k2");
+    await expect(readSealedPayload(token)).resolves.toEqual({ key: "a.txt" });
+
+    env.set("ROUTE_TOKEN_SECRET", "token-secret");
+    await expect(readSealedPayload(token)).rejects.toThrow();
+  });
+});
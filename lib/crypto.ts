@@ -1,4 +1,4 @@
-import { requireEnvString, getEnvString } from "@/lib/env";
+import { getEnvString } from "@/lib/env";
 
 const encoder = new TextEncoder();
 const decoder = new TextDecoder();
@@ -67,57 +67,125 @@ const deriveAesKey = async (secret: string, purpose: string) => {
   }
 };
 
-const encryptText = async (secret: string, purpose: string, plainText: string) => {
+// A keyring lists every secret that may still have sealed data in circulation. New data is always sealed
+// with the first (primary) key and tagged with its ID (`v2.<kid>.<iv>.<data>`); older keys stay readable
+// until everything sealed with them has been migrated or has expired.
+type KeyringEntry = { id: string; secret: string };
+
+export type Keyring = {
+  primary: KeyringEntry;
+  keys: KeyringEntry[];
+};
+
+// Key ID used for a secret configured through the single-key variables, so data sealed before a
+// keyring was configured keeps decrypting once that secret is listed under this ID.
+export const LEGACY_KEY_ID = "default";
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+// Parses `kid:secret` entries separated by commas or newlines, newest first.
+const parseKeyring = (envName: string, raw: string, legacySecret: string): Keyring => {
+  const keys: KeyringEntry[] = [];
+  for (const part of raw.split(/[,\n]/)) {
+    const entry = part.trim();
+    if (!entry) continue;
+    const sep = entry.indexOf(":");
+    const id = sep > 0 ? entry.slice(0, sep).trim() : "";
+    const secret = sep > 0 ? entry.slice(sep + 1).trim() : "";
+    if (!KEY_ID_PATTERN.test(id) || !secret) {
+      throw new Error(`环境变量 ${envName} 格式无效：每项应为「密钥ID:密钥」，ID 仅可包含字母、数字、- 和 _`);
+    }
+    if (keys.some((key) => key.id === id)) throw new Error(`环境变量 ${envName} 中的密钥 ID「${id}」重复`);
+    keys.push({ id, secret });
+  }
+  if (legacySecret && !keys.some((key) => key.id === LEGACY_KEY_ID)) keys.push({ id: LEGACY_KEY_ID, secret: legacySecret });
+  if (!keys.length) throw new Error(`缺少环境变量：${envName}`);
+  return { primary: keys[0], keys };
+};
+
+const encryptText = async (keyring: Keyring, purpose: string, plainText: string) => {
+  const { id, secret } = keyring.primary;
   const key = await deriveAesKey(secret, purpose);
   const iv = crypto.getRandomValues(new Uint8Array(12));
   const cipher = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, encoder.encode(plainText));
-  return `v1.${b64urlEncode(iv)}.${b64urlEncode(new Uint8Array(cipher))}`;
+  return `v2.${id}.${b64urlEncode(iv)}.${b64urlEncode(new Uint8Array(cipher))}`;
 };
 
-const decryptText = async (secret: string, purpose: string, sealed: string) => {
-  const [version, ivB64, dataB64] = sealed.split(".", 3);
-  if (version !== "v1" || !ivB64 || !dataB64) throw new Error("密文格式无效");
+const tryDecrypt = async (secret: string, purpose: string, iv: BufferSource, data: BufferSource) => {
   const key = await deriveAesKey(secret, purpose);
-  const iv = b64urlDecode(ivB64);
-  const data = b64urlDecode(dataB64);
   try {
     const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, data);
     return decoder.decode(new Uint8Array(plain));
   } catch {
-    throw new Error("密钥解密失败：请检查 CREDENTIALS_ENCRYPTION_KEY 是否与历史配置一致。");
+    return null;
   }
 };
 
-const getCredentialSecret = () => requireEnvString("CREDENTIALS_ENCRYPTION_KEY");
+const decryptText = async (keyring: Keyring, purpose: string, sealed: string) => {
+  const parts = sealed.split(".");
+  // v1 ciphertexts carry no key ID, so every key in the ring is tried.
+  const [version, kid, ivB64, dataB64] = parts[0] === "v1" ? [parts[0], "", parts[1], parts[2]] : parts;
+  if ((version !== "v1" && version !== "v2") || !ivB64 || !dataB64) throw new Error("密文格式无效");
+  const iv = b64urlDecode(ivB64);
+  const data = b64urlDecode(dataB64);
+
+  const candidates = version === "v2" ? keyring.keys.filter((key) => key.id === kid) : keyring.keys;
+  if (!candidates.length) throw new Error(`密钥解密失败：当前密钥环中没有 ID 为「${kid}」的密钥。`);
+  for (const candidate of candidates) {
+    const plain = await tryDecrypt(candidate.secret, purpose, iv, data);
+    if (plain !== null) return plain;
+  }
+  throw new Error("密钥解密失败：请检查 CREDENTIALS_ENCRYPTION_KEYS / CREDENTIALS_ENCRYPTION_KEY 是否包含历史密钥。");
+};
 
-const getRouteTokenSecret = () => {
-  const secret = getEnvString("ROUTE_TOKEN_SECRET", "ACCESS_TOKEN_SECRET", "CREDENTIALS_ENCRYPTION_KEY");
-  if (!secret) throw new Error("缺少环境变量：ROUTE_TOKEN_SECRET 或 CREDENTIALS_ENCRYPTION_KEY");
-  return secret;
+export const getCredentialKeyring = () =>
+  parseKeyring(
+    "CREDENTIALS_ENCRYPTION_KEYS",
+    getEnvString("CREDENTIALS_ENCRYPTION_KEYS"),
+    getEnvString("CREDENTIALS_ENCRYPTION_KEY"),
+  );
+
+// Without a token secret of their own, route tokens are sealed with the credential keyring, so deployments
+// that only set CREDENTIALS_ENCRYPTION_KEYS keep working and rotate both together.
+const getRouteTokenKeyring = () => {
+  const raw = getEnvString("ROUTE_TOKEN_SECRETS");
+  const tokenSecret = getEnvString("ROUTE_TOKEN_SECRET", "ACCESS_TOKEN_SECRET");
+  if (!raw && !tokenSecret && getEnvString("CREDENTIALS_ENCRYPTION_KEYS")) return getCredentialKeyring();
+  return parseKeyring("ROUTE_TOKEN_SECRETS", raw, tokenSecret || getEnvString("CREDENTIALS_ENCRYPTION_KEY"));
 };
 
+export const isSealedCredential = (value: string) => value.startsWith("v1.") || value.startsWith("v2.");
+
+// Returns the ID of the key a stored credential was sealed with; null for v1 ciphertexts and plain values.
+export const getCredentialKeyId = (sealed: string) => (sealed.startsWith("v2.") ? sealed.split(".", 3)[1] || null : null);
+
 export const encryptCredential = async (plainText: string) => {
-  return await encryptText(getCredentialSecret(), "bucket-credential", plainText);
+  return await encryptText(getCredentialKeyring(), "bucket-credential", plainText);
 };
 
 export const decryptCredential = async (sealed: string) => {
   if (!sealed) return "";
-  if (!sealed.startsWith("v1.")) return sealed;
-  return await decryptText(getCredentialSecret(), "bucket-credential", sealed);
+  if (!isSealedCredential(sealed)) return sealed;
+  return await decryptText(getCredentialKeyring(), "bucket-credential", sealed);
 };
 
 export const issueSealedPayload = async (payload: unknown, expiresInSeconds = 900) => {
   const exp = Math.floor(Date.now() / 1000) + Math.max(30, Math.min(24 * 3600, expiresInSeconds));
   const wrapped = JSON.stringify({ exp, payload });
-  return await encryptText(getRouteTokenSecret(), "route-token", wrapped);
+  return await encryptText(getRouteTokenKeyring(), "route-token", wrapped);
 };
 
-export const readSealedPayload = async <T>(token: string): Promise<T> => {
-  const raw = await decryptText(getRouteTokenSecret(), "route-token", token);
+// Unseals without checking expiry, for callers that need to inspect tokens that may already have lapsed.
+export const openSealedPayload = async <T>(token: string): Promise<{ exp: number; payload: T }> => {
+  const raw = await decryptText(getRouteTokenKeyring(), "route-token", token);
   const parsed = JSON.parse(raw) as { exp?: number; payload?: unknown };
-  const exp = Number(parsed.exp ?? NaN);
+  return { exp: Number(parsed.exp ?? NaN), payload: parsed.payload as T };
+};
+
+export const readSealedPayload = async <T>(token: string): Promise<T> => {
+  const { exp, payload } = await openSealedPayload<T>(token);
   if (!Number.isFinite(exp) || exp < Math.floor(Date.now() / 1000)) {
     throw new Error("操作令牌已过期，请重试。");
   }
-  return parsed.payload as T;
+  return payload;
 };
@@ -0,0 +1,77 @@
+import { waitUntil } from "@/lib/cf";
+
+// Edge caching for proxied object downloads via the Workers Cache API (caches.default). Only available on
+// Cloudflare; elsewhere every helper quietly does nothing.
+//
+// Cache keys are derived from the verified token payload, never from the request URL: a hit is only possible
+// after a token that authorizes this exact object has been checked, and the token itself never ends up in
+// the cache. The key is hashed so object keys are not exposed either. It also includes the object's current
+// etag and last-modified time: the etag changes when the content does, and the time also moves on a metadata
+// edit (an in-place copy that keeps the etag), so a stale copy is never matched again and simply ages out.
+
+const CACHE_KEY_ORIGIN = "https://object-cache.r2-admin.invalid";
+
+// Teeing a body makes the runtime buffer whatever the slower branch has not read yet, so only small objects
+// are cached; large downloads are streamed straight through.
+const MAX_EDGE_CACHE_BYTES = 4 * 1024 * 1024;
+
+type ObjectCacheIdentity = {
+  teamId: string;
+  bucketId: string;
+  key: string;
+  // Etag and last-modified time read from a HEAD right before the lookup.
+  version: string;
+  download: boolean;
+  filename?: string | null;
+};
+
+const getDefaultCache = (): Cache | null => {
+  const storage = (globalThis as unknown as { caches?: { default?: Cache } }).caches;
+  return storage?.default ?? null;
+};
+
+const sha256Hex = async (value: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+const buildCacheKey = async (identity: ObjectCacheIdentity) => {
+  const scope = JSON.stringify([
+    identity.teamId,
+    identity.bucketId,
+    identity.key,
+    identity.version,
+    identity.download ? "attachment" : "inline",
+    identity.filename ?? "",
+  ]);
+  return new Request(`${CACHE_KEY_ORIGIN}/${await sha256Hex(scope)}`, { method: "GET" });
+};
+
+export const matchEdgeCache = async (identity: ObjectCacheIdentity): Promise<Response | null> => {
+  const cache = getDefaultCache();
+  if (!cache) return null;
+  try {
+    return (await cache.match(await buildCacheKey(identity))) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+// Returns the response to send to the client. When the object is cacheable its body is teed so the edge copy
+// is written in the background; the stored copy carries its own max-age, independent of the client headers.
+export const putEdgeCache = (identity: ObjectCacheIdentity, response: Response, ttlSeconds: number, size?: number) => {
+  const cache = getDefaultCache();
+  if (!cache || !response.body || response.status !== 200 || ttlSeconds <= 0) return response;
+  if (typeof size !== "number" || size > MAX_EDGE_CACHE_BYTES) return response;
+
+  const [clientBody, cacheBody] = response.body.tee();
+  const stored = new Headers(response.headers);
+  stored.set("Cache-Control", `public, max-age=${ttlSeconds}`);
+  stored.delete("Set-Cookie");
+  waitUntil(
+    (async () => {
+      await cache.put(await buildCacheKey(identity), new Response(cacheBody, { status: 200, headers: stored }));
+    })(),
+  );
+  return new Response(clientBody, { status: response.status, headers: response.headers });
+};
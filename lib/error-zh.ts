@@ -46,7 +46,7 @@ export const toChineseErrorMessage = (error: unknown, fallback = "操作失败
     lower.includes("bad padding") ||
     lower.includes("aes-gcm")
   ) {
-    return "密钥解密失败：请检查 CREDENTIALS_ENCRYPTION_KEY 是否与历史配置一致。";
+    return "密钥解密失败：请检查 CREDENTIALS_ENCRYPTION_KEYS / CREDENTIALS_ENCRYPTION_KEY 是否包含历史密钥。";
   }
   if (lower.includes("failed to load buckets")) return "读取存储桶列表失败，请稍后重试。";
   if (lower.includes("failed to load bucket")) return "读取存储桶信息失败，请稍后重试。";
@@ -1,7 +1,10 @@
 import type { AppAccessContext } from "@/lib/access-control";
-import { copyObjectInBucket, createR2Bucket, type R2BucketLike, type R2ClientCredentials } from "@/lib/r2-s3";
+import { createR2Bucket, type R2BucketLike } from "@/lib/r2-s3";
 import { readSupabaseRestArray, supabaseAdminRestFetch } from "@/lib/supabase";
 import { resolveBucketCredentials } from "@/lib/user-buckets";
+import { createJob, ensureBucketScanJob, exceedsJobThreshold, JOB_ITEM_THRESHOLD, type JobItem, type JobView } from "@/lib/jobs";
+import { indexObjectFromHead, removeIndexedKeys, syncIndexedPrefix } from "@/lib/object-index";
+import { copyObject, deleteKeys, listAllKeysWithPrefix, mapConcurrent } from "@/lib/object-ops";
 
 export type MarkedFileItem = {
   name: string;
@@ -97,20 +100,6 @@ const readRows = async <T>(pathWithQuery: string, fallback: string) => {
   return await readSupabaseRestArray<T>(res, fallback);
 };
 
-const mapConcurrent = async <T, R>(items: T[], concurrency: number, worker: (item: T, index: number) => Promise<R>) => {
-  const results = new Array<R>(items.length);
-  let nextIndex = 0;
-  const run = async () => {
-    for (;;) {
-      const index = nextIndex++;
-      if (index >= items.length) return;
-      results[index] = await worker(items[index], index);
-    }
-  };
-  await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, run));
-  return results;
-};
-
 const favoriteToItem = (row: FavoriteRow): MarkedFileItem => ({
   name: row.item_name || nameOf(row.item_key),
   key: row.item_key,
@@ -135,45 +124,6 @@ const recycleToItem = (row: RecycleRow): MarkedFileItem => ({
   storageKey: row.storage_key ?? undefined,
 });
 
-const listAllKeysWithPrefix = async (bucket: R2BucketLike, prefix: string) => {
-  const keys: string[] = [];
-  let cursor: string | undefined;
-  for (;;) {
-    const res = await bucket.list({ prefix, cursor });
-    for (const o of res.objects ?? []) {
-      if (typeof o.key === "string" && o.key) keys.push(o.key);
-    }
-    if (!res.truncated || !res.cursor) break;
-    cursor = res.cursor;
-  }
-  return keys;
-};
-
-const deleteKeys = async (bucket: R2BucketLike, keys: string[]) => {
-  const unique = Array.from(new Set(keys.filter(Boolean)));
-  const chunkSize = 1000;
-  for (let i = 0; i < unique.length; i += chunkSize) {
-    const chunk = unique.slice(i, i + chunkSize);
-    try {
-      await bucket.delete(chunk);
-    } catch {
-      for (const key of chunk) await bucket.delete(key);
-    }
-  }
-};
-
-const copyObject = async (bucket: R2BucketLike, creds: R2ClientCredentials, fromKey: string, toKey: string) => {
-  if (fromKey === toKey) return;
-  try {
-    await copyObjectInBucket(creds, fromKey, toKey);
-    return;
-  } catch {
-    const obj = await bucket.get(fromKey);
-    if (!obj) throw new Error("源文件不存在或已被删除");
-    await bucket.put(toKey, obj.body, { httpMetadata: obj.httpMetadata, customMetadata: obj.customMetadata });
-  }
-};
-
 const getFolderMeta = async (bucket: R2BucketLike, prefix: string) => {
   const keys: string[] = [];
   let size = 0;
@@ -286,7 +236,13 @@ export const moveItemsToRecycle = async (ctx: AppAccessContext, bucketId: string
     let size = readSize(input.size);
     let lastModified = normalizeIso(input.lastModified);
 
-    if (itemType === "folder") {
+    const itemKey = itemType === "folder" && !sourceKey.endsWith("/") ? `${sourceKey}/` : sourceKey;
+    // Large folders are moved by a background job after their recycle row exists.
+    const deferred = itemType === "folder" && (await exceedsJobThreshold(bucket, [itemKey]));
+
+    if (deferred) {
+      keys = [];
+    } else if (itemType === "folder") {
       const meta = await getFolderMeta(bucket, sourceKey.endsWith("/") ? sourceKey : `${sourceKey}/`);
       keys = meta.keys;
       size = meta.size || size;
@@ -296,7 +252,6 @@ export const moveItemsToRecycle = async (ctx: AppAccessContext, bucketId: string
       keys = [sourceKey];
     }
 
-    const itemKey = itemType === "folder" && !sourceKey.endsWith("/") ? `${sourceKey}/` : sourceKey;
     await mapConcurrent(keys, 4, async (key) => {
       const targetKey = itemType === "folder" ? `${storagePrefix}${key.slice(itemKey.length)}` : storageKey!;
       if (key === targetKey) return;
@@ -313,6 +268,7 @@ export const moveItemsToRecycle = async (ctx: AppAccessContext, bucketId: string
 
     return {
       keys,
+      job: deferred ? ({ sourceKey: itemKey, targetKey: storagePrefix, recycleId: id, itemKey } as JobItem) : null,
       rowPayload: {
       id,
       team_id: ctx.team.id,
@@ -333,7 +289,7 @@ export const moveItemsToRecycle = async (ctx: AppAccessContext, bucketId: string
     };
   });
 
-  if (!prepared.length) return [];
+  if (!prepared.length) return { items: [] as MarkedFileItem[], job: null };
 
   const insert = await supabaseAdminRestFetch("user_r2_recycle_bin", {
     method: "POST",
@@ -343,8 +299,20 @@ export const moveItemsToRecycle = async (ctx: AppAccessContext, bucketId: string
   const rows = await readSupabaseRestArray<RecycleRow>(insert, "移动到回收站失败");
   if (rows.length !== prepared.length) throw new Error("移动到回收站失败");
 
+  const jobItems = prepared.map((item) => item.job).filter((item): item is JobItem => Boolean(item));
+  const job = jobItems.length
+    ? await createJob(ctx, {
+      bucketId,
+      kind: "recycle",
+      items: jobItems,
+      summary: `移动 ${jobItems.length} 个大文件夹到回收站`,
+    })
+    : null;
+
   await mapConcurrent(prepared, 4, async (item) => deleteKeys(bucket, item.keys));
-  const itemKeys = rows.map((row) => row.item_key);
+  await removeIndexedKeys({ teamId: ctx.team.id, bucketId }, prepared.flatMap((item) => item.keys));
+  const deferredKeys = new Set(jobItems.map((item) => item.itemKey ?? item.sourceKey));
+  const itemKeys = rows.map((row) => row.item_key).filter((key) => !deferredKeys.has(key));
   if (itemKeys.length) {
     const encodedKeys = itemKeys.map((key) => `"${key.replace(/"/g, '\\"')}"`).join(",");
     await supabaseAdminRestFetch(
@@ -352,15 +320,24 @@ export const moveItemsToRecycle = async (ctx: AppAccessContext, bucketId: string
       { method: "DELETE", prefer: "return=minimal" },
     ).catch(() => null);
   }
-  return rows.map(recycleToItem);
+  return { items: rows.map(recycleToItem), job };
 };
 
-const findRestoreTarget = async (bucket: R2BucketLike, originalKey: string, itemType: "file" | "folder") => {
-  const normalized = itemType === "folder" && !originalKey.endsWith("/") ? `${originalKey}/` : originalKey;
-  const exists = itemType === "folder"
-    ? (await listAllKeysWithPrefix(bucket, normalized)).length > 0
-    : Boolean(await bucket.head(normalized));
-  if (!exists) return normalized;
+export const isTargetKeyTaken = async (bucket: R2BucketLike, key: string) => {
+  if (!key.endsWith("/")) return Boolean(await bucket.head(key));
+  const listed = await bucket.list({ prefix: key, limit: 1 });
+  return (listed.objects ?? []).length > 0;
+};
+
+// Returns `key` when it is free, otherwise the first free "name (n).ext" / "name (n)/" sibling.
+export const findNonConflictingKey = async (
+  bucket: R2BucketLike,
+  key: string,
+  itemType: "file" | "folder",
+  exhaustedMessage = "目标位置已存在同名对象，请先处理后再操作",
+) => {
+  const normalized = itemType === "folder" && !key.endsWith("/") ? `${key}/` : key;
+  if (!(await isTargetKeyTaken(bucket, normalized))) return normalized;
 
   const basePath = parentPathOf(normalized);
   const baseName = nameOf(normalized);
@@ -371,15 +348,31 @@ const findRestoreTarget = async (bucket: R2BucketLike, originalKey: string, item
     const candidate = itemType === "folder"
       ? `${basePath}${baseName} (${i})/`
       : `${basePath}${stem} (${i})${ext}`;
-    const candidateExists = itemType === "folder"
-      ? (await listAllKeysWithPrefix(bucket, candidate)).length > 0
-      : Boolean(await bucket.head(candidate));
-    if (!candidateExists) return candidate;
+    if (!(await isTargetKeyTaken(bucket, candidate))) return candidate;
   }
-  throw new Error("原路径已存在同名对象，请先处理后再恢复");
+  throw new Error(exhaustedMessage);
 };
 
-export const restoreRecycleItem = async (ctx: AppAccessContext, bucketId: string, recycleId: string) => {
+export type ConflictPolicy = "overwrite" | "skip" | "rename";
+
+export const normalizeConflictPolicy = (raw: unknown): ConflictPolicy => (raw === "skip" || raw === "rename" ? raw : "overwrite");
+
+// Resolves where an item should land under the requested policy; null means "skip this item".
+export const resolveConflictTarget = async (bucket: R2BucketLike, targetKey: string, policy: ConflictPolicy) => {
+  if (policy === "overwrite") return targetKey;
+  if (policy === "skip") return (await isTargetKeyTaken(bucket, targetKey)) ? null : targetKey;
+  return await findNonConflictingKey(bucket, targetKey, targetKey.endsWith("/") ? "folder" : "file");
+};
+
+const findRestoreTarget = (bucket: R2BucketLike, originalKey: string, itemType: "file" | "folder") =>
+  findNonConflictingKey(bucket, originalKey, itemType, "原路径已存在同名对象，请先处理后再恢复");
+
+// Returns the restored key, plus the reindex job started when the folder is too large to index inline.
+export const restoreRecycleItem = async (
+  ctx: AppAccessContext,
+  bucketId: string,
+  recycleId: string,
+): Promise<{ key: string; job: JobView | null }> => {
   const { creds } = await resolveBucketCredentials(ctx, bucketId);
   const rows = await listActiveRecycleRows(ctx, bucketId);
   const row = rows.find((item) => item.id === recycleId);
@@ -395,13 +388,23 @@ export const restoreRecycleItem = async (ctx: AppAccessContext, bucketId: string
     await copyObject(bucket, creds, trashKey, targetKey);
   }
   await deleteKeys(bucket, trashKeys);
+  // Recycled objects are not indexed, so the restored ones are read back from the bucket.
+  const scope = { teamId: ctx.team.id, bucketId };
+  let job: JobView | null = null;
+  if (row.item_type === "folder") {
+    if (!(await syncIndexedPrefix(scope, bucket, restoreTarget, JOB_ITEM_THRESHOLD))) {
+      job = (await ensureBucketScanJob(ctx, bucketId, "reindex")).job;
+    }
+  } else {
+    await indexObjectFromHead(scope, bucket, restoreTarget);
+  }
 
   const patch = await supabaseAdminRestFetch(
     `user_r2_recycle_bin?id=eq.${encodeFilter(row.id)}&team_id=eq.${encodeFilter(ctx.team.id)}&bucket_id=eq.${encodeFilter(bucketId)}`,
     { method: "PATCH", body: { status: "restored", restored_at: new Date().toISOString() }, prefer: "return=minimal" },
   );
   if (!patch.ok) throw new Error("恢复文件失败");
-  return restoreTarget;
+  return { key: restoreTarget, job };
 };
 
 export const permanentlyDeleteRecycleItem = async (ctx: AppAccessContext, bucketId: string, recycleId: string) => {
@@ -426,11 +429,14 @@ export const permanentlyDeleteRecycleItem = async (ctx: AppAccessContext, bucket
 };
 
 export const restoreRecycleItems = async (ctx: AppAccessContext, bucketId: string, recycleIds: string[]) => {
-  const restored: string[] = [];
+  const keys: string[] = [];
+  let job: JobView | null = null;
   for (const id of Array.from(new Set(recycleIds.filter(Boolean)))) {
-    restored.push(await restoreRecycleItem(ctx, bucketId, id));
+    const restored = await restoreRecycleItem(ctx, bucketId, id);
+    keys.push(restored.key);
+    job = restored.job ?? job;
   }
-  return restored;
+  return { keys, job };
 };
 
 export const permanentlyDeleteRecycleItems = async (ctx: AppAccessContext, bucketId: string, recycleIds: string[]) => {
@@ -446,6 +452,23 @@ export const clearRecycleItems = async (ctx: AppAccessContext, bucketId: string)
     throw err;
   }
   const rows = await listActiveRecycleRows(ctx, bucketId);
-  await permanentlyDeleteRecycleItems(ctx, bucketId, rows.map((row) => row.id));
-  return rows.length;
+  const { creds } = await resolveBucketCredentials(ctx, bucketId);
+  const bucket = createR2Bucket(creds);
+  const folderPrefixes = rows.filter((row) => row.item_type === "folder").map((row) => row.storage_prefix);
+  const useJob = rows.length > JOB_ITEM_THRESHOLD / 10 || (await exceedsJobThreshold(bucket, folderPrefixes));
+  if (!useJob) {
+    await permanentlyDeleteRecycleItems(ctx, bucketId, rows.map((row) => row.id));
+    return { count: rows.length, job: null };
+  }
+
+  const items: JobItem[] = rows
+    .map((row) => ({
+      sourceKey: row.item_type === "folder" ? row.storage_prefix : String(row.storage_key ?? ""),
+      recycleId: row.id,
+    }))
+    .filter((item) => item.sourceKey);
+  const job: JobView | null = items.length
+    ? await createJob(ctx, { bucketId, kind: "clear_recycle", items, summary: `清空回收站（${rows.length} 项）` })
+    : null;
+  return { count: rows.length, job };
 };
@@ -0,0 +1,521 @@
+import type { AppAccessContext } from "@/lib/access-control";
+import { writeAuditLog } from "@/lib/audit-logs";
+import {
+  changeObjectStorageClass,
+  copyObjectAcrossBuckets,
+  createR2Bucket,
+  createRetryStats,
+  deleteRemoteBucket,
+  type R2BucketLike,
+  type R2ClientCredentials,
+  type R2ObjectSummaryLike,
+  type StorageClass,
+} from "@/lib/r2-s3";
+import { copyIndexedKeys, finishObjectReindex, reindexObjects, removeIndexedKeys, type ObjectIndexScope } from "@/lib/object-index";
+import { indexObjectContents } from "@/lib/content-index";
+import type { ConflictPolicy } from "@/lib/file-marks";
+import { abortAllMultipartUploads, copyObject, deleteKeys, mapConcurrent } from "@/lib/object-ops";
+import { readSupabaseRestArray, supabaseAdminRestFetch } from "@/lib/supabase";
+import { deleteUserBucket, resolveBucketCredentials } from "@/lib/user-buckets";
+import { toChineseErrorMessage } from "@/lib/error-zh";
+
+export type JobKind =
+  | "move"
+  | "copy"
+  | "delete"
+  | "recycle"
+  | "clear_recycle"
+  | "storage_class"
+  | "reindex"
+  | "content_index"
+  | "empty_bucket";
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+// A job walks its items in order. Folder items (keys ending in "/") are listed page by page and
+// every object below them is processed; file items are handled as a single key. Reindex and content_index
+// jobs have a single item with an empty key, which lists the whole bucket; a content_index job also
+// refreshes the object index on the way, so it doubles as a reindex. An empty_bucket job deletes everything
+// the same way, then aborts unfinished uploads, deletes the bucket from the storage service and unbinds it.
+export type JobItem = {
+  sourceKey: string;
+  targetKey?: string;
+  // Set when a move/copy writes into another bound bucket.
+  targetBucketId?: string;
+  recycleId?: string;
+  itemKey?: string;
+  // Target class for storage_class jobs.
+  storageClass?: StorageClass;
+};
+
+type JobPayload = {
+  items?: JobItem[];
+  // Move/copy only. Item roots were resolved under this policy when the job was created; objects found at
+  // a target afterwards are kept unless it is "overwrite" (the default for jobs created without one).
+  conflict?: ConflictPolicy;
+};
+
+type JobCheckpoint = {
+  itemIndex?: number;
+  lastKey?: string | null;
+  size?: number;
+  lastModified?: string | null;
+  // Storage requests retried across all steps of the job.
+  retries?: number;
+};
+
+type JobRow = {
+  id: string;
+  team_id: string;
+  bucket_id: string;
+  created_by: string;
+  created_by_name: string;
+  kind: JobKind;
+  status: JobStatus;
+  summary: string;
+  payload: JobPayload | null;
+  checkpoint: JobCheckpoint | null;
+  processed: number | string | null;
+  total: number | string | null;
+  error: string | null;
+  lease_until: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+};
+
+export type JobView = {
+  id: string;
+  bucketId: string;
+  kind: JobKind;
+  status: JobStatus;
+  summary: string;
+  processed: number;
+  total?: number;
+  itemIndex: number;
+  itemCount: number;
+  currentKey?: string;
+  retries: number;
+  error?: string;
+  createdByName: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+};
+
+export type JobCreateInput = {
+  bucketId: string;
+  kind: JobKind;
+  items: JobItem[];
+  conflict?: ConflictPolicy;
+  summary: string;
+  total?: number;
+};
+
+// Above this many objects a folder operation is handed to a job instead of running in one request.
+export const JOB_ITEM_THRESHOLD = 1000;
+const JOB_CHUNK_SIZE = 200;
+const JOB_STEP_BUDGET_MS = 20_000;
+// Reindexing only lists and writes index rows, so a step can cover many more keys.
+const REINDEX_CHUNK_SIZE = 5000;
+// Most listed objects are skipped (wrong type or unchanged); the downloads that remain stop at the step deadline.
+const CONTENT_INDEX_CHUNK_SIZE = 1000;
+const JOB_LEASE_SECONDS = 60;
+
+const SELECT_COLUMNS =
+  "id,team_id,bucket_id,created_by,created_by_name,kind,status,summary,payload,checkpoint,processed,total,error,lease_until,created_at,updated_at,finished_at";
+
+const encodeFilter = (value: string) => encodeURIComponent(value);
+
+const createHttpError = (status: number, message: string) => {
+  const err = new Error(message) as Error & { status?: number };
+  err.status = status;
+  return err;
+};
+
+// Jobs that walk the whole bucket to rebuild an index.
+const isBucketScanKind = (kind: JobKind) => kind === "reindex" || kind === "content_index";
+
+// Jobs whose single item has an empty key and lists the whole bucket.
+const isWholeBucketKind = (kind: JobKind) => isBucketScanKind(kind) || kind === "empty_bucket";
+
+const isTeamAdmin = (ctx: AppAccessContext) => ctx.role === "admin" || ctx.role === "super_admin" || ctx.isSuperAdmin;
+
+const readNumber = (value: unknown) => {
+  const n = Number(value ?? 0);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const toJobView = (row: JobRow): JobView => {
+  const items = row.payload?.items ?? [];
+  const checkpoint = row.checkpoint ?? {};
+  const itemIndex = Math.min(readNumber(checkpoint.itemIndex), items.length);
+  const total = row.total === null || row.total === undefined ? undefined : readNumber(row.total);
+  return {
+    id: row.id,
+    bucketId: row.bucket_id,
+    kind: row.kind,
+    status: row.status,
+    summary: row.summary ?? "",
+    processed: readNumber(row.processed),
+    total,
+    itemIndex,
+    itemCount: items.length,
+    currentKey: checkpoint.lastKey ?? items[itemIndex]?.sourceKey ?? undefined,
+    retries: readNumber(checkpoint.retries),
+    error: row.error ?? undefined,
+    createdByName: row.created_by_name ?? "",
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at ?? undefined,
+  };
+};
+
+const ownerFilter = (ctx: AppAccessContext) =>
+  isTeamAdmin(ctx) ? "" : `&created_by=eq.${encodeFilter(ctx.user.id)}`;
+
+const readJobRow = async (ctx: AppAccessContext, jobId: string) => {
+  const res = await supabaseAdminRestFetch(
+    `user_r2_jobs?select=${SELECT_COLUMNS}&id=eq.${encodeFilter(jobId)}&team_id=eq.${encodeFilter(ctx.team.id)}${ownerFilter(ctx)}&limit=1`,
+  );
+  const rows = await readSupabaseRestArray<JobRow>(res, "读取后台任务失败");
+  if (!rows[0]) throw createHttpError(404, "后台任务不存在或无权访问");
+  return rows[0];
+};
+
+export const exceedsJobThreshold = async (bucket: R2BucketLike, prefixes: string[]) => {
+  let total = 0;
+  for (const prefix of prefixes) {
+    const res = await bucket.list({ prefix, limit: JOB_ITEM_THRESHOLD });
+    if (res.truncated) return true;
+    total += (res.objects ?? []).length;
+    if (total > JOB_ITEM_THRESHOLD) return true;
+  }
+  return false;
+};
+
+export const createJob = async (ctx: AppAccessContext, input: JobCreateInput) => {
+  const items = input.items.filter((item) => item.sourceKey || isWholeBucketKind(input.kind));
+  if (!items.length) throw createHttpError(400, "后台任务没有可处理的对象");
+  const res = await supabaseAdminRestFetch("user_r2_jobs", {
+    method: "POST",
+    body: {
+      team_id: ctx.team.id,
+      bucket_id: input.bucketId,
+      created_by: ctx.user.id,
+      created_by_name: ctx.displayName,
+      kind: input.kind,
+      status: "queued",
+      summary: input.summary,
+      payload: { items, ...(input.conflict ? { conflict: input.conflict } : {}) },
+      checkpoint: { itemIndex: 0, lastKey: null },
+      processed: 0,
+      total: input.total ?? null,
+    },
+    prefer: "return=representation",
+  });
+  const rows = await readSupabaseRestArray<JobRow>(res, "创建后台任务失败");
+  if (!rows[0]) throw new Error("创建后台任务失败");
+  return toJobView(rows[0]);
+};
+
+export const getJob = async (ctx: AppAccessContext, jobId: string) => toJobView(await readJobRow(ctx, jobId));
+
+// Starts a whole-bucket scan unless the caller already has one of the same kind queued or running.
+export const ensureBucketScanJob = async (ctx: AppAccessContext, bucketId: string, kind: "reindex" | "content_index") => {
+  const active = (await listJobs(ctx, { bucketId, activeOnly: true })).find((job) => job.kind === kind);
+  if (active) return { job: active, created: false };
+  const job = await createJob(ctx, {
+    bucketId,
+    kind,
+    items: [{ sourceKey: "" }],
+    summary: kind === "reindex" ? "重建搜索索引" : "建立内容索引",
+  });
+  return { job, created: true };
+};
+
+export const listJobs = async (ctx: AppAccessContext, options: { bucketId?: string; activeOnly?: boolean; limit?: number } = {}) => {
+  const filters = [
+    `select=${SELECT_COLUMNS}`,
+    `team_id=eq.${encodeFilter(ctx.team.id)}`,
+    `created_by=eq.${encodeFilter(ctx.user.id)}`,
+    options.bucketId ? `bucket_id=eq.${encodeFilter(options.bucketId)}` : "",
+    options.activeOnly ? "status=in.(queued,running)" : "",
+    "order=created_at.desc",
+    `limit=${Math.min(Math.max(options.limit ?? 20, 1), 100)}`,
+  ].filter(Boolean);
+  const res = await supabaseAdminRestFetch(`user_r2_jobs?${filters.join("&")}`);
+  const rows = await readSupabaseRestArray<JobRow>(res, "读取后台任务失败");
+  return rows.map(toJobView);
+};
+
+export const cancelJob = async (ctx: AppAccessContext, jobId: string) => {
+  const res = await supabaseAdminRestFetch(
+    `user_r2_jobs?id=eq.${encodeFilter(jobId)}&team_id=eq.${encodeFilter(ctx.team.id)}${ownerFilter(ctx)}&status=in.(queued,running)`,
+    {
+      method: "PATCH",
+      body: { status: "cancelled", lease_until: null, finished_at: new Date().toISOString() },
+      prefer: "return=representation",
+    },
+  );
+  const rows = await readSupabaseRestArray<JobRow>(res, "取消后台任务失败");
+  return rows[0] ? toJobView(rows[0]) : await getJob(ctx, jobId);
+};
+
+const claimJob = async (ctx: AppAccessContext, jobId: string) => {
+  const now = new Date();
+  const leaseUntil = new Date(now.getTime() + JOB_LEASE_SECONDS * 1000).toISOString();
+  // The lease makes a second tab (or a retried request) back off while a chunk is in flight.
+  const res = await supabaseAdminRestFetch(
+    `user_r2_jobs?id=eq.${encodeFilter(jobId)}&team_id=eq.${encodeFilter(ctx.team.id)}${ownerFilter(ctx)}&status=in.(queued,running)&or=(lease_until.is.null,lease_until.lt.${encodeFilter(now.toISOString())})`,
+    { method: "PATCH", body: { status: "running", lease_until: leaseUntil }, prefer: "return=representation" },
+  );
+  const rows = await readSupabaseRestArray<JobRow>(res, "启动后台任务失败");
+  return rows[0] ?? null;
+};
+
+const saveJobProgress = async (
+  ctx: AppAccessContext,
+  row: JobRow,
+  patch: { status: JobStatus; checkpoint: JobCheckpoint; processed: number; error?: string | null },
+) => {
+  const finished = patch.status !== "running";
+  const res = await supabaseAdminRestFetch(
+    `user_r2_jobs?id=eq.${encodeFilter(row.id)}&team_id=eq.${encodeFilter(ctx.team.id)}&status=eq.running`,
+    {
+      method: "PATCH",
+      body: {
+        status: patch.status,
+        checkpoint: patch.checkpoint,
+        processed: patch.processed,
+        error: patch.error ?? null,
+        lease_until: null,
+        ...(finished ? { finished_at: new Date().toISOString() } : {}),
+      },
+      prefer: "return=representation",
+    },
+  );
+  const rows = await readSupabaseRestArray<JobRow>(res, "保存后台任务进度失败");
+  // Zero rows means the job was cancelled while this chunk was running.
+  return rows[0] ? toJobView(rows[0]) : await getJob(ctx, row.id);
+};
+
+const isFolderItem = (kind: JobKind, item: JobItem) => isWholeBucketKind(kind) || item.sourceKey.endsWith("/");
+
+const processKeys = async (
+  kind: JobKind,
+  bucket: R2BucketLike,
+  creds: R2ClientCredentials,
+  item: JobItem,
+  keys: string[],
+  objects: R2ObjectSummaryLike[],
+  scope: ObjectIndexScope,
+  targetCreds: R2ClientCredentials | null,
+  conflict: ConflictPolicy,
+  deadline: number,
+): Promise<number | undefined> => {
+  if (kind === "reindex") {
+    await reindexObjects(scope, objects);
+    return;
+  }
+  // Returns how many of the listed objects were done when the step ran out of time.
+  if (kind === "content_index") {
+    await reindexObjects(scope, objects);
+    return await indexObjectContents(scope, bucket, objects, deadline);
+  }
+  if (kind === "copy" || kind === "move" || kind === "recycle") {
+    const targetRoot = String(item.targetKey ?? "");
+    if (!targetRoot) throw new Error("后台任务缺少目标路径");
+    const pairs = keys.map((key) => ({
+      from: key,
+      to: item.sourceKey.endsWith("/") ? `${targetRoot}${key.slice(item.sourceKey.length)}` : targetRoot,
+    }));
+    let copied = pairs;
+    if (conflict !== "overwrite") {
+      const targetBucket = targetCreds ? createR2Bucket(targetCreds) : bucket;
+      const taken = await mapConcurrent(pairs, 4, async ({ to }) => Boolean(await targetBucket.head(to)));
+      copied = pairs.filter((_, index) => !taken[index]);
+    }
+    await mapConcurrent(copied, 4, async ({ from, to }) => {
+      if (targetCreds) await copyObjectAcrossBuckets(creds, targetCreds, from, to);
+      else await copyObject(bucket, creds, from, to);
+    });
+    if (kind !== "recycle") {
+      await copyIndexedKeys(scope, { ...scope, bucketId: item.targetBucketId || scope.bucketId }, copied, kind === "move");
+    }
+    // Skipped sources stay where they are, so a move never deletes an object it did not copy.
+    keys = copied.map(({ from }) => from);
+  }
+  if (kind === "storage_class") {
+    const storageClass = item.storageClass;
+    if (!storageClass) throw new Error("后台任务缺少目标存储类型");
+    await mapConcurrent(keys, 4, (key) => changeObjectStorageClass(creds, key, storageClass));
+    return;
+  }
+  if (kind !== "copy") {
+    await deleteKeys(bucket, keys);
+    if (kind !== "move") await removeIndexedKeys(scope, keys);
+  }
+};
+
+const finishItem = async (ctx: AppAccessContext, row: JobRow, item: JobItem, checkpoint: JobCheckpoint) => {
+  if (isBucketScanKind(row.kind)) {
+    // Anything written since the job was created was re-stamped, so older rows are objects that no longer exist.
+    await finishObjectReindex({ teamId: ctx.team.id, bucketId: row.bucket_id }, row.created_at);
+    return;
+  }
+  if (!item.recycleId) return;
+  const recycleFilter = `id=eq.${encodeFilter(item.recycleId)}&team_id=eq.${encodeFilter(ctx.team.id)}&bucket_id=eq.${encodeFilter(row.bucket_id)}`;
+  if (row.kind === "clear_recycle") {
+    await supabaseAdminRestFetch(`user_r2_recycle_bin?${recycleFilter}`, {
+      method: "PATCH",
+      body: { status: "deleted", permanently_deleted_at: new Date().toISOString() },
+      prefer: "return=minimal",
+    });
+    return;
+  }
+  if (row.kind !== "recycle") return;
+  await supabaseAdminRestFetch(`user_r2_recycle_bin?${recycleFilter}`, {
+    method: "PATCH",
+    body: {
+      size: readNumber(checkpoint.size),
+      ...(checkpoint.lastModified ? { last_modified: checkpoint.lastModified } : {}),
+    },
+    prefer: "return=minimal",
+  });
+  if (item.itemKey) {
+    await supabaseAdminRestFetch(
+      `user_r2_favorites?team_id=eq.${encodeFilter(ctx.team.id)}&user_id=eq.${encodeFilter(row.created_by)}&bucket_id=eq.${encodeFilter(row.bucket_id)}&item_key=eq.${encodeFilter(item.itemKey)}`,
+      { method: "DELETE", prefer: "return=minimal" },
+    ).catch(() => null);
+  }
+};
+
+const isNoSuchBucket = (error: unknown) => {
+  const e = error as { code?: unknown; status?: unknown };
+  return e?.code === "NoSuchBucket" || Number(e?.status) === 404;
+};
+
+const deleteEmptiedBucket = async (creds: R2ClientCredentials) => {
+  await abortAllMultipartUploads(creds);
+  try {
+    await deleteRemoteBucket(creds);
+  } catch (error) {
+    // Already gone in the storage service; the binding is still dropped.
+    if (!isNoSuchBucket(error)) throw error;
+  }
+};
+
+const unbindEmptiedBucket = async (ctx: AppAccessContext, row: JobRow, creds: R2ClientCredentials, emptied: number) => {
+  // Logged before unbinding: the log row references the bucket row it is written against.
+  await writeAuditLog(ctx, {
+    bucketId: row.bucket_id,
+    action: "bucket_delete",
+    itemType: "bucket",
+    itemName: creds.bucketName,
+    summary: `${ctx.displayName} 清空并删除了存储桶「${creds.bucketName}」（${emptied} 个对象）`,
+    metadata: { bucketName: creds.bucketName, driver: creds.driver, jurisdiction: creds.jurisdiction, emptied },
+  });
+  await deleteUserBucket(ctx, row.bucket_id);
+};
+
+export const runJobStep = async (ctx: AppAccessContext, jobId: string) => {
+  const row = await claimJob(ctx, jobId);
+  if (!row) return await getJob(ctx, jobId);
+
+  const items = row.payload?.items ?? [];
+  const checkpoint: JobCheckpoint = {
+    itemIndex: 0,
+    lastKey: null,
+    size: 0,
+    lastModified: null,
+    ...(row.checkpoint ?? {}),
+  };
+  let processed = readNumber(row.processed);
+  const retryStats = createRetryStats();
+  const withRetries = () => ({ ...checkpoint, retries: readNumber(checkpoint.retries) + retryStats.retries });
+
+  try {
+    const creds = { ...(await resolveBucketCredentials(ctx, row.bucket_id)).creds, retryStats };
+    const bucket = createR2Bucket(creds);
+    const targetCredsById = new Map<string, R2ClientCredentials>();
+    const resolveTargetCreds = async (item: JobItem) => {
+      const targetBucketId = item.targetBucketId;
+      if (!targetBucketId || targetBucketId === row.bucket_id) return null;
+      if (!targetCredsById.has(targetBucketId)) {
+        targetCredsById.set(targetBucketId, { ...(await resolveBucketCredentials(ctx, targetBucketId)).creds, retryStats });
+      }
+      return targetCredsById.get(targetBucketId) ?? null;
+    };
+    const scope: ObjectIndexScope = { teamId: ctx.team.id, bucketId: row.bucket_id };
+    const deadline = Date.now() + JOB_STEP_BUDGET_MS;
+    let budget = row.kind === "reindex" ? REINDEX_CHUNK_SIZE : row.kind === "content_index" ? CONTENT_INDEX_CHUNK_SIZE : JOB_CHUNK_SIZE;
+
+    while (readNumber(checkpoint.itemIndex) < items.length && budget > 0 && Date.now() < deadline) {
+      const item = items[readNumber(checkpoint.itemIndex)];
+      let keys: string[] = [];
+      const objects: R2ObjectSummaryLike[] = [];
+      let itemDone = true;
+
+      if (isFolderItem(row.kind, item)) {
+        const listed = await bucket.list({
+          prefix: item.sourceKey,
+          startAfter: checkpoint.lastKey || undefined,
+          limit: Math.min(budget, 1000),
+        });
+        for (const obj of listed.objects ?? []) {
+          if (!obj.key) continue;
+          keys.push(obj.key);
+          objects.push(obj);
+          checkpoint.size = readNumber(checkpoint.size) + readNumber(obj.size);
+          if (obj.uploaded && (!checkpoint.lastModified || obj.uploaded > checkpoint.lastModified)) checkpoint.lastModified = obj.uploaded;
+        }
+        itemDone = !listed.truncated;
+      } else {
+        keys = [item.sourceKey];
+      }
+
+      const handled = await processKeys(
+        row.kind,
+        bucket,
+        creds,
+        item,
+        keys,
+        objects,
+        scope,
+        await resolveTargetCreds(item),
+        row.payload?.conflict ?? "overwrite",
+        deadline,
+      );
+      if (handled !== undefined && handled < keys.length) {
+        keys = keys.slice(0, handled);
+        itemDone = false;
+      }
+      processed += keys.length;
+      budget -= Math.max(keys.length, 1);
+
+      if (itemDone) {
+        await finishItem(ctx, row, item, checkpoint);
+        checkpoint.itemIndex = readNumber(checkpoint.itemIndex) + 1;
+        checkpoint.lastKey = null;
+        checkpoint.size = 0;
+        checkpoint.lastModified = null;
+      } else if (keys.length) {
+        checkpoint.lastKey = keys[keys.length - 1];
+      }
+    }
+
+    const done = readNumber(checkpoint.itemIndex) >= items.length;
+    if (done && row.kind === "empty_bucket") await deleteEmptiedBucket(creds);
+    const view = await saveJobProgress(ctx, row, { status: done ? "completed" : "running", checkpoint: withRetries(), processed });
+    // Unbinding cascades to this job row, so it only happens once the final state has been read back.
+    if (view.status === "completed" && row.kind === "empty_bucket") await unbindEmptiedBucket(ctx, row, creds, processed);
+    return view;
+  } catch (error) {
+    return await saveJobProgress(ctx, row, {
+      status: "failed",
+      checkpoint: withRetries(),
+      processed,
+      error: toChineseErrorMessage(error, "后台任务执行失败"),
+    });
+  }
+};
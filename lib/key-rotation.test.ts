@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { decryptCredential, encryptCredential, getCredentialKeyId } from "@/lib/crypto";
+import { runKeyRotationStep } from "@/lib/key-rotation";
+
+const { env, restFetch } = vi.hoisted(() => ({
+  env: new Map<string, string>(),
+  restFetch: vi.fn<(path: string, init?: { method?: string; body?: unknown }) => Promise<Response>>(),
+}));
+
+vi.mock("@/lib/env", () => ({
+  getEnvString: (...keys: string[]) => keys.map((key) => env.get(key) ?? "").find(Boolean) ?? "",
+}));
+
+vi.mock("@/lib/supabase", () => ({
+  supabaseAdminRestFetch: (path: string, init?: { method?: string; body?: unknown }) => restFetch(path, init),
+  readSupabaseRestArray: async (res: Response, fallback: string) => {
+    if (!res.ok) throw new Error(fallback);
+    return (await res.json()) as unknown[];
+  },
+}));
+
+const rows = (value: unknown[]) => new Response(JSON.stringify(value), { status: 200 });
+
+const rotationRow = {
+  id: "rot-1",
+  target_key_id: "k2",
+  status: "queued",
+  last_bucket_id: null,
+  processed: 0,
+  migrated: 0,
+  failed: 0,
+  total: 3,
+  failures: [],
+  error: null,
+  lease_until: null,
+  created_by: "u1",
+  created_by_name: "Admin",
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+  finished_at: null,
+};
+
+type BucketRow = { id: string; team_id: string; bucket_name: string; access_key_id_enc: string; secret_access_key_enc: string };
+
+// Serves the rotation row, one page of buckets and the credential updates, recording what was written.
+const serve = (buckets: BucketRow[]) => {
+  const updates = new Map<string, Record<string, string>>();
+  restFetch.mockImplementation(async (path, init) => {
+    if (path.startsWith("app_key_rotations?") && path.includes("status=in.(queued,running)")) return rows([rotationRow]);
+    if (path.startsWith("app_key_rotations?") && path.includes("status=eq.running")) {
+      return rows([{ ...rotationRow, ...(init?.body as object) }]);
+    }
+    if (path.startsWith("user_r2_buckets?select=")) return rows(buckets);
+    if (path.startsWith("user_r2_buckets?id=eq.") && init?.method === "PATCH") {
+      updates.set(decodeURIComponent(/id=eq\.([^&]+)/.exec(path)?.[1] ?? ""), init.body as Record<string, string>);
+      return new Response(null, { status: 204 });
+    }
+    throw new Error(`unexpected request ${path}`);
+  });
+  return updates;
+};
+
+describe("runKeyRotationStep", () => {
+  beforeEach(() => {
+    env.clear();
+    restFetch.mockReset();
+  });
+
+  it("re-encrypts credentials not on the primary key and records the ones it cannot open", async () => {
+    env.set("CREDENTIALS_ENCRYPTION_KEYS", "k1:old-secret");
+    const oldAccess = await encryptCredential("AKID-OLD");
+    const oldSecret = await encryptCredential("SECRET-OLD");
+    env.set("CREDENTIALS_ENCRYPTION_KEYS", "k2:new-secret,k1:old-secret");
+    const current = await encryptCredential("AKID-NEW");
+
+    const updates = serve([
+      { id: "b1", team_id: "t1", bucket_name: "old", access_key_id_enc: oldAccess, secret_access_key_enc: oldSecret },
+      { id: "b2", team_id: "t1", bucket_name: "current", access_key_id_enc: current, secret_access_key_enc: current },
+      { id: "b3", team_id: "t2", bucket_name: "lost", access_key_id_enc: "v2.gone.AAAA.AAAA", secret_access_key_enc: oldSecret },
+    ]);
+
+    const view = await runKeyRotationStep("rot-1");
+    expect(view).toMatchObject({ status: "completed", processed: 3, migrated: 1, failed: 1 });
+    expect(view.failures).toEqual([expect.objectContaining({ bucketId: "b3", teamId: "t2", bucketName: "lost" })]);
+
+    expect([...updates.keys()]).toEqual(["b1"]);
+    const written = updates.get("b1")!;
+    expect(getCredentialKeyId(written.access_key_id_enc)).toBe("k2");
+    await expect(decryptCredential(written.access_key_id_enc)).resolves.toBe("AKID-OLD");
+    await expect(decryptCredential(written.secret_access_key_enc)).resolves.toBe("SECRET-OLD");
+  });
+
+  it("fails when the primary key changed after the rotation was started", async () => {
+    env.set("CREDENTIALS_ENCRYPTION_KEYS", "k3:newer-secret,k2:new-secret");
+    const updates = serve([]);
+    const view = await runKeyRotationStep("rot-1");
+    expect(view.status).toBe("failed");
+    expect(view.error).toContain("k3");
+    expect(updates.size).toBe(0);
+  });
+});
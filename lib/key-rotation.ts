@@ -0,0 +1,285 @@
+import type { AppAccessContext } from "@/lib/access-control";
+import { decryptCredential, encryptCredential, getCredentialKeyId, getCredentialKeyring } from "@/lib/crypto";
+import { toChineseErrorMessage } from "@/lib/error-zh";
+import { readSupabaseRestArray, supabaseAdminRestFetch } from "@/lib/supabase";
+
+// Re-encrypts every stored bucket credential with the primary key of CREDENTIALS_ENCRYPTION_KEYS, so older
+// keys can be dropped from the ring afterwards. Runs in steps driven by the platform console, like lib/jobs.ts.
+
+export type KeyRotationStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export type KeyRotationFailure = {
+  bucketId: string;
+  teamId: string;
+  bucketName: string;
+  error: string;
+};
+
+export type KeyRotationView = {
+  id: string;
+  targetKeyId: string;
+  status: KeyRotationStatus;
+  processed: number;
+  migrated: number;
+  failed: number;
+  total: number;
+  failures: KeyRotationFailure[];
+  error?: string;
+  createdByName: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+};
+
+export type KeyringStatusView = {
+  primaryKeyId: string;
+  keyIds: string[];
+  buckets: number;
+  // Buckets with at least one credential not yet sealed with the primary key.
+  pending: number;
+};
+
+type KeyRotationRow = {
+  id: string;
+  target_key_id: string;
+  status: KeyRotationStatus;
+  last_bucket_id: string | null;
+  processed: number | string | null;
+  migrated: number | string | null;
+  failed: number | string | null;
+  total: number | string | null;
+  failures: KeyRotationFailure[] | null;
+  error: string | null;
+  lease_until: string | null;
+  created_by: string | null;
+  created_by_name: string;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+};
+
+type BucketCredentialRow = {
+  id: string;
+  team_id: string;
+  bucket_name: string;
+  access_key_id_enc: string;
+  secret_access_key_enc: string;
+};
+
+const ROTATION_CHUNK_SIZE = 50;
+const ROTATION_STEP_BUDGET_MS = 20_000;
+const ROTATION_LEASE_SECONDS = 60;
+// Only the first failures are kept for display; the counter still covers all of them.
+const MAX_RECORDED_FAILURES = 50;
+
+const SELECT_COLUMNS =
+  "id,target_key_id,status,last_bucket_id,processed,migrated,failed,total,failures,error,lease_until,created_by,created_by_name,created_at,updated_at,finished_at";
+
+const encodeFilter = (value: string) => encodeURIComponent(value);
+
+const createHttpError = (status: number, message: string) => {
+  const err = new Error(message) as Error & { status?: number };
+  err.status = status;
+  return err;
+};
+
+const readNumber = (value: unknown) => {
+  const n = Number(value ?? 0);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const toRotationView = (row: KeyRotationRow): KeyRotationView => ({
+  id: row.id,
+  targetKeyId: row.target_key_id,
+  status: row.status,
+  processed: readNumber(row.processed),
+  migrated: readNumber(row.migrated),
+  failed: readNumber(row.failed),
+  total: readNumber(row.total),
+  failures: Array.isArray(row.failures) ? row.failures : [],
+  error: row.error ?? undefined,
+  createdByName: row.created_by_name ?? "",
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  finishedAt: row.finished_at ?? undefined,
+});
+
+const isOnKey = (row: Pick<BucketCredentialRow, "access_key_id_enc" | "secret_access_key_enc">, keyId: string) =>
+  getCredentialKeyId(row.access_key_id_enc) === keyId && getCredentialKeyId(row.secret_access_key_enc) === keyId;
+
+// PostgREST `like` uses * as the wildcard; the pattern is quoted because key IDs sit between dots.
+const notOnKeyFilter = (keyId: string) =>
+  `or=(access_key_id_enc.not.like.${encodeFilter(`"v2.${keyId}.*"`)},secret_access_key_enc.not.like.${encodeFilter(`"v2.${keyId}.*"`)})`;
+
+const readRotationRow = async (rotationId: string) => {
+  const res = await supabaseAdminRestFetch(`app_key_rotations?select=${SELECT_COLUMNS}&id=eq.${encodeFilter(rotationId)}&limit=1`);
+  const rows = await readSupabaseRestArray<KeyRotationRow>(res, "读取密钥迁移任务失败");
+  if (!rows[0]) throw createHttpError(404, "密钥迁移任务不存在");
+  return rows[0];
+};
+
+export const getKeyringStatus = async (): Promise<KeyringStatusView> => {
+  const keyring = getCredentialKeyring();
+  const [all, pending] = await Promise.all([
+    (async () => {
+      const res = await supabaseAdminRestFetch("user_r2_buckets?select=id", { method: "GET" });
+      return await readSupabaseRestArray<{ id: string }>(res, "读取存储桶失败");
+    })(),
+    (async () => {
+      const res = await supabaseAdminRestFetch(`user_r2_buckets?select=id&${notOnKeyFilter(keyring.primary.id)}`, { method: "GET" });
+      return await readSupabaseRestArray<{ id: string }>(res, "读取存储桶失败");
+    })(),
+  ]);
+  return {
+    primaryKeyId: keyring.primary.id,
+    keyIds: keyring.keys.map((key) => key.id),
+    buckets: all.length,
+    pending: pending.length,
+  };
+};
+
+export const getLatestKeyRotation = async () => {
+  const res = await supabaseAdminRestFetch(`app_key_rotations?select=${SELECT_COLUMNS}&order=created_at.desc&limit=1`);
+  const rows = await readSupabaseRestArray<KeyRotationRow>(res, "读取密钥迁移任务失败");
+  return rows[0] ? toRotationView(rows[0]) : null;
+};
+
+export const getKeyRotation = async (rotationId: string) => toRotationView(await readRotationRow(rotationId));
+
+export const createKeyRotation = async (ctx: AppAccessContext) => {
+  const active = await getLatestKeyRotation();
+  if (active && (active.status === "queued" || active.status === "running")) {
+    throw createHttpError(409, "已有正在进行的密钥迁移任务");
+  }
+  const status = await getKeyringStatus();
+  const res = await supabaseAdminRestFetch("app_key_rotations", {
+    method: "POST",
+    body: {
+      target_key_id: status.primaryKeyId,
+      status: "queued",
+      total: status.buckets,
+      created_by: ctx.user.id,
+      created_by_name: ctx.displayName,
+    },
+    prefer: "return=representation",
+  });
+  const rows = await readSupabaseRestArray<KeyRotationRow>(res, "创建密钥迁移任务失败");
+  if (!rows[0]) throw new Error("创建密钥迁移任务失败");
+  return toRotationView(rows[0]);
+};
+
+export const cancelKeyRotation = async (rotationId: string) => {
+  const res = await supabaseAdminRestFetch(`app_key_rotations?id=eq.${encodeFilter(rotationId)}&status=in.(queued,running)`, {
+    method: "PATCH",
+    body: { status: "cancelled", lease_until: null, finished_at: new Date().toISOString() },
+    prefer: "return=representation",
+  });
+  const rows = await readSupabaseRestArray<KeyRotationRow>(res, "取消密钥迁移任务失败");
+  return rows[0] ? toRotationView(rows[0]) : await getKeyRotation(rotationId);
+};
+
+const claimKeyRotation = async (rotationId: string) => {
+  const now = new Date();
+  const leaseUntil = new Date(now.getTime() + ROTATION_LEASE_SECONDS * 1000).toISOString();
+  const res = await supabaseAdminRestFetch(
+    `app_key_rotations?id=eq.${encodeFilter(rotationId)}&status=in.(queued,running)&or=(lease_until.is.null,lease_until.lt.${encodeFilter(now.toISOString())})`,
+    { method: "PATCH", body: { status: "running", lease_until: leaseUntil }, prefer: "return=representation" },
+  );
+  const rows = await readSupabaseRestArray<KeyRotationRow>(res, "启动密钥迁移任务失败");
+  return rows[0] ?? null;
+};
+
+const saveRotationProgress = async (
+  row: KeyRotationRow,
+  patch: Pick<KeyRotationRow, "status" | "last_bucket_id" | "processed" | "migrated" | "failed" | "failures"> & { error?: string | null },
+) => {
+  const finished = patch.status !== "running";
+  const res = await supabaseAdminRestFetch(`app_key_rotations?id=eq.${encodeFilter(row.id)}&status=eq.running`, {
+    method: "PATCH",
+    body: {
+      ...patch,
+      error: patch.error ?? null,
+      lease_until: null,
+      ...(finished ? { finished_at: new Date().toISOString() } : {}),
+    },
+    prefer: "return=representation",
+  });
+  const rows = await readSupabaseRestArray<KeyRotationRow>(res, "保存密钥迁移进度失败");
+  // Zero rows means the rotation was cancelled while this step was running.
+  return rows[0] ? toRotationView(rows[0]) : await getKeyRotation(row.id);
+};
+
+const reencryptBucket = async (row: BucketCredentialRow) => {
+  const [accessKeyId, secretAccessKey] = await Promise.all([
+    decryptCredential(row.access_key_id_enc),
+    decryptCredential(row.secret_access_key_enc),
+  ]);
+  const [accessKeyIdEnc, secretAccessKeyEnc] = await Promise.all([encryptCredential(accessKeyId), encryptCredential(secretAccessKey)]);
+  // Matching on the old ciphertexts leaves a row alone if its credentials were edited meanwhile;
+  // such an edit was already sealed with the primary key.
+  const res = await supabaseAdminRestFetch(
+    `user_r2_buckets?id=eq.${encodeFilter(row.id)}&access_key_id_enc=eq.${encodeFilter(row.access_key_id_enc)}&secret_access_key_enc=eq.${encodeFilter(row.secret_access_key_enc)}`,
+    { method: "PATCH", body: { access_key_id_enc: accessKeyIdEnc, secret_access_key_enc: secretAccessKeyEnc }, prefer: "return=minimal" },
+  );
+  if (!res.ok) throw new Error("更新存储桶凭据失败");
+};
+
+export const runKeyRotationStep = async (rotationId: string) => {
+  const row = await claimKeyRotation(rotationId);
+  if (!row) return await getKeyRotation(rotationId);
+
+  let lastBucketId = row.last_bucket_id;
+  let processed = readNumber(row.processed);
+  let migrated = readNumber(row.migrated);
+  let failed = readNumber(row.failed);
+  const failures = Array.isArray(row.failures) ? [...row.failures] : [];
+  const progress = () => ({ last_bucket_id: lastBucketId, processed, migrated, failed, failures });
+
+  try {
+    const primaryKeyId = getCredentialKeyring().primary.id;
+    if (primaryKeyId !== row.target_key_id) {
+      throw new Error(`主密钥已从「${row.target_key_id}」变更为「${primaryKeyId}」，请重新发起迁移`);
+    }
+
+    const deadline = Date.now() + ROTATION_STEP_BUDGET_MS;
+    let done = false;
+    while (!done && Date.now() < deadline) {
+      const res = await supabaseAdminRestFetch(
+        `user_r2_buckets?select=id,team_id,bucket_name,access_key_id_enc,secret_access_key_enc${
+          lastBucketId ? `&id=gt.${encodeFilter(lastBucketId)}` : ""
+        }&order=id.asc&limit=${ROTATION_CHUNK_SIZE}`,
+        { method: "GET" },
+      );
+      const buckets = await readSupabaseRestArray<BucketCredentialRow>(res, "读取存储桶失败");
+      for (const bucket of buckets) {
+        if (!isOnKey(bucket, primaryKeyId)) {
+          try {
+            await reencryptBucket(bucket);
+            migrated += 1;
+          } catch (error) {
+            failed += 1;
+            if (failures.length < MAX_RECORDED_FAILURES) {
+              failures.push({
+                bucketId: bucket.id,
+                teamId: bucket.team_id,
+                bucketName: bucket.bucket_name,
+                error: toChineseErrorMessage(error, "重新加密失败"),
+              });
+            }
+          }
+        }
+        processed += 1;
+        lastBucketId = bucket.id;
+      }
+      done = buckets.length < ROTATION_CHUNK_SIZE;
+    }
+
+    return await saveRotationProgress(row, { ...progress(), status: done ? "completed" : "running" });
+  } catch (error) {
+    return await saveRotationProgress(row, {
+      ...progress(),
+      status: "failed",
+      error: toChineseErrorMessage(error, "密钥迁移失败"),
+    });
+  }
+};
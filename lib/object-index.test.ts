@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  copyIndexedKeys,
+  indexObjectFromHead,
+  readReadyObjectIndexState,
+  searchObjectIndex,
+  syncIndexedPrefix,
+  upsertIndexedObjects,
+} from "@/lib/object-index";
+import { parseObjectSearchQuery } from "@/lib/object-search";
+import type { R2BucketLike } from "@/lib/r2-s3";
+
+const { restFetch } = vi.hoisted(() => ({
+  restFetch: vi.fn<(path: string, init?: { method?: string; body?: unknown }) => Promise<Response>>(),
+}));
+
+vi.mock("@/lib/supabase", () => ({
+  supabaseAdminRestFetch: (path: string, init?: { method?: string; body?: unknown }) => restFetch(path, init),
+  readSupabaseRestArray: async (res: Response, fallback: string) => {
+    if (!res.ok) throw new Error(fallback);
+    return (await res.json()) as unknown[];
+  },
+}));
+
+vi.mock("@/lib/file-marks", () => ({
+  isRecycleHiddenKey: (key: string) => key.startsWith(".r2-admin-go/"),
+}));
+
+const scope = { teamId: "t1", bucketId: "b1" };
+const rows = (value: unknown[]) => new Response(JSON.stringify(value), { status: 200 });
+const calls = () => restFetch.mock.calls.map(([path, init]) => ({ path: decodeURIComponent(path), method: init?.method, body: init?.body }));
+
+const listing = (keys: string[], pageSize: number) =>
+  vi.fn(async ({ cursor }: { cursor?: string }) => {
+    const start = Number(cursor ?? 0);
+    const page = keys.slice(start, start + pageSize);
+    const next = start + pageSize;
+    return { objects: page.map((key) => ({ key, size: 1 })), truncated: next < keys.length, cursor: String(next) };
+  });
+
+describe("object index upkeep", () => {
+  beforeEach(() => {
+    restFetch.mockReset();
+    restFetch.mockResolvedValue(rows([]));
+  });
+
+  it("skips hidden keys and only writes content types it knows", async () => {
+    await upsertIndexedObjects(scope, [{ key: "文件.pdf", size: 3 }, { key: ".r2-admin-go/recycle/x" }]);
+    const [write] = calls();
+    expect(write.body).toEqual([
+      expect.objectContaining({ team_id: "t1", bucket_id: "b1", key: "文件.pdf", key_pinyin: "wenjian.pdf wj.pdf", size: 3 }),
+    ]);
+    expect(write.body).toEqual([expect.not.objectContaining({ content_type: expect.anything() })]);
+  });
+
+  it("reads the stored object after a write and drops the row when it is gone", async () => {
+    const bucket = {
+      head: vi.fn(async (key: string) => (key === "a.txt" ? { size: 5, etag: "e1", httpMetadata: { contentType: "text/plain" } } : null)),
+    } as unknown as R2BucketLike;
+    await indexObjectFromHead(scope, bucket, "a.txt");
+    await indexObjectFromHead(scope, bucket, "gone.txt");
+    const [write, remove] = calls();
+    expect(write.body).toEqual([expect.objectContaining({ key: "a.txt", size: 5, etag: "e1", content_type: "text/plain" })]);
+    expect(remove).toMatchObject({ path: "rpc/r2_object_index_delete_keys", body: { p_bucket_id: "b1", p_keys: ["gone.txt"] } });
+  });
+
+  it("never fails the write it follows", async () => {
+    restFetch.mockResolvedValue(new Response("{}", { status: 500 }));
+    await expect(upsertIndexedObjects(scope, [{ key: "a.txt" }])).resolves.toBeUndefined();
+  });
+
+  it("replaces a prefix with a fresh listing, unless the listing is too large", async () => {
+    const small = { list: listing(["p/a", "p/b", "p/c"], 2) } as unknown as R2BucketLike;
+    await expect(syncIndexedPrefix(scope, small, "p/", 10)).resolves.toBe(true);
+    expect(calls().map((call) => call.path)).toEqual(["rpc/r2_object_index_delete_prefix", "user_r2_object_index?on_conflict=bucket_id,key"]);
+
+    restFetch.mockClear();
+    const large = { list: listing(["p/a", "p/b", "p/c", "p/d", "p/e"], 2) } as unknown as R2BucketLike;
+    await expect(syncIndexedPrefix(scope, large, "p/", 3)).resolves.toBe(false);
+    expect(restFetch).not.toHaveBeenCalled();
+  });
+
+  it("drops the source rows of keys moved into the recycle bin", async () => {
+    await copyIndexedKeys(scope, scope, [{ from: "a.txt", to: "b.txt" }, { from: "c.txt", to: ".r2-admin-go/recycle/c.txt" }], true);
+    const [copy, remove] = calls();
+    expect(copy.body).toMatchObject({ p_from_keys: ["a.txt"], p_to_keys: ["b.txt"], p_move: true });
+    expect(remove.body).toMatchObject({ p_keys: ["c.txt"] });
+  });
+});
+
+describe("searchObjectIndex", () => {
+  const parse = (params: Record<string, string>) => parseObjectSearchQuery(new URLSearchParams(params));
+
+  beforeEach(() => {
+    restFetch.mockReset();
+  });
+
+  it("pages key-ordered results by the last key", async () => {
+    restFetch.mockResolvedValue(rows([{ key: "a" }, { key: "b" }, { key: "c" }]));
+    const page = await searchObjectIndex(scope, parse({ match: "glob", q: "*", prefix: "docs" }), { cursor: "k:0", limit: 2, includeFolderMarkers: false });
+    expect(page.items.map((item) => item.key)).toEqual(["a", "b"]);
+    expect(page.cursor).toBe("k:b");
+    const [{ path }] = calls();
+    expect(path).toMatch(/^user_r2_object_index\?/);
+    expect(path).toContain("key=like.docs/*");
+    expect(path).toContain("key=gt.0");
+    expect(path).toContain("or=(size.gt.0,key.not.like.\"*/\")");
+    expect(path).toContain("limit=3");
+  });
+
+  it("pages size-ordered results by offset and sends plain text to the match function", async () => {
+    restFetch.mockResolvedValue(rows([{ key: "a", size: "9" }]));
+    const page = await searchObjectIndex(scope, parse({ q: "合同 2024", sort: "size", order: "desc" }), { cursor: "o:40", limit: 20, includeFolderMarkers: true });
+    expect(page).toEqual({ items: [expect.objectContaining({ key: "a", size: 9 })], cursor: null });
+    const [{ path }] = calls();
+    expect(path).toMatch(/^rpc\/r2_object_index_match_terms\?p_bucket_id=b1&p_terms=\{"合同","2024"\}&/);
+    expect(path).toContain("order=size.desc.nullslast,key.asc");
+    expect(path).toContain("offset=40");
+  });
+});
+
+describe("readReadyObjectIndexState", () => {
+  it("treats an unfinished or unreadable index as missing", async () => {
+    restFetch.mockResolvedValueOnce(rows([{ bucket_id: "b1", ready_at: null, reconciled_at: null, objects: 0 }]));
+    await expect(readReadyObjectIndexState(scope)).resolves.toBeNull();
+    restFetch.mockResolvedValueOnce(new Response("{}", { status: 500 }));
+    await expect(readReadyObjectIndexState(scope)).resolves.toBeNull();
+    restFetch.mockResolvedValueOnce(rows([{ bucket_id: "b1", ready_at: "2026-01-01T00:00:00Z", reconciled_at: null, objects: "12" }]));
+    await expect(readReadyObjectIndexState(scope)).resolves.toEqual({ readyAt: "2026-01-01T00:00:00.000Z", reconciledAt: undefined, objects: 12 });
+  });
+});
@@ -0,0 +1,351 @@
+import { isRecycleHiddenKey } from "@/lib/file-marks";
+import {
+  getSearchExtensions,
+  toIndexKeyFilter,
+  type ObjectSearchQuery,
+  type SearchSortField,
+} from "@/lib/object-search";
+import { toPinyinSearchText } from "@/lib/pinyin";
+import type { R2BucketLike, R2ObjectSummaryLike } from "@/lib/r2-s3";
+import { readSupabaseRestArray, supabaseAdminRestFetch } from "@/lib/supabase";
+
+// Supabase copy of each bucket's listing (user_r2_object_index), so search and folder sizes do not have to
+// walk the bucket. Writes made through the panel update it as they happen; a "reindex" job (lib/jobs.ts)
+// rescans the bucket and drops rows for objects that disappeared elsewhere. Hidden internal keys
+// (recycle bin, versions) are never indexed.
+
+export type ObjectIndexScope = {
+  teamId: string;
+  bucketId: string;
+};
+
+export type ObjectIndexEntry = {
+  key: string;
+  size?: number;
+  etag?: string;
+  uploaded?: string;
+  // Undefined leaves a stored content type alone; null records that the object has none.
+  contentType?: string | null;
+};
+
+export type IndexedObject = {
+  key: string;
+  size: number;
+  etag?: string;
+  uploaded?: string;
+  contentType?: string;
+  depth: number;
+};
+
+export type ObjectIndexState = {
+  readyAt?: string;
+  reconciledAt?: string;
+  objects: number;
+};
+
+type IndexRow = {
+  key: string;
+  size: number | string | null;
+  etag: string | null;
+  uploaded: string | null;
+  content_type: string | null;
+  depth: number | null;
+};
+
+type StateRow = {
+  bucket_id: string;
+  ready_at: string | null;
+  reconciled_at: string | null;
+  objects: number | string | null;
+};
+
+const INDEX_SELECT = "key,size,etag,uploaded,content_type,depth";
+const UPSERT_CHUNK_SIZE = 500;
+const KEY_CHUNK_SIZE = 1000;
+
+const encodeFilter = (value: string) => encodeURIComponent(value);
+
+const readNumber = (value: unknown) => {
+  const n = Number(value ?? 0);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const normalizeIso = (value?: string | null) => {
+  if (!value) return undefined;
+  const n = Date.parse(value);
+  return Number.isFinite(n) ? new Date(n).toISOString() : undefined;
+};
+
+const chunk = <T>(items: T[], size: number) => {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+};
+
+const rowToIndexedObject = (row: IndexRow): IndexedObject => ({
+  key: row.key,
+  size: readNumber(row.size),
+  etag: row.etag ?? undefined,
+  uploaded: normalizeIso(row.uploaded),
+  contentType: row.content_type ?? undefined,
+  depth: readNumber(row.depth),
+});
+
+const callRpc = async (name: string, body: Record<string, unknown>, fallback: string) => {
+  const res = await supabaseAdminRestFetch(`rpc/${name}`, { method: "POST", body });
+  if (!res.ok) await readSupabaseRestArray(res, fallback);
+  return res;
+};
+
+// Index upkeep never fails the storage write it follows; the next reindex repairs whatever was missed.
+const bestEffort = async (work: () => Promise<unknown>) => {
+  try {
+    await work();
+  } catch {
+    // Ignored on purpose, see above.
+  }
+};
+
+const writeEntries = async (scope: ObjectIndexScope, entries: ObjectIndexEntry[]) => {
+  const visible = entries.filter((entry) => entry.key && !isRecycleHiddenKey(entry.key));
+  // Listings carry no content type; leaving the column out keeps whatever an earlier upload recorded.
+  const withContentType = visible.some((entry) => entry.contentType !== undefined);
+  const indexedAt = new Date().toISOString();
+  for (const part of chunk(visible, UPSERT_CHUNK_SIZE)) {
+    const res = await supabaseAdminRestFetch("user_r2_object_index?on_conflict=bucket_id,key", {
+      method: "POST",
+      body: part.map((entry) => ({
+        team_id: scope.teamId,
+        bucket_id: scope.bucketId,
+        key: entry.key,
+        key_pinyin: toPinyinSearchText(entry.key) || null,
+        size: Math.max(0, readNumber(entry.size)),
+        etag: entry.etag ?? null,
+        uploaded: normalizeIso(entry.uploaded) ?? null,
+        ...(withContentType ? { content_type: entry.contentType ?? null } : {}),
+        indexed_at: indexedAt,
+      })),
+      prefer: "resolution=merge-duplicates,return=minimal",
+    });
+    if (!res.ok) await readSupabaseRestArray(res, "更新对象索引失败");
+  }
+};
+
+const deleteKeys = async (scope: ObjectIndexScope, keys: string[]) => {
+  for (const part of chunk(keys, KEY_CHUNK_SIZE)) {
+    await callRpc("r2_object_index_delete_keys", { p_bucket_id: scope.bucketId, p_keys: part }, "更新对象索引失败");
+  }
+};
+
+const deletePrefix = async (scope: ObjectIndexScope, prefix: string) => {
+  await callRpc("r2_object_index_delete_prefix", { p_bucket_id: scope.bucketId, p_prefix: prefix }, "更新对象索引失败");
+};
+
+export const toSummaryEntry = (obj: R2ObjectSummaryLike): ObjectIndexEntry => ({
+  key: obj.key,
+  size: obj.size,
+  etag: obj.etag,
+  uploaded: obj.uploaded,
+});
+
+export const upsertIndexedObjects = async (scope: ObjectIndexScope, entries: ObjectIndexEntry[]) =>
+  await bestEffort(() => writeEntries(scope, entries));
+
+// Re-reads one object after a write so the row carries the stored size, etag and content type.
+export const indexObjectFromHead = async (scope: ObjectIndexScope, bucket: R2BucketLike, key: string) =>
+  await bestEffort(async () => {
+    const head = await bucket.head(key);
+    if (!head) {
+      await deleteKeys(scope, [key]);
+      return;
+    }
+    await writeEntries(scope, [
+      { key, size: head.size, etag: head.etag, uploaded: head.lastModified, contentType: head.httpMetadata?.contentType ?? null },
+    ]);
+  });
+
+export const removeIndexedKeys = async (scope: ObjectIndexScope, keys: string[]) =>
+  await bestEffort(() => deleteKeys(scope, keys));
+
+export const removeIndexedPrefix = async (scope: ObjectIndexScope, prefix: string) =>
+  await bestEffort(() => deletePrefix(scope, prefix));
+
+export const copyIndexedKeys = async (
+  from: ObjectIndexScope,
+  to: ObjectIndexScope,
+  pairs: Array<{ from: string; to: string }>,
+  move: boolean,
+) =>
+  await bestEffort(async () => {
+    const visible = pairs.filter((pair) => !isRecycleHiddenKey(pair.to));
+    for (const part of chunk(visible, KEY_CHUNK_SIZE)) {
+      await callRpc(
+        "r2_object_index_copy_keys",
+        {
+          p_from_bucket_id: from.bucketId,
+          p_to_team_id: to.teamId,
+          p_to_bucket_id: to.bucketId,
+          p_from_keys: part.map((pair) => pair.from),
+          p_to_keys: part.map((pair) => pair.to),
+          p_to_key_pinyin: part.map((pair) => toPinyinSearchText(pair.to)),
+          p_move: move,
+        },
+        "更新对象索引失败",
+      );
+    }
+    if (move) await deleteKeys(from, pairs.filter((pair) => isRecycleHiddenKey(pair.to)).map((pair) => pair.from));
+  });
+
+// Replaces everything indexed under `prefix` with a fresh listing; used where keys appear without a known source row.
+// The listing is held in memory, so a prefix with more than `maxObjects` objects is left alone and false is
+// returned; the caller then hands the bucket to the reindex job.
+export const syncIndexedPrefix = async (scope: ObjectIndexScope, bucket: R2BucketLike, prefix: string, maxObjects: number) => {
+  let synced = true;
+  await bestEffort(async () => {
+    const entries: ObjectIndexEntry[] = [];
+    let cursor: string | undefined;
+    for (;;) {
+      const res = await bucket.list({ prefix, cursor });
+      for (const obj of res.objects ?? []) entries.push(toSummaryEntry(obj));
+      if (entries.length > maxObjects) {
+        synced = false;
+        return;
+      }
+      if (!res.truncated || !res.cursor) break;
+      cursor = res.cursor;
+    }
+    await deletePrefix(scope, prefix);
+    await writeEntries(scope, entries);
+  });
+  return synced;
+};
+
+// Strict variant for the reindex job, where a failed write has to fail (and later retry) the step.
+export const reindexObjects = async (scope: ObjectIndexScope, objects: R2ObjectSummaryLike[]) =>
+  await writeEntries(scope, objects.map(toSummaryEntry));
+
+// Called once a full scan that started at `startedAt` has finished: rows it did not touch are gone from the bucket.
+export const finishObjectReindex = async (scope: ObjectIndexScope, startedAt: string) => {
+  const pruned = await supabaseAdminRestFetch(
+    `user_r2_object_index?bucket_id=eq.${encodeFilter(scope.bucketId)}&indexed_at=lt.${encodeFilter(startedAt)}`,
+    { method: "DELETE", prefer: "return=minimal" },
+  );
+  if (!pruned.ok) await readSupabaseRestArray(pruned, "清理对象索引失败");
+
+  const [state, usage] = await Promise.all([readObjectIndexState(scope), readIndexedUsage(scope, "")]);
+  const now = new Date().toISOString();
+  const res = await supabaseAdminRestFetch("user_r2_object_index_state?on_conflict=bucket_id", {
+    method: "POST",
+    body: {
+      bucket_id: scope.bucketId,
+      team_id: scope.teamId,
+      ready_at: state?.readyAt ?? now,
+      reconciled_at: now,
+      objects: usage.objects,
+      updated_at: now,
+    },
+    prefer: "resolution=merge-duplicates,return=minimal",
+  });
+  if (!res.ok) await readSupabaseRestArray(res, "保存对象索引状态失败");
+};
+
+export const readObjectIndexState = async (scope: ObjectIndexScope): Promise<ObjectIndexState | null> => {
+  const res = await supabaseAdminRestFetch(
+    `user_r2_object_index_state?select=bucket_id,ready_at,reconciled_at,objects&bucket_id=eq.${encodeFilter(scope.bucketId)}&team_id=eq.${encodeFilter(scope.teamId)}&limit=1`,
+    { method: "GET" },
+  );
+  const row = (await readSupabaseRestArray<StateRow>(res, "读取对象索引状态失败"))[0];
+  if (!row) return null;
+  return {
+    readyAt: normalizeIso(row.ready_at),
+    reconciledAt: normalizeIso(row.reconciled_at),
+    objects: readNumber(row.objects),
+  };
+};
+
+// Falls back to null when the index has never finished a full scan or is unavailable, so callers can scan instead.
+export const readReadyObjectIndexState = async (scope: ObjectIndexScope) => {
+  try {
+    const state = await readObjectIndexState(scope);
+    return state?.readyAt ? state : null;
+  } catch {
+    return null;
+  }
+};
+
+const toLikeFragment = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/%/g, "\\%").replace(/_/g, "\\_").replace(/\*/g, "_");
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Array literal for text[] parameters passed in a query string: {"a","b \"c\""}.
+const toPostgresArray = (values: string[]) =>
+  `{${values.map((value) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`).join(",")}}`;
+
+const INDEX_ORDER_COLUMNS: Partial<Record<SearchSortField, string>> = { size: "size", modified: "uploaded" };
+
+// Narrows the index with everything SQL can express; the caller still runs the search matchers on each row.
+// Key-ordered searches page by the last key ("k:<key>"), size/date-ordered ones by row offset ("o:<n>").
+// Relevance is scored by the caller, so the index pages those by key too.
+export const searchObjectIndex = async (
+  scope: ObjectIndexScope,
+  query: ObjectSearchQuery,
+  page: { cursor?: string | null; limit: number; includeFolderMarkers: boolean },
+) => {
+  const keyFilter = toIndexKeyFilter(query);
+  const extensions = getSearchExtensions(query);
+  const orderColumn = INDEX_ORDER_COLUMNS[query.sort];
+  const direction = query.order === "desc" ? "desc" : "asc";
+  const cursor = page.cursor ?? "";
+  const offset = orderColumn && cursor.startsWith("o:") ? Math.max(0, Number.parseInt(cursor.slice(2), 10) || 0) : 0;
+  const afterKey = !orderColumn && cursor.startsWith("k:") ? cursor.slice(2) : "";
+
+  const filters = [
+    `select=${INDEX_SELECT}`,
+    `bucket_id=eq.${encodeFilter(scope.bucketId)}`,
+    keyFilter?.op === "imatch" ? `key=imatch.${encodeFilter(keyFilter.value)}` : "",
+    query.prefix ? `key=like.${encodeFilter(`${toLikeFragment(query.prefix)}*`)}` : "",
+    extensions.length ? `key=imatch.${encodeFilter(`\\.(${extensions.map(escapeRegex).join("|")})$`)}` : "",
+    query.minSize !== undefined ? `size=gte.${query.minSize}` : "",
+    query.maxSize !== undefined ? `size=lte.${query.maxSize}` : "",
+    query.modifiedFrom ? `uploaded=gte.${encodeFilter(query.modifiedFrom)}` : "",
+    query.modifiedTo ? `uploaded=lte.${encodeFilter(query.modifiedTo)}` : "",
+    // Zero-byte folder markers only matter when folders can be results.
+    page.includeFolderMarkers ? "" : `or=(size.gt.0,key.not.like.${encodeFilter('"*/"')})`,
+    afterKey ? `key=${direction === "desc" ? "lt" : "gt"}.${encodeFilter(afterKey)}` : "",
+    orderColumn ? `order=${orderColumn}.${direction}.nullslast,key.asc` : `order=key.${direction}`,
+    offset ? `offset=${offset}` : "",
+    `limit=${page.limit + 1}`,
+  ].filter(Boolean);
+  // Plain-text terms need the pinyin and similarity checks of the match function, which returns index rows
+  // the remaining filters still apply to.
+  const terms = keyFilter?.op === "terms" ? keyFilter.terms : null;
+  const source = terms
+    ? `rpc/r2_object_index_match_terms?p_bucket_id=${encodeFilter(scope.bucketId)}&p_terms=${encodeFilter(toPostgresArray(terms))}&`
+    : "user_r2_object_index?";
+  const res = await supabaseAdminRestFetch(`${source}${filters.join("&")}`, { method: "GET" });
+  const rows = await readSupabaseRestArray<IndexRow>(res, "搜索对象索引失败");
+  const items = rows.slice(0, page.limit);
+  const hasMore = rows.length > page.limit;
+  return {
+    items: items.map(rowToIndexedObject),
+    cursor: !hasMore ? null : orderColumn ? `o:${offset + items.length}` : `k:${items[items.length - 1]?.key ?? ""}`,
+  };
+};
+
+export const readIndexedFolderStats = async (scope: ObjectIndexScope, prefix: string) => {
+  const res = await callRpc("r2_object_index_folder_stats", { p_bucket_id: scope.bucketId, p_prefix: prefix }, "读取文件夹统计失败");
+  const rows = await readSupabaseRestArray<{ folder_key: string; size: number | string | null; last_modified: string | null }>(
+    res,
+    "读取文件夹统计失败",
+  );
+  const stats = new Map<string, { size: number; lastModified?: string }>();
+  for (const row of rows) stats.set(row.folder_key, { size: readNumber(row.size), lastModified: normalizeIso(row.last_modified) });
+  return stats;
+};
+
+export const readIndexedUsage = async (scope: ObjectIndexScope, prefix: string) => {
+  const res = await callRpc("r2_object_index_usage", { p_bucket_id: scope.bucketId, p_prefix: prefix }, "读取容量统计失败");
+  const rows = await readSupabaseRestArray<{ objects: number | string | null; bytes: number | string | null }>(res, "读取容量统计失败");
+  return { objects: readNumber(rows[0]?.objects), bytes: readNumber(rows[0]?.bytes) };
+};
@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { abortAllMultipartUploads, copyObject, deleteKeys } from "@/lib/object-ops";
+import type { R2BucketLike, R2ClientCredentials } from "@/lib/r2-s3";
+
+const { copyObjectInBucket, listMultipartUploads, abortUpload } = vi.hoisted(() => ({
+  copyObjectInBucket: vi.fn(),
+  listMultipartUploads: vi.fn(),
+  abortUpload: vi.fn(),
+}));
+
+vi.mock("@/lib/r2-s3", () => ({
+  MAX_SINGLE_COPY_SIZE: 100,
+  copyObjectInBucket: (...args: unknown[]) => copyObjectInBucket(...args),
+  listMultipartUploads: (...args: unknown[]) => listMultipartUploads(...args),
+  createR2Bucket: () => ({
+    resumeMultipartUpload: (key: string, uploadId: string) => ({ abort: () => abortUpload(key, uploadId) }),
+  }),
+}));
+
+type Stored = { body: string; etag: string };
+
+const createMemoryBucket = (initial: Record<string, Stored>) => {
+  const objects = new Map(Object.entries(initial));
+  const bucket = {
+    objects,
+    list: vi.fn(),
+    head: vi.fn(async (key: string) => {
+      const obj = objects.get(key);
+      return obj ? { etag: obj.etag, size: obj.body.length } : null;
+    }),
+    get: vi.fn(async (key: string) => {
+      const obj = objects.get(key);
+      return obj ? { body: new Response(obj.body).body, etag: obj.etag, size: obj.body.length } : null;
+    }),
+    put: vi.fn(async (key: string, value: unknown) => {
+      objects.set(key, { body: await new Response(value as BodyInit).text(), etag: `put-${key}` });
+      return { etag: `put-${key}` };
+    }),
+    delete: vi.fn(async (keyOrKeys: string | string[]) => {
+      for (const key of Array.isArray(keyOrKeys) ? keyOrKeys : [keyOrKeys]) objects.delete(key);
+    }),
+  };
+  return bucket as typeof bucket & R2BucketLike;
+};
+
+const creds = {} as R2ClientCredentials;
+
+describe("copyObject", () => {
+  beforeEach(() => {
+    copyObjectInBucket.mockReset();
+  });
+
+  it("accepts a failed copy when the target already matches the source", async () => {
+    const bucket = createMemoryBucket({ a: { body: "hello", etag: "e1" }, b: { body: "hello", etag: "e1" } });
+    copyObjectInBucket.mockImplementation(async () => {
+      throw new Error("response lost");
+    });
+    await copyObject(bucket, creds, "a", "b");
+    expect(bucket.put).not.toHaveBeenCalled();
+  });
+
+  it("re-uploads when an unrelated object sits at the target", async () => {
+    const bucket = createMemoryBucket({ a: { body: "new", etag: "e1" }, b: { body: "old", etag: "e0" } });
+    copyObjectInBucket.mockImplementation(async () => {
+      throw new Error("copy refused");
+    });
+    await copyObject(bucket, creds, "a", "b");
+    expect(bucket.objects.get("b")?.body).toBe("new");
+  });
+
+  it("keeps the source storage class when re-uploading", async () => {
+    const bucket = createMemoryBucket({ a: { body: "cold", etag: "e1" } });
+    bucket.get.mockImplementationOnce(async () => ({ body: new Response("cold").body, etag: "e1", size: 4, storageClass: "STANDARD_IA" }));
+    copyObjectInBucket.mockImplementation(async () => {
+      throw new Error("copy refused");
+    });
+    await copyObject(bucket, creds, "a", "b");
+    expect(bucket.put).toHaveBeenCalledWith("b", expect.anything(), expect.objectContaining({ storageClass: "STANDARD_IA" }));
+  });
+
+  it("rethrows the copy error for objects too large to re-upload", async () => {
+    const bucket = createMemoryBucket({ a: { body: "x".repeat(200), etag: "e1" }, b: { body: "old", etag: "e0" } });
+    const copyError = new Error("copy refused");
+    copyObjectInBucket.mockImplementation(async () => {
+      throw copyError;
+    });
+    await expect(copyObject(bucket, creds, "a", "b")).rejects.toBe(copyError);
+    expect(bucket.objects.get("b")?.body).toBe("old");
+  });
+
+  it("fails when the source is gone", async () => {
+    const bucket = createMemoryBucket({});
+    copyObjectInBucket.mockImplementation(async () => {
+      throw new Error("NoSuchKey");
+    });
+    await expect(copyObject(bucket, creds, "a", "b")).rejects.toMatchObject({ status: 404 });
+  });
+
+  it("refuses to copy an object onto itself", async () => {
+    const bucket = createMemoryBucket({ a: { body: "x", etag: "e1" } });
+    await expect(copyObject(bucket, creds, "a", "a")).rejects.toThrow();
+    expect(copyObjectInBucket).not.toHaveBeenCalled();
+  });
+});
+
+describe("deleteKeys", () => {
+  it("falls back to single deletes and ignores keys that are already gone", async () => {
+    const bucket = createMemoryBucket({ a: { body: "1", etag: "1" }, b: { body: "2", etag: "2" } });
+    bucket.delete.mockImplementationOnce(async () => {
+      throw new Error("batch delete unsupported");
+    });
+    await deleteKeys(bucket, ["a", "b", "a", "missing"]);
+    expect(bucket.objects.size).toBe(0);
+    expect(bucket.delete).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe("abortAllMultipartUploads", () => {
+  it("walks every page of the upload listing", async () => {
+    listMultipartUploads
+      .mockResolvedValueOnce({
+        uploads: [
+          { key: "a", uploadId: "1" },
+          { key: "b", uploadId: "2" },
+        ],
+        truncated: true,
+        nextKeyMarker: "b",
+        nextUploadIdMarker: "2",
+      })
+      .mockResolvedValueOnce({ uploads: [{ key: "c", uploadId: "3" }], truncated: false });
+    abortUpload.mockResolvedValue(undefined);
+
+    await expect(abortAllMultipartUploads(creds)).resolves.toBe(3);
+    expect(listMultipartUploads).toHaveBeenLastCalledWith(creds, { keyMarker: "b", uploadIdMarker: "2" });
+    expect(abortUpload.mock.calls).toEqual([
+      ["a", "1"],
+      ["b", "2"],
+      ["c", "3"],
+    ]);
+  });
+});
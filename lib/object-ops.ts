@@ -0,0 +1,113 @@
+import {
+  MAX_SINGLE_COPY_SIZE,
+  copyObjectInBucket,
+  createR2Bucket,
+  listMultipartUploads,
+  type R2BucketLike,
+  type R2ClientCredentials,
+  type R2HeadResultLike,
+} from "@/lib/r2-s3";
+
+// Object-level building blocks shared by the operate, recycle, bucket and job code paths.
+
+export const mapConcurrent = async <T, R>(items: T[], concurrency: number, worker: (item: T, index: number) => Promise<R>) => {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  const run = async () => {
+    for (;;) {
+      const index = nextIndex++;
+      if (index >= items.length) return;
+      results[index] = await worker(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, run));
+  return results;
+};
+
+export const listAllKeysWithPrefix = async (bucket: R2BucketLike, prefix: string) => {
+  const keys: string[] = [];
+  let cursor: string | undefined;
+  for (;;) {
+    const res = await bucket.list({ prefix, cursor });
+    for (const o of res.objects ?? []) {
+      if (typeof o.key === "string" && o.key) keys.push(o.key);
+    }
+    if (!res.truncated || !res.cursor) break;
+    cursor = res.cursor;
+  }
+  return keys;
+};
+
+// A failed delete only counts when the object is still there afterwards.
+export const deleteObject = async (bucket: R2BucketLike, key: string) => {
+  try {
+    await bucket.delete(key);
+  } catch (error) {
+    if (await bucket.head(key)) throw error;
+  }
+};
+
+export const deleteKeys = async (bucket: R2BucketLike, keys: string[]) => {
+  const unique = Array.from(new Set(keys.filter(Boolean)));
+  const chunkSize = 1000;
+  for (let i = 0; i < unique.length; i += chunkSize) {
+    const chunk = unique.slice(i, i + chunkSize);
+    try {
+      await bucket.delete(chunk);
+    } catch {
+      for (const key of chunk) await deleteObject(bucket, key);
+    }
+  }
+};
+
+const isSameObject = (a: R2HeadResultLike | null, b: R2HeadResultLike | null) =>
+  Boolean(a?.etag && b && a.etag === b.etag && Number(a.size ?? 0) === Number(b.size ?? 0));
+
+// Server-side copy inside one bucket, re-uploading through the worker when CopyObject is refused.
+export const copyObject = async (bucket: R2BucketLike, creds: R2ClientCredentials, fromKey: string, toKey: string) => {
+  if (fromKey === toKey) throw new Error("源路径和目标路径相同，请选择其他目标路径");
+
+  let copyError: unknown;
+  try {
+    await copyObjectInBucket(creds, fromKey, toKey);
+    return;
+  } catch (error) {
+    copyError = error;
+    // The copy may have landed even though the response was lost. The target alone proves nothing, since
+    // overwrite targets usually exist already, so only accept it when it matches the source.
+    const [source, copied] = await Promise.all([bucket.head(fromKey), bucket.head(toKey)]);
+    if (isSameObject(source, copied)) return;
+  }
+
+  const obj = await bucket.get(fromKey);
+  if (!obj) throw Object.assign(new Error("源文件不存在或已被删除"), { status: 404 });
+  // A single PUT has the same size cap as CopyObject, so re-uploading cannot succeed either.
+  if (Number(obj.size ?? 0) > MAX_SINGLE_COPY_SIZE) {
+    await (obj.body as ReadableStream | null)?.cancel();
+    throw copyError;
+  }
+  await bucket.put(toKey, obj.body, {
+    httpMetadata: obj.httpMetadata,
+    customMetadata: obj.customMetadata,
+    storageClass: obj.storageClass,
+  });
+};
+
+// Aborts every unfinished multipart upload. Needed before deleting a bucket: the service refuses to delete
+// one that still holds upload sessions, and their parts would otherwise be billed until they expire.
+export const abortAllMultipartUploads = async (creds: R2ClientCredentials) => {
+  const bucket = createR2Bucket(creds);
+  let aborted = 0;
+  let keyMarker: string | undefined;
+  let uploadIdMarker: string | undefined;
+  for (;;) {
+    const page = await listMultipartUploads(creds, { keyMarker, uploadIdMarker });
+    await mapConcurrent(page.uploads, 4, async (upload) => {
+      await bucket.resumeMultipartUpload!(upload.key, upload.uploadId).abort();
+      aborted += 1;
+    });
+    if (!page.truncated || !page.nextKeyMarker) return aborted;
+    keyMarker = page.nextKeyMarker;
+    uploadIdMarker = page.nextUploadIdMarker;
+  }
+};
@@ -0,0 +1,159 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createFileMatcher,
+  createFolderMatcher,
+  listFoldersOfKey,
+  parseObjectSearchQuery,
+  readAllBucketsCursor,
+  scanListing,
+  toIndexKeyFilter,
+  writeAllBucketsCursor,
+} from "@/lib/object-search";
+import type { R2ListResultLike } from "@/lib/r2-s3";
+
+const parse = (params: Record<string, string>) => parseObjectSearchQuery(new URLSearchParams(params));
+
+describe("parseObjectSearchQuery", () => {
+  it("normalizes the prefix, extensions and sort", () => {
+    const query = parse({ q: " report ", prefix: "/docs", ext: ".PDF, docx", sort: "size", order: "desc" });
+    expect(query).toMatchObject({ q: "report", match: "substring", prefix: "docs/", extensions: ["pdf", "docx"], sort: "size", order: "desc" });
+  });
+
+  it("covers whole days for bare dates", () => {
+    const query = parse({ modifiedFrom: "2024-03-01", modifiedTo: "2024-03-02" });
+    expect(query.modifiedFrom).toBe("2024-03-01T00:00:00.000Z");
+    expect(query.modifiedTo).toBe("2024-03-02T23:59:59.999Z");
+  });
+
+  it.each([
+    [{ match: "regex", q: "(" }, "正则表达式无效"],
+    [{ minSize: "10", maxSize: "5" }, "文件大小范围无效"],
+    [{ modifiedFrom: "2024-03-02", modifiedTo: "2024-03-01" }, "修改时间范围无效"],
+    [{ q: "x".repeat(301) }, "搜索内容不能超过"],
+  ])("rejects %j", (params, message) => {
+    expect(() => parse(params)).toThrow(message);
+  });
+});
+
+describe("matchers", () => {
+  it("matches globs against the name unless they contain a slash", () => {
+    const byName = createFileMatcher(parse({ match: "glob", q: "*.txt" }));
+    expect(byName({ key: "a/b/notes.txt" })).toBe(0);
+    expect(byName({ key: "a/b/notes.md" })).toBeNull();
+
+    const byPath = createFileMatcher(parse({ match: "glob", q: "a/**/*.txt" }));
+    expect(byPath({ key: "a/notes.txt" })).toBe(0);
+    expect(byPath({ key: "a/b/c/notes.txt" })).toBe(0);
+    expect(byPath({ key: "b/notes.txt" })).toBeNull();
+  });
+
+  it("applies the file filters", () => {
+    const matcher = createFileMatcher(parse({ prefix: "docs/", types: "image", minSize: "10", modifiedFrom: "2024-01-01" }));
+    expect(matcher({ key: "docs/a.png", size: 20, uploaded: "2024-02-01T00:00:00Z" })).toBe(0);
+    expect(matcher({ key: "other/a.png", size: 20, uploaded: "2024-02-01T00:00:00Z" })).toBeNull();
+    expect(matcher({ key: "docs/a.txt", size: 20, uploaded: "2024-02-01T00:00:00Z" })).toBeNull();
+    expect(matcher({ key: "docs/a.png", size: 5, uploaded: "2024-02-01T00:00:00Z" })).toBeNull();
+    expect(matcher({ key: "docs/a.png", size: 20, uploaded: "2023-12-31T00:00:00Z" })).toBeNull();
+  });
+
+  it("only matches folders on their own name", () => {
+    const matcher = createFolderMatcher(parse({ q: "report", prefix: "p/" }));
+    expect(matcher?.("p/reports/")).not.toBeNull();
+    expect(matcher?.("p/reports/2024/")).toBeNull();
+    expect(matcher?.("p/")).toBeNull();
+    expect(createFolderMatcher(parse({ q: "report", types: "image" }))).toBeNull();
+  });
+
+  it("lists the folders implied by a key", () => {
+    expect(listFoldersOfKey("p/a/b/c.txt", "p/")).toEqual(["p/a/", "p/a/b/"]);
+    expect(listFoldersOfKey("q/a/c.txt", "p/")).toEqual([]);
+  });
+});
+
+describe("toIndexKeyFilter", () => {
+  it("turns globs into anchored PostgreSQL patterns", () => {
+    expect(toIndexKeyFilter(parse({ match: "glob", q: "*.txt" }))).toEqual({ op: "imatch", value: "(^|/)[^/]*\\.txt(/|$)" });
+    expect(toIndexKeyFilter(parse({ match: "glob", q: "a/?.md" }))).toEqual({ op: "imatch", value: "^a/[^/]\\.md(/|$)" });
+  });
+
+  it("sends plain text as terms, mixed Chinese and latin tokens as pinyin", () => {
+    expect(toIndexKeyFilter(parse({ q: "Report 2024" }))).toEqual({ op: "terms", terms: ["report", "2024"] });
+    const filter = toIndexKeyFilter(parse({ q: "合同qd" }));
+    expect(filter?.op).toBe("terms");
+    expect(filter?.op === "terms" && filter.terms[0]).toMatch(/^hetong/);
+  });
+
+  it.each(["^docs/.*\\.pdf$", "(?:a|b)\\d{2,4}", "[a-z]+\\s\\.txt", "report\\(1\\)"])("passes the portable regex %j to SQL", (q) => {
+    expect(toIndexKeyFilter(parse({ match: "regex", q }))).toEqual({ op: "imatch", value: q });
+  });
+
+  it.each(["\\bword\\b", "(?<=a)b", "(?<name>a)", "(a)\\1", "\\u4e2d", "a{1,300}"])("leaves %j to the matchers", (q) => {
+    expect(toIndexKeyFilter(parse({ match: "regex", q }))).toBeNull();
+    expect(createFileMatcher(parse({ match: "regex", q }))({ key: "x" })).toBeNull();
+  });
+
+  it("does not filter keys for content queries", () => {
+    expect(toIndexKeyFilter(parse({ match: "content", q: "invoice" }))).toBeNull();
+  });
+});
+
+describe("scanListing", () => {
+  // A listing of keys k00..k(n-1) served in pages of `pageSize`, honouring startAfter like S3 does.
+  const createListing = (count: number, pageSize: number) => {
+    const keys = Array.from({ length: count }, (_, i) => `k${String(i).padStart(2, "0")}`);
+    return vi.fn(async ({ startAfter }: { startAfter?: string }): Promise<R2ListResultLike> => {
+      const rest = keys.filter((key) => !startAfter || key > startAfter);
+      return { objects: rest.slice(0, pageSize).map((key) => ({ key })), truncated: rest.length > pageSize };
+    });
+  };
+
+  const collect = () => {
+    const taken: string[] = [];
+    return { taken, take: (o: { key: string }) => void taken.push(o.key) };
+  };
+
+  it("resumes right after the last key examined when the result page fills up mid-listing page", async () => {
+    const list = createListing(10, 4);
+    const first = collect();
+    const cursor = await scanListing(list, { prefix: "", maxPages: 25 }, first.take, () => first.taken.length >= 3);
+    expect(first.taken).toEqual(["k00", "k01", "k02"]);
+    expect(cursor).toBe("k02");
+
+    const second = collect();
+    const done = await scanListing(list, { prefix: "", after: cursor ?? undefined, maxPages: 25 }, second.take, () => false);
+    expect(second.taken).toEqual(["k03", "k04", "k05", "k06", "k07", "k08", "k09"]);
+    expect(done).toBeNull();
+  });
+
+  it("ends with a cursor at the page limit and null when the listing is done", async () => {
+    const list = createListing(10, 4);
+    const { take } = collect();
+    await expect(scanListing(list, { prefix: "", maxPages: 2 }, take, () => false)).resolves.toBe("k07");
+    await expect(scanListing(createListing(8, 4), { prefix: "", maxPages: 2 }, take, () => false)).resolves.toBeNull();
+  });
+
+  it("shares the page budget but always fetches a first page", async () => {
+    const budget = { remaining: 3 };
+    const { take } = collect();
+    await expect(scanListing(createListing(20, 2), { prefix: "", maxPages: 25, budget }, take, () => false)).resolves.toBe("k05");
+    expect(budget.remaining).toBe(0);
+
+    const list = createListing(20, 2);
+    await expect(scanListing(list, { prefix: "", maxPages: 25, budget }, take, () => false)).resolves.toBe("k01");
+    expect(list).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("all-bucket cursors", () => {
+  it("round-trips the per-bucket cursors", () => {
+    const cursors = new Map([["b1", "scan:k02"], ["b2", ""]]);
+    expect(readAllBucketsCursor(writeAllBucketsCursor(cursors) ?? undefined)).toEqual(cursors);
+    expect(writeAllBucketsCursor(new Map())).toBeNull();
+    expect(readAllBucketsCursor("scan:k02")).toBeNull();
+  });
+
+  it("rejects a malformed cursor", () => {
+    expect(() => readAllBucketsCursor("all:[1]")).toThrow("分页参数无效");
+    expect(() => readAllBucketsCursor("all:{")).toThrow("分页参数无效");
+  });
+});
@@ -0,0 +1,340 @@
+import { hasPinyinReadings, toPinyin } from "@/lib/pinyin";
+import { getFileTypeGroupExtensions, isFileTypeGroup, type FileTypeGroup } from "@/lib/preview-hints";
+import { createTextMatcher, splitQueryTokens } from "@/lib/text-match";
+import type { R2ListResultLike, R2ObjectSummaryLike } from "@/lib/r2-s3";
+
+// Query model behind /api/search. The object index (lib/object-index.ts) uses it to narrow candidates in
+// SQL; the matchers below have the final word for both the index and the bucket scan, so both paths
+// return the same results. Plain (substring) queries also match pinyin and small typos and are ranked by
+// relevance (lib/text-match.ts); the matchers return that score, or null for no match. Content queries
+// look for the text inside files (lib/content-index.ts); here they only apply the file filters.
+
+export type SearchMatchMode = "substring" | "glob" | "regex" | "content";
+export type SearchSortField = "key" | "name" | "size" | "modified" | "relevance";
+export type SearchSortOrder = "asc" | "desc";
+
+export type ObjectSearchQuery = {
+  q: string;
+  match: SearchMatchMode;
+  types: FileTypeGroup[];
+  extensions: string[];
+  minSize?: number;
+  maxSize?: number;
+  modifiedFrom?: string;
+  modifiedTo?: string;
+  // Only keys below this folder ("" for the whole bucket).
+  prefix: string;
+  favoritesOnly: boolean;
+  sort: SearchSortField;
+  order: SearchSortOrder;
+};
+
+export type SearchCandidate = {
+  key: string;
+  size?: number;
+  uploaded?: string;
+};
+
+// Regex flavour shared by JavaScript and PostgreSQL (`~*`), matched case-insensitively. `terms` go to the
+// r2_object_index_match_terms RPC, which also looks at the pinyin column.
+export type IndexKeyFilter = { op: "terms"; terms: string[] } | { op: "imatch"; value: string };
+
+const MAX_PATTERN_LENGTH = 300;
+
+const createHttpError = (status: number, message: string) => {
+  const err = new Error(message) as Error & { status?: number };
+  err.status = status;
+  return err;
+};
+
+const splitList = (raw: string | null) =>
+  String(raw ?? "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+const readSizeParam = (raw: string | null) => {
+  if (!raw?.trim()) return undefined;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) throw createHttpError(400, "文件大小范围无效");
+  return Math.floor(n);
+};
+
+// Bare dates cover the whole (UTC) day; the panel sends full timestamps in the viewer's time zone.
+const readDateParam = (raw: string | null, endOfDay: boolean) => {
+  const value = String(raw ?? "").trim();
+  if (!value) return undefined;
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const t = Date.parse(dateOnly ? `${value}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z` : value);
+  if (!Number.isFinite(t)) throw createHttpError(400, "修改时间范围无效");
+  return new Date(t).toISOString();
+};
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// `**/` spans any number of folders, `*` and `?` stay within one path segment.
+const globToRegexSource = (glob: string) => {
+  let out = "";
+  for (let i = 0; i < glob.length; i += 1) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      if (glob[i + 2] === "/") {
+        out += "(.*/)?";
+        i += 2;
+      } else {
+        out += ".*";
+        i += 1;
+      }
+    } else if (c === "*") {
+      out += "[^/]*";
+    } else if (c === "?") {
+      out += "[^/]";
+    } else {
+      out += escapeRegex(c);
+    }
+  }
+  return out;
+};
+
+// Whether PostgreSQL (`~*`) reads a JavaScript pattern the same way. Only the common core is accepted:
+// escapes other than \d \w \s (and their negations) or escaped punctuation, and groups other than (?:...),
+// mean something else or nothing there (\b is a backspace in PostgreSQL, lookbehind and named groups are
+// JavaScript only), and PostgreSQL rejects repeat counts above 255. Other patterns are still searched, just
+// without the SQL pre-filter.
+const isPortableRegex = (source: string) => {
+  for (let i = 0; i < source.length; i += 1) {
+    const c = source[i];
+    if (c === "\\") {
+      const next = source[i + 1] ?? "";
+      if (!next || (/[a-z0-9]/i.test(next) && !/[dDwWsS]/.test(next))) return false;
+      i += 1;
+    } else if (c === "(" && source[i + 1] === "?" && source[i + 2] !== ":") {
+      return false;
+    } else if (c === "{") {
+      const bounds = /^\{(\d+)(?:,(\d*))?\}/.exec(source.slice(i));
+      if (bounds && Math.max(Number(bounds[1]), Number(bounds[2] || 0)) > 255) return false;
+    }
+  }
+  return true;
+};
+
+// A glob with a slash is matched against the whole key, otherwise against the last path segment.
+const isPathGlob = (glob: string) => glob.includes("/");
+
+const nameOf = (key: string) => key.replace(/\/$/, "").split("/").pop() || key;
+
+const extensionOf = (name: string) => {
+  const idx = name.lastIndexOf(".");
+  if (idx <= 0 || idx === name.length - 1) return "";
+  return name.slice(idx + 1).toLowerCase();
+};
+
+export const parseObjectSearchQuery = (params: URLSearchParams): ObjectSearchQuery => {
+  const q = String(params.get("q") ?? "").trim();
+  const matchRaw = String(params.get("match") ?? "").trim();
+  const match: SearchMatchMode = matchRaw === "glob" || matchRaw === "regex" || matchRaw === "content" ? matchRaw : "substring";
+  if (q.length > MAX_PATTERN_LENGTH) throw createHttpError(400, `搜索内容不能超过 ${MAX_PATTERN_LENGTH} 个字符`);
+  if (match === "regex" && q) {
+    try {
+      new RegExp(q, "i");
+    } catch {
+      throw createHttpError(400, "正则表达式无效");
+    }
+  }
+
+  let prefix = String(params.get("prefix") ?? "").trim().replace(/^\/+/, "");
+  if (prefix && !prefix.endsWith("/")) prefix += "/";
+
+  const minSize = readSizeParam(params.get("minSize"));
+  const maxSize = readSizeParam(params.get("maxSize"));
+  if (minSize !== undefined && maxSize !== undefined && minSize > maxSize) throw createHttpError(400, "文件大小范围无效");
+  const modifiedFrom = readDateParam(params.get("modifiedFrom"), false);
+  const modifiedTo = readDateParam(params.get("modifiedTo"), true);
+  if (modifiedFrom && modifiedTo && modifiedFrom > modifiedTo) throw createHttpError(400, "修改时间范围无效");
+
+  const sortRaw = String(params.get("sort") ?? "").trim();
+  const sort: SearchSortField =
+    sortRaw === "name" || sortRaw === "size" || sortRaw === "modified" || sortRaw === "relevance" ? sortRaw : "key";
+
+  return {
+    q,
+    match,
+    types: splitList(params.get("types")).filter(isFileTypeGroup),
+    extensions: splitList(params.get("ext")).map((ext) => ext.replace(/^\.+/, "").toLowerCase()).filter(Boolean),
+    minSize,
+    maxSize,
+    modifiedFrom,
+    modifiedTo,
+    prefix,
+    favoritesOnly: params.get("favorites") === "1",
+    sort,
+    order: params.get("order") === "desc" ? "desc" : "asc",
+  };
+};
+
+// Type, size and date filters describe files, so any of them leaves folders out of the results.
+const hasFileOnlyFilters = (query: ObjectSearchQuery) =>
+  query.types.length > 0 ||
+  query.extensions.length > 0 ||
+  query.minSize !== undefined ||
+  query.maxSize !== undefined ||
+  Boolean(query.modifiedFrom || query.modifiedTo);
+
+export const isContentQuery = (query: ObjectSearchQuery) => query.match === "content" && Boolean(query.q);
+
+export const hasSearchCriteria = (query: ObjectSearchQuery) => Boolean(query.q) || query.favoritesOnly || hasFileOnlyFilters(query);
+
+export const getSearchExtensions = (query: ObjectSearchQuery) => {
+  const all = new Set(query.extensions);
+  for (const group of query.types) for (const ext of getFileTypeGroupExtensions(group)) all.add(ext);
+  return Array.from(all);
+};
+
+// Score of a key against the pattern; glob and regex hits all score 0. Content queries do not look at the key.
+const createPatternTest = (query: ObjectSearchQuery, target: "file" | "folder"): ((key: string) => number | null) => {
+  if (!query.q || query.match === "content") return () => 0;
+  if (query.match === "regex") {
+    const re = new RegExp(query.q, "i");
+    return (key: string) => (re.test(key.replace(/\/$/, "")) ? 0 : null);
+  }
+  if (query.match === "glob") {
+    const re = new RegExp(`^${globToRegexSource(query.q)}$`, "i");
+    const pathGlob = isPathGlob(query.q);
+    return (key: string) => (re.test(pathGlob ? key.replace(/\/$/, "") : nameOf(key)) ? 0 : null);
+  }
+  const matcher = createTextMatcher(query.q);
+  // Files also match on their folder path (ranked lower); folders only on their own name, or every ancestor
+  // of a hit would match.
+  return target === "file" ? (key: string) => matcher.score([nameOf(key), key]) : (key: string) => matcher.score(nameOf(key));
+};
+
+export const createFileMatcher = (query: ObjectSearchQuery) => {
+  const testPattern = createPatternTest(query, "file");
+  const extensions = new Set(getSearchExtensions(query));
+  return (candidate: SearchCandidate): number | null => {
+    const { key } = candidate;
+    if (!key || key.endsWith("/")) return null;
+    if (query.prefix && !key.startsWith(query.prefix)) return null;
+    if (extensions.size && !extensions.has(extensionOf(nameOf(key)))) return null;
+    const size = Number(candidate.size ?? 0);
+    if (query.minSize !== undefined && size < query.minSize) return null;
+    if (query.maxSize !== undefined && size > query.maxSize) return null;
+    if (query.modifiedFrom || query.modifiedTo) {
+      const t = Date.parse(candidate.uploaded ?? "");
+      if (!Number.isFinite(t)) return null;
+      const uploaded = new Date(t).toISOString();
+      if (query.modifiedFrom && uploaded < query.modifiedFrom) return null;
+      if (query.modifiedTo && uploaded > query.modifiedTo) return null;
+    }
+    return testPattern(key);
+  };
+};
+
+// Null when the query cannot match folders at all.
+export const createFolderMatcher = (query: ObjectSearchQuery) => {
+  if (hasFileOnlyFilters(query) || isContentQuery(query)) return null;
+  const testPattern = createPatternTest(query, "folder");
+  return (folderKey: string) => (folderKey !== query.prefix && folderKey.startsWith(query.prefix) ? testPattern(folderKey) : null);
+};
+
+// Folders implied by a key below the search prefix: "p/a/b/c.txt" under "p/" yields "p/a/" and "p/a/b/".
+export const listFoldersOfKey = (key: string, prefix: string) => {
+  if (!key.startsWith(prefix)) return [];
+  const parts = key.slice(prefix.length).split("/");
+  const folders: string[] = [];
+  let current = prefix;
+  for (let i = 0; i < parts.length - 1; i += 1) {
+    if (!parts[i]) break;
+    current += `${parts[i]}/`;
+    folders.push(current);
+  }
+  return folders;
+};
+
+// SQL pre-filter for the index. It may let through more rows than the matchers accept (e.g. keys below a
+// folder whose name matches), never fewer; null leaves the pattern to the matchers alone.
+export const toIndexKeyFilter = (query: ObjectSearchQuery): IndexKeyFilter | null => {
+  if (!query.q || query.match === "content") return null;
+  // Tokens mixing Chinese and latin ("合同qd") are only found through the pinyin column, so they go as pinyin.
+  if (query.match === "substring") {
+    return {
+      op: "terms",
+      terms: splitQueryTokens(query.q).map((token) => (hasPinyinReadings(token) && /[a-z]/.test(token) ? toPinyin(token) : token)),
+    };
+  }
+  if (query.match === "regex") return isPortableRegex(query.q) ? { op: "imatch", value: query.q } : null;
+  const source = globToRegexSource(query.q);
+  return { op: "imatch", value: isPathGlob(query.q) ? `^${source}(/|$)` : `(^|/)${source}(/|$)` };
+};
+
+type SortableResult = { key: string; size?: number; lastModified?: string; score?: number };
+
+// Relevance always puts the best match first, whatever the order.
+export const compareSearchResults = (sort: SearchSortField, order: SearchSortOrder) => {
+  const direction = order === "desc" ? -1 : 1;
+  const time = (value?: string) => {
+    const t = Date.parse(value ?? "");
+    return Number.isFinite(t) ? t : -1;
+  };
+  return (a: SortableResult, b: SortableResult) => {
+    if (sort === "relevance") {
+      const diff = (b.score ?? 0) - (a.score ?? 0);
+      return diff || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0);
+    }
+    let diff = 0;
+    if (sort === "size") diff = (a.size ?? -1) - (b.size ?? -1);
+    else if (sort === "modified") diff = time(a.lastModified) - time(b.lastModified);
+    else if (sort === "name") diff = nameOf(a.key).localeCompare(nameOf(b.key), "zh-CN", { numeric: true, sensitivity: "base" });
+    if (diff === 0) diff = a.key < b.key ? -1 : a.key > b.key ? 1 : 0;
+    return diff * direction;
+  };
+};
+
+// Listing pages one search request may still fetch, shared by the buckets of a search across all buckets.
+export type SearchPageBudget = { remaining: number };
+
+// Walks a bucket listing in key order, handing each object to `take` while `isFull` is false, for at most
+// `maxPages` pages. The returned cursor is the last key examined (null once the listing is done), so a
+// listing page cut short by a full result page resumes right after it instead of skipping its rest. A
+// walk that has started always gets its first page, even from a spent budget.
+export const scanListing = async (
+  list: (options: { prefix?: string; startAfter?: string; limit?: number }) => Promise<R2ListResultLike>,
+  options: { prefix: string; after?: string; maxPages: number; budget?: SearchPageBudget },
+  take: (object: R2ObjectSummaryLike) => void,
+  isFull: () => boolean,
+): Promise<string | null> => {
+  let after = options.after;
+  let pages = 0;
+  while (!isFull() && pages < options.maxPages && (pages === 0 || !options.budget || options.budget.remaining > 0)) {
+    const res = await list({ prefix: options.prefix || undefined, startAfter: after, limit: 1000 });
+    if (options.budget) options.budget.remaining -= 1;
+    pages += 1;
+    const objects = res.objects ?? [];
+    for (const object of objects) {
+      if (isFull()) return after ?? null;
+      take(object);
+      after = object.key;
+    }
+    if (!res.truncated || !objects.length) return null;
+  }
+  return after ?? null;
+};
+
+// A search across all buckets pages each bucket separately; its cursor is "all:" followed by a JSON map of
+// bucket id to that bucket's cursor, listing only the buckets that still have more. "" stands for a bucket
+// the page budget ran out before, which starts from the beginning on the next page.
+const ALL_BUCKETS_CURSOR_PREFIX = "all:";
+
+export const readAllBucketsCursor = (cursor: string | undefined) => {
+  if (!cursor?.startsWith(ALL_BUCKETS_CURSOR_PREFIX)) return null;
+  try {
+    const parsed = JSON.parse(cursor.slice(ALL_BUCKETS_CURSOR_PREFIX.length)) as unknown;
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error("invalid");
+    return new Map(Object.entries(parsed as Record<string, unknown>).filter((entry): entry is [string, string] => typeof entry[1] === "string"));
+  } catch {
+    throw Object.assign(new Error("分页参数无效"), { status: 400 });
+  }
+};
+
+export const writeAllBucketsCursor = (cursors: Map<string, string>) =>
+  cursors.size ? `${ALL_BUCKETS_CURSOR_PREFIX}${JSON.stringify(Object.fromEntries(cursors))}` : null;
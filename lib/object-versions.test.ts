@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { writeWithObjectVersion } from "@/lib/object-versions";
+import type { R2ClientCredentials } from "@/lib/r2-s3";
+import type { UserBucketDetail } from "@/lib/user-buckets";
+
+const { restFetch, copyObjectInBucket, head, remove } = vi.hoisted(() => ({
+  restFetch: vi.fn<(path: string, init?: { method?: string; body?: unknown }) => Promise<Response>>(),
+  copyObjectInBucket: vi.fn(),
+  head: vi.fn(),
+  remove: vi.fn(),
+}));
+
+vi.mock("@/lib/supabase", () => ({
+  supabaseAdminRestFetch: (path: string, init?: { method?: string; body?: unknown }) => restFetch(path, init),
+  readSupabaseRestArray: async (res: Response, fallback: string) => {
+    if (!res.ok) throw new Error(fallback);
+    return (await res.json()) as unknown[];
+  },
+}));
+
+vi.mock("@/lib/file-marks", () => ({
+  INTERNAL_STORAGE_ROOT: ".r2-admin-go/",
+  isRecycleHiddenKey: (key: string) => key.startsWith(".r2-admin-go/"),
+}));
+
+vi.mock("@/lib/r2-s3", () => ({
+  copyObjectInBucket: (...args: unknown[]) => copyObjectInBucket(...args),
+  createR2Bucket: () => ({ head, delete: remove }),
+}));
+
+vi.mock("@/lib/object-index", () => ({ indexObjectFromHead: vi.fn() }));
+vi.mock("@/lib/user-buckets", () => ({ resolveBucketCredentials: vi.fn() }));
+
+const actor = { team: { id: "t1" }, user: { id: "u1" }, displayName: "Alice" };
+const detail = { id: "b1", versioningEnabled: true, versionRetention: 5 } as UserBucketDetail;
+const creds = {} as R2ClientCredentials;
+const input = { detail, creds, key: "docs/a.txt", reason: "upload" as const };
+
+const rows = (value: unknown[]) => new Response(JSON.stringify(value), { status: 200 });
+const calls = () => restFetch.mock.calls.map(([path, init]) => ({ path: decodeURIComponent(path), method: init?.method }));
+
+describe("writeWithObjectVersion", () => {
+  beforeEach(() => {
+    restFetch.mockReset();
+    copyObjectInBucket.mockReset();
+    remove.mockReset();
+    head.mockReset();
+    head.mockResolvedValue({ etag: "e1", size: 4 });
+    restFetch.mockImplementation(async (_path, init) =>
+      init?.method === "POST" ? rows([{ id: "v1", storage_key: ".r2-admin-go/versions/t1/v1/a.txt", item_key: "docs/a.txt" }]) : rows([]),
+    );
+  });
+
+  it("keeps the archived copy once the write lands", async () => {
+    await expect(writeWithObjectVersion(actor, input, async () => "ok")).resolves.toBe("ok");
+    expect(copyObjectInBucket).toHaveBeenCalledWith(creds, "docs/a.txt", expect.stringMatching(/^\.r2-admin-go\/versions\/t1\//));
+    expect(remove).not.toHaveBeenCalled();
+    expect(calls().map((call) => call.method)).toEqual(["POST", "GET"]);
+  });
+
+  it("drops the archived copy when the conditional write fails with 412", async () => {
+    const preconditionFailed = Object.assign(new Error("目标文件已被修改"), { status: 412 });
+    await expect(
+      writeWithObjectVersion(actor, { ...input, onlyIf: { ifMatch: "e1" } }, async () => {
+        throw preconditionFailed;
+      }),
+    ).rejects.toBe(preconditionFailed);
+    expect(remove).toHaveBeenCalledWith([".r2-admin-go/versions/t1/v1/a.txt"]);
+    expect(calls().at(-1)).toEqual({ path: expect.stringContaining("id=in.(v1)"), method: "DELETE" });
+  });
+
+  it("skips the copy when the precondition cannot hold", async () => {
+    const write = vi.fn(async () => "ok");
+    await writeWithObjectVersion(actor, { ...input, onlyIf: { ifMatch: "e0" } }, write);
+    await writeWithObjectVersion(actor, { ...input, onlyIf: { ifNoneMatch: "*" } }, write);
+    expect(write).toHaveBeenCalledTimes(2);
+    expect(copyObjectInBucket).not.toHaveBeenCalled();
+    expect(restFetch).not.toHaveBeenCalled();
+  });
+});
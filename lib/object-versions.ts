@@ -0,0 +1,207 @@
+import type { AppAccessContext } from "@/lib/access-control";
+import { INTERNAL_STORAGE_ROOT, isRecycleHiddenKey } from "@/lib/file-marks";
+import { indexObjectFromHead } from "@/lib/object-index";
+import { copyObjectInBucket, createR2Bucket, type R2ClientCredentials, type WriteCondition } from "@/lib/r2-s3";
+import { readSupabaseRestArray, supabaseAdminRestFetch } from "@/lib/supabase";
+import { resolveBucketCredentials, type UserBucketDetail } from "@/lib/user-buckets";
+
+// R2 has no native versioning. Buckets that opt in keep the previous object under VERSIONS_STORAGE_ROOT
+// (hidden like the recycle bin) before an overwrite, with one user_r2_object_versions row per copy.
+
+export type ObjectVersionReason = "upload" | "multipart" | "metadata" | "restore";
+
+// Who an archived copy is recorded against. A signed-in request passes its AppAccessContext; a proxied
+// upload token carries the same fields from the request that issued it.
+export type ObjectVersionActor = {
+  team: { id: string };
+  user: { id: string };
+  displayName: string;
+};
+
+export type ObjectVersionView = {
+  id: string;
+  key: string;
+  storageKey: string;
+  size: number;
+  etag?: string;
+  lastModified?: string;
+  reason: ObjectVersionReason;
+  createdBy: string;
+  createdAt: string;
+};
+
+type ObjectVersionRow = {
+  id: string;
+  team_id: string;
+  bucket_id: string;
+  item_key: string;
+  storage_key: string;
+  size: number | null;
+  etag: string | null;
+  last_modified: string | null;
+  reason: ObjectVersionReason;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+};
+
+const VERSION_SELECT = "id,team_id,bucket_id,item_key,storage_key,size,etag,last_modified,reason,created_by,created_by_name,created_at";
+
+export const VERSIONS_STORAGE_ROOT = `${INTERNAL_STORAGE_ROOT}versions/`;
+
+const encodeFilter = (value: string) => encodeURIComponent(value);
+
+const nameOf = (key: string) => key.split("/").filter(Boolean).pop() || "未命名";
+
+const normalizeIso = (value?: string | null) => {
+  if (!value) return undefined;
+  const n = Date.parse(value);
+  return Number.isFinite(n) ? new Date(n).toISOString() : undefined;
+};
+
+const readRows = async (pathWithQuery: string, fallback: string) => {
+  const res = await supabaseAdminRestFetch(pathWithQuery, { method: "GET" });
+  return await readSupabaseRestArray<ObjectVersionRow>(res, fallback);
+};
+
+const rowToView = (row: ObjectVersionRow): ObjectVersionView => ({
+  id: row.id,
+  key: row.item_key,
+  storageKey: row.storage_key,
+  size: Number(row.size ?? 0) || 0,
+  etag: row.etag ?? undefined,
+  lastModified: normalizeIso(row.last_modified),
+  reason: row.reason,
+  createdBy: row.created_by_name || row.created_by || "",
+  createdAt: row.created_at,
+});
+
+const bucketFilter = (ctx: ObjectVersionActor, bucketId: string) =>
+  `team_id=eq.${encodeFilter(ctx.team.id)}&bucket_id=eq.${encodeFilter(bucketId)}`;
+
+const listVersionRows = async (ctx: ObjectVersionActor, bucketId: string, key: string) =>
+  await readRows(
+    `user_r2_object_versions?select=${VERSION_SELECT}&${bucketFilter(ctx, bucketId)}&item_key=eq.${encodeFilter(key)}&order=created_at.desc`,
+    "读取历史版本失败",
+  );
+
+const readVersionRow = async (ctx: AppAccessContext, bucketId: string, versionId: string) => {
+  const rows = await readRows(
+    `user_r2_object_versions?select=${VERSION_SELECT}&${bucketFilter(ctx, bucketId)}&id=eq.${encodeFilter(versionId)}&limit=1`,
+    "读取历史版本失败",
+  );
+  const row = rows[0];
+  if (!row) throw Object.assign(new Error("历史版本不存在或已被删除"), { status: 404 });
+  return row;
+};
+
+const deleteVersionRows = async (
+  ctx: ObjectVersionActor,
+  bucketId: string,
+  rows: Array<Pick<ObjectVersionRow, "id" | "storage_key">>,
+  creds: R2ClientCredentials,
+) => {
+  if (!rows.length) return;
+  await createR2Bucket(creds).delete(rows.map((row) => row.storage_key));
+  const res = await supabaseAdminRestFetch(
+    `user_r2_object_versions?${bucketFilter(ctx, bucketId)}&id=in.(${rows.map((row) => encodeFilter(row.id)).join(",")})`,
+    { method: "DELETE", prefer: "return=minimal" },
+  );
+  if (!res.ok) throw new Error("删除历史版本失败");
+};
+
+const pruneObjectVersions = async (ctx: ObjectVersionActor, detail: UserBucketDetail, creds: R2ClientCredentials, key: string) => {
+  const rows = await listVersionRows(ctx, detail.id, key);
+  await deleteVersionRows(ctx, detail.id, rows.slice(detail.versionRetention), creds);
+};
+
+type ArchiveInput = { detail: UserBucketDetail; creds: R2ClientCredentials; key: string; reason: ObjectVersionReason };
+
+// Copies the current object aside and records it; pruning to the retention limit is left to the caller.
+// With an ifMatch condition the copy is skipped when the object has already moved on, since that write will fail.
+const archiveCurrentObject = async (ctx: ObjectVersionActor, input: ArchiveInput, onlyIf?: WriteCondition) => {
+  const { detail, creds, key } = input;
+  if (!detail.versioningEnabled || !key || key.endsWith("/") || isRecycleHiddenKey(key)) return null;
+  if (onlyIf && "ifNoneMatch" in onlyIf) return null;
+  const head = await createR2Bucket(creds).head(key);
+  if (!head) return null;
+  if (onlyIf && head.etag && head.etag !== onlyIf.ifMatch) return null;
+
+  const id = crypto.randomUUID();
+  const storageKey = `${VERSIONS_STORAGE_ROOT}${ctx.team.id}/${id}/${nameOf(key)}`;
+  await copyObjectInBucket(creds, key, storageKey);
+
+  const res = await supabaseAdminRestFetch("user_r2_object_versions", {
+    method: "POST",
+    body: {
+      id,
+      team_id: ctx.team.id,
+      bucket_id: detail.id,
+      item_key: key,
+      storage_key: storageKey,
+      size: Number(head.size ?? 0) || 0,
+      etag: head.etag ?? null,
+      last_modified: normalizeIso(head.lastModified) ?? null,
+      reason: input.reason,
+      created_by: ctx.user.id,
+      created_by_name: ctx.displayName,
+    },
+    prefer: "return=representation",
+  });
+  const rows = await readSupabaseRestArray<ObjectVersionRow>(res, "保存历史版本失败");
+  return rows[0] ?? null;
+};
+
+// Copies the current object aside before it is overwritten. A no-op when the bucket has versioning off
+// or nothing exists at the key yet, so callers can invoke it unconditionally before a write.
+export const archiveObjectVersion = async (ctx: ObjectVersionActor, input: ArchiveInput): Promise<ObjectVersionView | null> => {
+  const row = await archiveCurrentObject(ctx, input);
+  if (!row) return null;
+  await pruneObjectVersions(ctx, input.detail, input.creds, input.key);
+  return rowToView(row);
+};
+
+// For writes that can fail after the copy is taken (a 412 on a conditional write, a dropped upload):
+// the archived copy is dropped again unless the write goes through, so history only lists real overwrites.
+export const writeWithObjectVersion = async <T>(
+  ctx: ObjectVersionActor,
+  input: ArchiveInput & { onlyIf?: WriteCondition },
+  write: () => Promise<T>,
+): Promise<T> => {
+  const row = await archiveCurrentObject(ctx, input, input.onlyIf);
+  let result: T;
+  try {
+    result = await write();
+  } catch (error) {
+    if (row) await deleteVersionRows(ctx, input.detail.id, [row], input.creds).catch(() => {});
+    throw error;
+  }
+  // The write has landed; a history left over the limit is pruned again on the next archive.
+  if (row) await pruneObjectVersions(ctx, input.detail, input.creds, input.key).catch(() => {});
+  return result;
+};
+
+export const listObjectVersions = async (ctx: AppAccessContext, bucketId: string, key: string) => {
+  await resolveBucketCredentials(ctx, bucketId);
+  return (await listVersionRows(ctx, bucketId, key)).map(rowToView);
+};
+
+// The object being replaced is archived first, so a restore can itself be undone.
+export const restoreObjectVersion = async (ctx: AppAccessContext, bucketId: string, versionId: string) => {
+  const { detail, creds } = await resolveBucketCredentials(ctx, bucketId);
+  const row = await readVersionRow(ctx, bucketId, versionId);
+  await archiveObjectVersion(ctx, { detail, creds, key: row.item_key, reason: "restore" });
+  await copyObjectInBucket(creds, row.storage_key, row.item_key);
+  await indexObjectFromHead({ teamId: ctx.team.id, bucketId }, createR2Bucket(creds), row.item_key);
+  return rowToView(row);
+};
+
+export const deleteObjectVersion = async (ctx: AppAccessContext, bucketId: string, versionId: string) => {
+  const { creds } = await resolveBucketCredentials(ctx, bucketId);
+  const row = await readVersionRow(ctx, bucketId, versionId);
+  await deleteVersionRows(ctx, bucketId, [row], creds);
+  return rowToView(row);
+};
+
+export const readObjectVersion = async (ctx: AppAccessContext, bucketId: string, versionId: string) =>
+  rowToView(await readVersionRow(ctx, bucketId, versionId));
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { getPinyinReadings, hasPinyinReadings, toPinyin, toPinyinSearchText } from "@/lib/pinyin";
+
+describe("pinyin", () => {
+  it("reads Han characters and leaves everything else alone", () => {
+    expect(getPinyinReadings("文")).toEqual(["wen"]);
+    expect(getPinyinReadings("合")).toEqual(["he", "ge"]);
+    expect(getPinyinReadings("a")).toEqual([]);
+    expect(hasPinyinReadings("report-合同")).toBe(true);
+    expect(hasPinyinReadings("report")).toBe(false);
+    expect(toPinyin("合同V2.PDF")).toBe("hetongv2.pdf");
+  });
+
+  it("indexes full pinyin and initials", () => {
+    expect(toPinyinSearchText("文件.pdf")).toBe("wenjian.pdf wj.pdf");
+    expect(toPinyinSearchText("report.pdf")).toBe("");
+  });
+
+  it("adds the other readings of polyphones, within a bound", () => {
+    const text = toPinyinSearchText("银行");
+    expect(text.split(" ")).toEqual(expect.arrayContaining(["yinhang", "yinxing", "yh", "yx"]));
+
+    const many = toPinyinSearchText("行行行行行行行行");
+    expect(many.split(" ").filter((variant) => variant.length > 8).length).toBeLessThanOrEqual(8);
+  });
+});
@@ -0,0 +1,160 @@
+import { PINYIN_SYLLABLE_CHARS } from "@/lib/pinyin-data";
+
+// Toneless pinyin lookup for the name matcher (lib/text-match.ts) and the search index (lib/object-index.ts).
+// Characters outside GB2312 have no reading and are only matched literally.
+
+// Polyphones whose other readings are common in names, most common reading first. Also corrects a few
+// characters the collation order files under a rare reading (地, 长, 什, 掠…).
+const READING_OVERRIDES: Record<string, string[]> = {
+  地: ["di", "de"],
+  长: ["chang", "zhang"],
+  似: ["si", "shi"],
+  什: ["shen", "shi"],
+  掠: ["lve"],
+  略: ["lve"],
+  佛: ["fo", "fu"],
+  调: ["diao", "tiao"],
+  行: ["xing", "hang"],
+  乐: ["le", "yue"],
+  重: ["zhong", "chong"],
+  还: ["hai", "huan"],
+  都: ["dou", "du"],
+  传: ["chuan", "zhuan"],
+  藏: ["cang", "zang"],
+  朝: ["chao", "zhao"],
+  曾: ["ceng", "zeng"],
+  着: ["zhe", "zhao", "zhuo"],
+  了: ["le", "liao"],
+  差: ["cha", "chai", "ci"],
+  大: ["da", "dai"],
+  合: ["he", "ge"],
+  校: ["xiao", "jiao"],
+  便: ["bian", "pian"],
+  省: ["sheng", "xing"],
+  参: ["can", "shen", "cen"],
+  率: ["lv", "shuai"],
+  区: ["qu", "ou"],
+  解: ["jie", "xie"],
+  仔: ["zi", "zai"],
+  给: ["gei", "ji"],
+  系: ["xi", "ji"],
+  厦: ["sha", "xia"],
+  沈: ["shen", "chen"],
+  单: ["dan", "shan", "chan"],
+  会: ["hui", "kuai"],
+  弹: ["dan", "tan"],
+  数: ["shu", "shuo"],
+  角: ["jiao", "jue"],
+  觉: ["jue", "jiao"],
+  降: ["jiang", "xiang"],
+  血: ["xue", "xie"],
+  薄: ["bao", "bo"],
+  露: ["lu", "lou"],
+  称: ["cheng", "chen"],
+  模: ["mo", "mu"],
+  奇: ["qi", "ji"],
+  得: ["de", "dei"],
+  车: ["che", "ju"],
+  石: ["shi", "dan"],
+  秘: ["mi", "bi"],
+  绿: ["lv", "lu"],
+  六: ["liu", "lu"],
+  呢: ["ne", "ni"],
+  咖: ["ka", "ga"],
+  卡: ["ka", "qia"],
+  伽: ["jia", "ga", "qie"],
+  茄: ["qie", "jia"],
+  虾: ["xia", "ha"],
+  拓: ["tuo", "ta"],
+  说: ["shuo", "shui"],
+  壳: ["ke", "qiao"],
+  削: ["xiao", "xue"],
+  熟: ["shu", "shou"],
+  提: ["ti", "di"],
+  色: ["se", "shai"],
+  塞: ["sai", "se"],
+  宿: ["su", "xiu"],
+  缩: ["suo", "su"],
+  扎: ["zha", "za"],
+  泊: ["bo", "po"],
+  埋: ["mai", "man"],
+  乘: ["cheng", "sheng"],
+  盛: ["sheng", "cheng"],
+  圈: ["quan", "juan"],
+  识: ["shi", "zhi"],
+  折: ["zhe", "she"],
+  没: ["mei", "mo"],
+  查: ["cha", "zha"],
+  抹: ["mo", "ma"],
+  粘: ["zhan", "nian"],
+  朴: ["pu", "piao", "po"],
+  柏: ["bai", "bo"],
+  强: ["qiang", "jiang"],
+  核: ["he", "hu"],
+  屏: ["ping", "bing"],
+  恶: ["e", "wu"],
+  和: ["he", "huo", "hu"],
+  度: ["du", "duo"],
+  贾: ["jia", "gu"],
+  仇: ["chou", "qiu"],
+  盖: ["gai", "ge"],
+  胖: ["pang", "pan"],
+  万: ["wan", "mo"],
+};
+
+// Keeps search text bounded for names full of polyphones.
+const MAX_SEARCH_VARIANTS = 8;
+
+let readingTable: Map<string, string[]> | null = null;
+
+const getReadingTable = () => {
+  if (readingTable) return readingTable;
+  const table = new Map<string, string[]>();
+  for (const [syllable, chars] of Object.entries(PINYIN_SYLLABLE_CHARS)) {
+    for (const char of chars) table.set(char, [syllable]);
+  }
+  for (const [char, readings] of Object.entries(READING_OVERRIDES)) table.set(char, readings);
+  readingTable = table;
+  return table;
+};
+
+// Readings of one character, most common first; empty for anything that is not a known Han character.
+export const getPinyinReadings = (char: string) => getReadingTable().get(char) ?? [];
+
+export const hasPinyinReadings = (text: string) => {
+  for (const char of text) if (getReadingTable().has(char)) return true;
+  return false;
+};
+
+// Lowercased text with every Han character replaced by its most common reading: "合同.pdf" -> "hetong.pdf".
+export const toPinyin = (text: string) =>
+  Array.from(text.toLowerCase(), (char) => getPinyinReadings(char)[0] ?? char).join("");
+
+// Text the search index matches pinyin queries against: full pinyin and initials of `text`, repeated for
+// the other readings of its polyphones (up to a few variants). Empty when `text` has no Han characters.
+export const toPinyinSearchText = (text: string) => {
+  const chars = Array.from(text.toLowerCase());
+  if (!chars.some((char) => getPinyinReadings(char).length)) return "";
+  let variants: string[][] = [[]];
+  for (const char of chars) {
+    const readings = getPinyinReadings(char);
+    if (!readings.length) {
+      for (const variant of variants) variant.push(char);
+      continue;
+    }
+    const next: string[][] = [];
+    for (const reading of readings) {
+      for (const variant of variants) {
+        if (next.length >= MAX_SEARCH_VARIANTS) break;
+        next.push([...variant, reading]);
+      }
+    }
+    variants = next;
+  }
+  const out = new Set<string>();
+  for (const variant of variants) {
+    out.add(variant.join(""));
+    out.add(variant.map((part) => part[0] ?? "").join(""));
+  }
+  return Array.from(out).join(" ");
+};
@@ -1,3 +1,10 @@
+import {
+  BROWSER_AUDIO_PREVIEW_EXTS,
+  BROWSER_VIDEO_PREVIEW_EXTS,
+  LOCAL_AUDIO_OPEN_EXTS,
+  LOCAL_VIDEO_OPEN_EXTS,
+} from "@/lib/media-preview";
+
 export type PreviewHintKind =
   | "image"
   | "video"
@@ -51,12 +58,46 @@ const TEXT_EXTENSIONS = new Set([
   "ts", "tsx", "tsv", "txt", "vue", "xml", "yaml", "yml", "zsh",
 ]);
 
+const OFFICE_DOCUMENT_EXTENSIONS = new Set(["doc", "docx", "pdf", "ppt", "pptx", "xls", "xlsx"]);
+const CAD_DRAWING_EXTENSIONS = new Set(["dwg", "dwt", "dxf"]);
+
+// Coarse file categories for search filters, built from the same extension lists as the preview hints.
+export type FileTypeGroup = "image" | "video" | "audio" | "document" | "text" | "archive" | "cad";
+
+export const FILE_TYPE_GROUP_LABELS: Record<FileTypeGroup, string> = {
+  image: "图片",
+  video: "视频",
+  audio: "音频",
+  document: "文档",
+  text: "文本/代码",
+  archive: "压缩包",
+  cad: "CAD/3D 模型",
+};
+
+const FILE_TYPE_GROUP_EXTENSIONS: Record<FileTypeGroup, ReadonlySet<string>> = {
+  image: IMAGE_EXTENSIONS,
+  video: new Set([...BROWSER_VIDEO_PREVIEW_EXTS, ...LOCAL_VIDEO_OPEN_EXTS]),
+  audio: new Set([...BROWSER_AUDIO_PREVIEW_EXTS, ...LOCAL_AUDIO_OPEN_EXTS]),
+  document: new Set([...OFFICE_DOCUMENT_EXTENSIONS, ...KK_DOCUMENT_EXTENSIONS]),
+  text: TEXT_EXTENSIONS,
+  archive: ARCHIVE_EXTENSIONS,
+  cad: new Set([...CAD_DRAWING_EXTENSIONS, ...KK_CAD_MODEL_EXTENSIONS]),
+};
+
+export const isFileTypeGroup = (value: string): value is FileTypeGroup =>
+  Object.prototype.hasOwnProperty.call(FILE_TYPE_GROUP_EXTENSIONS, value);
+
+export const getFileTypeGroupExtensions = (group: FileTypeGroup) => Array.from(FILE_TYPE_GROUP_EXTENSIONS[group]).sort();
+
 const getFileExt = (name: string) => {
   const idx = name.lastIndexOf(".");
   if (idx < 0 || idx === name.length - 1) return "";
   return name.slice(idx + 1).toLowerCase();
 };
 
+// Plain-text files the text preview shows as they are; the content index (lib/content-index.ts) reads them too.
+export const isPlainTextFileName = (fileName: string) => TEXT_EXTENSIONS.has(getFileExt(fileName));
+
 const getProviderHint = (prefix: string, providerName: string, providerUrl: string): PreviewTechSupportHint => ({
   prefix,
   providerName,
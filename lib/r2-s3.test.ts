@@ -0,0 +1,173 @@
+import { createHash } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  buildPanelCorsRule,
+  copyObjectInBucket,
+  createR2Bucket,
+  putBucketCors,
+  putBucketLifecycle,
+  replaceObjectMetadata,
+  type R2ClientCredentials,
+} from "@/lib/r2-s3";
+
+const creds = (): R2ClientCredentials => ({
+  accountId: "acct",
+  accessKeyId: "AKID",
+  secretAccessKey: "SECRET",
+  bucketName: "bucket",
+  retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 20 },
+  retryStats: { retries: 0 },
+});
+
+const fetchMock = vi.fn<typeof fetch>();
+
+describe("signed request retries", () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("retries unconditional writes on 503", async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response("busy", { status: 503 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200, headers: { etag: '"e1"' } }));
+    const c = creds();
+    await expect(createR2Bucket(c).put("a.txt", "x")).resolves.toEqual({ etag: "e1" });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(c.retryStats?.retries).toBe(1);
+  });
+
+  it("does not replay conditional writes", async () => {
+    fetchMock.mockResolvedValue(new Response("busy", { status: 503 }));
+    const bucket = createR2Bucket(creds());
+    await expect(bucket.put("a.txt", "x", { onlyIf: { ifNoneMatch: "*" } })).rejects.toBeTruthy();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockClear();
+    await expect(bucket.put("a.txt", "x", { onlyIf: { ifMatch: "e1" } })).rejects.toBeTruthy();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("clamps a long Retry-After to the policy's maximum delay", async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response("slow down", { status: 503, headers: { "retry-after": "3600" } }))
+      .mockResolvedValueOnce(new Response(null, { status: 200, headers: { etag: '"e2"' } }));
+    const startedAt = Date.now();
+    await expect(createR2Bucket(creds()).put("a.txt", "x")).resolves.toEqual({ etag: "e2" });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+});
+
+describe("server-side copies", () => {
+  const sentHeaders = (call: number) => new Headers(fetchMock.mock.calls[call]?.[1]?.headers);
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status: 200, headers: { "content-length": "5", "x-amz-storage-class": "STANDARD_IA" } }))
+      .mockResolvedValueOnce(new Response("<CopyObjectResult/>", { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("keeps the source storage class on a copy", async () => {
+    await copyObjectInBucket(creds(), "a.txt", "b.txt");
+    expect(fetchMock.mock.calls[0]?.[1]?.method).toBe("HEAD");
+    expect(sentHeaders(1).get("x-amz-copy-source")).toBe("/bucket/a.txt");
+    expect(sentHeaders(1).get("x-amz-storage-class")).toBe("STANDARD_IA");
+  });
+
+  it("keeps the storage class when replacing metadata", async () => {
+    await replaceObjectMetadata(creds(), "a.txt", { httpMetadata: { contentType: "text/plain" } });
+    expect(sentHeaders(1).get("x-amz-metadata-directive")).toBe("REPLACE");
+    expect(sentHeaders(1).get("content-type")).toBe("text/plain");
+    expect(sentHeaders(1).get("x-amz-storage-class")).toBe("STANDARD_IA");
+  });
+
+  it("reads the storage class on a get so a re-upload can keep it", async () => {
+    fetchMock.mockReset();
+    fetchMock
+      .mockResolvedValueOnce(new Response("hello", { status: 200, headers: { "x-amz-storage-class": "STANDARD_IA" } }))
+      .mockResolvedValueOnce(new Response(null, { status: 200, headers: { etag: '"e2"' } }));
+    const bucket = createR2Bucket(creds());
+    const obj = await bucket.get("a.txt");
+    expect(obj?.storageClass).toBe("STANDARD_IA");
+    await bucket.put("b.txt", obj?.body, { storageClass: obj?.storageClass });
+    expect(sentHeaders(1).get("x-amz-storage-class")).toBe("STANDARD_IA");
+  });
+});
+
+describe("multipart copies", () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("aborts only after every in-flight part copy has settled", async () => {
+    const events: string[] = [];
+    fetchMock.mockImplementation(async (input, init) => {
+      const url = new URL(String(input));
+      const method = init?.method ?? "GET";
+      if (method === "HEAD") return new Response(null, { status: 200, headers: { "content-length": String(6 * 1024 ** 3) } });
+      if (method === "POST") return new Response("<UploadId>u1</UploadId>", { status: 200 });
+      if (method === "DELETE") {
+        events.push("abort");
+        return new Response(null, { status: 204 });
+      }
+      const partNumber = url.searchParams.get("partNumber");
+      events.push(`start ${partNumber}`);
+      if (partNumber === "1") return new Response("denied", { status: 403 });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      events.push(`done ${partNumber}`);
+      return new Response(`<CopyPartResult><ETag>"p${partNumber}"</ETag></CopyPartResult>`, { status: 200 });
+    });
+
+    await expect(copyObjectInBucket(creds(), "big.bin", "copy.bin")).rejects.toBeTruthy();
+    expect(events.filter((event) => event.startsWith("start"))).toHaveLength(4);
+    expect(events.at(-1)).toBe("abort");
+    expect(events.filter((event) => event.startsWith("done"))).toHaveLength(3);
+  });
+});
+
+describe("bucket configuration", () => {
+  const sent = () => fetchMock.mock.calls[0]?.[1];
+  const md5Of = (body: unknown) => createHash("md5").update(String(body)).digest("base64");
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(new Response(null, { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("sends Content-MD5 with the CORS rules", async () => {
+    await putBucketCors(creds(), [buildPanelCorsRule("https://panel.example.com")]);
+    expect(new Headers(sent()?.headers).get("content-md5")).toBe(md5Of(sent()?.body));
+  });
+
+  it("sends Content-MD5 with the lifecycle rules", async () => {
+    await putBucketLifecycle(creds(), [{ id: "expire-tmp", enabled: true, prefix: "tmp/", expirationDays: 7 }]);
+    expect(new Headers(sent()?.headers).get("content-md5")).toBe(md5Of(sent()?.body));
+  });
+
+  it("hashes non-ASCII rule ids and bodies longer than one block", async () => {
+    const rules = Array.from({ length: 3 }, (_, i) => ({ id: `清理临时文件-${i}`, enabled: true, prefix: `临时/${i}/`, expirationDays: i + 1 }));
+    await putBucketLifecycle(creds(), rules);
+    expect(new Headers(sent()?.headers).get("content-md5")).toBe(md5Of(sent()?.body));
+  });
+});
@@ -1,7 +1,11 @@
+import { copyLocalObject, createLocalBucket, replaceLocalObjectMetadata } from "@/lib/storage-local";
+
 export type R2ObjectSummaryLike = {
   key: string;
   size?: number;
+  etag?: string;
   uploaded?: string;
+  storageClass?: StorageClass;
 };
 
 export type R2ListResultLike = {
@@ -11,13 +15,20 @@ export type R2ListResultLike = {
   cursor?: string;
 };
 
+export type R2HttpMetadataLike = {
+  contentType?: string;
+  cacheControl?: string;
+  contentDisposition?: string;
+  contentEncoding?: string;
+};
+
 export type R2HeadResultLike = {
   size?: number;
   etag?: string;
-};
-
-export type R2HttpMetadataLike = {
-  contentType?: string;
+  lastModified?: string;
+  storageClass?: StorageClass;
+  httpMetadata?: R2HttpMetadataLike;
+  customMetadata?: Record<string, string>;
 };
 
 export type R2GetResultLike = {
@@ -25,6 +36,8 @@ export type R2GetResultLike = {
   size?: number;
   etag?: string;
   httpEtag?: string;
+  lastModified?: string;
+  storageClass?: StorageClass;
   httpMetadata?: R2HttpMetadataLike;
   customMetadata?: unknown;
 };
@@ -33,14 +46,18 @@ export type R2MultipartPartResultLike = {
   etag?: string;
 };
 
+// Write preconditions: "*" only creates a missing key; an etag only replaces the exact version the caller saw.
+// A failed precondition surfaces as status 412 (PreconditionFailed).
+export type WriteCondition = { ifNoneMatch: "*" } | { ifMatch: string };
+
 export type R2MultipartUploadLike = {
   uploadPart: (partNumber: number, body: unknown) => Promise<R2MultipartPartResultLike>;
-  complete: (parts: Array<{ etag: string; partNumber: number }>) => Promise<unknown>;
+  complete: (parts: Array<{ etag: string; partNumber: number }>, options?: { onlyIf?: WriteCondition }) => Promise<unknown>;
   abort: () => Promise<unknown>;
 };
 
 export type R2BucketLike = {
-  list: (options: { prefix?: string; delimiter?: string; cursor?: string; limit?: number }) => Promise<R2ListResultLike>;
+  list: (options: { prefix?: string; delimiter?: string; cursor?: string; startAfter?: string; limit?: number }) => Promise<R2ListResultLike>;
   get: (key: string, options?: { range?: { offset: number; length: number } }) => Promise<R2GetResultLike | null>;
   head: (key: string) => Promise<R2HeadResultLike | null>;
   put: (key: string, value: unknown, options?: Record<string, unknown>) => Promise<{ etag?: string } | undefined>;
@@ -49,11 +66,43 @@ export type R2BucketLike = {
   resumeMultipartUpload?: (key: string, uploadId: string) => R2MultipartUploadLike;
 };
 
+export type StorageDriver = "r2" | "s3" | "local";
+
+// R2 reports Infrequent Access as STANDARD_IA; S3 omits the class entirely for STANDARD objects.
+export type StorageClass = "STANDARD" | "STANDARD_IA";
+
+// R2 buckets created under a jurisdiction are only reachable through that jurisdiction's host.
+export type R2Jurisdiction = "default" | "eu" | "fedramp";
+
 export type R2ClientCredentials = {
   accountId: string;
   accessKeyId: string;
   secretAccessKey: string;
   bucketName: string;
+  // Omitted for rows created before drivers existed; those are R2 buckets.
+  driver?: StorageDriver;
+  // Base URL of an S3-compatible service (driver "s3"), e.g. http://minio.local:9000.
+  // For R2 it optionally overrides the host derived from accountId and jurisdiction.
+  endpoint?: string;
+  region?: string;
+  jurisdiction?: R2Jurisdiction;
+  // Driver "local" only: directory under LOCAL_STORAGE_ROOT that holds the owning team's buckets.
+  localNamespace?: string;
+  // Per-bucket override of DEFAULT_R2_RETRY_POLICY.
+  retry?: Partial<R2RetryPolicy>;
+  // Shared counter; every retried request increments it so routes can report retries.
+  retryStats?: R2RetryStats;
+};
+
+export type R2RetryPolicy = {
+  // Retries after the first attempt; 0 disables retrying.
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export type R2RetryStats = {
+  retries: number;
 };
 
 export type PresignedObjectInput = {
@@ -63,6 +112,8 @@ export type PresignedObjectInput = {
   query?: Record<string, QueryValue>;
   expiresInSeconds?: number;
   responseContentDisposition?: string;
+  // Extra request headers bound into the signature; the client must send them verbatim.
+  signedHeaders?: Record<string, string>;
 };
 
 type R2ErrorLike = Error & {
@@ -74,16 +125,85 @@ type R2ErrorLike = Error & {
 type QueryValue = string | number | boolean | null | undefined;
 
 const AWS_ALGORITHM = "AWS4-HMAC-SHA256";
-const AWS_REGION = "auto";
+const R2_REGION = "auto";
+const DEFAULT_S3_REGION = "us-east-1";
 const AWS_SERVICE = "s3";
 const AWS_REQUEST = "aws4_request";
 const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
 
 const textEncoder = new TextEncoder();
 
+export const DEFAULT_R2_RETRY_POLICY: R2RetryPolicy = { maxRetries: 3, baseDelayMs: 200, maxDelayMs: 5000 };
+export const MAX_R2_RETRIES = 10;
+// Response header routes use to report how many storage requests were retried.
+export const R2_RETRIES_HEADER = "x-r2-retries";
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+export const createRetryStats = (): R2RetryStats => ({ retries: 0 });
+
+export const STORAGE_CLASSES: readonly StorageClass[] = ["STANDARD", "STANDARD_IA"];
+
+export const toStorageClass = (value: unknown): StorageClass | undefined => {
+  const raw = String(value ?? "").trim().toUpperCase();
+  return (STORAGE_CLASSES as readonly string[]).includes(raw) ? (raw as StorageClass) : undefined;
+};
+
+const STORAGE_CLASS_HEADER = "x-amz-storage-class";
+
+const toStorageClassHeaders = (storageClass: unknown): Record<string, string> => {
+  const value = toStorageClass(storageClass);
+  return value ? { [STORAGE_CLASS_HEADER]: value } : {};
+};
+
+export const toWriteCondition = (input: { ifNoneMatch?: unknown; ifMatch?: unknown }): WriteCondition | undefined => {
+  if (String(input.ifNoneMatch ?? "").trim() === "*") return { ifNoneMatch: "*" };
+  const etag = String(input.ifMatch ?? "").trim().replace(/^W\//, "").replace(/^"|"$/g, "");
+  return etag ? { ifMatch: etag } : undefined;
+};
+
+export const toWriteConditionHeaders = (condition?: WriteCondition): Record<string, string> => {
+  if (!condition) return {};
+  return "ifNoneMatch" in condition ? { "if-none-match": "*" } : { "if-match": `"${condition.ifMatch}"` };
+};
+
+export const getR2EndpointHost = (accountId: string, jurisdiction?: R2Jurisdiction) =>
+  jurisdiction === "eu" || jurisdiction === "fedramp"
+    ? `${accountId}.${jurisdiction}.r2.cloudflarestorage.com`
+    : `${accountId}.r2.cloudflarestorage.com`;
+
+const parseEndpointUrl = (endpoint: string) => {
+  try {
+    const url = new URL(endpoint);
+    return { origin: url.origin, host: url.host, basePath: url.pathname.replace(/\/+$/, "") };
+  } catch {
+    const err = new Error("Endpoint 格式不正确") as R2ErrorLike;
+    err.status = 400;
+    throw err;
+  }
+};
+
+const resolveS3Endpoint = (creds: R2ClientCredentials) => {
+  if (creds.driver === "local") {
+    const err = new Error("本地存储不支持 S3 直连访问") as R2ErrorLike;
+    err.status = 400;
+    throw err;
+  }
+  if (creds.driver === "s3") {
+    return { ...parseEndpointUrl(String(creds.endpoint ?? "")), region: creds.region || DEFAULT_S3_REGION };
+  }
+  if (creds.endpoint) return { ...parseEndpointUrl(creds.endpoint), region: creds.region || R2_REGION };
+  const host = getR2EndpointHost(creds.accountId, creds.jurisdiction);
+  return { origin: `https://${host}`, host, basePath: "", region: R2_REGION };
+};
+
+// Origin requests for this bucket are sent to; used for diagnostics in the bucket form.
+export const describeStorageEndpoint = (creds: R2ClientCredentials) =>
+  creds.driver === "local" ? "local" : resolveS3Endpoint(creds).origin;
+
 export const createS3Client = (creds: R2ClientCredentials) => ({
-  endpoint: `https://${creds.accountId}.r2.cloudflarestorage.com`,
   ...creds,
+  endpoint: resolveS3Endpoint(creds).origin,
 });
 
 const stripEtag = (etag?: string | null) => {
@@ -116,6 +236,15 @@ const toFriendlyR2Message = (error: unknown, action: string) => {
   if (normalized.includes("signaturedoesnotmatch")) {
     return "签名校验失败：Secret Access Key、Account ID 或桶名可能填写错误。";
   }
+  if (normalized.includes("bucketalreadyexists") || normalized.includes("bucketalreadyownedbyyou")) {
+    return "桶名已被占用：请换一个桶名称，或直接绑定已有的桶。";
+  }
+  if (normalized.includes("preconditionfailed") || status === 412) {
+    return "目标文件已存在或已被他人修改，未覆盖。";
+  }
+  if (normalized.includes("bucketnotempty")) {
+    return "存储桶不为空：请先清空桶内对象再删除。";
+  }
   if (normalized.includes("nosuchbucket")) {
     return "桶名错误：该桶不存在，请检查 R2 桶名称。";
   }
@@ -194,9 +323,55 @@ const hmacSha256 = async (key: Uint8Array | ArrayBuffer, value: string | Uint8Ar
   return new Uint8Array(signed);
 };
 
-const deriveSigningKey = async (secretAccessKey: string, dateStamp: string) => {
+// WebCrypto has no MD5, but S3 and MinIO refuse bucket configuration PUTs (CORS, lifecycle) without a
+// Content-MD5 header. Those bodies are a few KB, so a plain RFC 1321 implementation is enough.
+const MD5_SHIFTS = [7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21];
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) | 0);
+
+const md5 = (bytes: Uint8Array) => {
+  const padded = new Uint8Array((((bytes.length + 8) >> 6) << 6) + 64);
+  padded.set(bytes);
+  padded[bytes.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  const bitLength = bytes.length * 8;
+  view.setUint32(padded.length - 8, bitLength >>> 0, true);
+  view.setUint32(padded.length - 4, Math.floor(bitLength / 2 ** 32), true);
+
+  const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    let [a, b, c, d] = state;
+    for (let i = 0; i < 64; i += 1) {
+      const round = i >> 4;
+      const f = round === 0 ? (b & c) | (~b & d) : round === 1 ? (d & b) | (~d & c) : round === 2 ? b ^ c ^ d : c ^ (b | ~d);
+      const g = round === 0 ? i : round === 1 ? (5 * i + 1) % 16 : round === 2 ? (3 * i + 5) % 16 : (7 * i) % 16;
+      const shift = MD5_SHIFTS[round * 4 + (i % 4)];
+      const sum = (a + f + MD5_CONSTANTS[i] + view.getUint32(offset + g * 4, true)) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+    }
+    state[0] = (state[0] + a) | 0;
+    state[1] = (state[1] + b) | 0;
+    state[2] = (state[2] + c) | 0;
+    state[3] = (state[3] + d) | 0;
+  }
+
+  const digest = new DataView(new ArrayBuffer(16));
+  state.forEach((word, i) => digest.setUint32(i * 4, word, true));
+  return new Uint8Array(digest.buffer);
+};
+
+const md5Base64 = (value: string) => btoa(String.fromCharCode(...md5(textEncoder.encode(value))));
+
+const xmlConfigRequest = (xml: string) => ({
+  headers: { "content-type": "application/xml", "content-md5": md5Base64(xml) },
+  body: xml,
+});
+
+const deriveSigningKey = async (secretAccessKey: string, dateStamp: string, region: string) => {
   const kDate = await hmacSha256(textEncoder.encode(`AWS4${secretAccessKey}`), dateStamp);
-  const kRegion = await hmacSha256(kDate, AWS_REGION);
+  const kRegion = await hmacSha256(kDate, region);
   const kService = await hmacSha256(kRegion, AWS_SERVICE);
   return await hmacSha256(kService, AWS_REQUEST);
 };
@@ -330,7 +505,7 @@ const bodyToPayloadHash = async (body: BodyInit | null, unsignedPayload: boolean
   return UNSIGNED_PAYLOAD;
 };
 
-const signedFetch = async (opts: {
+type SignedFetchOptions = {
   creds: R2ClientCredentials;
   method: "GET" | "HEAD" | "POST" | "PUT" | "DELETE";
   key?: string;
@@ -338,12 +513,13 @@ const signedFetch = async (opts: {
   headers?: Record<string, string>;
   body?: BodyInit | null;
   unsignedPayload?: boolean;
-}) => {
+};
+
+const signedFetchOnce = async (opts: SignedFetchOptions) => {
   const method = opts.method.toUpperCase() as "GET" | "HEAD" | "POST" | "PUT" | "DELETE";
-  const host = `${opts.creds.accountId}.r2.cloudflarestorage.com`;
-  const baseUrl = `https://${host}`;
+  const { origin: baseUrl, host, basePath, region } = resolveS3Endpoint(opts.creds);
   const objectKey = normalizeObjectKey(String(opts.key ?? ""));
-  const pathRaw = objectKey ? `/${opts.creds.bucketName}/${objectKey}` : `/${opts.creds.bucketName}`;
+  const pathRaw = `${basePath}${objectKey ? `/${opts.creds.bucketName}/${objectKey}` : `/${opts.creds.bucketName}`}`;
   const canonicalUri = encodePath(pathRaw);
   const canonicalQuery = buildCanonicalQuery(opts.query);
 
@@ -370,7 +546,7 @@ const signedFetch = async (opts: {
   const signedHeaders = sortedHeaderKeys.join(";");
 
   const canonicalRequest = [method, canonicalUri, canonicalQuery, canonicalHeaders, signedHeaders, payloadHash].join("\n");
-  const credentialScope = `${dateStamp}/${AWS_REGION}/${AWS_SERVICE}/${AWS_REQUEST}`;
+  const credentialScope = `${dateStamp}/${region}/${AWS_SERVICE}/${AWS_REQUEST}`;
   const stringToSign = [
     AWS_ALGORITHM,
     amzDate,
@@ -378,7 +554,7 @@ const signedFetch = async (opts: {
     await sha256Hex(canonicalRequest),
   ].join("\n");
 
-  const signingKey = await deriveSigningKey(opts.creds.secretAccessKey, dateStamp);
+  const signingKey = await deriveSigningKey(opts.creds.secretAccessKey, dateStamp, region);
   const signature = toHex(await hmacSha256(signingKey, stringToSign));
   const authorization = `${AWS_ALGORITHM} Credential=${opts.creds.accessKeyId}/${credentialScope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
 
@@ -397,24 +573,92 @@ const signedFetch = async (opts: {
   });
 };
 
+const resolveRetryPolicy = (creds: R2ClientCredentials): R2RetryPolicy => {
+  const merged = { ...DEFAULT_R2_RETRY_POLICY, ...(creds.retry ?? {}) };
+  const maxRetries = Number(merged.maxRetries);
+  return {
+    ...merged,
+    maxRetries: Number.isFinite(maxRetries) ? Math.min(MAX_R2_RETRIES, Math.max(0, Math.floor(maxRetries))) : DEFAULT_R2_RETRY_POLICY.maxRetries,
+  };
+};
+
+// Retry-After is either delta-seconds or an HTTP date.
+const parseRetryAfterMs = (value: string | null) => {
+  const raw = String(value ?? "").trim();
+  if (!raw) return undefined;
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(raw);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : undefined;
+};
+
+// Capped exponential backoff with full jitter.
+const backoffDelayMs = (policy: R2RetryPolicy, attempt: number) =>
+  Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// A conditional write whose first attempt landed but whose response was lost would come back 412 on replay
+// and be reported as a conflict, so only unconditional writes are retried.
+const isConditionalWrite = (opts: SignedFetchOptions) =>
+  opts.method !== "GET" &&
+  opts.method !== "HEAD" &&
+  Object.keys(opts.headers ?? {}).some((name) => /^(x-amz-copy-source-)?if-(none-)?match$/i.test(name));
+
+// POST (create/complete multipart) is not idempotent, and a stream body cannot be replayed.
+const isRetryableRequest = (opts: SignedFetchOptions) =>
+  opts.method !== "POST" && !(opts.body instanceof ReadableStream) && !isConditionalWrite(opts);
+
+const signedFetch = async (opts: SignedFetchOptions) => {
+  const policy = resolveRetryPolicy(opts.creds);
+  const retryable = isRetryableRequest(opts);
+
+  for (let attempt = 0; ; attempt += 1) {
+    const canRetry = retryable && attempt < policy.maxRetries;
+    let res: Response;
+    try {
+      res = await signedFetchOnce(opts);
+    } catch (error) {
+      // fetch only rejects on network failures (reset, DNS, TLS); HTTP errors arrive as responses.
+      if (!canRetry) throw error;
+      await sleep(backoffDelayMs(policy, attempt));
+      if (opts.creds.retryStats) opts.creds.retryStats.retries += 1;
+      continue;
+    }
+
+    if (!canRetry || !RETRYABLE_STATUSES.has(res.status)) return res;
+
+    const retryAfterMs = parseRetryAfterMs(res.headers.get("retry-after"));
+    await res.body?.cancel().catch(() => undefined);
+    // Honour Retry-After, but never wait longer than the policy allows for a single pause.
+    await sleep(retryAfterMs === undefined ? backoffDelayMs(policy, attempt) : Math.min(retryAfterMs, policy.maxDelayMs));
+    if (opts.creds.retryStats) opts.creds.retryStats.retries += 1;
+  }
+};
+
 export const getPresignedObjectUrl = async (input: PresignedObjectInput): Promise<string> => {
   const method = (input.method ?? "GET").toUpperCase() as "GET" | "HEAD" | "PUT";
-  const host = `${input.creds.accountId}.r2.cloudflarestorage.com`;
+  const { origin, host, basePath, region } = resolveS3Endpoint(input.creds);
   const objectKey = normalizeObjectKey(input.key);
-  const canonicalUri = encodePath(`/${input.creds.bucketName}/${objectKey}`);
+  const canonicalUri = encodePath(`${basePath}/${input.creds.bucketName}/${objectKey}`);
 
   const now = new Date();
   const { amzDate, dateStamp } = formatAmzDate(now);
   const expires = Math.max(1, Math.min(7 * 24 * 3600, Math.floor(Number(input.expiresInSeconds ?? 3600) || 3600)));
-  const credentialScope = `${dateStamp}/${AWS_REGION}/${AWS_SERVICE}/${AWS_REQUEST}`;
+  const credentialScope = `${dateStamp}/${region}/${AWS_SERVICE}/${AWS_REQUEST}`;
 
   const query: Record<string, QueryValue> = {
     "X-Amz-Algorithm": AWS_ALGORITHM,
     "X-Amz-Credential": `${input.creds.accessKeyId}/${credentialScope}`,
     "X-Amz-Date": amzDate,
     "X-Amz-Expires": expires,
-    "X-Amz-SignedHeaders": "host",
   };
+  const extraHeaders = Object.entries(input.signedHeaders ?? {})
+    .map(([k, v]) => [k.trim().toLowerCase(), String(v).trim()] as const)
+    .filter(([k]) => k.length > 0 && k !== "host")
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const signedHeaderList = ["host", ...extraHeaders.map(([k]) => k)].sort().join(";");
+  query["X-Amz-SignedHeaders"] = signedHeaderList;
   for (const [k, v] of Object.entries(input.query ?? {})) {
     if (v === undefined || v === null || k.length === 0) continue;
     query[k] = v;
@@ -424,14 +668,17 @@ export const getPresignedObjectUrl = async (input: PresignedObjectInput): Promis
   }
 
   const canonicalQuery = buildCanonicalQuery(query);
-  const canonicalHeaders = `host:${host}\n`;
-  const canonicalRequest = [method, canonicalUri, canonicalQuery, canonicalHeaders, "host", UNSIGNED_PAYLOAD].join("\n");
+  const canonicalHeaders = [["host", host] as const, ...extraHeaders]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([k, v]) => `${k}:${v}\n`)
+    .join("");
+  const canonicalRequest = [method, canonicalUri, canonicalQuery, canonicalHeaders, signedHeaderList, UNSIGNED_PAYLOAD].join("\n");
   const stringToSign = [AWS_ALGORITHM, amzDate, credentialScope, await sha256Hex(canonicalRequest)].join("\n");
-  const signingKey = await deriveSigningKey(input.creds.secretAccessKey, dateStamp);
+  const signingKey = await deriveSigningKey(input.creds.secretAccessKey, dateStamp, region);
   const signature = toHex(await hmacSha256(signingKey, stringToSign));
 
   const finalQuery = `${canonicalQuery}&X-Amz-Signature=${signature}`;
-  return `https://${host}${canonicalUri}?${finalQuery}`;
+  return `${origin}${canonicalUri}?${finalQuery}`;
 };
 
 const listFromXml = (xml: string): R2ListResultLike => {
@@ -450,7 +697,9 @@ const listFromXml = (xml: string): R2ListResultLike => {
     objects.push({
       key,
       size: Number.isFinite(size) ? size : undefined,
+      etag: stripEtag(parseXmlTag(block, "ETag")) || undefined,
       uploaded: uploaded && !Number.isNaN(Date.parse(uploaded)) ? uploaded : undefined,
+      storageClass: toStorageClass(parseXmlTag(block, "StorageClass")) ?? "STANDARD",
     });
   }
 
@@ -483,6 +732,34 @@ const parseMetadataFromHeaders = (headers: Headers) => {
   return Object.keys(metadata).length ? metadata : undefined;
 };
 
+const HTTP_METADATA_HEADERS: Array<[keyof R2HttpMetadataLike, string]> = [
+  ["contentType", "content-type"],
+  ["cacheControl", "cache-control"],
+  ["contentDisposition", "content-disposition"],
+  ["contentEncoding", "content-encoding"],
+];
+
+const parseHttpMetadataFromHeaders = (headers: Headers): R2HttpMetadataLike | undefined => {
+  const out: R2HttpMetadataLike = {};
+  for (const [field, header] of HTTP_METADATA_HEADERS) {
+    const value = headers.get(header);
+    if (value) out[field] = value;
+  }
+  return Object.keys(out).length ? out : undefined;
+};
+
+const toMetadataHeaders = (httpMetadata: R2HttpMetadataLike | undefined, customMetadata: unknown) => {
+  const headers: Record<string, string> = {};
+  for (const [field, header] of HTTP_METADATA_HEADERS) {
+    const value = httpMetadata?.[field];
+    if (value) headers[header] = value;
+  }
+  for (const [k, v] of Object.entries(normalizeMetadata(customMetadata) ?? {})) {
+    headers[`x-amz-meta-${k}`] = v;
+  }
+  return headers;
+};
+
 const escapeXml = (value: string) =>
   value
     .replace(/&/g, "&amp;")
@@ -491,11 +768,15 @@ const escapeXml = (value: string) =>
     .replace(/\"/g, "&quot;")
     .replace(/'/g, "&apos;");
 
-export const createR2Bucket = (creds: R2ClientCredentials): R2BucketLike => {
+// Entry point for every storage backend; the driver is chosen by the bucket row.
+export const createR2Bucket = (creds: R2ClientCredentials): R2BucketLike =>
+  creds.driver === "local" ? createLocalBucket(creds) : createS3Bucket(creds);
+
+const createS3Bucket = (creds: R2ClientCredentials): R2BucketLike => {
   const bucketCreds = { ...creds };
 
   return {
-    list: async ({ prefix, delimiter, cursor, limit }) => {
+    list: async ({ prefix, delimiter, cursor, startAfter, limit }) => {
       try {
         const res = await signedFetch({
           creds: bucketCreds,
@@ -505,6 +786,7 @@ export const createR2Bucket = (creds: R2ClientCredentials): R2BucketLike => {
             prefix: prefix || undefined,
             delimiter: delimiter || undefined,
             "continuation-token": cursor || undefined,
+            "start-after": startAfter || undefined,
             "max-keys": limit ?? 1000,
           },
           unsignedPayload: true,
@@ -537,15 +819,17 @@ export const createR2Bucket = (creds: R2ClientCredentials): R2BucketLike => {
         if (!res.ok) throw await createHttpError("读取文件", res);
 
         const size = Number(res.headers.get("content-length") ?? NaN);
-        const contentType = res.headers.get("content-type") ?? undefined;
         const etag = stripEtag(res.headers.get("etag"));
+        const lastModified = Date.parse(res.headers.get("last-modified") ?? "");
 
         return {
           body: (res.body as BodyInit | null) ?? null,
           size: Number.isFinite(size) ? size : undefined,
           etag,
           httpEtag: etag,
-          httpMetadata: contentType ? { contentType } : undefined,
+          lastModified: Number.isFinite(lastModified) ? new Date(lastModified).toISOString() : undefined,
+          storageClass: toStorageClass(res.headers.get(STORAGE_CLASS_HEADER)) ?? "STANDARD",
+          httpMetadata: parseHttpMetadataFromHeaders(res.headers),
           customMetadata: parseMetadataFromHeaders(res.headers),
         };
       } catch (error) {
@@ -566,9 +850,14 @@ export const createR2Bucket = (creds: R2ClientCredentials): R2BucketLike => {
         if (!res.ok) throw await createHttpError("读取文件信息", res);
 
         const size = Number(res.headers.get("content-length") ?? NaN);
+        const lastModified = Date.parse(res.headers.get("last-modified") ?? "");
         return {
           size: Number.isFinite(size) ? size : undefined,
           etag: stripEtag(res.headers.get("etag")),
+          lastModified: Number.isFinite(lastModified) ? new Date(lastModified).toISOString() : undefined,
+          storageClass: toStorageClass(res.headers.get(STORAGE_CLASS_HEADER)) ?? "STANDARD",
+          httpMetadata: parseHttpMetadataFromHeaders(res.headers),
+          customMetadata: parseMetadataFromHeaders(res.headers),
         };
       } catch (error) {
         if (readErrorStatus(error) === 404) return null;
@@ -578,18 +867,19 @@ export const createR2Bucket = (creds: R2ClientCredentials): R2BucketLike => {
 
     put: async (key, value, options) => {
       const opt = (options ?? {}) as {
-        httpMetadata?: { contentType?: string };
+        httpMetadata?: R2HttpMetadataLike;
         customMetadata?: unknown;
+        storageClass?: StorageClass;
+        onlyIf?: WriteCondition;
       };
-      const metadata = normalizeMetadata(opt.customMetadata);
 
       try {
         const body = await asBodyInit(value);
-        const headers: Record<string, string> = {};
-        if (opt.httpMetadata?.contentType) headers["content-type"] = opt.httpMetadata.contentType;
-        for (const [k, v] of Object.entries(metadata ?? {})) {
-          headers[`x-amz-meta-${k}`] = v;
-        }
+        const headers = {
+          ...toMetadataHeaders(opt.httpMetadata, opt.customMetadata),
+          ...toStorageClassHeaders(opt.storageClass),
+          ...toWriteConditionHeaders(opt.onlyIf),
+        };
 
         const res = await signedFetch({
           creds: bucketCreds,
@@ -626,17 +916,13 @@ export const createR2Bucket = (creds: R2ClientCredentials): R2BucketLike => {
 
     createMultipartUpload: async (key, options) => {
       const opt = (options ?? {}) as {
-        httpMetadata?: { contentType?: string };
+        httpMetadata?: R2HttpMetadataLike;
         customMetadata?: unknown;
+        storageClass?: StorageClass;
       };
-      const metadata = normalizeMetadata(opt.customMetadata);
 
       try {
-        const headers: Record<string, string> = {};
-        if (opt.httpMetadata?.contentType) headers["content-type"] = opt.httpMetadata.contentType;
-        for (const [k, v] of Object.entries(metadata ?? {})) {
-          headers[`x-amz-meta-${k}`] = v;
-        }
+        const headers = { ...toMetadataHeaders(opt.httpMetadata, opt.customMetadata), ...toStorageClassHeaders(opt.storageClass) };
 
         const res = await signedFetch({
           creds: bucketCreds,
@@ -677,7 +963,7 @@ export const createR2Bucket = (creds: R2ClientCredentials): R2BucketLike => {
         }
       },
 
-      complete: async (parts) => {
+      complete: async (parts, options) => {
         const normalizedParts = parts
           .filter((p) => p.etag && Number.isFinite(p.partNumber) && p.partNumber > 0)
           .sort((a, b) => a.partNumber - b.partNumber);
@@ -692,7 +978,7 @@ export const createR2Bucket = (creds: R2ClientCredentials): R2BucketLike => {
             method: "POST",
             key,
             query: { uploadId },
-            headers: { "content-type": "application/xml" },
+            headers: { "content-type": "application/xml", ...toWriteConditionHeaders(options?.onlyIf) },
             body: xml,
             unsignedPayload: false,
           });
@@ -721,26 +1007,724 @@ export const createR2Bucket = (creds: R2ClientCredentials): R2BucketLike => {
   };
 };
 
+// CopyObject and single PUT requests are capped at 5 GiB by S3/R2.
+export const MAX_SINGLE_COPY_SIZE = 5 * 1024 * 1024 * 1024;
+const MULTIPART_COPY_PART_SIZE = 512 * 1024 * 1024;
+const MULTIPART_COPY_CONCURRENCY = 4;
+
+const encodeCopySource = (bucketName: string, key: string) =>
+  `/${encodeRfc3986(bucketName)}/${normalizeObjectKey(key)
+    .split("/")
+    .map((p) => encodeRfc3986(p))
+    .join("/")}`;
+
+const headCopySource = async (creds: R2ClientCredentials, key: string) => {
+  const res = await signedFetch({ creds, method: "HEAD", key, unsignedPayload: true });
+  if (res.status === 404) {
+    const err = new Error("源文件不存在或已被删除") as R2ErrorLike;
+    err.status = 404;
+    throw err;
+  }
+  if (!res.ok) throw await createHttpError("读取文件信息", res);
+  const size = Number(res.headers.get("content-length") ?? NaN);
+  return {
+    size: Number.isFinite(size) ? size : 0,
+    storageClass: toStorageClass(res.headers.get(STORAGE_CLASS_HEADER)),
+    httpMetadata: parseHttpMetadataFromHeaders(res.headers),
+    metadata: parseMetadataFromHeaders(res.headers),
+  };
+};
+
+// UploadPartCopy in ranges so sources beyond the CopyObject limit never pass through the worker.
+const multipartServerSideCopy = async (
+  creds: R2ClientCredentials,
+  copySource: string,
+  source: { size: number; storageClass?: StorageClass; httpMetadata?: R2HttpMetadataLike; metadata?: unknown },
+  targetKey: string,
+) => {
+  const target = createR2Bucket(creds);
+  const { uploadId } = await target.createMultipartUpload!(targetKey, {
+    httpMetadata: source.httpMetadata,
+    customMetadata: source.metadata,
+    storageClass: source.storageClass,
+  });
+  const upload = target.resumeMultipartUpload!(targetKey, uploadId);
+  const partSize = Math.max(MULTIPART_COPY_PART_SIZE, Math.ceil(source.size / 10_000));
+  const ranges: Array<{ partNumber: number; start: number; end: number }> = [];
+  for (let start = 0, partNumber = 1; start < source.size; start += partSize, partNumber += 1) {
+    ranges.push({ partNumber, start, end: Math.min(start + partSize, source.size) - 1 });
+  }
+
+  const parts: Array<{ etag: string; partNumber: number }> = [];
+  let nextIndex = 0;
+  let failed = false;
+  const copyNext = async () => {
+    try {
+      for (;;) {
+        const range = failed ? undefined : ranges[nextIndex++];
+        if (!range) return;
+        const res = await signedFetch({
+          creds,
+          method: "PUT",
+          key: targetKey,
+          query: { partNumber: range.partNumber, uploadId },
+          headers: {
+            "x-amz-copy-source": copySource,
+            "x-amz-copy-source-range": `bytes=${range.start}-${range.end}`,
+          },
+          unsignedPayload: true,
+        });
+        if (!res.ok) throw await createHttpError("复制文件分片", res);
+        const etag = stripEtag(parseXmlTag(await res.text(), "ETag"));
+        if (!etag) throw new Error("复制文件分片失败");
+        parts.push({ etag, partNumber: range.partNumber });
+      }
+    } catch (error) {
+      failed = true;
+      throw error;
+    }
+  };
+
+  try {
+    // Part copies still in flight would keep writing into the upload after an abort, leaving billed parts
+    // behind, so a failure only stops new parts and the abort waits until every worker has settled.
+    const results = await Promise.allSettled(
+      Array.from({ length: Math.min(MULTIPART_COPY_CONCURRENCY, ranges.length) }, copyNext),
+    );
+    const rejected = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+    if (rejected) throw rejected.reason;
+    await upload.complete(parts);
+  } catch (error) {
+    await upload.abort().catch(() => undefined);
+    throw error;
+  }
+};
+
+// CopyObject writes the target in the standard class unless told otherwise, so the source is read first
+// to carry its storage class over; the same HEAD decides whether the size needs a multipart copy.
+const serverSideCopy = async (
+  creds: R2ClientCredentials,
+  sourceCreds: R2ClientCredentials,
+  sourceKey: string,
+  targetKey: string,
+) => {
+  const copySource = encodeCopySource(sourceCreds.bucketName, sourceKey);
+  const source = await headCopySource(sourceCreds, sourceKey);
+  if (source.size > MAX_SINGLE_COPY_SIZE) return await multipartServerSideCopy(creds, copySource, source, targetKey);
+
+  const res = await signedFetch({
+    creds,
+    method: "PUT",
+    key: targetKey,
+    headers: {
+      "x-amz-copy-source": copySource,
+      "x-amz-metadata-directive": "COPY",
+      ...toStorageClassHeaders(source.storageClass),
+    },
+    unsignedPayload: true,
+  });
+  if (!res.ok) throw await createHttpError("复制文件", res);
+};
+
 export const copyObjectInBucket = async (creds: R2ClientCredentials, sourceKey: string, targetKey: string) => {
+  if (creds.driver === "local") return await copyLocalObject(creds, sourceKey, targetKey);
   try {
-    const srcBucket = encodeRfc3986(creds.bucketName);
-    const srcKey = normalizeObjectKey(sourceKey)
-      .split("/")
-      .map((p) => encodeRfc3986(p))
-      .join("/");
+    await serverSideCopy(creds, creds, sourceKey, targetKey);
+  } catch (error) {
+    throw toFriendlyR2Error(error, "复制文件");
+  }
+};
 
+// Rewrites an object's metadata in place. S3 has no metadata-only update, so the object is copied
+// onto itself with the REPLACE directive; the stored bytes are not transferred through the worker.
+export const replaceObjectMetadata = async (
+  creds: R2ClientCredentials,
+  key: string,
+  metadata: { httpMetadata?: R2HttpMetadataLike; customMetadata?: Record<string, string> },
+) => {
+  if (creds.driver === "local") return await replaceLocalObjectMetadata(creds, key, metadata);
+  try {
+    const copySource = encodeCopySource(creds.bucketName, key);
+    const source = await headCopySource(creds, key);
+    if (source.size > MAX_SINGLE_COPY_SIZE) {
+      return await multipartServerSideCopy(
+        creds,
+        copySource,
+        { size: source.size, storageClass: source.storageClass, httpMetadata: metadata.httpMetadata, metadata: metadata.customMetadata },
+        key,
+      );
+    }
     const res = await signedFetch({
       creds,
       method: "PUT",
-      key: targetKey,
+      key,
       headers: {
-        "x-amz-copy-source": `/${srcBucket}/${srcKey}`,
+        ...toMetadataHeaders(metadata.httpMetadata, metadata.customMetadata),
+        ...toStorageClassHeaders(source.storageClass),
+        "x-amz-copy-source": copySource,
+        "x-amz-metadata-directive": "REPLACE",
+      },
+      unsignedPayload: true,
+    });
+    if (!res.ok) throw await createHttpError("更新文件元数据", res);
+  } catch (error) {
+    throw toFriendlyR2Error(error, "更新文件元数据");
+  }
+};
+
+// Moves an object between storage classes by copying it onto itself; data and metadata are kept.
+export const changeObjectStorageClass = async (creds: R2ClientCredentials, key: string, storageClass: StorageClass) => {
+  if (creds.driver === "local") throw Object.assign(new Error("本地存储不支持存储类型"), { status: 400 });
+  try {
+    const copySource = encodeCopySource(creds.bucketName, key);
+    const res = await signedFetch({
+      creds,
+      method: "PUT",
+      key,
+      headers: {
+        "x-amz-copy-source": copySource,
         "x-amz-metadata-directive": "COPY",
+        [STORAGE_CLASS_HEADER]: storageClass,
       },
       unsignedPayload: true,
     });
-    if (!res.ok) throw await createHttpError("复制文件", res);
+    if (res.ok) return;
+    const error = await createHttpError("更改存储类型", res);
+    const source = await headCopySource(creds, key);
+    // S3 refuses a self-copy that changes nothing, which is what happens when the class already matches.
+    if ((source.storageClass ?? "STANDARD") === storageClass) return;
+    if (source.size <= MAX_SINGLE_COPY_SIZE) throw error;
+    await multipartServerSideCopy(creds, copySource, { ...source, storageClass }, key);
   } catch (error) {
-    throw toFriendlyR2Error(error, "复制文件");
+    throw toFriendlyR2Error(error, "更改存储类型");
+  }
+};
+
+// Objects up to this size are streamed with a single PUT; larger ones are copied part by part.
+const CROSS_BUCKET_SINGLE_PUT_LIMIT = 64 * 1024 * 1024;
+const CROSS_BUCKET_MIN_PART_SIZE = 16 * 1024 * 1024;
+const MAX_MULTIPART_PARTS = 10_000;
+
+const streamObjectAcrossBuckets = async (source: R2BucketLike, target: R2BucketLike, sourceKey: string, targetKey: string) => {
+  const head = await source.head(sourceKey);
+  if (!head) throw new Error("源文件不存在或已被删除");
+  const size = Number(head.size ?? 0);
+
+  if (size <= CROSS_BUCKET_SINGLE_PUT_LIMIT || !target.createMultipartUpload || !target.resumeMultipartUpload) {
+    const obj = await source.get(sourceKey);
+    if (!obj) throw new Error("源文件不存在或已被删除");
+    await target.put(targetKey, obj.body, {
+      httpMetadata: obj.httpMetadata,
+      customMetadata: obj.customMetadata,
+      storageClass: head.storageClass,
+    });
+    return;
+  }
+
+  const first = await source.get(sourceKey, { range: { offset: 0, length: 1 } });
+  if (!first) throw new Error("源文件不存在或已被删除");
+  await new Response(first.body).arrayBuffer().catch(() => undefined);
+
+  const partSize = Math.max(CROSS_BUCKET_MIN_PART_SIZE, Math.ceil(size / MAX_MULTIPART_PARTS));
+  const { uploadId } = await target.createMultipartUpload(targetKey, {
+    httpMetadata: first.httpMetadata,
+    customMetadata: first.customMetadata,
+    storageClass: head.storageClass,
+  });
+  const upload = target.resumeMultipartUpload(targetKey, uploadId);
+  const parts: Array<{ etag: string; partNumber: number }> = [];
+  try {
+    for (let offset = 0, partNumber = 1; offset < size; offset += partSize, partNumber += 1) {
+      const length = Math.min(partSize, size - offset);
+      const chunk = await source.get(sourceKey, { range: { offset, length } });
+      if (!chunk?.body) throw new Error("读取源文件分段失败");
+      // Parts are buffered so every upload request carries an exact content length.
+      const bytes = new Uint8Array(await new Response(chunk.body).arrayBuffer());
+      const res = await upload.uploadPart(partNumber, bytes);
+      if (!res.etag) throw new Error("上传分片失败");
+      parts.push({ etag: res.etag, partNumber });
+    }
+    await upload.complete(parts);
+  } catch (error) {
+    await upload.abort().catch(() => undefined);
+    throw error;
+  }
+};
+
+const isSameS3Service = (a: R2ClientCredentials, b: R2ClientCredentials) => {
+  const driverA = a.driver ?? "r2";
+  const driverB = b.driver ?? "r2";
+  if (driverA !== driverB) return false;
+  if (driverA === "local") return false;
+  return describeStorageEndpoint(a) === describeStorageEndpoint(b);
+};
+
+// A server-side copy runs with the target bucket's key, which may not be allowed to read the source bucket.
+// Streaming only helps in that case (or when the service has no cross-bucket copy). S3 answers AccessDenied
+// for both source and target, so the source is checked with its own key: if that works too, the refusal was
+// about reading the source. Any other error is real and is passed on.
+const shouldStreamAfterCopyError = async (error: unknown, sourceCreds: R2ClientCredentials, sourceKey: string) => {
+  const status = readErrorStatus(error);
+  if (status === 501 || readErrorName(error) === "NotImplemented") return true;
+  if (status !== 403) return false;
+  await headCopySource(sourceCreds, sourceKey);
+  return true;
+};
+
+// Copies between two bound buckets. Buckets on the same account try a server-side CopyObject first;
+// otherwise (or when the key lacks read access to the source) the object is streamed through the worker.
+export const copyObjectAcrossBuckets = async (
+  sourceCreds: R2ClientCredentials,
+  targetCreds: R2ClientCredentials,
+  sourceKey: string,
+  targetKey: string,
+) => {
+  if (isSameS3Service(sourceCreds, targetCreds)) {
+    try {
+      await serverSideCopy(targetCreds, sourceCreds, sourceKey, targetKey);
+      return;
+    } catch (error) {
+      let stream = false;
+      try {
+        stream = await shouldStreamAfterCopyError(error, sourceCreds, sourceKey);
+      } catch (headError) {
+        throw toFriendlyR2Error(headError, "跨桶复制文件");
+      }
+      if (!stream) throw toFriendlyR2Error(error, "跨桶复制文件");
+    }
+  }
+  try {
+    await streamObjectAcrossBuckets(createR2Bucket(sourceCreds), createR2Bucket(targetCreds), sourceKey, targetKey);
+  } catch (error) {
+    throw toFriendlyR2Error(error, "跨桶复制文件");
+  }
+};
+
+export type BucketCorsRule = {
+  id?: string;
+  allowedOrigins: string[];
+  allowedMethods: string[];
+  allowedHeaders: string[];
+  exposeHeaders: string[];
+  maxAgeSeconds?: number;
+};
+
+export const CORS_METHODS = ["GET", "PUT", "POST", "DELETE", "HEAD"] as const;
+
+// What the panel's direct (presigned) transfers need: browser PUT/GET/HEAD with Content-Type and
+// storage class headers, and a readable ETag so multipart parts can be completed.
+const PRESIGNED_CORS_METHODS = ["GET", "PUT", "HEAD"];
+const PRESIGNED_CORS_HEADERS = ["content-type", STORAGE_CLASS_HEADER, "if-none-match", "if-match"];
+const PRESIGNED_CORS_EXPOSE = ["etag"];
+
+const parseXmlTags = (xml: string, tag: string) => {
+  const out: string[] = [];
+  const re = new RegExp(`<${tag}>([\\s\\S]*?)<\\/${tag}>`, "gi");
+  for (;;) {
+    const m = re.exec(xml);
+    if (!m) break;
+    const value = parseXmlTag(m[0], tag);
+    if (value) out.push(value);
+  }
+  return out;
+};
+
+const corsRulesFromXml = (xml: string): BucketCorsRule[] => {
+  const rules: BucketCorsRule[] = [];
+  const ruleRe = /<CORSRule>([\s\S]*?)<\/CORSRule>/gi;
+  for (;;) {
+    const m = ruleRe.exec(xml);
+    if (!m?.[1]) break;
+    const block = m[1];
+    const maxAge = Number(parseXmlTag(block, "MaxAgeSeconds") ?? NaN);
+    rules.push({
+      id: parseXmlTag(block, "ID") || undefined,
+      allowedOrigins: parseXmlTags(block, "AllowedOrigin"),
+      allowedMethods: parseXmlTags(block, "AllowedMethod").map((v) => v.toUpperCase()),
+      allowedHeaders: parseXmlTags(block, "AllowedHeader"),
+      exposeHeaders: parseXmlTags(block, "ExposeHeader"),
+      maxAgeSeconds: Number.isFinite(maxAge) ? maxAge : undefined,
+    });
+  }
+  return rules;
+};
+
+const corsRulesToXml = (rules: BucketCorsRule[]) => {
+  const tags = (tag: string, values: string[]) => values.map((v) => `<${tag}>${escapeXml(v)}</${tag}>`).join("");
+  return `<CORSConfiguration>${rules
+    .map(
+      (rule) =>
+        `<CORSRule>${rule.id ? `<ID>${escapeXml(rule.id)}</ID>` : ""}${tags("AllowedOrigin", rule.allowedOrigins)}${tags(
+          "AllowedMethod",
+          rule.allowedMethods,
+        )}${tags("AllowedHeader", rule.allowedHeaders)}${tags("ExposeHeader", rule.exposeHeaders)}${
+          rule.maxAgeSeconds !== undefined ? `<MaxAgeSeconds>${rule.maxAgeSeconds}</MaxAgeSeconds>` : ""
+        }</CORSRule>`,
+    )
+    .join("")}</CORSConfiguration>`;
+};
+
+const assertCorsSupported = (creds: R2ClientCredentials) => {
+  if (creds.driver !== "local") return;
+  const err = new Error("本地目录存储没有预签名直连，无需配置 CORS") as R2ErrorLike;
+  err.status = 400;
+  throw err;
+};
+
+// A bucket without a CORS configuration answers 404 NoSuchCORSConfiguration; that is reported as no rules.
+export const getBucketCors = async (creds: R2ClientCredentials): Promise<BucketCorsRule[]> => {
+  assertCorsSupported(creds);
+  try {
+    const res = await signedFetch({ creds, method: "GET", query: { cors: "" }, unsignedPayload: true });
+    if (res.status === 404) {
+      const error = await createHttpError("读取 CORS 配置", res);
+      if (error.code === "NoSuchCORSConfiguration") return [];
+      throw error;
+    }
+    if (!res.ok) throw await createHttpError("读取 CORS 配置", res);
+    return corsRulesFromXml(await res.text());
+  } catch (error) {
+    throw toFriendlyR2Error(error, "读取 CORS 配置");
+  }
+};
+
+// PutBucketCors rejects an empty rule list, so clearing the rules deletes the configuration instead.
+export const putBucketCors = async (creds: R2ClientCredentials, rules: BucketCorsRule[]) => {
+  assertCorsSupported(creds);
+  try {
+    const res = rules.length
+      ? await signedFetch({
+          creds,
+          method: "PUT",
+          query: { cors: "" },
+          ...xmlConfigRequest(corsRulesToXml(rules)),
+          unsignedPayload: false,
+        })
+      : await signedFetch({ creds, method: "DELETE", query: { cors: "" }, unsignedPayload: true });
+    if (!res.ok) throw await createHttpError("保存 CORS 配置", res);
+  } catch (error) {
+    throw toFriendlyR2Error(error, "保存 CORS 配置");
+  }
+};
+
+export const buildPanelCorsRule = (origin: string): BucketCorsRule => ({
+  allowedOrigins: [origin],
+  allowedMethods: [...PRESIGNED_CORS_METHODS],
+  allowedHeaders: ["*"],
+  exposeHeaders: ["ETag"],
+  maxAgeSeconds: 3600,
+});
+
+// Origins may contain a single "*" wildcard, as in S3.
+const matchesCorsPattern = (pattern: string, value: string) => {
+  const p = pattern.trim().toLowerCase();
+  const v = value.trim().toLowerCase();
+  if (p === "*" || p === v) return true;
+  const star = p.indexOf("*");
+  if (star < 0) return false;
+  const head = p.slice(0, star);
+  const tail = p.slice(star + 1);
+  return v.length >= head.length + tail.length && v.startsWith(head) && v.endsWith(tail);
+};
+
+// Lists what is missing for the panel at `origin` to use presigned transfers; empty means ready.
+export const findCorsGapsForOrigin = (rules: BucketCorsRule[], origin: string) => {
+  const matching = rules.filter((rule) => rule.allowedOrigins.some((o) => matchesCorsPattern(o, origin)));
+  if (!matching.length) return [`未允许来源 ${origin}`];
+
+  const gaps: string[] = [];
+  const methods = new Set(matching.flatMap((rule) => rule.allowedMethods.map((m) => m.toUpperCase())));
+  const missingMethods = PRESIGNED_CORS_METHODS.filter((m) => !methods.has(m));
+  if (missingMethods.length) gaps.push(`缺少方法 ${missingMethods.join("/")}`);
+
+  const headers = matching.flatMap((rule) => rule.allowedHeaders);
+  const missingHeaders = PRESIGNED_CORS_HEADERS.filter((h) => !headers.some((p) => matchesCorsPattern(p, h)));
+  if (missingHeaders.length) gaps.push(`未允许请求头 ${missingHeaders.join("/")}`);
+
+  const expose = new Set(matching.flatMap((rule) => rule.exposeHeaders.map((h) => h.trim().toLowerCase())));
+  const missingExpose = PRESIGNED_CORS_EXPOSE.filter((h) => !expose.has(h));
+  if (missingExpose.length) gaps.push("未暴露 ETag 响应头（分片上传需要）");
+
+  return gaps;
+};
+
+// Prefix-scoped lifecycle rule. Only day-based actions are modelled; the transition target is
+// R2's Infrequent Access class (STANDARD_IA in the S3 API).
+export type BucketLifecycleRule = {
+  id: string;
+  enabled: boolean;
+  prefix: string;
+  expirationDays?: number;
+  transitionDays?: number;
+  abortMultipartDays?: number;
+};
+
+export const LIFECYCLE_TRANSITION_STORAGE_CLASS: StorageClass = "STANDARD_IA";
+
+const readXmlDays = (block: string | undefined, tag: string) => {
+  if (!block) return undefined;
+  const days = Number(parseXmlTag(block, tag) ?? NaN);
+  return Number.isFinite(days) && days > 0 ? days : undefined;
+};
+
+const lifecycleRulesFromXml = (xml: string): BucketLifecycleRule[] => {
+  const rules: BucketLifecycleRule[] = [];
+  const ruleRe = /<Rule>([\s\S]*?)<\/Rule>/gi;
+  for (;;) {
+    const m = ruleRe.exec(xml);
+    if (!m?.[1]) break;
+    const block = m[1];
+    rules.push({
+      id: parseXmlTag(block, "ID") ?? "",
+      enabled: /^enabled$/i.test(parseXmlTag(block, "Status") ?? ""),
+      // Matches both <Filter><Prefix> and the legacy top-level <Prefix>.
+      prefix: parseXmlTag(block, "Prefix") ?? "",
+      expirationDays: readXmlDays(block.match(/<Expiration>([\s\S]*?)<\/Expiration>/i)?.[1], "Days"),
+      transitionDays: readXmlDays(block.match(/<Transition>([\s\S]*?)<\/Transition>/i)?.[1], "Days"),
+      abortMultipartDays: readXmlDays(
+        block.match(/<AbortIncompleteMultipartUpload>([\s\S]*?)<\/AbortIncompleteMultipartUpload>/i)?.[1],
+        "DaysAfterInitiation",
+      ),
+    });
+  }
+  return rules;
+};
+
+const lifecycleRulesToXml = (rules: BucketLifecycleRule[]) =>
+  `<LifecycleConfiguration>${rules
+    .map(
+      (rule) =>
+        `<Rule><ID>${escapeXml(rule.id)}</ID><Status>${rule.enabled ? "Enabled" : "Disabled"}</Status><Filter><Prefix>${escapeXml(
+          rule.prefix,
+        )}</Prefix></Filter>${
+          rule.expirationDays ? `<Expiration><Days>${rule.expirationDays}</Days></Expiration>` : ""
+        }${
+          rule.transitionDays
+            ? `<Transition><Days>${rule.transitionDays}</Days><StorageClass>${LIFECYCLE_TRANSITION_STORAGE_CLASS}</StorageClass></Transition>`
+            : ""
+        }${
+          rule.abortMultipartDays
+            ? `<AbortIncompleteMultipartUpload><DaysAfterInitiation>${rule.abortMultipartDays}</DaysAfterInitiation></AbortIncompleteMultipartUpload>`
+            : ""
+        }</Rule>`,
+    )
+    .join("")}</LifecycleConfiguration>`;
+
+const assertLifecycleSupported = (creds: R2ClientCredentials) => {
+  if (creds.driver !== "local") return;
+  const err = new Error("本地目录存储不支持生命周期规则") as R2ErrorLike;
+  err.status = 400;
+  throw err;
+};
+
+export const getBucketLifecycle = async (creds: R2ClientCredentials): Promise<BucketLifecycleRule[]> => {
+  assertLifecycleSupported(creds);
+  try {
+    const res = await signedFetch({ creds, method: "GET", query: { lifecycle: "" }, unsignedPayload: true });
+    if (res.status === 404) {
+      const error = await createHttpError("读取生命周期规则", res);
+      if (error.code === "NoSuchLifecycleConfiguration") return [];
+      throw error;
+    }
+    if (!res.ok) throw await createHttpError("读取生命周期规则", res);
+    return lifecycleRulesFromXml(await res.text());
+  } catch (error) {
+    throw toFriendlyR2Error(error, "读取生命周期规则");
+  }
+};
+
+// Like CORS, an empty rule list is stored by deleting the configuration.
+export const putBucketLifecycle = async (creds: R2ClientCredentials, rules: BucketLifecycleRule[]) => {
+  assertLifecycleSupported(creds);
+  try {
+    const res = rules.length
+      ? await signedFetch({
+          creds,
+          method: "PUT",
+          query: { lifecycle: "" },
+          ...xmlConfigRequest(lifecycleRulesToXml(rules)),
+          unsignedPayload: false,
+        })
+      : await signedFetch({ creds, method: "DELETE", query: { lifecycle: "" }, unsignedPayload: true });
+    if (!res.ok) throw await createHttpError("保存生命周期规则", res);
+  } catch (error) {
+    throw toFriendlyR2Error(error, "保存生命周期规则");
+  }
+};
+
+// Multipart sessions that were never completed or aborted; their parts are stored (and billed) until aborted.
+export type MultipartUploadInfo = {
+  key: string;
+  uploadId: string;
+  initiated?: string;
+};
+
+export type MultipartUploadPage = {
+  uploads: MultipartUploadInfo[];
+  truncated: boolean;
+  nextKeyMarker?: string;
+  nextUploadIdMarker?: string;
+};
+
+export type MultipartPartInfo = {
+  partNumber: number;
+  size: number;
+  etag?: string;
+  lastModified?: string;
+};
+
+const assertMultipartListingSupported = (creds: R2ClientCredentials) => {
+  if (creds.driver !== "local") return;
+  const err = new Error("本地目录存储不支持列出未完成的分片上传") as R2ErrorLike;
+  err.status = 400;
+  throw err;
+};
+
+const toIsoTime = (raw: string | undefined) => {
+  const t = Date.parse(raw ?? "");
+  return Number.isFinite(t) ? new Date(t).toISOString() : undefined;
+};
+
+export const listMultipartUploads = async (
+  creds: R2ClientCredentials,
+  options: { prefix?: string; keyMarker?: string; uploadIdMarker?: string; limit?: number } = {},
+): Promise<MultipartUploadPage> => {
+  assertMultipartListingSupported(creds);
+  try {
+    const res = await signedFetch({
+      creds,
+      method: "GET",
+      query: {
+        uploads: "",
+        prefix: options.prefix || undefined,
+        "key-marker": options.keyMarker || undefined,
+        "upload-id-marker": options.keyMarker && options.uploadIdMarker ? options.uploadIdMarker : undefined,
+        "max-uploads": options.limit ?? 1000,
+      },
+      unsignedPayload: true,
+    });
+    if (!res.ok) throw await createHttpError("读取未完成的分片上传", res);
+    const xml = await res.text();
+
+    const uploads: MultipartUploadInfo[] = [];
+    const uploadRe = /<Upload>([\s\S]*?)<\/Upload>/gi;
+    for (;;) {
+      const m = uploadRe.exec(xml);
+      if (!m?.[1]) break;
+      const key = parseXmlTag(m[1], "Key");
+      const uploadId = parseXmlTag(m[1], "UploadId");
+      if (!key || !uploadId) continue;
+      uploads.push({ key, uploadId, initiated: toIsoTime(parseXmlTag(m[1], "Initiated")) });
+    }
+
+    const truncated = /^true$/i.test(parseXmlTag(xml, "IsTruncated") ?? "");
+    return {
+      uploads,
+      truncated,
+      nextKeyMarker: truncated ? parseXmlTag(xml, "NextKeyMarker") || undefined : undefined,
+      nextUploadIdMarker: truncated ? parseXmlTag(xml, "NextUploadIdMarker") || undefined : undefined,
+    };
+  } catch (error) {
+    throw toFriendlyR2Error(error, "读取未完成的分片上传");
+  }
+};
+
+// Walks every page of ListParts; a session holds at most 10,000 parts.
+export const listMultipartParts = async (creds: R2ClientCredentials, key: string, uploadId: string): Promise<MultipartPartInfo[]> => {
+  assertMultipartListingSupported(creds);
+  try {
+    const parts: MultipartPartInfo[] = [];
+    let marker: string | undefined;
+    for (;;) {
+      const res = await signedFetch({
+        creds,
+        method: "GET",
+        key,
+        query: { uploadId, "max-parts": 1000, "part-number-marker": marker },
+        unsignedPayload: true,
+      });
+      if (!res.ok) throw await createHttpError("读取分片列表", res);
+      const xml = await res.text();
+      const partRe = /<Part>([\s\S]*?)<\/Part>/gi;
+      for (;;) {
+        const m = partRe.exec(xml);
+        if (!m?.[1]) break;
+        const partNumber = Number(parseXmlTag(m[1], "PartNumber") ?? NaN);
+        if (!Number.isInteger(partNumber)) continue;
+        const size = Number(parseXmlTag(m[1], "Size") ?? NaN);
+        parts.push({
+          partNumber,
+          size: Number.isFinite(size) ? size : 0,
+          etag: stripEtag(parseXmlTag(m[1], "ETag")) || undefined,
+          lastModified: toIsoTime(parseXmlTag(m[1], "LastModified")),
+        });
+      }
+      const next = parseXmlTag(xml, "NextPartNumberMarker");
+      if (!/^true$/i.test(parseXmlTag(xml, "IsTruncated") ?? "") || !next || next === marker) break;
+      marker = next;
+    }
+    return parts;
+  } catch (error) {
+    throw toFriendlyR2Error(error, "读取分片列表");
+  }
+};
+
+// R2 places a new bucket near the location hint; buckets under a jurisdiction stay inside it and take no hint.
+export const R2_LOCATION_HINTS = ["wnam", "enam", "weur", "eeur", "apac", "oc"] as const;
+
+export type R2LocationHint = (typeof R2_LOCATION_HINTS)[number];
+
+export const toR2LocationHint = (value: unknown): R2LocationHint | undefined => {
+  const raw = String(value ?? "").trim().toLowerCase();
+  return (R2_LOCATION_HINTS as readonly string[]).includes(raw) ? (raw as R2LocationHint) : undefined;
+};
+
+export const assertBucketProvisioningSupported = (creds: R2ClientCredentials) => {
+  if (creds.driver !== "local") return;
+  const err = new Error("本地目录存储不支持在面板中创建或删除存储桶") as R2ErrorLike;
+  err.status = 400;
+  throw err;
+};
+
+// S3 expects the region as LocationConstraint except in us-east-1, where the element must be omitted.
+const resolveLocationConstraint = (creds: R2ClientCredentials, locationHint?: R2LocationHint) => {
+  if (creds.driver === "s3") {
+    const region = String(creds.region ?? "").trim();
+    return region && region !== DEFAULT_S3_REGION ? region : undefined;
+  }
+  if (creds.jurisdiction === "eu" || creds.jurisdiction === "fedramp") return undefined;
+  return locationHint;
+};
+
+// Creates creds.bucketName itself; the jurisdiction is implied by the endpoint host the request goes to.
+export const createRemoteBucket = async (creds: R2ClientCredentials, options: { locationHint?: R2LocationHint } = {}) => {
+  assertBucketProvisioningSupported(creds);
+  try {
+    const location = resolveLocationConstraint(creds, options.locationHint);
+    const res = await signedFetch({
+      creds,
+      method: "PUT",
+      ...(location
+        ? {
+            headers: { "content-type": "application/xml" },
+            body: `<CreateBucketConfiguration xmlns="http://s3.amazonaws.com/doc/2006-03-01/"><LocationConstraint>${escapeXml(location)}</LocationConstraint></CreateBucketConfiguration>`,
+          }
+        : {}),
+      unsignedPayload: false,
+    });
+    if (!res.ok) throw await createHttpError("创建存储桶", res);
+  } catch (error) {
+    throw toFriendlyR2Error(error, "创建存储桶");
+  }
+};
+
+// DeleteBucket only succeeds on an empty bucket; callers empty it first or surface BucketNotEmpty.
+export const deleteRemoteBucket = async (creds: R2ClientCredentials) => {
+  assertBucketProvisioningSupported(creds);
+  try {
+    const res = await signedFetch({ creds, method: "DELETE", unsignedPayload: true });
+    if (!res.ok) throw await createHttpError("删除存储桶", res);
+  } catch (error) {
+    throw toFriendlyR2Error(error, "删除存储桶");
   }
 };
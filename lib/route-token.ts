@@ -1,41 +1,220 @@
-import { issueSealedPayload, readSealedPayload } from "@/lib/crypto";
+import { openSealedPayload, readSealedPayload, issueSealedPayload } from "@/lib/crypto";
+import { readSupabaseRestArray, supabaseAdminRestFetch } from "@/lib/supabase";
+import { resolveTeamBucketCredentials, type UserBucketDetail } from "@/lib/user-buckets";
 
 export type RouteTokenCredentials = {
   accountId: string;
   accessKeyId: string;
   secretAccessKey: string;
   bucketName: string;
+  driver?: "r2" | "s3" | "local";
+  endpoint?: string;
+  region?: string;
+  jurisdiction?: "default" | "eu" | "fedramp";
+  localNamespace?: string;
+  retry?: { maxRetries?: number };
 };
 
-export type PutRouteToken = {
+// Tokens only name the bucket they act on. Credentials are looked up again on every redemption, so rotating
+// keys or unbinding a bucket takes effect on links that are already out.
+export type RouteTokenScope = {
+  teamId: string;
+  bucketId: string;
+  // Tokens handed out through a public share stop working once that share is stopped or expires.
+  shareId?: string;
+  issuedBy?: string;
+};
+
+type RouteTokenEnvelope = RouteTokenScope & {
+  jti: string;
+};
+
+export type PutRouteToken = RouteTokenEnvelope & {
   op: "put";
-  creds: RouteTokenCredentials;
   key: string;
+  storageClass?: "STANDARD" | "STANDARD_IA";
+  // Bound at signing time so the proxy enforces the same precondition as the presigned URL.
+  onlyIf?: { ifNoneMatch: "*" } | { ifMatch: string };
+  // Set on uploads into versioned buckets: the proxy archives the object it replaces under this name.
+  archivedByName?: string;
 };
 
-export type MultipartRouteToken = {
+export type MultipartRouteToken = RouteTokenEnvelope & {
   op: "mp";
-  creds: RouteTokenCredentials;
   key: string;
   uploadId: string;
   partNumber: number;
 };
 
-export type ObjectRouteToken = {
+export type ObjectRouteToken = RouteTokenEnvelope & {
   op: "object";
-  creds: RouteTokenCredentials;
   key: string;
   download: boolean;
 };
 
-export type RouteTokenPayload = PutRouteToken | MultipartRouteToken | ObjectRouteToken;
+export type ZipRouteToken = RouteTokenEnvelope & {
+  op: "zip";
+  basePrefix: string;
+  roots: string[];
+  excludePrefixes: string[];
+  filename: string;
+};
+
+export type RouteTokenPayload = PutRouteToken | MultipartRouteToken | ObjectRouteToken | ZipRouteToken;
+
+type WithoutTokenId<T> = T extends unknown ? Omit<T, "jti"> : never;
+
+export type RouteTokenInput = WithoutTokenId<RouteTokenPayload>;
+
+export type RevokedRouteTokenView = {
+  tokenId: string;
+  bucketId: string;
+  op: RouteTokenPayload["op"];
+  itemKey: string;
+  reason: string;
+  revokedBy: string;
+  expiresAt: string;
+  createdAt: string;
+};
+
+type DenylistRow = {
+  token_id: string;
+  team_id: string;
+  bucket_id: string;
+  op: RouteTokenPayload["op"];
+  item_key: string;
+  reason: string;
+  revoked_by: string | null;
+  revoked_by_name: string;
+  expires_at: string;
+  created_at: string;
+};
+
+const DENYLIST_SELECT = "token_id,team_id,bucket_id,op,item_key,reason,revoked_by,revoked_by_name,expires_at,created_at";
+
+const encodeFilter = (value: string) => encodeURIComponent(value);
+
+const invalidToken = (message = "操作令牌无效，请重试。", status = 400) => Object.assign(new Error(message), { status });
+
+const isRouteTokenPayload = (value: unknown): value is RouteTokenPayload => {
+  const payload = value as Partial<RouteTokenEnvelope> | null;
+  // Tokens issued before credentials were dropped from the payload have no jti; they are simply rejected.
+  return Boolean(payload && typeof payload === "object" && payload.jti && payload.teamId && payload.bucketId);
+};
 
-export const issueRouteToken = async (payload: RouteTokenPayload, expiresInSeconds = 900) => {
-  return await issueSealedPayload(payload, expiresInSeconds);
+export const issueRouteToken = async (input: RouteTokenInput, expiresInSeconds = 900) => {
+  return await issueSealedPayload({ ...input, jti: crypto.randomUUID() }, expiresInSeconds);
 };
 
 export const readRouteToken = async <T extends RouteTokenPayload>(token: string, expectedOp: T["op"]): Promise<T> => {
-  const payload = await readSealedPayload<RouteTokenPayload>(token);
-  if (!payload || payload.op !== expectedOp) throw new Error("操作令牌无效，请重试。");
+  const payload = await readSealedPayload<unknown>(token);
+  if (!isRouteTokenPayload(payload) || payload.op !== expectedOp) throw invalidToken();
   return payload as T;
 };
+
+// Reads a token's claims even after it has expired, e.g. to decide whether it still needs revoking.
+export const inspectRouteToken = async (token: string): Promise<{ payload: RouteTokenPayload; expiresAt: string }> => {
+  let opened: { exp: number; payload: unknown };
+  try {
+    opened = await openSealedPayload<unknown>(token);
+  } catch {
+    throw invalidToken("无法识别该链接，请粘贴完整的下载或上传链接");
+  }
+  if (!isRouteTokenPayload(opened.payload) || !Number.isFinite(opened.exp)) throw invalidToken("无法识别该链接，请粘贴完整的下载或上传链接");
+  return { payload: opened.payload, expiresAt: new Date(opened.exp * 1000).toISOString() };
+};
+
+export const isRouteTokenRevoked = async (tokenId: string) => {
+  const res = await supabaseAdminRestFetch(
+    `user_r2_route_token_denylist?select=token_id&token_id=eq.${encodeFilter(tokenId)}&limit=1`,
+    { method: "GET" },
+  );
+  const rows = await readSupabaseRestArray<Pick<DenylistRow, "token_id">>(res, "校验访问令牌失败");
+  return rows.length > 0;
+};
+
+const assertShareStillActive = async (teamId: string, shareId: string) => {
+  const res = await supabaseAdminRestFetch(
+    `user_r2_shares?select=is_active,expires_at&id=eq.${encodeFilter(shareId)}&team_id=eq.${encodeFilter(teamId)}&limit=1`,
+    { method: "GET" },
+  );
+  const rows = await readSupabaseRestArray<{ is_active: boolean; expires_at: string | null }>(res, "读取分享信息失败");
+  const share = rows[0];
+  const expiresMs = Date.parse(String(share?.expires_at ?? ""));
+  if (!share?.is_active || (Number.isFinite(expiresMs) && expiresMs <= Date.now())) {
+    throw invalidToken("该分享已停止或已过期", 410);
+  }
+};
+
+// Verifies the seal, then checks the denylist, the share (if any) and the bucket binding in parallel.
+export const redeemRouteToken = async <T extends RouteTokenPayload>(
+  token: string,
+  expectedOp: T["op"],
+): Promise<{ payload: T; creds: RouteTokenCredentials; detail: UserBucketDetail }> => {
+  const payload = await readRouteToken<T>(token, expectedOp);
+  const [revoked, resolved] = await Promise.all([
+    isRouteTokenRevoked(payload.jti),
+    resolveTeamBucketCredentials(payload.teamId, payload.bucketId).catch((error: unknown) => {
+      if ((error as { status?: unknown })?.status === 404) throw invalidToken("链接对应的存储桶已解绑", 410);
+      throw error;
+    }),
+    payload.shareId ? assertShareStillActive(payload.teamId, payload.shareId) : Promise.resolve(),
+  ]);
+  if (revoked) throw invalidToken("该链接已被撤销", 403);
+  return { payload, ...resolved };
+};
+
+const rowToView = (row: DenylistRow): RevokedRouteTokenView => ({
+  tokenId: row.token_id,
+  bucketId: row.bucket_id,
+  op: row.op,
+  itemKey: row.item_key,
+  reason: row.reason,
+  revokedBy: row.revoked_by_name || row.revoked_by || "",
+  expiresAt: row.expires_at,
+  createdAt: row.created_at,
+});
+
+const describeItemKey = (payload: RouteTokenPayload) => (payload.op === "zip" ? payload.basePrefix || payload.roots.join(", ") : payload.key);
+
+export const revokeRouteToken = async (
+  revokedBy: { userId: string; displayName: string },
+  token: { payload: RouteTokenPayload; expiresAt: string },
+  reason = "",
+): Promise<RevokedRouteTokenView> => {
+  const { payload } = token;
+  // Rows are only useful until the token would have expired anyway.
+  await supabaseAdminRestFetch(
+    `user_r2_route_token_denylist?team_id=eq.${encodeFilter(payload.teamId)}&expires_at=lt.${encodeFilter(new Date().toISOString())}`,
+    { method: "DELETE", prefer: "return=minimal" },
+  ).catch(() => null);
+
+  const res = await supabaseAdminRestFetch("user_r2_route_token_denylist?on_conflict=token_id", {
+    method: "POST",
+    body: {
+      token_id: payload.jti,
+      team_id: payload.teamId,
+      bucket_id: payload.bucketId,
+      op: payload.op,
+      item_key: describeItemKey(payload),
+      reason: reason.trim().slice(0, 200),
+      revoked_by: revokedBy.userId,
+      revoked_by_name: revokedBy.displayName,
+      expires_at: token.expiresAt,
+    },
+    prefer: "resolution=merge-duplicates,return=representation",
+  });
+  const rows = await readSupabaseRestArray<DenylistRow>(res, "撤销链接失败");
+  if (!rows[0]) throw new Error("撤销链接失败");
+  return rowToView(rows[0]);
+};
+
+export const listRevokedRouteTokens = async (teamId: string, bucketId: string) => {
+  const res = await supabaseAdminRestFetch(
+    `user_r2_route_token_denylist?select=${DENYLIST_SELECT}&team_id=eq.${encodeFilter(teamId)}&bucket_id=eq.${encodeFilter(
+      bucketId,
+    )}&expires_at=gt.${encodeFilter(new Date().toISOString())}&order=created_at.desc&limit=200`,
+    { method: "GET" },
+  );
+  return (await readSupabaseRestArray<DenylistRow>(res, "读取已撤销链接失败")).map(rowToView);
+};
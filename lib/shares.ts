@@ -1,6 +1,6 @@
 import { decryptCredential } from "@/lib/crypto";
 import { createR2Bucket, getPresignedObjectUrl } from "@/lib/r2-s3";
-import { issueRouteToken, type RouteTokenCredentials } from "@/lib/route-token";
+import { issueRouteToken, type RouteTokenCredentials, type RouteTokenScope } from "@/lib/route-token";
 import {
   createPasscodeSalt,
   createShareCode,
@@ -11,7 +11,7 @@ import {
   verifyPasscodeHash,
 } from "@/lib/share-security";
 import { readSupabaseRestArray, supabaseAdminRestFetch } from "@/lib/supabase";
-import { resolveBucketCredentials } from "@/lib/user-buckets";
+import { resolveBucketCredentials, toR2Jurisdiction, toStorageDriver } from "@/lib/user-buckets";
 import { listProfilesByUserIds, type AppAccessContext } from "@/lib/access-control";
 import { isPathProtectedByAnyFolderLock, isPathProtectedByAnyFolderLockForTeam } from "@/lib/folder-locks";
 
@@ -46,6 +46,11 @@ type BucketRowForShare = {
   account_id: string;
   access_key_id_enc: string;
   secret_access_key_enc: string;
+  driver: string | null;
+  endpoint: string | null;
+  region: string | null;
+  jurisdiction: string | null;
+  max_retries: number | null;
 };
 
 export type ShareView = {
@@ -262,7 +267,7 @@ export const cleanupExpiredSharesNow = async (ctx: AppAccessContext): Promise<nu
 
 const resolveShareBucketCredentials = async (row: ShareRow): Promise<RouteTokenCredentials> => {
   const res = await supabaseAdminRestFetch(
-    `user_r2_buckets?select=id,team_id,bucket_name,account_id,access_key_id_enc,secret_access_key_enc&id=eq.${encodeFilter(
+    `user_r2_buckets?select=id,team_id,bucket_name,account_id,access_key_id_enc,secret_access_key_enc,driver,endpoint,region,jurisdiction,max_retries&id=eq.${encodeFilter(
       row.bucket_id,
     )}&team_id=eq.${encodeFilter(row.team_id)}&limit=1`,
     { method: "GET" },
@@ -276,6 +281,11 @@ const resolveShareBucketCredentials = async (row: ShareRow): Promise<RouteTokenC
     accessKeyId: await decryptCredential(bucket.access_key_id_enc),
     secretAccessKey: await decryptCredential(bucket.secret_access_key_enc),
     bucketName: bucket.bucket_name,
+    driver: toStorageDriver(bucket.driver),
+    endpoint: bucket.endpoint || undefined,
+    region: bucket.region || undefined,
+    jurisdiction: toR2Jurisdiction(bucket.jurisdiction),
+    ...(typeof bucket.max_retries === "number" ? { retry: { maxRetries: bucket.max_retries } } : {}),
   };
 };
 
@@ -506,6 +516,13 @@ export const resolvePublicShareCredentials = async (row: ShareRow) => {
   return await resolveShareBucketCredentials(row);
 };
 
+// Proxy links handed to share visitors are tied to the share, so stopping it also stops links already issued.
+export const toShareTokenScope = (row: ShareRow): RouteTokenScope => ({
+  teamId: row.team_id,
+  bucketId: row.bucket_id,
+  shareId: row.id,
+});
+
 const encodeRFC5987ValueChars = (value: string) =>
   encodeURIComponent(value)
     .replace(/['()]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
@@ -519,6 +536,7 @@ const buildContentDisposition = (filename: string, kind: "attachment" | "inline"
 
 export const issueDownloadRedirectUrl = async (
   origin: string,
+  row: ShareRow,
   creds: RouteTokenCredentials,
   key: string,
   filename: string,
@@ -543,7 +561,7 @@ export const issueDownloadRedirectUrl = async (
   const token = await issueRouteToken(
     {
       op: "object",
-      creds,
+      ...toShareTokenScope(row),
       key,
       download: forceDownload,
     },
@@ -0,0 +1,92 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { R2ClientCredentials } from "@/lib/r2-s3";
+import { createLocalBucket, toKeySegments } from "@/lib/storage-local";
+
+describe("toKeySegments", () => {
+  it("maps keys to path segments and folders to their marker file", () => {
+    expect(toKeySegments("a/b/c.txt")).toEqual(["a", "b", "c.txt"]);
+    expect(toKeySegments("//a/b.txt")).toEqual(["a", "b.txt"]);
+    expect(toKeySegments("docs/")).toEqual(["docs", ".r2admin-folder"]);
+    expect(toKeySegments("合同/清单 (1).xlsx")).toEqual(["合同", "清单 (1).xlsx"]);
+  });
+
+  it.each([
+    "",
+    "/",
+    "../escape.txt",
+    "a/../../escape.txt",
+    "a/./b",
+    "a//b",
+    "a\\..\\b",
+    "a/b\0c",
+    "a/.r2admin-folder",
+    "..",
+  ])("rejects %j", (key) => {
+    expect(() => toKeySegments(key)).toThrow(expect.objectContaining({ status: 400 }));
+  });
+});
+
+describe("createLocalBucket", () => {
+  let root = "";
+  const previousRoot = process.env.LOCAL_STORAGE_ROOT;
+  const credsFor = (localNamespace: string | undefined, bucketName = "shared-name"): R2ClientCredentials => ({
+    accountId: "local",
+    accessKeyId: "",
+    secretAccessKey: "",
+    bucketName,
+    driver: "local",
+    localNamespace,
+  });
+
+  beforeAll(async () => {
+    root = await mkdtemp(path.join(tmpdir(), "r2admin-local-"));
+    process.env.LOCAL_STORAGE_ROOT = root;
+  });
+
+  afterAll(async () => {
+    if (previousRoot === undefined) delete process.env.LOCAL_STORAGE_ROOT;
+    else process.env.LOCAL_STORAGE_ROOT = previousRoot;
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("keeps buckets with the same name apart per team", async () => {
+    const teamA = createLocalBucket(credsFor("team-a"));
+    const teamB = createLocalBucket(credsFor("team-b"));
+    await teamA.put("notes/a.txt", "from a");
+
+    expect(await teamB.head("notes/a.txt")).toBeNull();
+    expect((await teamB.list({ prefix: "" })).objects).toEqual([]);
+    const obj = await teamA.get("notes/a.txt");
+    expect(await new Response(obj?.body ?? null).text()).toBe("from a");
+    expect(await readdir(path.join(root, "team-a", "shared-name", "notes"))).toEqual(["a.txt"]);
+  });
+
+  it("refuses buckets without a valid team namespace", async () => {
+    for (const namespace of [undefined, "", "..", ".r2admin", "a/b"]) {
+      await expect(createLocalBucket(credsFor(namespace)).head("x.txt")).rejects.toMatchObject({ status: 400 });
+    }
+  });
+
+  it("does not write outside the bucket directory", async () => {
+    const bucket = createLocalBucket(credsFor("team-a"));
+    await expect(bucket.put("../team-b/x.txt", "nope")).rejects.toMatchObject({ status: 400 });
+    await expect(bucket.get("../../team-b/shared-name/notes/a.txt")).rejects.toMatchObject({ status: 400 });
+    expect(await readdir(root)).not.toContain("x.txt");
+  });
+
+  it("lists folders and files with a delimiter", async () => {
+    const bucket = createLocalBucket(credsFor("team-c", "listing"));
+    await bucket.put("docs/", new Uint8Array(0));
+    await bucket.put("docs/readme.md", "# hi");
+    await bucket.put("top.txt", "top");
+
+    const top = await bucket.list({ prefix: "", delimiter: "/" });
+    expect(top.delimitedPrefixes).toEqual(["docs/"]);
+    expect(top.objects?.map((o) => o.key)).toEqual(["top.txt"]);
+    const docs = await bucket.list({ prefix: "docs/" });
+    expect(docs.objects?.map((o) => o.key)).toEqual(["docs/", "docs/readme.md"]);
+  });
+});
@@ -0,0 +1,576 @@
+import { getEnvString } from "@/lib/env";
+import type {
+  R2BucketLike,
+  R2ClientCredentials,
+  R2HttpMetadataLike,
+  R2ListResultLike,
+  R2MultipartUploadLike,
+  WriteCondition,
+} from "@/lib/r2-s3";
+
+// Local filesystem driver for self-hosted deployments. Objects of bucket `<name>` owned by team `<team>` live
+// under `$LOCAL_STORAGE_ROOT/<team>/<name>/` with the key as relative path; sidecar metadata, pending multipart
+// uploads and temp files live under `$LOCAL_STORAGE_ROOT/.r2admin/<team>/<name>/`. Node APIs are loaded
+// lazily so the module can still be bundled for the edge runtime, where this driver is unavailable.
+
+type NodeModules = {
+  fs: typeof import("node:fs/promises");
+  fsSync: typeof import("node:fs");
+  path: typeof import("node:path");
+  Readable: typeof import("node:stream").Readable;
+};
+
+type LocalLayout = {
+  node: NodeModules;
+  dataDir: string;
+  internalDir: string;
+};
+
+type LocalMetadata = {
+  httpMetadata?: R2HttpMetadataLike;
+  customMetadata?: Record<string, string>;
+};
+
+type LocalUploadRecord = LocalMetadata & {
+  key: string;
+  initiated: string;
+};
+
+type LocalListEntry = {
+  key: string;
+  prefix?: boolean;
+  size?: number;
+  etag?: string;
+  uploaded?: string;
+};
+
+type LocalErrorLike = Error & {
+  status?: number;
+  code?: string;
+  Code?: string;
+};
+
+const INTERNAL_DIR = ".r2admin";
+// Folder placeholder objects ("a/b/") are stored as this file inside the folder.
+const FOLDER_MARKER = ".r2admin-folder";
+const UPLOAD_RECORD = "upload.json";
+const MAX_LIST_KEYS = 1000;
+
+let nodeModulesPromise: Promise<NodeModules> | null = null;
+
+const createLocalError = (message: string, status: number, code?: string): LocalErrorLike => {
+  const err = new Error(message) as LocalErrorLike;
+  err.status = status;
+  if (code) {
+    err.name = code;
+    err.code = code;
+    err.Code = code;
+  }
+  return err;
+};
+
+const readErrno = (error: unknown) => String((error as { code?: unknown })?.code ?? "");
+
+const isMissingError = (error: unknown) => {
+  const code = readErrno(error);
+  return code === "ENOENT" || code === "ENOTDIR";
+};
+
+const toLocalError = (error: unknown, action: string): LocalErrorLike => {
+  if (typeof (error as { status?: unknown })?.status === "number") return error as LocalErrorLike;
+  const code = readErrno(error);
+  if (code === "EEXIST" || code === "ENOTDIR" || code === "EISDIR" || code === "ENOTEMPTY") {
+    return createLocalError("本地存储中已存在同名的文件或文件夹，无法完成操作。", 409, "Conflict");
+  }
+  if (code === "ENOENT") return createLocalError("目标资源不存在：请检查路径或文件名。", 404, "NoSuchKey");
+  if (code === "EACCES" || code === "EPERM") return createLocalError("本地存储目录没有读写权限，请检查服务器目录权限。", 403, "AccessDenied");
+  if (code === "ENOSPC") return createLocalError("本地存储空间不足。", 507, "InsufficientStorage");
+  const message = error instanceof Error ? error.message : String(error ?? "");
+  return createLocalError(message ? `本地存储${action}失败：${message}` : `本地存储${action}失败`, 500);
+};
+
+const loadNodeModules = (): Promise<NodeModules> => {
+  if (nodeModulesPromise) return nodeModulesPromise;
+  nodeModulesPromise = Promise.all([
+    import(/* webpackIgnore: true */ /* turbopackIgnore: true */ "node:fs/promises"),
+    import(/* webpackIgnore: true */ /* turbopackIgnore: true */ "node:fs"),
+    import(/* webpackIgnore: true */ /* turbopackIgnore: true */ "node:path"),
+    import(/* webpackIgnore: true */ /* turbopackIgnore: true */ "node:stream"),
+  ])
+    .then(([fs, fsSync, path, stream]) => ({ fs, fsSync, path, Readable: stream.Readable }))
+    .catch(() => {
+      nodeModulesPromise = null;
+      throw createLocalError("本地文件系统存储需要 Node.js 运行时，当前环境不可用。", 501, "NotImplemented");
+    });
+  return nodeModulesPromise;
+};
+
+const resolveLayout = async (creds: R2ClientCredentials): Promise<LocalLayout> => {
+  const root = getEnvString("LOCAL_STORAGE_ROOT");
+  if (!root) throw createLocalError("服务器未配置 LOCAL_STORAGE_ROOT，无法使用本地存储。", 501, "NotImplemented");
+  if (!/^[a-z0-9][a-z0-9-]{1,61}[a-z0-9]$/i.test(creds.bucketName)) {
+    throw createLocalError("桶名称格式不正确", 400, "InvalidBucketName");
+  }
+  const namespace = String(creds.localNamespace ?? "");
+  if (!/^[a-z0-9][a-z0-9-]*$/i.test(namespace)) throw createLocalError("本地存储桶缺少所属团队", 400, "InvalidArgument");
+  const node = await loadNodeModules();
+  const base = node.path.resolve(root);
+  return {
+    node,
+    dataDir: node.path.join(base, namespace, creds.bucketName),
+    internalDir: node.path.join(base, INTERNAL_DIR, namespace, creds.bucketName),
+  };
+};
+
+// Maps an object key to path segments. Keys that cannot be represented safely on disk are rejected.
+export const toKeySegments = (key: string) => {
+  let normalized = String(key ?? "");
+  while (normalized.startsWith("/")) normalized = normalized.slice(1);
+  if (!normalized) throw createLocalError("对象名称不能为空", 400, "InvalidArgument");
+  const isFolder = normalized.endsWith("/");
+  const segments = (isFolder ? normalized.slice(0, -1) : normalized).split("/");
+  const invalid = segments.some(
+    (segment) => !segment || segment === "." || segment === ".." || segment === FOLDER_MARKER || /[\\\0]/.test(segment),
+  );
+  if (invalid) throw createLocalError(`本地存储不支持该对象名称：${key}`, 400, "InvalidArgument");
+  return isFolder ? [...segments, FOLDER_MARKER] : segments;
+};
+
+const locateObject = (layout: LocalLayout, key: string) => {
+  const segments = toKeySegments(key);
+  return {
+    objectPath: layout.node.path.join(layout.dataDir, ...segments),
+    metaPath: layout.node.path.join(layout.internalDir, "meta", ...segments),
+  };
+};
+
+const toEtag = (stat: { size: number; mtimeMs: number }) => `${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}`;
+
+const statFile = async (layout: LocalLayout, filePath: string) => {
+  try {
+    const stat = await layout.node.fs.stat(filePath);
+    return stat.isFile() ? stat : null;
+  } catch (error) {
+    if (isMissingError(error)) return null;
+    throw error;
+  }
+};
+
+// Checked before writing rather than atomically; good enough for a single self-hosted node.
+const assertWriteCondition = async (layout: LocalLayout, objectPath: string, onlyIf?: WriteCondition) => {
+  if (!onlyIf) return;
+  const stat = await statFile(layout, objectPath);
+  const ok = "ifNoneMatch" in onlyIf ? !stat : stat !== null && toEtag(stat) === onlyIf.ifMatch;
+  if (!ok) throw createLocalError("目标文件已存在或已被他人修改，未覆盖。", 412, "PreconditionFailed");
+};
+
+const readJsonFile = async <T>(layout: LocalLayout, filePath: string): Promise<T | null> => {
+  try {
+    return JSON.parse(await layout.node.fs.readFile(filePath, "utf8")) as T;
+  } catch (error) {
+    if (isMissingError(error) || error instanceof SyntaxError) return null;
+    throw error;
+  }
+};
+
+const removeFile = async (layout: LocalLayout, filePath: string) => {
+  try {
+    await layout.node.fs.unlink(filePath);
+  } catch (error) {
+    if (!isMissingError(error)) throw error;
+  }
+};
+
+// Object stores have no empty directories, so parents left empty by a delete are removed.
+const pruneEmptyParents = async (layout: LocalLayout, filePath: string, rootDir: string) => {
+  const { path, fs } = layout.node;
+  for (let dir = path.dirname(filePath); dir.startsWith(`${rootDir}${path.sep}`); dir = path.dirname(dir)) {
+    try {
+      await fs.rmdir(dir);
+    } catch {
+      return;
+    }
+  }
+};
+
+const createTempPath = async (layout: LocalLayout) => {
+  const dir = layout.node.path.join(layout.internalDir, "tmp");
+  await layout.node.fs.mkdir(dir, { recursive: true });
+  return layout.node.path.join(dir, crypto.randomUUID());
+};
+
+// Writes through a temp file so readers never observe a partially written object.
+const writeFileAtomic = async (
+  layout: LocalLayout,
+  targetPath: string,
+  data: string | Uint8Array | AsyncIterable<Uint8Array | string>,
+) => {
+  const { fs, path } = layout.node;
+  const tmp = await createTempPath(layout);
+  try {
+    await fs.writeFile(tmp, data);
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    await fs.rename(tmp, targetPath);
+  } catch (error) {
+    await removeFile(layout, tmp).catch(() => undefined);
+    throw error;
+  }
+};
+
+const writeMetadata = async (layout: LocalLayout, metaPath: string, metadata: LocalMetadata) => {
+  await writeFileAtomic(
+    layout,
+    metaPath,
+    JSON.stringify({ httpMetadata: metadata.httpMetadata ?? {}, customMetadata: metadata.customMetadata ?? {} }),
+  );
+};
+
+const normalizeMetadataRecord = (value: unknown) => {
+  if (!value || typeof value !== "object") return undefined;
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+    if (!k || v === undefined || v === null) continue;
+    out[k.toLowerCase()] = String(v);
+  }
+  return Object.keys(out).length ? out : undefined;
+};
+
+const normalizeHttpMetadata = (value: unknown): R2HttpMetadataLike | undefined => {
+  const input = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const out: R2HttpMetadataLike = {};
+  for (const field of ["contentType", "cacheControl", "contentDisposition", "contentEncoding"] as const) {
+    const v = String(input[field] ?? "").trim();
+    if (v) out[field] = v;
+  }
+  return Object.keys(out).length ? out : undefined;
+};
+
+const emptyToUndefined = <T extends object>(value: T | undefined) =>
+  value && Object.keys(value).length ? value : undefined;
+
+const toWritableData = (layout: LocalLayout, value: unknown): string | Uint8Array | AsyncIterable<Uint8Array | string> => {
+  const { Readable } = layout.node;
+  type WebStream = Parameters<typeof Readable.fromWeb>[0];
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string" || value instanceof Uint8Array) return value;
+  if (value instanceof ArrayBuffer) return new Uint8Array(value);
+  if (ArrayBuffer.isView(value)) return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+  if (value instanceof Blob) return Readable.fromWeb(value.stream() as unknown as WebStream);
+  if (value instanceof ReadableStream) return Readable.fromWeb(value as unknown as WebStream);
+  if (typeof (value as { [Symbol.asyncIterator]?: unknown })[Symbol.asyncIterator] === "function") {
+    return value as AsyncIterable<Uint8Array>;
+  }
+  throw createLocalError("不支持的上传内容类型", 400, "InvalidArgument");
+};
+
+const emptyStream = () =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.close();
+    },
+  });
+
+const listEntries = async (
+  layout: LocalLayout,
+  prefix: string,
+  delimiter: string | undefined,
+): Promise<LocalListEntry[]> => {
+  const { fs, path } = layout.node;
+  const baseSegments = prefix.slice(0, prefix.lastIndexOf("/") + 1).split("/").filter(Boolean);
+  if (baseSegments.some((segment) => segment === "." || segment === "..")) return [];
+  const entries: LocalListEntry[] = [];
+
+  const walk = async (segments: string[]) => {
+    const dir = path.join(layout.dataDir, ...segments);
+    let dirents: import("node:fs").Dirent[];
+    try {
+      dirents = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      if (isMissingError(error)) return;
+      throw error;
+    }
+    const rel = segments.length ? `${segments.join("/")}/` : "";
+    for (const dirent of dirents) {
+      if (dirent.isDirectory()) {
+        const childKey = `${rel}${dirent.name}/`;
+        if (!childKey.startsWith(prefix) && !prefix.startsWith(childKey)) continue;
+        if (delimiter === "/" && childKey.startsWith(prefix)) {
+          const children = await fs.readdir(path.join(dir, dirent.name)).catch(() => []);
+          if (children.length) entries.push({ key: childKey, prefix: true });
+          continue;
+        }
+        await walk([...segments, dirent.name]);
+      } else if (dirent.isFile()) {
+        const key = dirent.name === FOLDER_MARKER ? rel : `${rel}${dirent.name}`;
+        if (!key || !key.startsWith(prefix)) continue;
+        const stat = await statFile(layout, path.join(dir, dirent.name));
+        if (!stat) continue;
+        entries.push({ key, size: stat.size, etag: toEtag(stat), uploaded: stat.mtime.toISOString() });
+      }
+    }
+  };
+
+  await walk(baseSegments);
+
+  if (!delimiter || delimiter === "/") return entries;
+  const grouped = new Map<string, LocalListEntry>();
+  for (const entry of entries) {
+    const index = entry.key.indexOf(delimiter, prefix.length);
+    if (index < 0) {
+      grouped.set(entry.key, entry);
+      continue;
+    }
+    const commonPrefix = entry.key.slice(0, index + delimiter.length);
+    grouped.set(commonPrefix, { key: commonPrefix, prefix: true });
+  }
+  return Array.from(grouped.values());
+};
+
+const readUploadRecord = async (layout: LocalLayout, key: string, uploadId: string) => {
+  if (!/^[0-9a-f-]{36}$/i.test(uploadId)) throw createLocalError("分片上传会话不存在", 404, "NoSuchUpload");
+  const uploadDir = layout.node.path.join(layout.internalDir, "uploads", uploadId);
+  const record = await readJsonFile<LocalUploadRecord>(layout, layout.node.path.join(uploadDir, UPLOAD_RECORD));
+  if (!record || record.key !== key) throw createLocalError("分片上传会话不存在", 404, "NoSuchUpload");
+  return { record, uploadDir };
+};
+
+const resumeLocalMultipartUpload = (creds: R2ClientCredentials, key: string, uploadId: string): R2MultipartUploadLike => ({
+  uploadPart: async (partNumber, body) => {
+    try {
+      if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > 10_000) {
+        throw createLocalError("分片编号无效", 400, "InvalidArgument");
+      }
+      const layout = await resolveLayout(creds);
+      const { uploadDir } = await readUploadRecord(layout, key, uploadId);
+      const partPath = layout.node.path.join(uploadDir, `${partNumber}.part`);
+      await writeFileAtomic(layout, partPath, toWritableData(layout, body));
+      const stat = await layout.node.fs.stat(partPath);
+      return { etag: toEtag(stat) };
+    } catch (error) {
+      throw toLocalError(error, "上传分片");
+    }
+  },
+
+  complete: async (parts, options) => {
+    try {
+      const layout = await resolveLayout(creds);
+      const { path, fs, fsSync } = layout.node;
+      const { record, uploadDir } = await readUploadRecord(layout, key, uploadId);
+      const ordered = parts
+        .filter((p) => p.etag && Number.isFinite(p.partNumber) && p.partNumber > 0)
+        .sort((a, b) => a.partNumber - b.partNumber);
+      if (!ordered.length) throw createLocalError("缺少分片信息", 400, "InvalidPart");
+
+      const partPaths: string[] = [];
+      for (const part of ordered) {
+        const partPath = path.join(uploadDir, `${part.partNumber}.part`);
+        const stat = await statFile(layout, partPath);
+        if (!stat || toEtag(stat) !== part.etag) throw createLocalError(`分片 ${part.partNumber} 不存在或已变更`, 400, "InvalidPart");
+        partPaths.push(partPath);
+      }
+
+      const concatenated = async function* () {
+        for (const partPath of partPaths) {
+          for await (const chunk of fsSync.createReadStream(partPath)) yield chunk as Uint8Array;
+        }
+      };
+      const { objectPath, metaPath } = locateObject(layout, key);
+      await assertWriteCondition(layout, objectPath, options?.onlyIf);
+      await writeFileAtomic(layout, objectPath, concatenated());
+      await writeMetadata(layout, metaPath, record);
+      await fs.rm(uploadDir, { recursive: true, force: true });
+    } catch (error) {
+      throw toLocalError(error, "完成分片上传");
+    }
+  },
+
+  abort: async () => {
+    try {
+      const layout = await resolveLayout(creds);
+      if (!/^[0-9a-f-]{36}$/i.test(uploadId)) return;
+      await layout.node.fs.rm(layout.node.path.join(layout.internalDir, "uploads", uploadId), { recursive: true, force: true });
+    } catch (error) {
+      throw toLocalError(error, "取消分片上传");
+    }
+  },
+});
+
+export const createLocalBucket = (creds: R2ClientCredentials): R2BucketLike => {
+  const bucketCreds = { ...creds };
+
+  return {
+    list: async ({ prefix, delimiter, cursor, startAfter, limit }): Promise<R2ListResultLike> => {
+      try {
+        const layout = await resolveLayout(bucketCreds);
+        let normalizedPrefix = String(prefix ?? "");
+        while (normalizedPrefix.startsWith("/")) normalizedPrefix = normalizedPrefix.slice(1);
+        const after = [cursor, startAfter].filter((v): v is string => Boolean(v)).sort().pop() ?? "";
+        const max = Math.max(1, Math.min(MAX_LIST_KEYS, limit ?? MAX_LIST_KEYS));
+
+        const entries = (await listEntries(layout, normalizedPrefix, delimiter || undefined))
+          .filter((entry) => entry.key > after)
+          .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+        const page = entries.slice(0, max);
+        const truncated = entries.length > max;
+
+        return {
+          objects: page.filter((entry) => !entry.prefix).map(({ key, size, etag, uploaded }) => ({ key, size, etag, uploaded })),
+          delimitedPrefixes: page.filter((entry) => entry.prefix).map((entry) => entry.key),
+          truncated,
+          cursor: truncated ? page[page.length - 1]?.key : undefined,
+        };
+      } catch (error) {
+        throw toLocalError(error, "读取文件列表");
+      }
+    },
+
+    get: async (key, options) => {
+      try {
+        const layout = await resolveLayout(bucketCreds);
+        const { objectPath, metaPath } = locateObject(layout, key);
+        const stat = await statFile(layout, objectPath);
+        if (!stat) return null;
+        const meta = await readJsonFile<LocalMetadata>(layout, metaPath);
+
+        let start = 0;
+        let end = stat.size - 1;
+        if (options?.range) {
+          start = Math.max(0, options.range.offset);
+          end = Math.min(stat.size - 1, options.range.offset + options.range.length - 1);
+        }
+        const length = end >= start ? end - start + 1 : 0;
+        const body = length
+          ? (layout.node.Readable.toWeb(layout.node.fsSync.createReadStream(objectPath, { start, end })) as unknown as ReadableStream)
+          : emptyStream();
+        const etag = toEtag(stat);
+
+        return {
+          body,
+          size: length,
+          etag,
+          httpEtag: etag,
+          lastModified: stat.mtime.toISOString(),
+          httpMetadata: emptyToUndefined(meta?.httpMetadata),
+          customMetadata: emptyToUndefined(meta?.customMetadata),
+        };
+      } catch (error) {
+        throw toLocalError(error, "读取文件");
+      }
+    },
+
+    head: async (key) => {
+      try {
+        const layout = await resolveLayout(bucketCreds);
+        const { objectPath, metaPath } = locateObject(layout, key);
+        const stat = await statFile(layout, objectPath);
+        if (!stat) return null;
+        const meta = await readJsonFile<LocalMetadata>(layout, metaPath);
+        return {
+          size: stat.size,
+          etag: toEtag(stat),
+          lastModified: stat.mtime.toISOString(),
+          httpMetadata: emptyToUndefined(meta?.httpMetadata),
+          customMetadata: emptyToUndefined(meta?.customMetadata),
+        };
+      } catch (error) {
+        throw toLocalError(error, "读取文件信息");
+      }
+    },
+
+    put: async (key, value, options) => {
+      const opt = (options ?? {}) as { httpMetadata?: unknown; customMetadata?: unknown; onlyIf?: WriteCondition };
+      try {
+        const layout = await resolveLayout(bucketCreds);
+        const { objectPath, metaPath } = locateObject(layout, key);
+        await assertWriteCondition(layout, objectPath, opt.onlyIf);
+        await writeFileAtomic(layout, objectPath, toWritableData(layout, value));
+        await writeMetadata(layout, metaPath, {
+          httpMetadata: normalizeHttpMetadata(opt.httpMetadata),
+          customMetadata: normalizeMetadataRecord(opt.customMetadata),
+        });
+        const stat = await layout.node.fs.stat(objectPath);
+        return { etag: toEtag(stat) };
+      } catch (error) {
+        throw toLocalError(error, "上传文件");
+      }
+    },
+
+    delete: async (keyOrKeys) => {
+      try {
+        const layout = await resolveLayout(bucketCreds);
+        const keys = typeof keyOrKeys === "string" ? [keyOrKeys] : keyOrKeys.filter((k) => typeof k === "string" && k.length > 0);
+        for (const key of keys) {
+          const { objectPath, metaPath } = locateObject(layout, key);
+          await removeFile(layout, objectPath);
+          await removeFile(layout, metaPath);
+          await pruneEmptyParents(layout, objectPath, layout.dataDir);
+          await pruneEmptyParents(layout, metaPath, layout.internalDir);
+        }
+      } catch (error) {
+        throw toLocalError(error, "删除文件");
+      }
+    },
+
+    createMultipartUpload: async (key, options) => {
+      const opt = (options ?? {}) as { httpMetadata?: unknown; customMetadata?: unknown };
+      try {
+        const layout = await resolveLayout(bucketCreds);
+        toKeySegments(key);
+        const uploadId = crypto.randomUUID();
+        const record: LocalUploadRecord = {
+          key,
+          initiated: new Date().toISOString(),
+          httpMetadata: normalizeHttpMetadata(opt.httpMetadata),
+          customMetadata: normalizeMetadataRecord(opt.customMetadata),
+        };
+        await writeFileAtomic(
+          layout,
+          layout.node.path.join(layout.internalDir, "uploads", uploadId, UPLOAD_RECORD),
+          JSON.stringify(record),
+        );
+        return { uploadId };
+      } catch (error) {
+        throw toLocalError(error, "创建分片上传");
+      }
+    },
+
+    resumeMultipartUpload: (key, uploadId) => resumeLocalMultipartUpload(bucketCreds, key, uploadId),
+  };
+};
+
+export const copyLocalObject = async (creds: R2ClientCredentials, sourceKey: string, targetKey: string) => {
+  try {
+    const layout = await resolveLayout(creds);
+    const source = locateObject(layout, sourceKey);
+    const target = locateObject(layout, targetKey);
+    if (!(await statFile(layout, source.objectPath))) throw createLocalError("源文件不存在或已被删除", 404, "NoSuchKey");
+
+    const tmp = await createTempPath(layout);
+    try {
+      await layout.node.fs.copyFile(source.objectPath, tmp);
+      await layout.node.fs.mkdir(layout.node.path.dirname(target.objectPath), { recursive: true });
+      await layout.node.fs.rename(tmp, target.objectPath);
+    } catch (error) {
+      await removeFile(layout, tmp).catch(() => undefined);
+      throw error;
+    }
+    const meta = await readJsonFile<LocalMetadata>(layout, source.metaPath);
+    await writeMetadata(layout, target.metaPath, meta ?? {});
+  } catch (error) {
+    throw toLocalError(error, "复制文件");
+  }
+};
+
+export const replaceLocalObjectMetadata = async (creds: R2ClientCredentials, key: string, metadata: LocalMetadata) => {
+  try {
+    const layout = await resolveLayout(creds);
+    const { objectPath, metaPath } = locateObject(layout, key);
+    if (!(await statFile(layout, objectPath))) throw createLocalError("文件不存在", 404, "NoSuchKey");
+    await writeMetadata(layout, metaPath, {
+      httpMetadata: normalizeHttpMetadata(metadata.httpMetadata),
+      customMetadata: normalizeMetadataRecord(metadata.customMetadata),
+    });
+  } catch (error) {
+    throw toLocalError(error, "更新文件元数据");
+  }
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { getPinyinReadings } from "@/lib/pinyin";
+import { approximateDistance, createTextMatcher, matchPinyinFrom, splitByTokens, type Unit } from "@/lib/text-match";
+
+const unitsOf = (text: string): Unit[] => Array.from(text, (char) => ({ char, readings: getPinyinReadings(char) }));
+
+describe("matchPinyinFrom", () => {
+  it("counts partly typed syllables", () => {
+    expect(matchPinyinFrom(unitsOf("合同清单"), 0, "hetongqingdan")).toBe(0);
+    expect(matchPinyinFrom(unitsOf("合同清单"), 0, "htqd")).toBe(4);
+    expect(matchPinyinFrom(unitsOf("合同清单"), 0, "hetongqd")).toBe(2);
+  });
+
+  it("lets Han characters and latin text match themselves", () => {
+    expect(matchPinyinFrom(unitsOf("合同清单"), 0, "合同qd")).toBe(2);
+    expect(matchPinyinFrom(unitsOf("v2合同"), 0, "v2ht")).toBe(2);
+  });
+
+  it("skips separators inside a match but not before it", () => {
+    expect(matchPinyinFrom(unitsOf("合同_清单"), 0, "htqd")).toBe(4);
+    expect(matchPinyinFrom(unitsOf("_合同"), 0, "ht")).toBe(Infinity);
+  });
+
+  it("fails on syllables that do not line up", () => {
+    expect(matchPinyinFrom(unitsOf("合同"), 0, "hetongx")).toBe(Infinity);
+    expect(matchPinyinFrom(unitsOf("合同"), 1, "he")).toBe(Infinity);
+  });
+});
+
+describe("approximateDistance", () => {
+  it("finds the closest substring", () => {
+    expect(approximateDistance("report", "annual-report-2024")).toBe(0);
+    expect(approximateDistance("reprot", "annual-report-2024")).toBe(1);
+    expect(approximateDistance("repotr", "report")).toBe(1);
+    expect(approximateDistance("raport", "report")).toBe(1);
+    expect(approximateDistance("rpt", "report")).toBe(1);
+    expect(approximateDistance("xyz", "report")).toBe(3);
+    expect(approximateDistance("abc", "")).toBe(3);
+  });
+});
+
+describe("createTextMatcher", () => {
+  it("ranks exact names above word starts, substrings, pinyin and typos", () => {
+    const score = (query: string, name: string) => createTextMatcher(query).score(name);
+    const exact = score("合同", "合同") ?? -1;
+    const wordStart = score("合同", "合同清单.xlsx") ?? -1;
+    const substring = score("清单", "合同清单.xlsx") ?? -1;
+    const pinyin = score("hetong", "合同清单.xlsx") ?? -1;
+    const initials = score("htqd", "合同清单.xlsx") ?? -1;
+    const typo = score("invocie", "invoice.pdf") ?? -1;
+    expect(exact).toBeGreaterThan(wordStart);
+    expect(wordStart).toBeGreaterThan(substring);
+    expect(substring).toBeGreaterThan(pinyin);
+    expect(pinyin).toBeGreaterThan(initials);
+    expect(initials).toBeGreaterThan(0);
+    expect(typo).toBeGreaterThan(0);
+  });
+
+  it("requires every token and weighs the first field most", () => {
+    const matcher = createTextMatcher("合同 2024");
+    expect(matcher.score("合同.pdf")).toBeNull();
+    expect(matcher.score(["合同2024.pdf", "docs/合同2024.pdf"])).not.toBeNull();
+    const inName = matcher.score(["合同2024.pdf", "x/合同2024.pdf"]) ?? 0;
+    const inPath = matcher.score(["notes.pdf", "合同2024/notes.pdf"]) ?? 0;
+    expect(inName).toBeGreaterThan(inPath);
+  });
+
+  it("does not let short tokens match as typos", () => {
+    expect(createTextMatcher("abd").score("abc.txt")).toBeNull();
+    expect(createTextMatcher("").score("anything")).toBe(0);
+  });
+});
+
+describe("splitByTokens", () => {
+  it("marks literal hits, longest token first", () => {
+    expect(splitByTokens("Annual Report report", ["report", "rep"])).toEqual([
+      { text: "Annual ", match: false },
+      { text: "Report", match: true },
+      { text: " ", match: false },
+      { text: "report", match: true },
+    ]);
+    expect(splitByTokens("a.b", ["."])).toEqual([
+      { text: "a", match: false },
+      { text: ".", match: true },
+      { text: "b", match: false },
+    ]);
+  });
+});
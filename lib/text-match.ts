@@ -0,0 +1,172 @@
+import { getPinyinReadings, hasPinyinReadings, toPinyin } from "@/lib/pinyin";
+
+// Relevance matching for names typed from memory: plain substrings, full pinyin ("hetong"), pinyin initials
+// ("htqd" for 合同清单), CJK and latin mixed in one token ("合同qd") and small typos. Every whitespace-separated
+// token of the query has to match one of the fields; the first field (usually the name) weighs the most.
+
+export type TextMatcher = {
+  // Lowercased query tokens; empty for a blank query, which matches everything with score 0.
+  tokens: string[];
+  // Higher is better; null when some token matches none of the fields.
+  score: (fields: string | Array<string | null | undefined>) => number | null;
+};
+
+export type Unit = { char: string; readings: string[] };
+
+type PreparedField = {
+  lower: string;
+  units: Unit[] | null;
+  pinyin: string;
+};
+
+const SCORE_EXACT = 120;
+const SCORE_WORD_START = 100;
+const SCORE_SUBSTRING = 80;
+const SCORE_PINYIN = 60;
+const SCORE_INITIALS = 50;
+const SCORE_TYPO = 30;
+const SECONDARY_FIELD_WEIGHT = 0.6;
+
+const SEPARATORS = new Set([" ", "_", "-", ".", "/", "(", ")", "（", "）", "[", "]", "【", "】", "·"]);
+
+// Typos tolerated in a token of this length; short tokens would match almost anything.
+const maxTypos = (length: number) => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+const prepareField = (field: string): PreparedField => {
+  const lower = field.toLowerCase();
+  if (!hasPinyinReadings(lower)) return { lower, units: null, pinyin: "" };
+  return {
+    lower,
+    units: Array.from(lower, (char) => ({ char, readings: getPinyinReadings(char) })),
+    pinyin: toPinyin(lower),
+  };
+};
+
+// Walks the units from `start`, letting each Han character consume its own glyph, a whole syllable or the
+// start of one. Returns how many syllables were only partly typed (0 = full pinyin), or Infinity.
+export const matchPinyinFrom = (units: Unit[], start: number, token: string) => {
+  const memo = new Map<number, number>();
+  const walk = (j: number, k: number): number => {
+    if (k === token.length) return 0;
+    if (j >= units.length) return Infinity;
+    const id = j * (token.length + 1) + k;
+    const cached = memo.get(id);
+    if (cached !== undefined) return cached;
+    const unit = units[j];
+    let best = unit.char === token[k] ? walk(j + 1, k + 1) : Infinity;
+    for (const reading of unit.readings) {
+      let common = 0;
+      while (common < reading.length && k + common < token.length && reading[common] === token[k + common]) common += 1;
+      for (let length = common; length >= 1 && best > 0; length -= 1) {
+        const partial = length < reading.length ? 1 : 0;
+        best = Math.min(best, partial + walk(j + 1, k + length));
+      }
+    }
+    // Word separators in the name may be left out of the query once the match has started.
+    if (j > start && SEPARATORS.has(unit.char) && !SEPARATORS.has(token[k])) best = Math.min(best, walk(j + 1, k));
+    memo.set(id, best);
+    return best;
+  };
+  return walk(start, 0);
+};
+
+const matchPinyin = (units: Unit[], token: string) => {
+  let best = Infinity;
+  for (let start = 0; start < units.length && best > 0; start += 1) {
+    const unit = units[start];
+    if (unit.char !== token[0] && !unit.readings.some((reading) => reading[0] === token[0])) continue;
+    best = Math.min(best, matchPinyinFrom(units, start, token));
+  }
+  if (!Number.isFinite(best)) return null;
+  return best === 0 ? SCORE_PINYIN : SCORE_INITIALS;
+};
+
+// Smallest edit distance between `pattern` and any substring of `text`; swapping two neighbours is one edit.
+export const approximateDistance = (pattern: string, text: string) => {
+  const m = pattern.length;
+  let before: number[] | null = null;
+  let previous = Array.from({ length: m + 1 }, (_, i) => i);
+  let best = m;
+  for (let j = 1; j <= text.length; j += 1) {
+    const current = [0];
+    for (let i = 1; i <= m; i += 1) {
+      const cost = pattern[i - 1] === text[j - 1] ? 0 : 1;
+      let value = Math.min(previous[i] + 1, current[i - 1] + 1, previous[i - 1] + cost);
+      if (before && i > 1 && pattern[i - 1] === text[j - 2] && pattern[i - 2] === text[j - 1]) {
+        value = Math.min(value, before[i - 2] + 1);
+      }
+      current.push(value);
+    }
+    best = Math.min(best, current[m]);
+    if (best === 0) break;
+    before = previous;
+    previous = current;
+  }
+  return best;
+};
+
+const scoreToken = (token: string, field: PreparedField) => {
+  const at = field.lower.indexOf(token);
+  if (at >= 0) {
+    if (field.lower === token) return SCORE_EXACT;
+    return at === 0 || SEPARATORS.has(field.lower[at - 1]) ? SCORE_WORD_START : SCORE_SUBSTRING;
+  }
+  if (field.units) {
+    const pinyin = matchPinyin(field.units, token);
+    if (pinyin !== null) return pinyin;
+  }
+  const typos = maxTypos(token.length);
+  if (!typos) return null;
+  const distance = Math.min(
+    approximateDistance(token, field.lower),
+    field.pinyin ? approximateDistance(token, field.pinyin) : Infinity,
+  );
+  return distance <= typos ? SCORE_TYPO - distance * 10 : null;
+};
+
+export const splitQueryTokens = (query: string) => query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+
+// Cuts `text` into plain and matched parts for highlighting literal, case-insensitive hits of any token
+// (content-search snippets and the text preview); pinyin and typo matches are not marked.
+export const splitByTokens = (text: string, tokens: string[]) => {
+  const parts: Array<{ text: string; match: boolean }> = [];
+  const sorted = Array.from(new Set(tokens.filter(Boolean))).sort((a, b) => b.length - a.length);
+  if (!sorted.length || !text) return text ? [{ text, match: false }] : parts;
+  const pattern = new RegExp(sorted.map((token) => token.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|"), "gi");
+  let last = 0;
+  for (const hit of text.matchAll(pattern)) {
+    const at = hit.index ?? 0;
+    if (at > last) parts.push({ text: text.slice(last, at), match: false });
+    parts.push({ text: hit[0], match: true });
+    last = at + hit[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+};
+
+export const createTextMatcher = (query: string): TextMatcher => {
+  const tokens = splitQueryTokens(query);
+  const tokenLength = tokens.reduce((sum, token) => sum + token.length, 0);
+  return {
+    tokens,
+    score: (input) => {
+      if (!tokens.length) return 0;
+      const fields = (Array.isArray(input) ? input : [input]).map((field) => prepareField(String(field ?? "")));
+      let total = 0;
+      for (const token of tokens) {
+        let best: number | null = null;
+        fields.forEach((field, index) => {
+          const score = scoreToken(token, field);
+          if (score === null) return;
+          const weighted = index === 0 ? score : score * SECONDARY_FIELD_WEIGHT;
+          if (best === null || weighted > best) best = weighted;
+        });
+        if (best === null) return null;
+        total += best;
+      }
+      // Among equal matches, names the query covers more of come first.
+      const primaryLength = fields[0]?.lower.length ?? 0;
+      return total + (primaryLength ? Math.round((10 * Math.min(tokenLength, primaryLength)) / primaryLength) : 0);
+    },
+  };
+};
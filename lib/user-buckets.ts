@@ -2,6 +2,7 @@ import { decryptCredential, encryptCredential } from "@/lib/crypto";
 import { supabaseAdminRestFetch, readSupabaseRestArray } from "@/lib/supabase";
 import type { RouteTokenCredentials } from "@/lib/route-token";
 import type { AppAccessContext } from "@/lib/access-control";
+import { MAX_R2_RETRIES, toStorageClass, type R2Jurisdiction, type StorageClass, type StorageDriver } from "@/lib/r2-s3";
 
 type UserBucketRow = {
   id: string;
@@ -15,6 +16,17 @@ type UserBucketRow = {
   public_base_url: string | null;
   custom_base_url: string | null;
   transfer_mode_override: string | null;
+  driver: string | null;
+  endpoint: string | null;
+  region: string | null;
+  jurisdiction: string | null;
+  max_retries: number | null;
+  default_storage_class: string | null;
+  versioning_enabled: boolean | null;
+  version_retention: number | null;
+  proxy_cache_control: string | null;
+  edge_cache_seconds: number | null;
+  content_index_enabled: boolean | null;
   is_default: boolean;
   created_at: string;
   updated_at: string;
@@ -30,6 +42,17 @@ export type UserBucketView = {
   bucketLabel: string;
   bucketName: string;
   accountId: string;
+  driver: StorageDriver;
+  endpoint?: string;
+  region?: string;
+  jurisdiction: R2Jurisdiction;
+  maxRetries?: number;
+  defaultStorageClass?: StorageClass;
+  versioningEnabled: boolean;
+  versionRetention: number;
+  proxyCacheControl?: string;
+  edgeCacheSeconds?: number;
+  contentIndexEnabled: boolean;
   isDefault: boolean;
   publicBaseUrl?: string;
   customBaseUrl?: string;
@@ -44,6 +67,17 @@ export type UserBucketDetail = {
   accountId: string;
   accessKeyId: string;
   secretAccessKey: string;
+  driver: StorageDriver;
+  endpoint?: string;
+  region?: string;
+  jurisdiction: R2Jurisdiction;
+  maxRetries?: number;
+  defaultStorageClass?: StorageClass;
+  versioningEnabled: boolean;
+  versionRetention: number;
+  proxyCacheControl?: string;
+  edgeCacheSeconds?: number;
+  contentIndexEnabled: boolean;
   publicBaseUrl?: string;
   customBaseUrl?: string;
   transferModeOverride?: "auto" | "presigned" | "proxy";
@@ -58,6 +92,22 @@ export type UpsertBucketInput = {
   accountId?: string;
   accessKeyId?: string;
   secretAccessKey?: string;
+  driver?: StorageDriver;
+  endpoint?: string;
+  region?: string;
+  jurisdiction?: R2Jurisdiction;
+  // null clears the override and falls back to the default retry policy.
+  maxRetries?: number | null;
+  // null clears the default so uploads use whatever class the bucket itself defaults to.
+  defaultStorageClass?: StorageClass | null;
+  versioningEnabled?: boolean;
+  // null resets to DEFAULT_VERSION_RETENTION.
+  versionRetention?: number | null;
+  // null restores DEFAULT_PROXY_CACHE_CONTROL.
+  proxyCacheControl?: string | null;
+  // null or 0 turns edge caching of public share downloads off.
+  edgeCacheSeconds?: number | null;
+  contentIndexEnabled?: boolean;
   publicBaseUrl?: string;
   customBaseUrl?: string;
   transferModeOverride?: "auto" | "presigned" | "proxy";
@@ -65,7 +115,7 @@ export type UpsertBucketInput = {
 };
 
 const SELECT_COLUMNS =
-  "id,team_id,user_id,bucket_label,bucket_name,account_id,access_key_id_enc,secret_access_key_enc,public_base_url,custom_base_url,transfer_mode_override,is_default,created_at,updated_at";
+  "id,team_id,user_id,bucket_label,bucket_name,account_id,access_key_id_enc,secret_access_key_enc,public_base_url,custom_base_url,transfer_mode_override,driver,endpoint,region,jurisdiction,max_retries,default_storage_class,versioning_enabled,version_retention,proxy_cache_control,edge_cache_seconds,content_index_enabled,is_default,created_at,updated_at";
 
 const encodeFilter = (value: string) => encodeURIComponent(value);
 
@@ -86,14 +136,93 @@ const normalizeLabel = (label?: string | null, bucketName?: string | null) => {
 
 const validateBucketName = (bucketName: string) => /^[a-z0-9][a-z0-9-]{1,61}[a-z0-9]$/i.test(bucketName);
 
+export const toStorageDriver = (raw?: string | null): StorageDriver => (raw === "s3" || raw === "local" ? raw : "r2");
+
+export const toR2Jurisdiction = (raw?: string | null): R2Jurisdiction => (raw === "eu" || raw === "fedramp" ? raw : "default");
+
+// Required for S3-compatible buckets; optional override for R2 (otherwise derived from account ID and jurisdiction).
+const normalizeEndpoint = (raw?: string | null) => {
+  const t = String(raw ?? "").trim();
+  if (!t) return undefined;
+  const withProto = /^https?:\/\//i.test(t) ? t : `https://${t}`;
+  try {
+    const url = new URL(withProto);
+    return `${url.origin}${url.pathname.replace(/\/+$/, "")}`;
+  } catch {
+    throw new Error("S3 Endpoint 格式不正确");
+  }
+};
+
+const normalizeRegion = (raw?: string | null) => String(raw ?? "").trim() || undefined;
+
+const normalizeMaxRetries = (raw?: number | string | null) => {
+  if (raw === null || raw === undefined || String(raw).trim() === "") return undefined;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 0 || n > MAX_R2_RETRIES) throw new Error(`重试次数需为 0-${MAX_R2_RETRIES} 的整数`);
+  return n;
+};
+
+const readMaxRetries = (raw: number | null) => (typeof raw === "number" && Number.isFinite(raw) ? raw : undefined);
+
+export const DEFAULT_VERSION_RETENTION = 10;
+export const MAX_VERSION_RETENTION = 100;
+
+const normalizeVersionRetention = (raw?: number | string | null) => {
+  if (raw === null || raw === undefined || String(raw).trim() === "") return undefined;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 1 || n > MAX_VERSION_RETENTION) throw new Error(`保留版本数需为 1-${MAX_VERSION_RETENTION} 的整数`);
+  return n;
+};
+
+const readVersionRetention = (raw: number | null) =>
+  typeof raw === "number" && Number.isInteger(raw) && raw > 0 ? raw : DEFAULT_VERSION_RETENTION;
+
+export const DEFAULT_PROXY_CACHE_CONTROL = "private, no-cache";
+export const MAX_EDGE_CACHE_SECONDS = 30 * 24 * 3600;
+
+const normalizeProxyCacheControl = (raw?: string | null) => {
+  const value = String(raw ?? "").trim();
+  if (!value) return undefined;
+  if (value.length > 256 || !/^[\x20-\x7E]+$/.test(value)) throw new Error("Cache-Control 只能包含 ASCII 可见字符，且不超过 256 个字符");
+  return value;
+};
+
+const normalizeEdgeCacheSeconds = (raw?: number | string | null) => {
+  if (raw === null || raw === undefined || String(raw).trim() === "") return undefined;
+  const n = Number(raw);
+  if (!Number.isInteger(n) || n < 0 || n > MAX_EDGE_CACHE_SECONDS) throw new Error(`边缘缓存时间需为 0-${MAX_EDGE_CACHE_SECONDS} 的整数秒`);
+  return n || undefined;
+};
+
+const readEdgeCacheSeconds = (raw: number | null) => (typeof raw === "number" && Number.isInteger(raw) && raw > 0 ? raw : undefined);
+
+// account_id doubles as the uniqueness namespace for buckets, so non-R2 drivers derive one when it is left blank.
+const resolveAccountId = (driver: StorageDriver, accountId: string, endpoint?: string) => {
+  if (accountId) return accountId;
+  if (driver === "local") return "local";
+  if (driver === "s3" && endpoint) return new URL(endpoint).host;
+  return "";
+};
+
 const rowToView = (row: UserBucketRow): UserBucketView => ({
   id: row.id,
   Name: row.bucket_label || row.bucket_name,
   CreationDate: row.created_at,
-  transferMode: "presigned",
+  transferMode: toStorageDriver(row.driver) === "local" ? "proxy" : "presigned",
   bucketLabel: row.bucket_label || row.bucket_name,
   bucketName: row.bucket_name,
   accountId: row.account_id,
+  driver: toStorageDriver(row.driver),
+  endpoint: row.endpoint || undefined,
+  region: row.region || undefined,
+  jurisdiction: toR2Jurisdiction(row.jurisdiction),
+  maxRetries: readMaxRetries(row.max_retries),
+  defaultStorageClass: toStorageClass(row.default_storage_class),
+  versioningEnabled: Boolean(row.versioning_enabled),
+  versionRetention: readVersionRetention(row.version_retention),
+  proxyCacheControl: row.proxy_cache_control || undefined,
+  edgeCacheSeconds: readEdgeCacheSeconds(row.edge_cache_seconds),
+  contentIndexEnabled: Boolean(row.content_index_enabled),
   isDefault: Boolean(row.is_default),
   publicBaseUrl: normalizeBaseUrl(row.public_base_url),
   customBaseUrl: normalizeBaseUrl(row.custom_base_url),
@@ -198,8 +327,9 @@ export const listUserBucketViews = async (ctx: AppAccessContext) => {
   return rows.map(rowToView);
 };
 
-export const getUserBucketDetail = async (ctx: AppAccessContext, bucketId: string): Promise<UserBucketDetail> => {
-  const cacheKey = bucketDetailCacheKey(ctx.team.id, bucketId);
+// Session-free lookup for route token redemption; callers must already have established that teamId is trusted.
+export const getTeamBucketDetail = async (teamId: string, bucketId: string): Promise<UserBucketDetail> => {
+  const cacheKey = bucketDetailCacheKey(teamId, bucketId);
   const nowMs = Date.now();
   const store = getUserBucketDetailCacheStore();
   pruneUserBucketDetailCache(store, nowMs);
@@ -213,11 +343,11 @@ export const getUserBucketDetail = async (ctx: AppAccessContext, bucketId: strin
 
   const buildPromise = (async () => {
     const rows = await readRows(
-      `user_r2_buckets?select=${SELECT_COLUMNS}&${teamFilter(ctx)}&id=eq.${encodeFilter(bucketId)}&limit=1`,
+      `user_r2_buckets?select=${SELECT_COLUMNS}&team_id=eq.${encodeFilter(teamId)}&id=eq.${encodeFilter(bucketId)}&limit=1`,
       "读取存储桶信息失败",
     );
     const row = rows[0];
-    if (!row) throw new Error("未找到存储桶");
+    if (!row) throw Object.assign(new Error("未找到存储桶"), { status: 404 });
 
     const [accessKeyId, secretAccessKey] = await Promise.all([
       decryptCredential(row.access_key_id_enc),
@@ -233,6 +363,17 @@ export const getUserBucketDetail = async (ctx: AppAccessContext, bucketId: strin
       accountId: row.account_id,
       accessKeyId,
       secretAccessKey,
+      driver: toStorageDriver(row.driver),
+      endpoint: row.endpoint || undefined,
+      region: row.region || undefined,
+      jurisdiction: toR2Jurisdiction(row.jurisdiction),
+      maxRetries: readMaxRetries(row.max_retries),
+      defaultStorageClass: toStorageClass(row.default_storage_class),
+      versioningEnabled: Boolean(row.versioning_enabled),
+      versionRetention: readVersionRetention(row.version_retention),
+      proxyCacheControl: row.proxy_cache_control || undefined,
+      edgeCacheSeconds: readEdgeCacheSeconds(row.edge_cache_seconds),
+      contentIndexEnabled: Boolean(row.content_index_enabled),
       publicBaseUrl: normalizeBaseUrl(row.public_base_url),
       customBaseUrl: normalizeBaseUrl(row.custom_base_url),
       transferModeOverride:
@@ -255,11 +396,14 @@ export const getUserBucketDetail = async (ctx: AppAccessContext, bucketId: strin
   return await buildPromise;
 };
 
-export const resolveBucketCredentials = async (
-  ctx: AppAccessContext,
+export const getUserBucketDetail = async (ctx: AppAccessContext, bucketId: string): Promise<UserBucketDetail> =>
+  await getTeamBucketDetail(ctx.team.id, bucketId);
+
+export const resolveTeamBucketCredentials = async (
+  teamId: string,
   bucketId: string,
 ): Promise<{ detail: UserBucketDetail; creds: RouteTokenCredentials }> => {
-  const detail = await getUserBucketDetail(ctx, bucketId);
+  const detail = await getTeamBucketDetail(teamId, bucketId);
   return {
     detail,
     creds: {
@@ -267,22 +411,59 @@ export const resolveBucketCredentials = async (
       accessKeyId: detail.accessKeyId,
       secretAccessKey: detail.secretAccessKey,
       bucketName: detail.bucketName,
+      driver: detail.driver,
+      endpoint: detail.endpoint,
+      region: detail.region,
+      jurisdiction: detail.jurisdiction,
+      // Local buckets are namespaced by the owning team, so binding another team's bucket name reaches an empty
+      // directory of one's own instead of their files.
+      ...(detail.driver === "local" ? { localNamespace: detail.teamId } : {}),
+      ...(detail.maxRetries !== undefined ? { retry: { maxRetries: detail.maxRetries } } : {}),
     },
   };
 };
 
-export const createUserBucket = async (ctx: AppAccessContext, input: UpsertBucketInput): Promise<UserBucketView> => {
+export const resolveBucketCredentials = async (
+  ctx: AppAccessContext,
+  bucketId: string,
+): Promise<{ detail: UserBucketDetail; creds: RouteTokenCredentials }> => await resolveTeamBucketCredentials(ctx.team.id, bucketId);
+
+const normalizeNewBucketInput = (input: UpsertBucketInput) => {
+  const driver = toStorageDriver(input.driver);
   const bucketName = normalizeBucketName(input.bucketName);
-  const accountId = normalizeAccountId(input.accountId);
-  const bucketLabel = normalizeLabel(input.bucketLabel, bucketName);
+  const endpoint = driver === "local" ? undefined : normalizeEndpoint(input.endpoint);
+  const accountId = resolveAccountId(driver, normalizeAccountId(input.accountId), endpoint);
   const accessKeyId = String(input.accessKeyId ?? "").trim();
   const secretAccessKey = String(input.secretAccessKey ?? "").trim();
 
   if (!bucketName) throw new Error("桶名称不能为空");
   if (!validateBucketName(bucketName)) throw new Error("桶名称格式不正确");
+  if (driver === "s3" && !endpoint) throw new Error("S3 Endpoint 不能为空");
   if (!accountId) throw new Error("Account ID 不能为空");
-  if (!accessKeyId) throw new Error("Access Key ID 不能为空");
-  if (!secretAccessKey) throw new Error("Secret Access Key 不能为空");
+  if (driver !== "local" && !accessKeyId) throw new Error("Access Key ID 不能为空");
+  if (driver !== "local" && !secretAccessKey) throw new Error("Secret Access Key 不能为空");
+
+  return { driver, bucketName, endpoint, accountId, accessKeyId, secretAccessKey };
+};
+
+// Credentials a not-yet-saved binding would resolve to; used to create the bucket before it is bound.
+export const resolveInputCredentials = (input: UpsertBucketInput): RouteTokenCredentials => {
+  const { driver, bucketName, endpoint, accountId, accessKeyId, secretAccessKey } = normalizeNewBucketInput(input);
+  return {
+    accountId,
+    accessKeyId,
+    secretAccessKey,
+    bucketName,
+    driver,
+    endpoint,
+    region: driver === "local" ? undefined : normalizeRegion(input.region),
+    jurisdiction: driver === "r2" ? toR2Jurisdiction(input.jurisdiction) : "default",
+  };
+};
+
+export const createUserBucket = async (ctx: AppAccessContext, input: UpsertBucketInput): Promise<UserBucketView> => {
+  const { driver, bucketName, endpoint, accountId, accessKeyId, secretAccessKey } = normalizeNewBucketInput(input);
+  const bucketLabel = normalizeLabel(input.bucketLabel, bucketName);
 
   const existing = await readRows(
     `user_r2_buckets?select=${SELECT_COLUMNS}&${teamFilter(ctx)}&account_id=eq.${encodeFilter(accountId)}&bucket_name=eq.${encodeFilter(bucketName)}&limit=1`,
@@ -295,6 +476,17 @@ export const createUserBucket = async (ctx: AppAccessContext, input: UpsertBucke
       accountId,
       accessKeyId,
       secretAccessKey,
+      driver,
+      endpoint,
+      region: input.region,
+      jurisdiction: input.jurisdiction,
+      maxRetries: input.maxRetries,
+      defaultStorageClass: input.defaultStorageClass,
+      versioningEnabled: input.versioningEnabled,
+      versionRetention: input.versionRetention,
+      proxyCacheControl: input.proxyCacheControl,
+      edgeCacheSeconds: input.edgeCacheSeconds,
+      contentIndexEnabled: input.contentIndexEnabled,
       publicBaseUrl: input.publicBaseUrl,
       customBaseUrl: input.customBaseUrl,
       transferModeOverride: input.transferModeOverride,
@@ -310,6 +502,17 @@ export const createUserBucket = async (ctx: AppAccessContext, input: UpsertBucke
     account_id: accountId,
     access_key_id_enc: await encryptCredential(accessKeyId),
     secret_access_key_enc: await encryptCredential(secretAccessKey),
+    driver,
+    endpoint: endpoint ?? null,
+    region: driver === "local" ? null : normalizeRegion(input.region) ?? null,
+    jurisdiction: driver === "r2" ? toR2Jurisdiction(input.jurisdiction) : "default",
+    max_retries: normalizeMaxRetries(input.maxRetries) ?? null,
+    default_storage_class: driver === "local" ? null : toStorageClass(input.defaultStorageClass) ?? null,
+    versioning_enabled: input.versioningEnabled === true,
+    version_retention: normalizeVersionRetention(input.versionRetention) ?? null,
+    proxy_cache_control: normalizeProxyCacheControl(input.proxyCacheControl) ?? null,
+    edge_cache_seconds: normalizeEdgeCacheSeconds(input.edgeCacheSeconds) ?? null,
+    content_index_enabled: input.contentIndexEnabled === true,
     public_base_url: normalizeBaseUrl(input.publicBaseUrl) ?? null,
     custom_base_url: normalizeBaseUrl(input.customBaseUrl) ?? null,
     transfer_mode_override:
@@ -347,6 +550,16 @@ export const updateUserBucket = async (
 ): Promise<UserBucketView> => {
   const patch: Record<string, unknown> = {};
 
+  // Partial updates validate against the stored driver, so an edit that leaves the driver out still gets
+  // the S3 endpoint check and the local-driver restrictions.
+  const current = (
+    await readRows(
+      `user_r2_buckets?select=driver,endpoint&${teamFilter(ctx)}&id=eq.${encodeFilter(bucketId)}&limit=1`,
+      "读取存储桶信息失败",
+    )
+  )[0];
+  if (!current) throw new Error("未找到存储桶");
+
   if (input.bucketName !== undefined) {
     const bucketName = normalizeBucketName(input.bucketName);
     if (!bucketName) throw new Error("桶名称不能为空");
@@ -359,8 +572,35 @@ export const updateUserBucket = async (
     if (label) patch.bucket_label = label;
   }
 
+  const driver = toStorageDriver(input.driver !== undefined ? input.driver : current.driver);
+  if (input.driver !== undefined) patch.driver = driver;
+
+  if (input.endpoint !== undefined || driver === "local") {
+    const endpoint = driver === "local" ? undefined : normalizeEndpoint(input.endpoint);
+    if (driver === "s3" && !endpoint) throw new Error("S3 Endpoint 不能为空");
+    patch.endpoint = endpoint ?? null;
+  } else if (driver === "s3" && !current.endpoint) {
+    throw new Error("S3 Endpoint 不能为空");
+  }
+
+  if (input.region !== undefined) patch.region = normalizeRegion(input.region) ?? null;
+  if (input.jurisdiction !== undefined) patch.jurisdiction = toR2Jurisdiction(input.jurisdiction);
+  if (input.maxRetries !== undefined) patch.max_retries = normalizeMaxRetries(input.maxRetries) ?? null;
+  if (input.defaultStorageClass !== undefined || driver === "local") {
+    patch.default_storage_class = driver === "local" ? null : toStorageClass(input.defaultStorageClass) ?? null;
+  }
+  if (input.versioningEnabled !== undefined) patch.versioning_enabled = input.versioningEnabled === true;
+  if (input.versionRetention !== undefined) patch.version_retention = normalizeVersionRetention(input.versionRetention) ?? null;
+  if (input.proxyCacheControl !== undefined) patch.proxy_cache_control = normalizeProxyCacheControl(input.proxyCacheControl) ?? null;
+  if (input.edgeCacheSeconds !== undefined) patch.edge_cache_seconds = normalizeEdgeCacheSeconds(input.edgeCacheSeconds) ?? null;
+  if (input.contentIndexEnabled !== undefined) patch.content_index_enabled = input.contentIndexEnabled === true;
+
   if (input.accountId !== undefined) {
-    const accountId = normalizeAccountId(input.accountId);
+    const accountId = resolveAccountId(
+      driver,
+      normalizeAccountId(input.accountId),
+      typeof patch.endpoint === "string" ? patch.endpoint : current.endpoint ?? undefined,
+    );
     if (!accountId) throw new Error("Account ID 不能为空");
     patch.account_id = accountId;
   }
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import type { FolderLockRow } from "@/lib/folder-locks";
+import { collectExcludedLockPrefixes, findLockedZipRoot } from "@/lib/zip-download";
+
+const lockRow = (prefix: string, enabled = true) =>
+  ({ id: prefix, team_id: "t1", bucket_id: "b1", prefix, hint: null, enabled }) as FolderLockRow;
+
+const locked = () => false;
+
+describe("public share archives", () => {
+  const rows = [lockRow("share/secret/"), lockRow("share/docs/private/"), lockRow("share/off/", false)];
+
+  it("refuses a file root inside a locked subfolder", () => {
+    expect(findLockedZipRoot(rows, ["share/a.txt", "share/secret/plan.pdf"], locked)).toMatchObject({
+      root: "share/secret/plan.pdf",
+      lock: { prefix: "share/secret/" },
+    });
+  });
+
+  it("refuses a folder root below a locked intermediate folder", () => {
+    const roots = ["share/secret/inner/"];
+    expect(findLockedZipRoot(rows, roots, locked)?.lock.prefix).toBe("share/secret/");
+    // The lock sits above the root, so the nested-lock exclusion alone would have let it through.
+    expect(collectExcludedLockPrefixes(rows, roots, locked)).toEqual([]);
+  });
+
+  it("packs open roots and leaves out only the locks nested inside them", () => {
+    const roots = ["share/docs/", "share/off/readme.md"];
+    expect(findLockedZipRoot(rows, roots, locked)).toBeNull();
+    expect(collectExcludedLockPrefixes(rows, roots, locked)).toEqual(["share/docs/private/"]);
+  });
+
+  it("lets unlocked paths through for signed-in members", () => {
+    const unlocked = (path: string) => path.startsWith("share/secret/");
+    expect(findLockedZipRoot(rows, ["share/secret/plan.pdf"], unlocked)).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+import { createR2Bucket, type R2BucketLike } from "@/lib/r2-s3";
+import { issueRouteToken, type RouteTokenCredentials, type RouteTokenScope, type ZipRouteToken } from "@/lib/route-token";
+import { isRecycleHiddenKey } from "@/lib/file-marks";
+import { findEffectiveFolderLockFromRows, pathWithinFolderPrefix, type FolderLockRow } from "@/lib/folder-locks";
+import { createZipStream, type ZipStreamEntry } from "@/lib/zip-stream";
+
+export const MAX_ZIP_ROOTS = 100;
+
+export type ZipDownloadInput = {
+  basePrefix: string;
+  roots: string[];
+  excludePrefixes: string[];
+  filename: string;
+};
+
+const parentPrefixOf = (key: string) => {
+  const normalized = key.endsWith("/") ? key.slice(0, -1) : key;
+  const idx = normalized.lastIndexOf("/");
+  return idx >= 0 ? normalized.slice(0, idx + 1) : "";
+};
+
+export const normalizeZipRoots = (raw: unknown[]) => {
+  const seen = new Set<string>();
+  const roots: string[] = [];
+  for (const item of raw) {
+    const key = String(item ?? "").trim().replace(/^\/+/, "");
+    if (!key || isRecycleHiddenKey(key) || seen.has(key)) continue;
+    seen.add(key);
+    roots.push(key);
+  }
+  // A folder already covers anything selected beneath it.
+  return roots.filter((key) => !roots.some((other) => other !== key && other.endsWith("/") && key.startsWith(other)));
+};
+
+export const getCommonFolderPrefix = (keys: string[]) => {
+  if (!keys.length) return "";
+  let common = parentPrefixOf(keys[0]).split("/").filter(Boolean);
+  for (const key of keys.slice(1)) {
+    const parts = parentPrefixOf(key).split("/").filter(Boolean);
+    let i = 0;
+    while (i < common.length && i < parts.length && common[i] === parts[i]) i += 1;
+    common = common.slice(0, i);
+  }
+  return common.length ? `${common.join("/")}/` : "";
+};
+
+// The first root that sits at or below a lock the caller has not unlocked; such a root cannot be packed at all.
+export const findLockedZipRoot = (rows: FolderLockRow[], roots: string[], isUnlocked: (path: string) => boolean) => {
+  for (const root of roots) {
+    const lock = findEffectiveFolderLockFromRows(rows, root);
+    if (lock && !isUnlocked(root)) return { root, lock };
+  }
+  return null;
+};
+
+// Locks nested inside folder roots; callers check the roots themselves with findLockedZipRoot first.
+export const collectExcludedLockPrefixes = (
+  rows: FolderLockRow[],
+  roots: string[],
+  isUnlocked: (prefix: string) => boolean,
+) =>
+  rows
+    .filter((row) => row.enabled && roots.some((root) => root.endsWith("/") && pathWithinFolderPrefix(row.prefix, root)))
+    .filter((row) => !isUnlocked(row.prefix))
+    .map((row) => row.prefix);
+
+export const buildZipFileName = (roots: string[], basePrefix: string, fallback = "download") => {
+  const nameOf = (key: string) => key.replace(/\/$/, "").split("/").pop() || "";
+  const base = roots.length === 1 ? nameOf(roots[0]) : nameOf(basePrefix) || fallback;
+  const safe = (base || fallback).replace(/[\r\n"]/g, " ").trim().slice(0, 160) || fallback;
+  return safe.toLowerCase().endsWith(".zip") ? safe : `${safe}.zip`;
+};
+
+export const issueZipDownloadUrl = async (
+  origin: string,
+  scope: RouteTokenScope,
+  input: ZipDownloadInput,
+  expiresInSeconds = 60 * 60,
+) => {
+  const token = await issueRouteToken({ op: "zip", ...scope, ...input }, expiresInSeconds);
+  const base = origin.replace(/\/$/, "");
+  return `${base}/api/download/zip?token=${encodeURIComponent(token)}`;
+};
+
+async function* listZipEntries(bucket: R2BucketLike, payload: ZipRouteToken): AsyncGenerator<ZipStreamEntry> {
+  const isExcluded = (key: string) =>
+    isRecycleHiddenKey(key) || payload.excludePrefixes.some((prefix) => pathWithinFolderPrefix(key, prefix));
+  const entryName = (key: string) => (key.startsWith(payload.basePrefix) ? key.slice(payload.basePrefix.length) : key);
+  const openObject = (key: string) => async () => {
+    const obj = await bucket.get(key);
+    if (!obj?.body) return null;
+    return { body: obj.body as ReadableStream<Uint8Array>, size: obj.size };
+  };
+
+  for (const root of payload.roots) {
+    if (isExcluded(root)) continue;
+    if (!root.endsWith("/")) {
+      yield { name: entryName(root), open: openObject(root) };
+      continue;
+    }
+
+    yield { name: entryName(root), directory: true };
+    let cursor: string | undefined;
+    do {
+      const page = await bucket.list({ prefix: root, cursor, limit: 1000 });
+      for (const obj of page.objects ?? []) {
+        const key = String(obj.key ?? "");
+        if (!key || key === root || isExcluded(key)) continue;
+        if (key.endsWith("/")) {
+          yield { name: entryName(key), directory: true, lastModified: obj.uploaded };
+          continue;
+        }
+        yield { name: entryName(key), size: obj.size, lastModified: obj.uploaded, open: openObject(key) };
+      }
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+  }
+}
+
+const encodeRFC5987ValueChars = (value: string) =>
+  encodeURIComponent(value)
+    .replace(/['()]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+    .replace(/\*/g, "%2A");
+
+export const createZipDownloadResponse = (payload: ZipRouteToken, creds: RouteTokenCredentials) => {
+  const bucket = createR2Bucket(creds);
+  const filename = payload.filename || "download.zip";
+  const safeFallback = filename.replace(/[\/\\"]/g, "_");
+  return new Response(createZipStream(listZipEntries(bucket, payload)), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": `attachment; filename="${safeFallback}"; filename*=UTF-8''${encodeRFC5987ValueChars(filename)}`,
+      "Cache-Control": "no-store",
+    },
+  });
+};
@@ -0,0 +1,141 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { createZipStream, type ZipStreamEntry } from "@/lib/zip-stream";
+
+const encoder = new TextEncoder();
+
+const bodyOf = (...chunks: Uint8Array[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+      controller.close();
+    },
+  });
+
+const fileEntry = (name: string, text: string, knownSize = true): ZipStreamEntry => {
+  const size = knownSize ? encoder.encode(text).length : undefined;
+  return {
+    name,
+    size,
+    lastModified: "2024-05-06T07:08:10Z",
+    open: async () => ({ body: bodyOf(encoder.encode(text)), size }),
+  };
+};
+
+async function* iterate(entries: Iterable<ZipStreamEntry>) {
+  yield* entries;
+}
+
+const readAll = async (stream: ReadableStream<Uint8Array>) => new Uint8Array(await new Response(stream).arrayBuffer());
+
+describe("createZipStream", () => {
+  it("round-trips files, folders and UTF-8 names through JSZip", async () => {
+    const bytes = await readAll(
+      createZipStream(
+        iterate([
+          { name: "docs", directory: true },
+          fileEntry("docs/合同.txt", "第一行\n第二行"),
+          fileEntry("/readme.md/", "# hello"),
+          fileEntry("docs/合同.txt", "duplicate is skipped"),
+          { name: "missing.bin", open: async () => null },
+        ]),
+      ),
+    );
+
+    const zip = await JSZip.loadAsync(bytes, { checkCRC32: true });
+    expect(Object.keys(zip.files).sort()).toEqual(["docs/", "docs/合同.txt", "readme.md"]);
+    expect(zip.files["docs/"].dir).toBe(true);
+    expect(await zip.file("docs/合同.txt")?.async("string")).toBe("第一行\n第二行");
+    expect(await zip.file("readme.md")?.async("string")).toBe("# hello");
+    expect(zip.files["readme.md"].date.toISOString()).toBe("2024-05-06T07:08:10.000Z");
+  });
+
+  it("writes ZIP64 headers when the size is unknown up front", async () => {
+    const bytes = await readAll(createZipStream(iterate([fileEntry("stream.log", "abc".repeat(1000), false)])));
+    const view = new DataView(bytes.buffer);
+    // Local header: version 4.5 with 0xffffffff sizes pointing at the ZIP64 extra field.
+    expect(view.getUint16(4, true)).toBe(45);
+    expect(view.getUint32(22, true)).toBe(0xffffffff);
+
+    const zip = await JSZip.loadAsync(bytes, { checkCRC32: true });
+    expect(await zip.file("stream.log")?.async("string")).toBe("abc".repeat(1000));
+  });
+
+  it("switches to a ZIP64 end record past 65535 entries", async () => {
+    const count = 65_540;
+    const entries = Array.from({ length: count }, (_, i) => fileEntry(`f/${i}.txt`, String(i)));
+    const bytes = await readAll(createZipStream(iterate(entries)));
+
+    const eocd = new DataView(bytes.buffer, bytes.length - 22);
+    expect(eocd.getUint32(0, true)).toBe(0x06054b50);
+    expect(eocd.getUint16(10, true)).toBe(0xffff);
+
+    const zip = await JSZip.loadAsync(bytes);
+    expect(Object.keys(zip.files)).toHaveLength(count);
+    expect(await zip.file(`f/${count - 1}.txt`)?.async("string")).toBe(String(count - 1));
+  }, 60_000);
+
+  it("records sizes and offsets past 4 GiB in ZIP64 fields", async () => {
+    const chunk = new Uint8Array(64 * 1024 * 1024);
+    const chunkCount = 65;
+    const bigSize = chunk.length * chunkCount;
+    let sent = 0;
+    const big: ZipStreamEntry = {
+      name: "big.bin",
+      size: bigSize,
+      open: async () => ({
+        size: bigSize,
+        body: new ReadableStream<Uint8Array>({
+          pull(controller) {
+            if (sent === chunkCount) {
+              controller.close();
+              return;
+            }
+            sent += 1;
+            controller.enqueue(chunk);
+          },
+        }),
+      }),
+    };
+
+    // Keep everything except the repeated payload chunk, keyed by its absolute offset.
+    const pieces: Array<{ offset: number; bytes: Uint8Array }> = [];
+    let total = 0;
+    const reader = createZipStream(iterate([big, fileEntry("after.txt", "tail")])).getReader();
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      if (value !== chunk) pieces.push({ offset: total, bytes: value });
+      total += value.length;
+    }
+    const viewAt = (offset: number, length: number) => {
+      const piece = pieces.find((p) => p.offset <= offset && offset + length <= p.offset + p.bytes.length);
+      if (!piece) throw new Error(`no bytes at ${offset}`);
+      return new DataView(piece.bytes.buffer, piece.bytes.byteOffset + offset - piece.offset, length);
+    };
+
+    const eocd = viewAt(total - 22, 22);
+    expect(eocd.getUint32(16, true)).toBe(0xffffffff);
+    const locator = viewAt(total - 42, 20);
+    expect(locator.getUint32(0, true)).toBe(0x07064b50);
+    const record = viewAt(Number(locator.getBigUint64(8, true)), 56);
+    expect(record.getUint32(0, true)).toBe(0x06064b50);
+    expect(record.getBigUint64(32, true)).toBe(BigInt(2));
+    const cdOffset = Number(record.getBigUint64(48, true));
+    expect(cdOffset).toBeGreaterThan(0xffffffff);
+
+    // First central header: sizes only in the ZIP64 extra field.
+    const first = viewAt(cdOffset, 46 + 7 + 20);
+    expect(first.getUint32(20, true)).toBe(0xffffffff);
+    expect(first.getUint16(46 + 7, true)).toBe(0x0001);
+    expect(first.getBigUint64(46 + 7 + 4, true)).toBe(BigInt(bigSize));
+
+    // Second entry starts past 4 GiB, so its offset moves into the extra field.
+    const second = viewAt(cdOffset + 46 + 7 + 20, 46 + 9 + 12);
+    expect(second.getUint32(0, true)).toBe(0x02014b50);
+    expect(second.getUint32(42, true)).toBe(0xffffffff);
+    const localOffset = Number(second.getBigUint64(46 + 9 + 4, true));
+    expect(viewAt(localOffset, 4).getUint32(0, true)).toBe(0x04034b50);
+    expect(localOffset).toBe(30 + 7 + 20 + bigSize + 24);
+  }, 120_000);
+});
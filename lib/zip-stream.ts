@@ -0,0 +1,273 @@
+export type ZipStreamEntry = {
+  name: string;
+  directory?: boolean;
+  size?: number;
+  lastModified?: string | Date;
+  open?: () => Promise<{ body: ReadableStream<Uint8Array>; size?: number } | null>;
+};
+
+type CentralRecord = {
+  nameBytes: Uint8Array;
+  directory: boolean;
+  zip64: boolean;
+  crc: number;
+  size: number;
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+};
+
+const UINT32_MAX = 0xffffffff;
+const UINT16_MAX = 0xffff;
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = () => {
+  if (crcTable) return crcTable;
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i += 1) {
+    let c = i;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[i] = c >>> 0;
+  }
+  crcTable = table;
+  return table;
+};
+
+const updateCrc32 = (crc: number, chunk: Uint8Array) => {
+  const table = getCrcTable();
+  let c = crc ^ UINT32_MAX;
+  for (let i = 0; i < chunk.length; i += 1) {
+    c = table[(c ^ chunk[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ UINT32_MAX) >>> 0;
+};
+
+class ByteWriter {
+  private readonly view: DataView;
+  readonly bytes: Uint8Array;
+  private pos = 0;
+
+  constructor(length: number) {
+    this.bytes = new Uint8Array(length);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  u16(value: number) {
+    this.view.setUint16(this.pos, value, true);
+    this.pos += 2;
+    return this;
+  }
+
+  u32(value: number) {
+    this.view.setUint32(this.pos, value >>> 0, true);
+    this.pos += 4;
+    return this;
+  }
+
+  u64(value: number) {
+    this.u32(value % 0x100000000);
+    this.u32(Math.floor(value / 0x100000000));
+    return this;
+  }
+
+  raw(value: Uint8Array) {
+    this.bytes.set(value, this.pos);
+    this.pos += value.length;
+    return this;
+  }
+}
+
+const toDosDateTime = (value?: string | Date) => {
+  const parsed = value ? new Date(value) : new Date();
+  const d = Number.isFinite(parsed.getTime()) && parsed.getUTCFullYear() >= 1980 ? parsed : new Date(Date.UTC(1980, 0, 1));
+  return {
+    dosTime: (d.getUTCHours() << 11) | (d.getUTCMinutes() << 5) | Math.floor(d.getUTCSeconds() / 2),
+    dosDate: ((d.getUTCFullYear() - 1980) << 9) | ((d.getUTCMonth() + 1) << 5) | d.getUTCDate(),
+  };
+};
+
+const localHeader = (record: CentralRecord) => {
+  const extraLength = record.zip64 ? 20 : 0;
+  const w = new ByteWriter(30 + record.nameBytes.length + extraLength);
+  w.u32(0x04034b50)
+    .u16(record.zip64 ? 45 : 20)
+    .u16(record.directory ? FLAG_UTF8 : FLAG_UTF8 | FLAG_DATA_DESCRIPTOR)
+    .u16(0)
+    .u16(record.dosTime)
+    .u16(record.dosDate)
+    .u32(0)
+    .u32(record.zip64 ? UINT32_MAX : 0)
+    .u32(record.zip64 ? UINT32_MAX : 0)
+    .u16(record.nameBytes.length)
+    .u16(extraLength)
+    .raw(record.nameBytes);
+  if (record.zip64) w.u16(0x0001).u16(16).u64(0).u64(0);
+  return w.bytes;
+};
+
+const dataDescriptor = (record: CentralRecord) => {
+  if (record.zip64) {
+    return new ByteWriter(24).u32(0x08074b50).u32(record.crc).u64(record.size).u64(record.size).bytes;
+  }
+  return new ByteWriter(16).u32(0x08074b50).u32(record.crc).u32(record.size).u32(record.size).bytes;
+};
+
+const centralHeader = (record: CentralRecord) => {
+  const offsetZip64 = record.offset >= UINT32_MAX;
+  const extraLength = (record.zip64 ? 16 : 0) + (offsetZip64 ? 8 : 0);
+  const version = record.zip64 || offsetZip64 ? 45 : 20;
+  const w = new ByteWriter(46 + record.nameBytes.length + (extraLength ? extraLength + 4 : 0));
+  w.u32(0x02014b50)
+    .u16(version)
+    .u16(version)
+    .u16(record.directory ? FLAG_UTF8 : FLAG_UTF8 | FLAG_DATA_DESCRIPTOR)
+    .u16(0)
+    .u16(record.dosTime)
+    .u16(record.dosDate)
+    .u32(record.crc)
+    .u32(record.zip64 ? UINT32_MAX : record.size)
+    .u32(record.zip64 ? UINT32_MAX : record.size)
+    .u16(record.nameBytes.length)
+    .u16(extraLength ? extraLength + 4 : 0)
+    .u16(0)
+    .u16(0)
+    .u16(0)
+    .u32(record.directory ? 0x10 : 0)
+    .u32(offsetZip64 ? UINT32_MAX : record.offset)
+    .raw(record.nameBytes);
+  if (extraLength) {
+    w.u16(0x0001).u16(extraLength);
+    if (record.zip64) w.u64(record.size).u64(record.size);
+    if (offsetZip64) w.u64(record.offset);
+  }
+  return w.bytes;
+};
+
+const endOfCentralDirectory = (count: number, cdOffset: number, cdSize: number) => {
+  const zip64 = count >= UINT16_MAX || cdOffset >= UINT32_MAX || cdSize >= UINT32_MAX;
+  const eocd = new ByteWriter(22)
+    .u32(0x06054b50)
+    .u16(0)
+    .u16(0)
+    .u16(zip64 ? UINT16_MAX : count)
+    .u16(zip64 ? UINT16_MAX : count)
+    .u32(zip64 ? UINT32_MAX : cdSize)
+    .u32(zip64 ? UINT32_MAX : cdOffset)
+    .u16(0).bytes;
+  if (!zip64) return [eocd];
+  const zip64Offset = cdOffset + cdSize;
+  const record = new ByteWriter(56)
+    .u32(0x06064b50)
+    .u64(44)
+    .u16(45)
+    .u16(45)
+    .u32(0)
+    .u32(0)
+    .u64(count)
+    .u64(count)
+    .u64(cdSize)
+    .u64(cdOffset).bytes;
+  const locator = new ByteWriter(20).u32(0x07064b50).u32(0).u64(zip64Offset).u32(1).bytes;
+  return [record, locator, eocd];
+};
+
+async function* generateZip(entries: AsyncIterable<ZipStreamEntry>): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const records: CentralRecord[] = [];
+  const usedNames = new Set<string>();
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const directory = Boolean(entry.directory);
+    const baseName = entry.name.replace(/^\/+/, "").replace(/\/+$/, "");
+    if (!baseName) continue;
+    const name = directory ? `${baseName}/` : baseName;
+    if (usedNames.has(name)) continue;
+
+    const opened = directory ? null : await entry.open?.();
+    if (!directory && !opened) continue;
+    usedNames.add(name);
+
+    const body = opened?.body ?? null;
+    const expectedSize = Number(opened?.size ?? entry.size ?? NaN);
+    const record: CentralRecord = {
+      nameBytes: encoder.encode(name),
+      directory,
+      // Sizes are written after the data, so fall back to ZIP64 whenever the size is unknown or too large.
+      zip64: !directory && !(Number.isFinite(expectedSize) && expectedSize < UINT32_MAX),
+      crc: 0,
+      size: 0,
+      offset,
+      ...toDosDateTime(entry.lastModified),
+    };
+
+    const header = localHeader(record);
+    offset += header.length;
+    yield header;
+    if (!body) {
+      records.push(record);
+      continue;
+    }
+
+    const reader = body.getReader();
+    let drained = false;
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        if (!value?.length) continue;
+        record.crc = updateCrc32(record.crc, value);
+        record.size += value.length;
+        offset += value.length;
+        yield value;
+      }
+      drained = true;
+    } finally {
+      if (drained) reader.releaseLock();
+      else await reader.cancel().catch(() => undefined);
+    }
+    if (!record.zip64 && record.size >= UINT32_MAX) throw new Error("文件大小与记录不一致，打包已中止");
+
+    const descriptor = dataDescriptor(record);
+    offset += descriptor.length;
+    yield descriptor;
+    records.push(record);
+  }
+
+  const cdOffset = offset;
+  let cdSize = 0;
+  for (const record of records) {
+    const header = centralHeader(record);
+    cdSize += header.length;
+    yield header;
+  }
+  for (const chunk of endOfCentralDirectory(records.length, cdOffset, cdSize)) yield chunk;
+}
+
+// Builds an uncompressed (STORE) ZIP on the fly. Entries are pulled one at a time so only the
+// object currently being copied is in flight, regardless of how many entries the archive holds.
+export const createZipStream = (entries: AsyncIterable<ZipStreamEntry>): ReadableStream<Uint8Array> => {
+  const iterator = generateZip(entries);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await iterator.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined);
+    },
+  });
+};
@@ -1,6 +1,20 @@
 import type { NextConfig } from "next";
 
+// Self-hosted builds that use the local directory driver serve the API from the Node.js runtime: the
+// "node.ts" extension turns on app/api/node/[...path]/route.node.ts and every /api request is rewritten to it.
+// Cloudflare Pages builds leave LOCAL_STORAGE_ROOT unset and keep the edge-only route set next-on-pages needs.
+const nodeApi = Boolean(process.env.LOCAL_STORAGE_ROOT?.trim());
+
 const nextConfig: NextConfig = {
+  pageExtensions: nodeApi ? ["node.ts", "tsx", "ts", "jsx", "js"] : ["tsx", "ts", "jsx", "js"],
+  async rewrites() {
+    if (!nodeApi) return [];
+    return {
+      beforeFiles: [{ source: "/api/:path((?!node/).*)", destination: "/api/node/:path" }],
+      afterFiles: [],
+      fallback: [],
+    };
+  },
   async headers() {
     return [
       {
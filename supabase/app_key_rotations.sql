@@ -0,0 +1,51 @@
+-- Run in Supabase SQL editor after user_r2_buckets.sql.
+-- Tracks re-encryption of stored bucket credentials to the newest key in CREDENTIALS_ENCRYPTION_KEYS.
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.app_key_rotations (
+  id uuid primary key default gen_random_uuid(),
+  target_key_id text not null,
+  status text not null default 'queued' check (status in ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  -- Buckets are walked in id order; the last one handled is the resume point.
+  last_bucket_id uuid,
+  processed bigint not null default 0,
+  migrated bigint not null default 0,
+  failed bigint not null default 0,
+  total bigint not null default 0,
+  failures jsonb not null default '[]'::jsonb,
+  error text,
+  lease_until timestamptz,
+  created_by uuid references auth.users(id) on delete set null,
+  created_by_name text not null default '',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+-- At most one rotation may be queued or running at a time.
+create unique index if not exists app_key_rotations_single_active_idx
+on public.app_key_rotations ((true))
+where status in ('queued', 'running');
+
+create index if not exists app_key_rotations_created_at_idx
+on public.app_key_rotations (created_at desc);
+
+create or replace function public.tg_set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_app_key_rotations_updated_at on public.app_key_rotations;
+create trigger trg_app_key_rotations_updated_at
+before update on public.app_key_rotations
+for each row
+execute function public.tg_set_updated_at();
+
+-- Only the service role reads or writes this table.
+alter table public.app_key_rotations enable row level security;
@@ -19,6 +19,50 @@ create table if not exists public.user_r2_buckets (
   constraint user_r2_buckets_user_account_bucket_unique unique (user_id, account_id, bucket_name)
 );
 
+alter table public.user_r2_buckets add column if not exists driver text not null default 'r2';
+alter table public.user_r2_buckets add column if not exists endpoint text;
+alter table public.user_r2_buckets add column if not exists region text;
+alter table public.user_r2_buckets add column if not exists jurisdiction text not null default 'default';
+-- Null uses the built-in retry policy.
+alter table public.user_r2_buckets add column if not exists max_retries integer;
+-- Null leaves the storage class to the bucket's own default.
+alter table public.user_r2_buckets add column if not exists default_storage_class text;
+-- Opt-in version history: overwritten objects are kept under .r2-admin-go/versions/ (see user_r2_object_versions.sql).
+alter table public.user_r2_buckets add column if not exists versioning_enabled boolean not null default false;
+-- Versions kept per object; null uses the built-in default.
+alter table public.user_r2_buckets add column if not exists version_retention integer;
+-- Cache-Control sent by the /api/object proxy; null uses "private, no-cache" (revalidate with ETag / Last-Modified).
+alter table public.user_r2_buckets add column if not exists proxy_cache_control text;
+-- Seconds public share downloads stay in the edge cache; null or 0 disables edge caching.
+alter table public.user_r2_buckets add column if not exists edge_cache_seconds integer;
+-- Opt-in full-text index of text and document contents (see user_r2_content_index.sql).
+alter table public.user_r2_buckets add column if not exists content_index_enabled boolean not null default false;
+
+alter table public.user_r2_buckets drop constraint if exists user_r2_buckets_driver_check;
+alter table public.user_r2_buckets
+  add constraint user_r2_buckets_driver_check check (driver in ('r2', 's3', 'local'));
+
+alter table public.user_r2_buckets drop constraint if exists user_r2_buckets_jurisdiction_check;
+alter table public.user_r2_buckets
+  add constraint user_r2_buckets_jurisdiction_check check (jurisdiction in ('default', 'eu', 'fedramp'));
+
+alter table public.user_r2_buckets drop constraint if exists user_r2_buckets_max_retries_check;
+alter table public.user_r2_buckets
+  add constraint user_r2_buckets_max_retries_check check (max_retries is null or max_retries between 0 and 10);
+
+alter table public.user_r2_buckets drop constraint if exists user_r2_buckets_default_storage_class_check;
+alter table public.user_r2_buckets
+  add constraint user_r2_buckets_default_storage_class_check
+  check (default_storage_class is null or default_storage_class in ('STANDARD', 'STANDARD_IA'));
+
+alter table public.user_r2_buckets drop constraint if exists user_r2_buckets_version_retention_check;
+alter table public.user_r2_buckets
+  add constraint user_r2_buckets_version_retention_check check (version_retention is null or version_retention between 1 and 100);
+
+alter table public.user_r2_buckets drop constraint if exists user_r2_buckets_edge_cache_seconds_check;
+alter table public.user_r2_buckets
+  add constraint user_r2_buckets_edge_cache_seconds_check check (edge_cache_seconds is null or edge_cache_seconds between 0 and 2592000);
+
 create index if not exists user_r2_buckets_user_id_idx on public.user_r2_buckets (user_id);
 create unique index if not exists user_r2_buckets_single_default_idx on public.user_r2_buckets (user_id) where is_default = true;
 
@@ -0,0 +1,76 @@
+-- Run in Supabase SQL editor after user_r2_object_index.sql.
+-- Extracted text of text and document files, for buckets that opt in (user_r2_buckets.content_index_enabled).
+-- Rows hang off the object index, so deleting or pruning an indexed object drops its text as well.
+
+create extension if not exists pg_trgm;
+
+create table if not exists public.user_r2_content_index (
+  team_id uuid not null references public.app_teams(id) on delete cascade,
+  bucket_id uuid not null,
+  key text not null,
+  -- Etag of the object the text was read from; the crawler skips objects whose etag has not changed.
+  etag text,
+  -- Empty when nothing could be extracted (scanned PDF, binary data, damaged file).
+  content text not null default '',
+  indexed_at timestamptz not null default now(),
+  primary key (bucket_id, key),
+  foreign key (bucket_id, key) references public.user_r2_object_index(bucket_id, key) on delete cascade
+);
+
+create index if not exists user_r2_content_index_content_trgm_idx
+on public.user_r2_content_index using gin (lower(content) gin_trgm_ops);
+
+alter table public.user_r2_content_index enable row level security;
+
+-- Etags of the already indexed keys among p_keys.
+create or replace function public.r2_content_index_etags(p_bucket_id uuid, p_keys text[])
+returns table (key text, etag text)
+language sql
+stable
+as $$
+  select c.key, c.etag
+  from public.user_r2_content_index c
+  where c.bucket_id = p_bucket_id and c.key = any(p_keys);
+$$;
+
+create or replace function public.r2_content_index_delete_keys(p_bucket_id uuid, p_keys text[])
+returns void
+language sql
+as $$
+  delete from public.user_r2_content_index
+  where bucket_id = p_bucket_id and key = any(p_keys);
+$$;
+
+-- Files under p_prefix whose text contains every (lowercased) term, in key order after p_after_key. Each row
+-- carries a snippet around the first hit of the first term and the 1-based line that hit is on.
+create or replace function public.r2_content_index_search(
+  p_bucket_id uuid,
+  p_terms text[],
+  p_prefix text,
+  p_after_key text,
+  p_limit integer
+)
+returns table (key text, size bigint, uploaded timestamptz, snippet text, hit_line integer)
+language sql
+stable
+as $$
+  select
+    c.key,
+    i.size,
+    i.uploaded,
+    substr(c.content, greatest(1, hit.pos - 60), 200) as snippet,
+    (1 + char_length(left(c.content, hit.pos - 1)) - char_length(replace(left(c.content, hit.pos - 1), E'\n', '')))::integer as hit_line
+  from public.user_r2_content_index c
+  join public.user_r2_object_index i on i.bucket_id = c.bucket_id and i.key = c.key
+  cross join lateral (select strpos(lower(c.content), p_terms[1]) as pos) hit
+  where c.bucket_id = p_bucket_id
+    and c.key like public.r2_object_index_prefix_pattern(p_prefix)
+    and (coalesce(p_after_key, '') = '' or c.key > p_after_key)
+    -- The first term goes through LIKE so the trigram index can narrow the scan.
+    and lower(c.content) like '%' || public.r2_object_index_prefix_pattern(p_terms[1])
+    and not exists (
+      select 1 from unnest(p_terms) as t(term) where strpos(lower(c.content), t.term) = 0
+    )
+  order by c.key
+  limit greatest(1, least(coalesce(p_limit, 50), 500));
+$$;
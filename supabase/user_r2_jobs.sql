@@ -0,0 +1,57 @@
+-- Run in Supabase SQL editor after user_r2_file_marks.sql.
+
+create table if not exists public.user_r2_jobs (
+  id uuid primary key default gen_random_uuid(),
+  team_id uuid not null references public.app_teams(id) on delete cascade,
+  bucket_id uuid not null references public.user_r2_buckets(id) on delete cascade,
+  created_by uuid not null references auth.users(id) on delete cascade,
+  created_by_name text not null default '',
+  kind text not null,
+  status text not null default 'queued' check (status in ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  summary text not null default '',
+  payload jsonb not null default '{}'::jsonb,
+  checkpoint jsonb not null default '{}'::jsonb,
+  processed bigint not null default 0,
+  total bigint,
+  error text,
+  lease_until timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+alter table public.user_r2_jobs drop constraint if exists user_r2_jobs_kind_check;
+alter table public.user_r2_jobs
+  add constraint user_r2_jobs_kind_check
+  check (kind in ('move', 'copy', 'delete', 'recycle', 'clear_recycle', 'storage_class', 'reindex', 'content_index', 'empty_bucket'));
+
+create index if not exists user_r2_jobs_team_bucket_status_idx
+on public.user_r2_jobs (team_id, bucket_id, status, created_at desc);
+
+create index if not exists user_r2_jobs_created_by_idx
+on public.user_r2_jobs (team_id, created_by, created_at desc);
+
+create or replace function public.tg_set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_user_r2_jobs_updated_at on public.user_r2_jobs;
+create trigger trg_user_r2_jobs_updated_at
+before update on public.user_r2_jobs
+for each row
+execute function public.tg_set_updated_at();
+
+alter table public.user_r2_jobs enable row level security;
+
+drop policy if exists "user_r2_jobs_select_own" on public.user_r2_jobs;
+create policy "user_r2_jobs_select_own"
+on public.user_r2_jobs
+for select
+to authenticated
+using (auth.uid() = created_by);
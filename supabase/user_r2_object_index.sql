@@ -0,0 +1,190 @@
+-- Run in Supabase SQL editor after user_r2_jobs.sql.
+-- Searchable copy of each bucket's object listing. The panel keeps it current on every write it makes;
+-- a "reindex" background job rescans the bucket to pick up changes made elsewhere.
+
+create extension if not exists pg_trgm;
+
+create table if not exists public.user_r2_object_index (
+  team_id uuid not null references public.app_teams(id) on delete cascade,
+  bucket_id uuid not null references public.user_r2_buckets(id) on delete cascade,
+  key text not null,
+  size bigint not null default 0,
+  etag text,
+  uploaded timestamptz,
+  -- Listings do not report a content type; it is only known for objects written through the panel.
+  content_type text,
+  -- Full pinyin and initials of the key's Chinese characters ("合同.pdf" -> "hetong.pdf ht.pdf"), written
+  -- by the panel so pinyin queries can be narrowed in SQL.
+  key_pinyin text,
+  -- Number of folders above the object ("a/b/c.txt" -> 2, "a/b/" -> 1).
+  depth integer generated always as (
+    length(rtrim(key, '/')) - length(replace(rtrim(key, '/'), '/', ''))
+  ) stored,
+  indexed_at timestamptz not null default now(),
+  primary key (bucket_id, key)
+);
+
+alter table public.user_r2_object_index add column if not exists key_pinyin text;
+
+create index if not exists user_r2_object_index_prefix_idx
+on public.user_r2_object_index (bucket_id, key text_pattern_ops);
+
+create index if not exists user_r2_object_index_key_trgm_idx
+on public.user_r2_object_index using gin (key gin_trgm_ops);
+
+create index if not exists user_r2_object_index_key_pinyin_trgm_idx
+on public.user_r2_object_index using gin (key_pinyin gin_trgm_ops);
+
+create index if not exists user_r2_object_index_indexed_at_idx
+on public.user_r2_object_index (bucket_id, indexed_at);
+
+alter table public.user_r2_object_index enable row level security;
+
+create table if not exists public.user_r2_object_index_state (
+  bucket_id uuid primary key references public.user_r2_buckets(id) on delete cascade,
+  team_id uuid not null references public.app_teams(id) on delete cascade,
+  -- Set when the first full scan finished; search only trusts the index from then on.
+  ready_at timestamptz,
+  reconciled_at timestamptz,
+  objects bigint not null default 0,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_r2_object_index_state enable row level security;
+
+-- LIKE pattern matching every key under p_prefix, with wildcards in the prefix escaped.
+create or replace function public.r2_object_index_prefix_pattern(p_prefix text)
+returns text
+language sql
+immutable
+as $$
+  select replace(replace(replace(coalesce(p_prefix, ''), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+$$;
+
+create or replace function public.r2_object_index_delete_keys(p_bucket_id uuid, p_keys text[])
+returns void
+language sql
+as $$
+  delete from public.user_r2_object_index
+  where bucket_id = p_bucket_id and key = any(p_keys);
+$$;
+
+create or replace function public.r2_object_index_delete_prefix(p_bucket_id uuid, p_prefix text)
+returns void
+language sql
+as $$
+  delete from public.user_r2_object_index
+  where bucket_id = p_bucket_id and key like public.r2_object_index_prefix_pattern(p_prefix);
+$$;
+
+-- Copies (or moves) index rows key by key; p_from_keys[i] lands at p_to_keys[i], possibly in another bucket,
+-- with p_to_key_pinyin[i] as its pinyin text.
+drop function if exists public.r2_object_index_copy_keys(uuid, uuid, uuid, text[], text[], boolean);
+
+create or replace function public.r2_object_index_copy_keys(
+  p_from_bucket_id uuid,
+  p_to_team_id uuid,
+  p_to_bucket_id uuid,
+  p_from_keys text[],
+  p_to_keys text[],
+  p_to_key_pinyin text[],
+  p_move boolean
+)
+returns void
+language plpgsql
+as $$
+begin
+  insert into public.user_r2_object_index (team_id, bucket_id, key, key_pinyin, size, etag, uploaded, content_type, indexed_at)
+  select p_to_team_id, p_to_bucket_id, pairs.to_key, nullif(pairs.to_key_pinyin, ''), src.size, src.etag, now(), src.content_type, now()
+  from unnest(p_from_keys, p_to_keys, p_to_key_pinyin) as pairs(from_key, to_key, to_key_pinyin)
+  join public.user_r2_object_index src on src.bucket_id = p_from_bucket_id and src.key = pairs.from_key
+  on conflict (bucket_id, key) do update
+  set key_pinyin = excluded.key_pinyin,
+      size = excluded.size,
+      etag = excluded.etag,
+      uploaded = excluded.uploaded,
+      content_type = excluded.content_type,
+      indexed_at = excluded.indexed_at;
+
+  -- Extracted text travels with the object when the target bucket keeps a content index
+  -- (user_r2_content_index.sql, which may not have been run).
+  if to_regclass('public.user_r2_content_index') is not null
+    and exists (select 1 from public.user_r2_buckets b where b.id = p_to_bucket_id and b.content_index_enabled) then
+    insert into public.user_r2_content_index (team_id, bucket_id, key, etag, content, indexed_at)
+    select p_to_team_id, p_to_bucket_id, pairs.to_key, src.etag, src.content, now()
+    from unnest(p_from_keys, p_to_keys) as pairs(from_key, to_key)
+    join public.user_r2_content_index src on src.bucket_id = p_from_bucket_id and src.key = pairs.from_key
+    on conflict (bucket_id, key) do update
+    set etag = excluded.etag,
+        content = excluded.content,
+        indexed_at = excluded.indexed_at;
+  end if;
+
+  if p_move then
+    delete from public.user_r2_object_index
+    where bucket_id = p_from_bucket_id
+      and key = any(p_from_keys)
+      and not (p_to_bucket_id = p_from_bucket_id and key = any(p_to_keys));
+  end if;
+end;
+$$;
+
+-- Size, object count and newest upload of each direct child folder of p_prefix.
+create or replace function public.r2_object_index_folder_stats(p_bucket_id uuid, p_prefix text)
+returns table (folder_key text, size bigint, objects bigint, last_modified timestamptz)
+language sql
+stable
+as $$
+  select
+    coalesce(p_prefix, '') || split_part(substr(key, length(coalesce(p_prefix, '')) + 1), '/', 1) || '/' as folder_key,
+    sum(size)::bigint as size,
+    count(*)::bigint as objects,
+    max(uploaded) as last_modified
+  from public.user_r2_object_index
+  where bucket_id = p_bucket_id
+    and key like public.r2_object_index_prefix_pattern(p_prefix)
+    and position('/' in substr(key, length(coalesce(p_prefix, '')) + 1)) > 1
+  group by 1;
+$$;
+
+create or replace function public.r2_object_index_usage(p_bucket_id uuid, p_prefix text)
+returns table (objects bigint, bytes bigint)
+language sql
+stable
+as $$
+  select count(*)::bigint as objects, coalesce(sum(size), 0)::bigint as bytes
+  from public.user_r2_object_index
+  where bucket_id = p_bucket_id and key like public.r2_object_index_prefix_pattern(p_prefix);
+$$;
+
+-- Rows of one bucket whose key contains every term, literally or in key_pinyin, or close enough to be a typo
+-- (terms of four or more characters). Search ranks and narrows these further in code. The condition is built
+-- per term with `ilike` and `<%` so the trigram indexes above apply; the function-level setting makes `<%`
+-- use the same 0.4 word similarity the code expects.
+create or replace function public.r2_object_index_match_terms(p_bucket_id uuid, p_terms text[])
+returns setof public.user_r2_object_index
+language plpgsql
+stable
+set pg_trgm.word_similarity_threshold = 0.4
+as $$
+declare
+  term text;
+  pattern text;
+  conditions text := '';
+begin
+  foreach term in array coalesce(p_terms, '{}'::text[]) loop
+    pattern := '%' || replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+    conditions := conditions || format(
+      ' and (i.key ilike %1$L or i.key_pinyin ilike %1$L%2$s)',
+      pattern,
+      case
+        when char_length(term) >= 4 then format(' or %1$L <%% i.key or %1$L <%% i.key_pinyin', term)
+        else ''
+      end
+    );
+  end loop;
+
+  return query execute 'select i.* from public.user_r2_object_index i where i.bucket_id = $1' || conditions
+  using p_bucket_id;
+end;
+$$;
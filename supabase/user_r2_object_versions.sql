@@ -0,0 +1,26 @@
+-- Run in Supabase SQL editor after user_r2_file_marks.sql.
+
+create table if not exists public.user_r2_object_versions (
+  id uuid primary key default gen_random_uuid(),
+  team_id uuid not null references public.app_teams(id) on delete cascade,
+  bucket_id uuid not null references public.user_r2_buckets(id) on delete cascade,
+  item_key text not null,
+  storage_key text not null,
+  size bigint not null default 0,
+  etag text,
+  last_modified timestamptz,
+  reason text not null default 'upload',
+  created_by uuid references auth.users(id) on delete set null,
+  created_by_name text not null default '',
+  created_at timestamptz not null default now()
+);
+
+alter table public.user_r2_object_versions drop constraint if exists user_r2_object_versions_reason_check;
+alter table public.user_r2_object_versions
+  add constraint user_r2_object_versions_reason_check
+  check (reason in ('upload', 'multipart', 'metadata', 'restore'));
+
+create index if not exists user_r2_object_versions_item_idx
+on public.user_r2_object_versions (team_id, bucket_id, item_key, created_at desc);
+
+alter table public.user_r2_object_versions enable row level security;
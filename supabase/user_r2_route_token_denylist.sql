@@ -0,0 +1,26 @@
+-- Run in Supabase SQL editor after user_r2_shares.sql.
+-- Route tokens (proxy upload / download / zip links) only reference a bucket; a row here revokes one token
+-- before it expires. Rows past expires_at are no longer needed and are pruned when new revocations are added.
+
+create table if not exists public.user_r2_route_token_denylist (
+  token_id uuid primary key,
+  team_id uuid not null references public.app_teams(id) on delete cascade,
+  bucket_id uuid not null references public.user_r2_buckets(id) on delete cascade,
+  op text not null,
+  item_key text not null default '',
+  reason text not null default '',
+  revoked_by uuid references auth.users(id) on delete set null,
+  revoked_by_name text not null default '',
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.user_r2_route_token_denylist drop constraint if exists user_r2_route_token_denylist_op_check;
+alter table public.user_r2_route_token_denylist
+  add constraint user_r2_route_token_denylist_op_check
+  check (op in ('put', 'mp', 'object', 'zip'));
+
+create index if not exists user_r2_route_token_denylist_bucket_idx
+on public.user_r2_route_token_denylist (team_id, bucket_id, created_at desc);
+
+alter table public.user_r2_route_token_denylist enable row level security;